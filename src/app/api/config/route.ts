@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import type { DataSchema, CompanyConfig } from '@/types'
-import { DataSchemaSchema, CompanyConfigSchema } from '@/types'
+import { CompanyConfigSchema } from '@/types'
+import { ComputedDataSchemaSchema } from '@/lib/computed-columns'
 
 // Armazenamento em memória (em produção, usar banco de dados)
 const schemasStore = new Map<string, DataSchema>()
@@ -56,7 +57,7 @@ export async function POST(request: NextRequest) {
     switch (type) {
       case 'schema': {
         // Validar schema
-        const result = DataSchemaSchema.safeParse(body)
+        const result = ComputedDataSchemaSchema.safeParse(body)
         if (!result.success) {
           return NextResponse.json(
             { error: 'Schema inválido', details: result.error.errors },
@@ -1,16 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
-
-// Limite de tamanho do arquivo (50MB)
-const MAX_FILE_SIZE = 50 * 1024 * 1024
-
-// Tipos de arquivo permitidos
-const ALLOWED_TYPES = [
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', // xlsx
-  'application/vnd.ms-excel', // xls
-  'text/csv', // csv
-]
-
-const ALLOWED_EXTENSIONS = ['.xlsx', '.xls', '.csv']
+import { getMaxFileSize } from '@/lib/config'
+import { formatFileSize } from '@/lib/utils'
+import { detectFileFormat, getSupportedExtensions, readFileHead } from '@/lib/excel-parser'
 
 export async function POST(request: NextRequest) {
   try {
@@ -25,21 +16,21 @@ export async function POST(request: NextRequest) {
       )
     }
     
-    // Validar tamanho
-    if (file.size > MAX_FILE_SIZE) {
+    // Validar tipo pelo conteúdo (magic bytes), não só pela extensão
+    const format = detectFileFormat(file.name, await readFileHead(file))
+    
+    if (!format) {
       return NextResponse.json(
-        { error: 'Arquivo muito grande. Máximo: 50MB' },
+        { error: `Tipo de arquivo não suportado. Use ${getSupportedExtensions().join(', ')}` },
         { status: 400 }
       )
     }
     
-    // Validar tipo
-    const extension = file.name.substring(file.name.lastIndexOf('.')).toLowerCase()
-    const isValidType = ALLOWED_TYPES.includes(file.type) || ALLOWED_EXTENSIONS.includes(extension)
-    
-    if (!isValidType) {
+    // Validar tamanho (limite configurável pelo formato detectado)
+    const maxFileSize = getMaxFileSize(format.id)
+    if (file.size > maxFileSize) {
       return NextResponse.json(
-        { error: 'Tipo de arquivo não suportado. Use .xlsx, .xls ou .csv' },
+        { error: `Arquivo muito grande. Máximo: ${formatFileSize(maxFileSize)}` },
         { status: 400 }
       )
     }
@@ -52,6 +43,7 @@ export async function POST(request: NextRequest) {
         name: file.name,
         size: file.size,
         type: file.type,
+        format: format.id,
       },
       message: 'Arquivo validado. Processamento será feito no cliente.',
     })
@@ -7,21 +7,29 @@ import {
   DataTable, 
   Toolbar, 
   Pagination,
-  Charts 
+  Charts,
+  SheetTabs,
+  ClipboardPaste,
+  TypeReviewPanel,
+  SchemaMatchPanel,
+  ValidationPanel,
+  DiffPanel
 } from '@/components'
 import { useAppStore } from '@/lib/store'
 import { cn } from '@/lib/utils'
 import { BarChart3, Table2, Upload, Sparkles, Keyboard, X } from 'lucide-react'
 import { useKeyboardShortcuts, formatShortcut, type KeyboardShortcut } from '@/lib/useKeyboardShortcuts'
+import { useClipboardImport } from '@/lib/useClipboardImport'
 
 type ViewMode = 'table' | 'charts'
 
 export default function HomePage() {
-  const { data, isLoading, error, toggleDarkMode, clearData, setSearch, setPage, tableState } = useAppStore()
+  const { data, isLoading, error, toggleDarkMode, clearData, setSearch, setPage, tableState, undo } = useAppStore()
   const [viewMode, setViewMode] = useState<ViewMode>('table')
   const [showShortcuts, setShowShortcuts] = useState(false)
   const searchInputRef = useRef<HTMLInputElement>(null)
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const { pasteFromClipboard } = useClipboardImport()
   
   // Memoized actions for keyboard shortcuts
   const focusSearch = useCallback(() => {
@@ -64,7 +72,8 @@ export default function HomePage() {
   const shortcuts: KeyboardShortcut[] = useMemo(() => [
     { key: 'f', ctrl: true, action: focusSearch, description: 'Focar na busca' },
     { key: 'o', ctrl: true, action: triggerUpload, description: 'Abrir arquivo' },
-    { key: 'v', ctrl: true, shift: true, action: toggleView, description: 'Alternar tabela/gráficos' },
+    { key: 'v', ctrl: true, shift: true, action: pasteFromClipboard, description: 'Colar tabela da área de transferência' },
+    { key: 'g', ctrl: true, shift: true, action: toggleView, description: 'Alternar tabela/gráficos' },
     { key: 'd', ctrl: true, action: toggleDarkMode, description: 'Alternar modo escuro' },
     { key: 'Escape', action: clearSearch, description: 'Limpar busca' },
     { key: '?', shift: true, action: () => setShowShortcuts(true), description: 'Mostrar atalhos' },
@@ -73,7 +82,8 @@ export default function HomePage() {
     { key: 'ArrowLeft', ctrl: true, action: goToPrevPage, description: 'Página anterior' },
     { key: 'ArrowRight', ctrl: true, action: goToNextPage, description: 'Próxima página' },
     { key: 'Delete', ctrl: true, action: clearData, description: 'Limpar dados' },
-  ], [focusSearch, triggerUpload, toggleView, toggleDarkMode, clearSearch, goToFirstPage, goToLastPage, goToPrevPage, goToNextPage, clearData])
+    { key: 'z', ctrl: true, action: undo, description: 'Desfazer mesclagem de duplicatas' },
+  ], [focusSearch, triggerUpload, pasteFromClipboard, toggleView, toggleDarkMode, clearSearch, goToFirstPage, goToLastPage, goToPrevPage, goToNextPage, clearData, undo])
   
   // Register keyboard shortcuts
   useKeyboardShortcuts(shortcuts)
@@ -111,6 +121,7 @@ export default function HomePage() {
             
             {/* Upload */}
             <FileUpload />
+            <ClipboardPaste className="mt-4" />
             
             {/* Features */}
             <div className="grid grid-cols-3 gap-4 mt-8">
@@ -169,9 +180,14 @@ export default function HomePage() {
               </div>
             </div>
             
+            {/* Abas de planilhas (pastas de trabalho com várias planilhas) */}
+            <SheetTabs />
+            
             {/* Conteúdo principal */}
             {viewMode === 'table' ? (
               <>
+                <DiffPanel />
+                <ValidationPanel />
                 <DataTable />
                 <Pagination />
               </>
@@ -227,6 +243,10 @@ export default function HomePage() {
         aria-hidden="true"
       />
       
+      {/* Schema salvo reconhecido e revisão dos tipos após a importação */}
+      <SchemaMatchPanel />
+      <TypeReviewPanel />
+      
       {/* Keyboard Shortcuts Modal */}
       {showShortcuts && (
         <KeyboardShortcutsModal
@@ -44,7 +44,7 @@ export function Charts({ className }: ChartsProps) {
     
     // Encontra colunas numéricas e de badge para gráficos
     const numericColumns = data.schema.columns.filter(
-      c => ['number', 'currency', 'percentage', 'progress'].includes(c.format.type)
+      c => ['number', 'integer', 'currency', 'percentage', 'progress', 'duration'].includes(c.format.type)
     )
     
     const badgeColumns = data.schema.columns.filter(
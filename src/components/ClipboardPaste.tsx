@@ -0,0 +1,49 @@
+'use client'
+
+import { ClipboardPaste as ClipboardIcon } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useClipboardImport } from '@/lib/useClipboardImport'
+
+interface ClipboardPasteProps {
+  className?: string
+}
+
+/**
+ * Área de colagem: recebe intervalos copiados do Excel ou tabelas de páginas web
+ */
+export function ClipboardPaste({ className }: ClipboardPasteProps) {
+  const { importContent, pasteFromClipboard } = useClipboardImport()
+
+  return (
+    <div
+      role="button"
+      tabIndex={0}
+      aria-label="Colar tabela da área de transferência"
+      onPaste={(e) => {
+        e.preventDefault()
+        importContent({
+          html: e.clipboardData.getData('text/html') || undefined,
+          text: e.clipboardData.getData('text/plain') || undefined,
+        })
+      }}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter' || e.key === ' ') {
+          e.preventDefault()
+          pasteFromClipboard()
+        }
+      }}
+      onDoubleClick={() => pasteFromClipboard()}
+      className={cn(
+        'flex items-center justify-center gap-3 px-4 py-3 rounded-xl border-2 border-dashed border-gray-200 dark:border-gray-700',
+        'text-sm text-gray-500 dark:text-gray-400 transition-colors',
+        'hover:border-primary-500 focus:border-primary-500 focus:bg-primary-50/50 focus:outline-none',
+        className
+      )}
+    >
+      <ClipboardIcon className="w-5 h-5 text-primary-600 dark:text-primary-400" aria-hidden="true" />
+      <span>
+        Copiou uma tabela? Clique aqui e pressione <kbd className="px-1 py-0.5 bg-gray-100 dark:bg-gray-800 rounded text-xs">Ctrl + V</kbd>
+      </span>
+    </div>
+  )
+}
@@ -0,0 +1,208 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ArrowLeft, GripVertical, Link2, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { remapSchemaMatch, type SchemaMatch } from '@/lib/schema-matching'
+import { isComputedColumn } from '@/lib/computed-columns'
+import type { ParseResult } from '@/lib/excel-parser'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+
+// Tipo de dado usado no arrastar e soltar dos cabeçalhos
+const DRAG_TYPE = 'application/x-source-column'
+
+interface ColumnMappingWizardProps {
+  source: ParseResult
+  match: SchemaMatch
+  onBack: () => void
+  onApply: (match: SchemaMatch) => void
+}
+
+/**
+ * Associa manualmente os cabeçalhos do arquivo às colunas de um schema
+ * salvo: arraste um cabeçalho sobre a coluna (ou escolha na lista). O
+ * relatório mostra as colunas do arquivo sem destino e as do schema sem
+ * origem.
+ */
+export function ColumnMappingWizard({ source, match, onBack, onApply }: ColumnMappingWizardProps) {
+  const [mapping, setMapping] = useState<Record<string, string>>(match.mapping)
+  const [dropTarget, setDropTarget] = useState<string | null>(null)
+
+  const current = useMemo(
+    () => remapSchemaMatch(source, match.schema, mapping),
+    [source, match.schema, mapping]
+  )
+
+  const headerTexts = useMemo(
+    () => new Map(source.headers.map((key, i) => [key, source.sourceHeaders?.[i] ?? key])),
+    [source]
+  )
+
+  // Um cabeçalho do arquivo vai para no máximo uma coluna do schema
+  const assign = (columnKey: string, sourceKey: string | null) => {
+    setMapping(prev => {
+      const next = Object.fromEntries(Object.entries(prev).filter(([, key]) => key !== sourceKey))
+      delete next[columnKey]
+      if (sourceKey) next[columnKey] = sourceKey
+      return next
+    })
+  }
+
+  const handleDrop = (columnKey: string, e: React.DragEvent) => {
+    e.preventDefault()
+    setDropTarget(null)
+    const sourceKey = e.dataTransfer.getData(DRAG_TYPE)
+    if (sourceKey) assign(columnKey, sourceKey)
+  }
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onBack, description: 'Voltar' },
+  ])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onBack}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="column-mapping-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-3xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <Link2 className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 id="column-mapping-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Mapear colunas
+              </h2>
+              <p className="text-xs text-gray-500 truncate">
+                {match.schema.name} — {Math.round(current.score * 100)}% de semelhança
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onBack}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr] gap-4 px-6 py-4 max-h-[60vh] overflow-auto text-sm">
+          {/* Colunas do schema (destinos) */}
+          <ul className="space-y-1.5">
+            {match.schema.columns.filter(column => !isComputedColumn(column)).map(column => {
+              const sourceKey = mapping[column.key]
+              return (
+                <li
+                  key={column.key}
+                  onDragOver={(e) => {
+                    e.preventDefault()
+                    setDropTarget(column.key)
+                  }}
+                  onDragLeave={() => setDropTarget(prev => prev === column.key ? null : prev)}
+                  onDrop={(e) => handleDrop(column.key, e)}
+                  className={cn(
+                    'flex items-center gap-3 px-3 py-2 rounded-lg border transition-colors',
+                    dropTarget === column.key
+                      ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                      : sourceKey
+                        ? 'border-gray-200 dark:border-gray-700'
+                        : 'border-dashed border-amber-300 dark:border-amber-700'
+                  )}
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">{column.label}</p>
+                    <p className="text-xs text-gray-400 font-mono truncate">{column.key}</p>
+                  </div>
+                  <select
+                    value={sourceKey ?? ''}
+                    onChange={(e) => assign(column.key, e.target.value || null)}
+                    className={cn(
+                      'max-w-[45%] px-2 py-1.5 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800',
+                      !sourceKey && 'text-amber-600 dark:text-amber-400'
+                    )}
+                    aria-label={`Cabeçalho do arquivo para ${column.label}`}
+                  >
+                    <option value="">Sem origem</option>
+                    {source.headers.map(key => (
+                      <option key={key} value={key}>{headerTexts.get(key)}</option>
+                    ))}
+                  </select>
+                </li>
+              )
+            })}
+          </ul>
+
+          {/* Cabeçalhos do arquivo ainda sem destino */}
+          <div>
+            <p className="mb-2 text-xs font-medium text-gray-500 dark:text-gray-400">
+              Cabeçalhos do arquivo sem destino
+            </p>
+            {current.extra.length > 0 ? (
+              <ul className="flex flex-wrap gap-1.5">
+                {current.extra.map(({ key, header }) => (
+                  <li
+                    key={key}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData(DRAG_TYPE, key)
+                      e.dataTransfer.effectAllowed = 'link'
+                    }}
+                    className="flex items-center gap-1 px-2 py-1 rounded-md bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 cursor-grab active:cursor-grabbing"
+                    title={key}
+                  >
+                    <GripVertical className="w-3 h-3 text-gray-400" aria-hidden="true" />
+                    {header}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-xs text-gray-400">Todos os cabeçalhos foram associados</p>
+            )}
+          </div>
+        </div>
+
+        {/* Relatório */}
+        <div className="px-6 py-3 space-y-1 text-xs border-t border-gray-200 dark:border-gray-800">
+          <p className={cn(current.missing.length > 0 ? 'text-amber-600 dark:text-amber-400' : 'text-gray-500')}>
+            {current.missing.length > 0
+              ? `Colunas do schema sem origem (ficarão vazias): ${current.missing.map(column => column.label).join(', ')}`
+              : 'Todas as colunas do schema têm origem'}
+          </p>
+          <p className="text-gray-500">
+            {current.extra.length > 0
+              ? `Colunas do arquivo sem destino (serão acrescentadas): ${current.extra.map(column => column.header).join(', ')}`
+              : 'Nenhuma coluna do arquivo ficou sem destino'}
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-between gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onBack}
+            className="flex items-center gap-1.5 px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            <ArrowLeft className="w-4 h-4" aria-hidden="true" />
+            Voltar
+          </button>
+          <button
+            type="button"
+            onClick={() => onApply(current)}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Aplicar e lembrar mapeamento
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
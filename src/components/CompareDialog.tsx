@@ -0,0 +1,176 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { FileSpreadsheet, GitCompare, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/lib/store'
+import { getAcceptAttribute } from '@/lib/excel-parser'
+import { changeTypeLabels, diffData, type ChangeType } from '@/lib/data-diff'
+import { useDatasetFile } from '@/lib/useDatasetFile'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+import type { ProcessedData } from '@/types'
+
+interface CompareDialogProps {
+  onClose: () => void
+}
+
+/**
+ * Compara os dados atuais com uma versão anterior do arquivo, casando as
+ * linhas por uma coluna chave presente nas duas versões
+ */
+export function CompareDialog({ onClose }: CompareDialogProps) {
+  const { data, diffSource, showDiff } = useAppStore()
+  const { readFile, isReading, error: readError } = useDatasetFile()
+  const [previous, setPrevious] = useState<ProcessedData | null>(null)
+  const [keyColumn, setKeyColumn] = useState('')
+
+  // Durante uma comparação, a versão nova continua sendo a dos dados comparados
+  const current = diffSource ?? data
+
+  // Colunas chave possíveis: as que existem nas duas versões
+  const commonColumns = useMemo(() => {
+    if (!current || !previous) return []
+    const previousKeys = new Set(previous.schema.columns.map(column => column.key))
+    return current.schema.columns.filter(column => previousKeys.has(column.key))
+  }, [current, previous])
+
+  const handleFile = async (file: File) => {
+    const loaded = await readFile(file)
+    if (!loaded) return
+    setPrevious(loaded)
+    const keys = new Set(loaded.schema.columns.map(column => column.key))
+    setKeyColumn(current?.schema.columns.find(column => keys.has(column.key))?.key ?? '')
+  }
+
+  const diff = useMemo(() => {
+    if (!current || !previous || !keyColumn) return null
+    return diffData(previous, current, keyColumn)
+  }, [current, previous, keyColumn])
+
+  const handleApply = () => {
+    if (!diff) return
+    showDiff(diff)
+    onClose()
+  }
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onClose, description: 'Fechar comparação' },
+  ])
+
+  if (!current) return null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="compare-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-lg w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <GitCompare className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h2 id="compare-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Comparar versões
+              </h2>
+              <p className="text-xs text-gray-500">Veja o que mudou desde uma versão anterior do arquivo</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 text-sm text-gray-700 dark:text-gray-300">
+          {/* Versão anterior */}
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="w-5 h-5 text-gray-400 shrink-0" aria-hidden="true" />
+            <span className="flex-1 truncate">
+              {previous
+                ? `${previous.metadata.sourceFileName ?? 'Versão anterior'} · ${previous.rows.length.toLocaleString('pt-BR')} linhas`
+                : 'Nenhuma versão anterior carregada'}
+            </span>
+            <label className={cn(
+              'px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800',
+              isReading && 'opacity-50 pointer-events-none'
+            )}>
+              {isReading ? 'Lendo...' : previous ? 'Trocar arquivo' : 'Carregar arquivo'}
+              <input
+                type="file"
+                accept={getAcceptAttribute()}
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) handleFile(file)
+                }}
+              />
+            </label>
+          </div>
+          {readError && <p className="text-xs text-red-600">{readError}</p>}
+
+          {previous && (
+            commonColumns.length === 0 ? (
+              <p className="text-xs text-red-600">As duas versões não têm colunas em comum</p>
+            ) : (
+              <>
+                <label className="block space-y-1">
+                  <span className="text-xs font-medium text-gray-500">Coluna chave</span>
+                  <select
+                    value={keyColumn}
+                    onChange={(e) => setKeyColumn(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                  >
+                    {commonColumns.map(column => (
+                      <option key={column.key} value={column.key}>{column.label}</option>
+                    ))}
+                  </select>
+                </label>
+
+                {/* Resumo */}
+                {diff && (
+                  <p className="text-xs text-gray-500">
+                    {(Object.keys(changeTypeLabels) as ChangeType[])
+                      .map(change => `${changeTypeLabels[change]}: ${diff.counts[change].toLocaleString('pt-BR')}`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </>
+            )
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!diff}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Comparar
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
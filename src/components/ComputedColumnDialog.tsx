@@ -0,0 +1,242 @@
+'use client'
+
+import { useMemo, useRef, useState } from 'react'
+import { Sigma, X } from 'lucide-react'
+import { cn, formatValue } from '@/lib/utils'
+import { useAppStore } from '@/lib/store'
+import { columnTypeLabels } from '@/lib/config'
+import { slugifyHeader } from '@/lib/column-keys'
+import { retypeColumn } from '@/lib/excel-parser'
+import { getSupportedFunctions } from '@/lib/formula-engine'
+import { checkExpression, computeColumns } from '@/lib/computed-columns'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+import type { CellValue, ColumnDefinition, ColumnType } from '@/types'
+
+// Tipos que fazem sentido como resultado de uma expressão
+const RESULT_TYPES: ColumnType[] = [
+  'number', 'integer', 'currency', 'percentage', 'string', 'date', 'datetime', 'duration', 'boolean', 'badge',
+]
+
+// Linhas mostradas na prévia
+const PREVIEW_ROWS = 5
+
+interface ComputedColumnDialogProps {
+  onClose: () => void
+}
+
+/**
+ * Cria uma coluna calculada a partir de uma expressão com as outras
+ * colunas, com prévia do resultado nas primeiras linhas
+ */
+export function ComputedColumnDialog({ onClose }: ComputedColumnDialogProps) {
+  const { data, displayTimeZone, addComputedColumn } = useAppStore()
+  const [label, setLabel] = useState('')
+  const [expression, setExpression] = useState('')
+  const [type, setType] = useState<ColumnType>('number')
+  const expressionRef = useRef<HTMLTextAreaElement>(null)
+
+  const columns = useMemo(() => data?.schema.columns ?? [], [data?.schema.columns])
+
+  // Chave única derivada do nome
+  const key = useMemo(() => {
+    const base = slugifyHeader(label) || 'calculada'
+    const keys = new Set(columns.map(column => column.key))
+    let candidate = base
+    for (let suffix = 2; keys.has(candidate); suffix++) candidate = `${base}_${suffix}`
+    return candidate
+  }, [label, columns])
+
+  const check = useMemo(
+    () => expression.trim() ? checkExpression(expression, columns.map(column => column.key), key) : null,
+    [expression, columns, key]
+  )
+  const error = check && 'error' in check ? check.error : null
+
+  // Prévia: a coluna calculada nas primeiras linhas, já com o tipo escolhido
+  const preview = useMemo(() => {
+    if (!data || !check || error) return null
+    const draft: ColumnDefinition = { key, label: label || key, format: { type }, expression }
+    const rows = data.rows.slice(0, PREVIEW_ROWS)
+    const computed = computeColumns({ ...data.schema, columns: [...columns, draft] }, rows)
+    const values = computed.rows.map(row => row[key] as CellValue)
+    const column = retypeColumn(draft, type, values, { timeZone: displayTimeZone })
+    return { column, values, issue: computed.issues.find(issue => issue.columnKey === key)?.message }
+  }, [data, check, error, key, label, type, expression, columns, displayTimeZone])
+
+  const canCreate = !!label.trim() && !!preview && !preview.issue
+
+  const insertText = (text: string) => {
+    const textarea = expressionRef.current
+    const start = textarea?.selectionStart ?? expression.length
+    const end = textarea?.selectionEnd ?? expression.length
+    setExpression(expression.slice(0, start) + text + expression.slice(end))
+    requestAnimationFrame(() => {
+      textarea?.focus()
+      textarea?.setSelectionRange(start + text.length, start + text.length)
+    })
+  }
+
+  const handleCreate = () => {
+    if (!canCreate) return
+    addComputedColumn({ ...preview.column, label: label.trim(), header: label.trim() })
+    onClose()
+  }
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onClose, description: 'Fechar coluna calculada' },
+  ])
+
+  if (!data) return null
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="computed-column-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-2xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <Sigma className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <h2 id="computed-column-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+              Nova coluna calculada
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 max-h-[65vh] overflow-auto text-sm text-gray-700 dark:text-gray-300">
+          <div className="grid grid-cols-1 sm:grid-cols-[2fr_1fr] gap-3">
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-gray-500">Nome</span>
+              <input
+                type="text"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="Margem"
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                autoFocus
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-medium text-gray-500">Tipo do resultado</span>
+              <select
+                value={type}
+                onChange={(e) => setType(e.target.value as ColumnType)}
+                className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+              >
+                {RESULT_TYPES.map(t => (
+                  <option key={t} value={t}>{columnTypeLabels[t]}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block space-y-1">
+            <span className="text-xs font-medium text-gray-500">Expressão</span>
+            <textarea
+              ref={expressionRef}
+              value={expression}
+              onChange={(e) => setExpression(e.target.value)}
+              placeholder="(preco - custo) / preco"
+              rows={3}
+              spellCheck={false}
+              className={cn(
+                'w-full px-3 py-2 rounded-lg border font-mono text-sm bg-white dark:bg-gray-800',
+                error ? 'border-red-400' : 'border-gray-200 dark:border-gray-700'
+              )}
+              aria-invalid={error ? true : undefined}
+              aria-describedby="computed-column-error"
+            />
+            <span id="computed-column-error" className="block text-xs text-red-600 min-h-4">
+              {error ?? preview?.issue}
+            </span>
+          </label>
+
+          {/* Colunas e funções disponíveis */}
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">Colunas</p>
+            <div className="flex flex-wrap gap-1">
+              {columns.map(column => (
+                <button
+                  key={column.key}
+                  type="button"
+                  onClick={() => insertText(column.key)}
+                  title={column.label}
+                  className="px-2 py-0.5 rounded-md bg-gray-100 dark:bg-gray-800 font-mono text-xs hover:bg-primary-50 hover:text-primary-700"
+                >
+                  {column.key}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">Funções</p>
+            <div className="flex flex-wrap gap-1">
+              {getSupportedFunctions().map(name => (
+                <button
+                  key={name}
+                  type="button"
+                  onClick={() => insertText(`${name}(`)}
+                  className="px-2 py-0.5 rounded-md border border-gray-200 dark:border-gray-700 font-mono text-xs hover:bg-primary-50 hover:text-primary-700"
+                >
+                  {name}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Prévia */}
+          {preview && (
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">Prévia</p>
+              <ul className="rounded-lg border border-gray-200 dark:border-gray-700 divide-y divide-gray-100 dark:divide-gray-800">
+                {preview.values.map((value, i) => (
+                  <li key={i} className="flex justify-between gap-3 px-3 py-1.5">
+                    <span className="text-xs text-gray-400">Linha {i + 1}</span>
+                    <span className="font-medium text-gray-900 dark:text-white">
+                      {formatValue(value, preview.column.format)}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleCreate}
+            disabled={!canCreate}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Criar coluna
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
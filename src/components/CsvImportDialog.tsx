@@ -0,0 +1,194 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { FileText, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import {
+  sniffCSV,
+  CSV_DELIMITERS,
+  CSV_ENCODINGS,
+  type CsvFormatOptions,
+} from '@/lib/csv-stream'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+
+interface CsvImportDialogProps {
+  fileName: string
+  /** Bytes iniciais do arquivo, usados na detecção e na pré-visualização */
+  sample: Uint8Array
+  onConfirm: (options: CsvFormatOptions) => void
+  onCancel: () => void
+}
+
+const DECIMAL_SEPARATORS = [
+  { value: ',', label: 'Vírgula (1.234,56)' },
+  { value: '.', label: 'Ponto (1,234.56)' },
+]
+
+/**
+ * Exibe um valor da pré-visualização; números aparecem alinhados à direita
+ * para deixar claro o que foi reconhecido como numérico
+ */
+function PreviewCell({ value }: { value: unknown }) {
+  if (value === null || value === undefined) {
+    return <td className="px-2 py-1 text-gray-300">—</td>
+  }
+  if (typeof value === 'number') {
+    return (
+      <td className="px-2 py-1 text-right font-mono text-primary-700 dark:text-primary-400">
+        {value.toLocaleString('pt-BR', { maximumFractionDigits: 10 })}
+      </td>
+    )
+  }
+  return <td className="px-2 py-1 truncate max-w-[12rem]">{String(value)}</td>
+}
+
+export function CsvImportDialog({ fileName, sample, onConfirm, onCancel }: CsvImportDialogProps) {
+  // Campos vazios = detecção automática
+  const [overrides, setOverrides] = useState<CsvFormatOptions>({})
+
+  const detected = useMemo(() => sniffCSV(sample), [sample])
+  const current = useMemo(() => sniffCSV(sample, overrides), [sample, overrides])
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onCancel, description: 'Cancelar importação' },
+  ])
+
+  const labelOf = (options: { value: string; label: string }[], value: string) =>
+    options.find(option => option.value === value)?.label ?? value
+
+  const selectClass = 'px-2 py-1.5 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800'
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onCancel}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="csv-import-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-3xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <FileText className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 id="csv-import-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Opções de importação
+              </h2>
+              <p className="text-xs text-gray-500 truncate">{fileName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Configurações detectadas */}
+        <div className="px-6 py-4 grid grid-cols-1 sm:grid-cols-3 gap-3 text-sm">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Codificação</span>
+            <select
+              value={overrides.encoding ?? ''}
+              onChange={(e) => setOverrides(prev => ({
+                ...prev,
+                encoding: (e.target.value || undefined) as CsvFormatOptions['encoding'],
+              }))}
+              className={selectClass}
+            >
+              <option value="">Automático ({labelOf(CSV_ENCODINGS, detected.encoding)})</option>
+              {CSV_ENCODINGS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Delimitador</span>
+            <select
+              value={overrides.delimiter ?? ''}
+              onChange={(e) => setOverrides(prev => ({ ...prev, delimiter: e.target.value || undefined }))}
+              className={selectClass}
+            >
+              <option value="">Automático ({labelOf(CSV_DELIMITERS, detected.delimiter)})</option>
+              {CSV_DELIMITERS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600 dark:text-gray-400">Separador decimal</span>
+            <select
+              value={overrides.decimalSeparator ?? ''}
+              onChange={(e) => setOverrides(prev => ({
+                ...prev,
+                decimalSeparator: (e.target.value || undefined) as CsvFormatOptions['decimalSeparator'],
+              }))}
+              className={selectClass}
+            >
+              <option value="">Automático ({labelOf(DECIMAL_SEPARATORS, detected.decimalSeparator)})</option>
+              {DECIMAL_SEPARATORS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {/* Pré-visualização */}
+        <div className="px-6 pb-4">
+          <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">
+            Pré-visualização ({current.preview.length} primeiras linhas)
+          </p>
+          <div className="max-h-64 overflow-auto rounded-lg border border-gray-200 dark:border-gray-800">
+            <table className="w-full text-xs text-gray-700 dark:text-gray-300">
+              <tbody>
+                {current.preview.map((row, rowIndex) => (
+                  <tr
+                    key={rowIndex}
+                    className={cn(
+                      'border-b border-gray-100 dark:border-gray-800 last:border-0',
+                      rowIndex === 0 && 'bg-gray-50 dark:bg-gray-800/50 font-medium'
+                    )}
+                  >
+                    {row.map((cell, cellIndex) => (
+                      <PreviewCell key={cellIndex} value={cell} />
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm({
+              encoding: current.encoding,
+              delimiter: current.delimiter,
+              decimalSeparator: current.decimalSeparator,
+            })}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Importar
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
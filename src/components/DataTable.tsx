@@ -11,11 +11,23 @@ import {
   Check,
   X,
   Image as ImageIcon,
-  Pencil
+  Pencil,
+  FunctionSquare,
+  Clock,
+  Timer,
+  AlertTriangle,
+  Sigma
 } from 'lucide-react'
 import { cn, formatValue } from '@/lib/utils'
+import { isDocumentType, isValidDocument } from '@/lib/br-documents'
+import { parseEditValue } from '@/lib/excel-parser'
+import { getLocaleSeparators } from '@/lib/locale-number'
+import { columnTypeLabels } from '@/lib/config'
 import { useAppStore, useFilteredData } from '@/lib/store'
-import type { ColumnDefinition, CellValue } from '@/types'
+import { getCellAddress } from '@/lib/formula-sheet'
+import { isComputedColumn } from '@/lib/computed-columns'
+import type { CellChange, RowDiff } from '@/lib/data-diff'
+import type { ColumnDefinition, CellValue, CellSpan, DataRow } from '@/types'
 
 // ============================================
 // COMPONENTES DE CÉLULA ESPECIALIZADOS
@@ -162,6 +174,50 @@ function CurrencyCell({ value, column }: CellProps) {
   )
 }
 
+function IntegerCell({ value, column }: CellProps) {
+  return <span className="font-mono tabular-nums">{formatValue(value, column.format)}</span>
+}
+
+function TimeCell({ value, column }: CellProps) {
+  return (
+    <span className="inline-flex items-center gap-1.5 tabular-nums">
+      <Clock className="w-3.5 h-3.5 text-gray-400" />
+      {formatValue(value, column.format)}
+    </span>
+  )
+}
+
+function DurationCell({ value, column }: CellProps) {
+  return (
+    <span className={cn(
+      'inline-flex items-center gap-1.5 font-mono tabular-nums',
+      Number(value) < 0 && 'text-red-600'
+    )}>
+      <Timer className="w-3.5 h-3.5 text-gray-400" />
+      {formatValue(value, column.format)}
+    </span>
+  )
+}
+
+function DocumentCell({ value, column }: CellProps) {
+  const { type } = column.format
+  const formatted = formatValue(value, column.format)
+  
+  if (!isDocumentType(type) || isValidDocument(value, type)) {
+    return <span className="font-mono tabular-nums">{formatted}</span>
+  }
+  
+  return (
+    <span
+      className="inline-flex items-center gap-1.5 font-mono text-red-600"
+      title={`${columnTypeLabels[type]} inválido`}
+    >
+      <AlertTriangle className="w-3.5 h-3.5" />
+      {formatted}
+    </span>
+  )
+}
+
 // ============================================
 // CÉLULA GENÉRICA
 // ============================================
@@ -184,6 +240,17 @@ function TableCell({ value, column }: CellProps) {
       return <ImageCell value={value} column={column} />
     case 'currency':
       return <CurrencyCell value={value} column={column} />
+    case 'integer':
+      return <IntegerCell value={value} column={column} />
+    case 'time':
+      return <TimeCell value={value} column={column} />
+    case 'duration':
+      return <DurationCell value={value} column={column} />
+    case 'cpf':
+    case 'cnpj':
+    case 'cep':
+    case 'plate':
+      return <DocumentCell value={value} column={column} />
     default:
       return <span>{formatValue(value, column.format)}</span>
   }
@@ -197,6 +264,10 @@ interface EditableCellProps {
   rowId: string
   value: CellValue
   column: ColumnDefinition
+  /** Fórmula da célula, editada no lugar do valor calculado */
+  formula?: string
+  /** Locale dos números digitados quando a coluna não define um */
+  locale?: string
   isEditing: boolean
   onStartEdit: () => void
   onSave: (value: CellValue) => void
@@ -207,12 +278,23 @@ function EditableCell({
   rowId: _rowId, 
   value, 
   column, 
+  formula,
+  locale,
   isEditing, 
   onStartEdit, 
   onSave, 
   onCancel 
 }: EditableCellProps) {
-  const [editValue, setEditValue] = useState<string>(String(value ?? ''))
+  // Horários e durações são editados no formato exibido ("08:30", "1:30:00")
+  const isTimeValue = (column.format.type === 'time' || column.format.type === 'duration') && value != null
+  // Números são editados com o separador decimal do locale, sem milhar
+  const { decimal } = getLocaleSeparators(column.format.locale ?? locale)
+  const initialValue = formula ?? (
+    isTimeValue ? formatValue(value, column.format)
+      : typeof value === 'number' ? String(value).replace('.', decimal)
+        : String(value ?? '')
+  )
+  const [editValue, setEditValue] = useState<string>(initialValue)
   const inputRef = useRef<HTMLInputElement>(null)
   
   useEffect(() => {
@@ -223,31 +305,20 @@ function EditableCell({
   }, [isEditing])
   
   useEffect(() => {
-    setEditValue(String(value ?? ''))
-  }, [value])
+    setEditValue(initialValue)
+  }, [initialValue])
   
   const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
       e.preventDefault()
-      const type = column.format.type
-      let newValue: CellValue = editValue
-      
-      // Type conversion
-      if (type === 'number' || type === 'currency' || type === 'percentage' || type === 'progress') {
-        const num = parseFloat(editValue.replace(/[^\d.-]/g, ''))
-        newValue = isNaN(num) ? null : num
-      } else if (type === 'boolean') {
-        newValue = ['true', 'sim', 'yes', '1', 's'].includes(editValue.toLowerCase())
-      }
-      
-      onSave(newValue)
+      onSave(parseEditValue(editValue, column.format, locale))
     } else if (e.key === 'Escape') {
-      setEditValue(String(value ?? ''))
+      setEditValue(initialValue)
       onCancel()
     } else if (e.key === 'Tab') {
       // Allow tab to move to next cell (handled by parent)
     }
-  }, [editValue, column.format.type, onSave, onCancel, value])
+  }, [editValue, column.format, locale, onSave, onCancel, initialValue])
   
   if (isEditing) {
     return (
@@ -259,17 +330,7 @@ function EditableCell({
         onKeyDown={handleKeyDown}
         onBlur={() => {
           // Save on blur
-          const type = column.format.type
-          let newValue: CellValue = editValue
-          
-          if (type === 'number' || type === 'currency' || type === 'percentage' || type === 'progress') {
-            const num = parseFloat(editValue.replace(/[^\d.-]/g, ''))
-            newValue = isNaN(num) ? null : num
-          } else if (type === 'boolean') {
-            newValue = ['true', 'sim', 'yes', '1', 's'].includes(editValue.toLowerCase())
-          }
-          
-          onSave(newValue)
+          onSave(parseEditValue(editValue, column.format, locale))
         }}
         className={cn(
           'w-full px-2 py-1 text-sm border-2 border-primary-500 rounded-md',
@@ -303,6 +364,90 @@ function EditableCell({
   )
 }
 
+// ============================================
+// CÉLULAS MESCLADAS
+// ============================================
+
+type SpanLayout = Map<string, { rowSpan: number; colSpan: number; value: CellValue } | 'covered'>
+
+/**
+ * Calcula rowSpan/colSpan das células mescladas para as linhas da página,
+ * considerando apenas as colunas visíveis
+ */
+function buildSpanLayout(
+  merges: CellSpan[],
+  rows: DataRow[],
+  allRows: DataRow[],
+  allColumns: ColumnDefinition[],
+  visibleColumns: ColumnDefinition[]
+): SpanLayout {
+  const layout: SpanLayout = new Map()
+  const pagePosition = new Map(rows.map((row, i) => [row._rowIndex, i]))
+  const visibleKeys = new Set(visibleColumns.map(c => c.key))
+  
+  for (const merge of merges) {
+    const startCol = allColumns.findIndex(c => c.key === merge.columnKey)
+    if (startCol < 0) continue
+    
+    const coveredColumns = allColumns
+      .slice(startCol, startCol + merge.colSpan)
+      .filter(c => visibleKeys.has(c.key))
+    const coveredRows: DataRow[] = []
+    for (let r = merge.rowIndex; r < merge.rowIndex + merge.rowSpan; r++) {
+      const position = pagePosition.get(r)
+      if (position != null) coveredRows.push(rows[position])
+    }
+    
+    if (coveredColumns.length === 0 || coveredRows.length === 0) continue
+    if (coveredColumns.length === 1 && coveredRows.length === 1) continue
+    
+    coveredRows.forEach((row) => {
+      coveredColumns.forEach((column) => {
+        layout.set(`${row._id}:${column.key}`, 'covered')
+      })
+    })
+    
+    // Âncora na primeira célula visível; o valor vem da célula de origem,
+    // que pode estar em outra página ou em uma coluna oculta
+    const origin = allRows.find(row => row._rowIndex === merge.rowIndex)
+    layout.set(`${coveredRows[0]._id}:${coveredColumns[0].key}`, {
+      rowSpan: coveredRows.length,
+      colSpan: coveredColumns.length,
+      value: origin?.[merge.columnKey] as CellValue,
+    })
+  }
+  
+  return layout
+}
+
+// ============================================
+// BARRA DE FÓRMULAS
+// ============================================
+
+interface FormulaBarProps {
+  address?: string
+  formula?: string
+  value?: CellValue
+  column?: ColumnDefinition
+}
+
+function FormulaBar({ address, formula, value, column }: FormulaBarProps) {
+  return (
+    <div className="flex items-center gap-2 px-3 py-2 border-b border-gray-200 bg-gray-50 text-sm">
+      <span className="w-16 shrink-0 font-mono text-xs text-gray-500" aria-label="Endereço da célula">
+        {address ?? ''}
+      </span>
+      <FunctionSquare className="w-4 h-4 shrink-0 text-gray-400" aria-hidden="true" />
+      <output
+        className="flex-1 truncate font-mono text-gray-700"
+        aria-label="Conteúdo da célula"
+      >
+        {formula ?? (column ? formatValue(value, column.format) : '')}
+      </output>
+    </div>
+  )
+}
+
 // ============================================
 // COMPONENTE PRINCIPAL DA TABELA
 // ============================================
@@ -312,8 +457,63 @@ interface DataTableProps {
 }
 
 export function DataTable({ className }: DataTableProps) {
-  const { data, tableState, setSort, isEditMode, editingCell, setEditingCell, updateCell } = useAppStore()
+  const {
+    data,
+    tableState,
+    setSort,
+    isEditMode,
+    editingCell,
+    setEditingCell,
+    updateCell,
+    focusedCell,
+    clearFocusedCell,
+    diff,
+    company,
+  } = useAppStore()
   const { rows, totalFiltered } = useFilteredData()
+  const [activeCell, setActiveCell] = useState<{ rowId: string; columnKey: string } | null>(null)
+  const tableRef = useRef<HTMLTableElement>(null)
+  
+  // Mensagens das regras violadas por célula
+  const violationMap = useMemo(() => {
+    const map = new Map<string, string[]>()
+    for (const violation of data?.violations ?? []) {
+      const key = `${violation.rowId}:${violation.columnKey}`
+      map.set(key, [...(map.get(key) ?? []), violation.message])
+    }
+    return map
+  }, [data?.violations])
+  
+  // Comparação entre versões: alteração de cada linha e de cada célula
+  const diffMap = useMemo(() => new Map<string, RowDiff>(
+    (diff?.rows ?? []).map(rowDiff => [rowDiff.id, rowDiff])
+  ), [diff])
+  const cellChangeMap = useMemo(() => {
+    const map = new Map<string, CellChange>()
+    for (const rowDiff of diff?.rows ?? []) {
+      for (const change of rowDiff.changes) map.set(`${rowDiff.id}:${change.columnKey}`, change)
+    }
+    return map
+  }, [diff])
+  // Durante a comparação a tabela é só leitura
+  const canEdit = isEditMode && !diff
+  
+  // Célula escolhida no painel de validação: rola até ela e a destaca por um instante
+  useEffect(() => {
+    if (!focusedCell) return
+    setActiveCell(focusedCell)
+    const cell = tableRef.current?.querySelector<HTMLElement>(
+      `[data-cell="${CSS.escape(`${focusedCell.rowId}:${focusedCell.columnKey}`)}"]`
+    )
+    cell?.scrollIntoView({ block: 'center', inline: 'nearest', behavior: 'smooth' })
+    const timer = setTimeout(clearFocusedCell, 2000)
+    return () => clearTimeout(timer)
+  }, [focusedCell, clearFocusedCell])
+  
+  // Fórmulas por célula (linha original + coluna)
+  const formulaMap = useMemo(() => new Map(
+    (data?.formulas?.cells ?? []).map(c => [`${c.rowIndex}:${c.columnKey}`, c.formula])
+  ), [data?.formulas])
   
   // Colunas visíveis
   const visibleColumns = useMemo(() => {
@@ -323,6 +523,13 @@ export function DataTable({ className }: DataTableProps) {
     )
   }, [data, tableState.visibleColumns])
   
+  // Mesclagens só são exibidas na ordem original, sem filtros ou busca
+  const spanLayout = useMemo<SpanLayout>(() => {
+    const isOriginalOrder = !tableState.sort && tableState.filters.length === 0 && !tableState.search
+    if (!data?.merges?.length || !isOriginalOrder) return new Map()
+    return buildSpanLayout(data.merges, rows, data.rows, data.schema.columns, visibleColumns)
+  }, [data, rows, visibleColumns, tableState.sort, tableState.filters, tableState.search])
+  
   if (!data) {
     return (
       <div className="flex items-center justify-center h-64 text-gray-500">
@@ -331,6 +538,10 @@ export function DataTable({ className }: DataTableProps) {
     )
   }
   
+  const showFormulaBar = formulaMap.size > 0 || canEdit
+  const activeRow = activeCell ? data.rows.find(row => row._id === activeCell.rowId) : undefined
+  const activeColumn = activeCell ? data.schema.columns.find(c => c.key === activeCell.columnKey) : undefined
+  
   const handleSort = (column: ColumnDefinition) => {
     if (!column.sortable) return
     
@@ -346,8 +557,16 @@ export function DataTable({ className }: DataTableProps) {
   
   return (
     <div className={cn('overflow-hidden rounded-xl border border-gray-200 bg-white shadow-soft', className)}>
+      {showFormulaBar && (
+        <FormulaBar
+          address={activeRow && activeColumn ? getCellAddress(data, activeRow._rowIndex, activeColumn.key) : undefined}
+          formula={activeRow && activeColumn ? formulaMap.get(`${activeRow._rowIndex}:${activeColumn.key}`) : undefined}
+          value={activeRow && activeColumn ? activeRow[activeColumn.key] as CellValue : undefined}
+          column={activeColumn}
+        />
+      )}
       <div className="overflow-x-auto">
-        <table className="w-full" role="grid" aria-label="Tabela de dados">
+        <table ref={tableRef} className="w-full" role="grid" aria-label="Tabela de dados">
           {/* Header */}
           <thead>
             <tr className="bg-gradient-to-r from-gray-50 to-gray-100 border-b border-gray-200">
@@ -384,6 +603,11 @@ export function DataTable({ className }: DataTableProps) {
                     column.align === 'right' && 'justify-end',
                   )}>
                     <span>{column.label}</span>
+                    {isComputedColumn(column) && (
+                      <span title={`Coluna calculada: ${column.expression}`} className="text-primary-500">
+                        <Sigma className="w-3.5 h-3.5" aria-label="Coluna calculada" />
+                      </span>
+                    )}
                     {column.sortable && (
                       <span className="text-gray-400" aria-hidden="true">
                         {tableState.sort?.column === column.key ? (
@@ -420,38 +644,76 @@ export function DataTable({ className }: DataTableProps) {
                   key={row._id}
                   className={cn(
                     'hover:bg-gray-50/50 transition-colors',
-                    isEditMode && 'hover:bg-primary-50/30'
+                    canEdit && 'hover:bg-primary-50/30',
+                    diffMap.get(row._id)?.change === 'added' && 'bg-green-50/70',
+                    diffMap.get(row._id)?.change === 'removed' && 'bg-red-50/70 line-through decoration-red-400 text-gray-400',
                   )}
                 >
                   {visibleColumns.map((column) => {
+                    const span = spanLayout.get(`${row._id}:${column.key}`)
+                    if (span === 'covered') return null
+                    
                     const isThisCellEditing = editingCell?.rowId === row._id && editingCell?.columnKey === column.key
-                    const isEditableType = !['image', 'url', 'email', 'phone'].includes(column.format.type)
+                    const isEditableType = !span && !isComputedColumn(column) && !['image', 'url', 'email', 'phone'].includes(column.format.type)
+                    const formula = formulaMap.get(`${row._rowIndex}:${column.key}`)
+                    const violations = violationMap.get(`${row._id}:${column.key}`)
+                    const isFocused = focusedCell?.rowId === row._id && focusedCell?.columnKey === column.key
+                    const change = cellChangeMap.get(`${row._id}:${column.key}`)
                     
                     return (
                       <td
                         key={`${row._id}-${column.key}`}
+                        rowSpan={span && span.rowSpan > 1 ? span.rowSpan : undefined}
+                        colSpan={span && span.colSpan > 1 ? span.colSpan : undefined}
                         className={cn(
                           'px-4 py-3 text-sm text-gray-700',
                           column.align === 'center' && 'text-center',
                           column.align === 'right' && 'text-right',
                           column.sticky === 'left' && 'sticky left-0 bg-white z-10',
                           column.sticky === 'right' && 'sticky right-0 bg-white z-10',
-                          isEditMode && isEditableType && 'cursor-pointer hover:bg-primary-50',
+                          canEdit && isEditableType && 'cursor-pointer hover:bg-primary-50',
                           isThisCellEditing && 'p-1',
+                          span && 'align-middle bg-gray-50/40',
+                          formula && !column.sticky && 'relative',
+                          violations && 'outline outline-2 -outline-offset-2 outline-red-400 bg-red-50/40',
+                          isFocused && 'ring-2 ring-inset ring-primary-500',
+                          change && 'bg-amber-50 outline outline-1 -outline-offset-1 outline-amber-300',
                         )}
+                        title={[
+                          formula,
+                          ...(violations ?? []),
+                          change && `Antes: ${formatValue(change.before, column.format) || '(vazio)'} → Depois: ${formatValue(change.after, column.format) || '(vazio)'}`,
+                        ].filter(Boolean).join('\n') || undefined}
+                        data-cell={`${row._id}:${column.key}`}
+                        aria-invalid={violations ? true : undefined}
+                        onClick={() => setActiveCell({ rowId: row._id, columnKey: column.key })}
+                        onFocus={() => setActiveCell({ rowId: row._id, columnKey: column.key })}
                       >
-                        {isEditMode && isEditableType ? (
+                        {formula && (
+                          <span
+                            className="absolute right-0 top-0 w-0 h-0 border-t-[6px] border-l-[6px] border-t-primary-500 border-l-transparent"
+                            aria-label="Célula com fórmula"
+                          />
+                        )}
+                        {change && (
+                          <span className="block text-xs text-red-500 line-through" aria-label="Valor anterior">
+                            {formatValue(change.before, column.format) || '(vazio)'}
+                          </span>
+                        )}
+                        {canEdit && isEditableType ? (
                           <EditableCell
                             rowId={row._id}
                             value={row[column.key]}
                             column={column}
+                            formula={formula}
+                            locale={company.defaultLocale}
                             isEditing={isThisCellEditing}
                             onStartEdit={() => setEditingCell({ rowId: row._id, columnKey: column.key })}
                             onSave={(value) => updateCell(row._id, column.key, value)}
                             onCancel={() => setEditingCell(null)}
                           />
                         ) : (
-                          <TableCell value={row[column.key]} column={column} />
+                          <TableCell value={span ? span.value : row[column.key]} column={column} />
                         )}
                       </td>
                     )
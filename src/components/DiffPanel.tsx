@@ -0,0 +1,104 @@
+'use client'
+
+import { GitCompare, Download, X } from 'lucide-react'
+import { cn, downloadFile } from '@/lib/utils'
+import { useAppStore } from '@/lib/store'
+import {
+  changeTypeColors,
+  changeTypeLabels,
+  exportDiff,
+  CHANGE_COLUMN_KEY,
+  type ChangeType,
+} from '@/lib/data-diff'
+
+interface DiffPanelProps {
+  className?: string
+}
+
+/**
+ * Resumo da comparação entre versões: contagens por tipo de alteração (que
+ * também filtram a tabela), colunas acrescentadas ou retiradas, exportação
+ * e saída da comparação
+ */
+export function DiffPanel({ className }: DiffPanelProps) {
+  const { diff, closeDiff, tableState, addFilter, removeFilter } = useAppStore()
+
+  if (!diff) return null
+
+  const filter = tableState.filters.find(f => f.column === CHANGE_COLUMN_KEY)
+  const selected = Array.isArray(filter?.value) ? filter.value : []
+
+  const toggleChange = (change: ChangeType) => {
+    const label = changeTypeLabels[change]
+    const next = selected.includes(label) ? selected.filter(value => value !== label) : [...selected, label]
+    if (next.length === 0) removeFilter(CHANGE_COLUMN_KEY)
+    else addFilter({ column: CHANGE_COLUMN_KEY, operator: 'in', value: next })
+  }
+
+  const labelOf = (key: string) => diff.columns.find(column => column.key === key)?.label ?? key
+  const columnChanges = [
+    diff.addedColumns.length > 0 && `Colunas adicionadas: ${diff.addedColumns.map(labelOf).join(', ')}`,
+    diff.removedColumns.length > 0 && `Colunas removidas: ${diff.removedColumns.map(labelOf).join(', ')}`,
+  ].filter(Boolean)
+
+  const handleExport = () => {
+    const baseName = (diff.afterName ?? 'dados').replace(/\.[^.]+$/, '')
+    downloadFile(exportDiff(diff), `${baseName}-comparacao.xlsx`)
+  }
+
+  return (
+    <div className={cn('flex flex-wrap items-center gap-3 px-4 py-3 rounded-xl border border-gray-200 bg-white text-sm', className)}>
+      <GitCompare className="w-4 h-4 text-primary-600 shrink-0" aria-hidden="true" />
+      <span className="text-gray-700 truncate">
+        <span className="font-medium">{diff.beforeName ?? 'Versão anterior'}</span>
+        {' → '}
+        <span className="font-medium">{diff.afterName ?? 'Dados atuais'}</span>
+      </span>
+
+      <div className="flex flex-wrap gap-1.5" role="group" aria-label="Filtrar por tipo de alteração">
+        {(Object.keys(changeTypeLabels) as ChangeType[]).map(change => {
+          const isActive = selected.includes(changeTypeLabels[change])
+          return (
+            <button
+              key={change}
+              type="button"
+              onClick={() => toggleChange(change)}
+              aria-pressed={isActive}
+              className={cn(
+                'px-2.5 py-0.5 rounded-full text-xs font-medium transition-shadow',
+                isActive && 'ring-2 ring-offset-1 ring-primary-500'
+              )}
+              style={{ backgroundColor: changeTypeColors[change].bg, color: changeTypeColors[change].text }}
+            >
+              {changeTypeLabels[change]} {diff.counts[change].toLocaleString('pt-BR')}
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Colunas fora da comparação célula a célula */}
+      {columnChanges.length > 0 && (
+        <span className="text-xs text-gray-500">{columnChanges.join(' · ')}</span>
+      )}
+
+      <div className="flex gap-2 ml-auto">
+        <button
+          type="button"
+          onClick={handleExport}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <Download className="w-4 h-4" aria-hidden="true" />
+          Exportar XLSX
+        </button>
+        <button
+          type="button"
+          onClick={closeDiff}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+        >
+          <X className="w-4 h-4" aria-hidden="true" />
+          Encerrar comparação
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,318 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { CopyX, X } from 'lucide-react'
+import { cn, formatValue } from '@/lib/utils'
+import { useAppStore } from '@/lib/store'
+import { isComputedColumn } from '@/lib/computed-columns'
+import {
+  duplicateMethodLabels,
+  findDuplicates,
+  suggestMergeValues,
+  type DuplicateGroup,
+  type DuplicateMethod,
+  type MergeGroup,
+} from '@/lib/duplicates'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+import type { CellValue, DataRow } from '@/types'
+
+// Grupos listados de uma vez; os demais são mesclados com as sugestões
+const MAX_LISTED_GROUPS = 50
+
+interface DuplicatesDialogProps {
+  onClose: () => void
+}
+
+interface GroupDecision {
+  include: boolean
+  survivorId: string
+  values: Record<string, CellValue>
+}
+
+function isSameValue(a: CellValue, b: CellValue): boolean {
+  if (a instanceof Date && b instanceof Date) return a.getTime() === b.getTime()
+  return (a ?? null) === (b ?? null)
+}
+
+/**
+ * Procura linhas duplicadas (exatas ou aproximadas) nas colunas escolhidas
+ * e as mescla: em cada grupo escolha a linha que fica e, nas colunas em que
+ * as linhas diferem, o valor que ela recebe. A mesclagem pode ser desfeita.
+ */
+export function DuplicatesDialog({ onClose }: DuplicatesDialogProps) {
+  const { data, mergeDuplicateRows } = useAppStore()
+  const [columns, setColumns] = useState<string[]>(data?.schema.columns.slice(0, 1).map(column => column.key) ?? [])
+  const [method, setMethod] = useState<DuplicateMethod>('exact')
+  const [threshold, setThreshold] = useState(85)
+  const [groups, setGroups] = useState<DuplicateGroup[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [decisions, setDecisions] = useState<Record<string, GroupDecision>>({})
+
+  const dataColumns = useMemo(
+    () => data?.schema.columns.filter(column => !isComputedColumn(column)) ?? [],
+    [data?.schema.columns]
+  )
+  const rowsById = useMemo(() => new Map((data?.rows ?? []).map(row => [row._id, row])), [data?.rows])
+
+  const groupRows = (group: DuplicateGroup): DataRow[] => group.rowIds.map(id => rowsById.get(id)!)
+
+  const suggest = (group: DuplicateGroup, survivorId: string): GroupDecision => ({
+    include: true,
+    survivorId,
+    values: suggestMergeValues(groupRows(group), dataColumns, survivorId),
+  })
+
+  const handleSearch = () => {
+    if (!data) return
+    setError(null)
+    try {
+      const found = findDuplicates(data.rows, { columns, method, threshold: threshold / 100 })
+      setGroups(found)
+      setDecisions(Object.fromEntries(found.map(group => [group.id, suggest(group, group.rowIds[0])])))
+    } catch (error) {
+      setGroups(null)
+      setError(error instanceof Error ? error.message : 'Erro ao procurar duplicatas')
+    }
+  }
+
+  const updateDecision = (groupId: string, update: Partial<GroupDecision>) => {
+    setDecisions({ ...decisions, [groupId]: { ...decisions[groupId], ...update } })
+  }
+
+  const selected = (groups ?? []).filter(group => decisions[group.id]?.include)
+
+  const handleApply = () => {
+    const merges: MergeGroup[] = selected.map(group => ({
+      survivorId: decisions[group.id].survivorId,
+      rowIds: group.rowIds,
+      values: decisions[group.id].values,
+    }))
+    mergeDuplicateRows(merges)
+    onClose()
+  }
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onClose, description: 'Fechar duplicatas' },
+  ])
+
+  if (!data) return null
+
+  const toggleColumn = (key: string) => {
+    setColumns(columns.includes(key) ? columns.filter(c => c !== key) : [...columns, key])
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="duplicates-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <CopyX className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h2 id="duplicates-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Duplicatas
+              </h2>
+              <p className="text-xs text-gray-500">Encontre linhas repetidas e mescle-as em uma só</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 max-h-[70vh] overflow-auto text-sm text-gray-700 dark:text-gray-300">
+          {/* Colunas comparadas */}
+          <div>
+            <p className="text-xs font-medium text-gray-500 mb-1">Comparar as colunas</p>
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-1">
+              {dataColumns.map(column => (
+                <label key={column.key} className="flex items-center gap-2 cursor-pointer truncate">
+                  <input
+                    type="checkbox"
+                    checked={columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                    className="accent-primary-600"
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          {/* Método e limite */}
+          <div className="flex flex-wrap items-end gap-4">
+            <label className="space-y-1">
+              <span className="block text-xs font-medium text-gray-500">Comparação</span>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as DuplicateMethod)}
+                className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+              >
+                {(Object.keys(duplicateMethodLabels) as DuplicateMethod[]).map(option => (
+                  <option key={option} value={option}>{duplicateMethodLabels[option]}</option>
+                ))}
+              </select>
+            </label>
+            {method !== 'exact' && (
+              <label className="space-y-1">
+                <span className="block text-xs font-medium text-gray-500">Semelhança mínima: {threshold}%</span>
+                <input
+                  type="range"
+                  min={60}
+                  max={100}
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="w-48 accent-primary-600"
+                />
+              </label>
+            )}
+            <button
+              type="button"
+              onClick={handleSearch}
+              disabled={columns.length === 0}
+              className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Procurar duplicatas
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Maiúsculas, acentos e espaços repetidos são ignorados na comparação.
+          </p>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+
+          {/* Grupos encontrados */}
+          {groups && (groups.length === 0 ? (
+            <p className="text-green-600">Nenhuma duplicata encontrada</p>
+          ) : (
+            <div className="space-y-3">
+              <p className="text-xs text-gray-500">
+                {groups.length.toLocaleString('pt-BR')} {groups.length === 1 ? 'grupo' : 'grupos'} com{' '}
+                {groups.reduce((total, group) => total + group.rowIds.length, 0).toLocaleString('pt-BR')} linhas.
+                Escolha a linha que fica e clique nos valores que ela deve receber.
+              </p>
+              {groups.slice(0, MAX_LISTED_GROUPS).map(group => {
+                const decision = decisions[group.id]
+                const rows = groupRows(group)
+                // Colunas comparadas e as que diferem entre as linhas
+                const shown = dataColumns.filter(column =>
+                  columns.includes(column.key) ||
+                  rows.some(row => !isSameValue(row[column.key] as CellValue, rows[0][column.key] as CellValue))
+                )
+                return (
+                  <div key={group.id} className="rounded-lg border border-gray-200 dark:border-gray-700 overflow-hidden">
+                    <label className="flex items-center gap-2 px-3 py-2 bg-gray-50 dark:bg-gray-800/50 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={decision.include}
+                        onChange={() => updateDecision(group.id, { include: !decision.include })}
+                        className="accent-primary-600"
+                      />
+                      <span className="font-medium">Mesclar {rows.length} linhas</span>
+                      {group.similarity < 1 && (
+                        <span className="text-xs text-gray-500">
+                          semelhança {Math.round(group.similarity * 100)}%
+                        </span>
+                      )}
+                    </label>
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-xs">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="px-3 py-1.5 font-medium">Fica</th>
+                            {shown.map(column => (
+                              <th key={column.key} className="px-3 py-1.5 font-medium">{column.label}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {rows.map(row => (
+                            <tr key={row._id} className="border-t border-gray-100 dark:border-gray-800">
+                              <td className="px-3 py-1.5">
+                                <input
+                                  type="radio"
+                                  name={`survivor-${group.id}`}
+                                  checked={decision.survivorId === row._id}
+                                  onChange={() => updateDecision(group.id, suggest(group, row._id))}
+                                  disabled={!decision.include}
+                                  className="accent-primary-600"
+                                  aria-label={`Manter a linha ${row._rowIndex + 1}`}
+                                />
+                              </td>
+                              {shown.map(column => {
+                                const value = row[column.key] as CellValue
+                                const isPicked = isSameValue(decision.values[column.key], value)
+                                return (
+                                  <td key={column.key} className="px-1 py-0.5">
+                                    <button
+                                      type="button"
+                                      onClick={() => updateDecision(group.id, {
+                                        values: { ...decision.values, [column.key]: value ?? null },
+                                      })}
+                                      disabled={!decision.include}
+                                      className={cn(
+                                        'w-full text-left px-2 py-1 rounded truncate max-w-[220px]',
+                                        isPicked
+                                          ? 'bg-primary-50 text-primary-800 ring-1 ring-primary-300 dark:bg-primary-900/30 dark:text-primary-200'
+                                          : 'hover:bg-gray-100 dark:hover:bg-gray-800'
+                                      )}
+                                      aria-pressed={isPicked}
+                                    >
+                                      {formatValue(value, column.format) || <span className="text-gray-400">(vazio)</span>}
+                                    </button>
+                                  </td>
+                                )
+                              })}
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </div>
+                )
+              })}
+              {groups.length > MAX_LISTED_GROUPS && (
+                <p className="text-xs text-gray-500">
+                  e mais {(groups.length - MAX_LISTED_GROUPS).toLocaleString('pt-BR')} grupos, mesclados com os valores sugeridos
+                </p>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={selected.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Mesclar {selected.length.toLocaleString('pt-BR')} {selected.length === 1 ? 'grupo' : 'grupos'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,11 +1,66 @@
 'use client'
 
 import { useCallback, useState } from 'react'
-import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2, Zap } from 'lucide-react'
-import { cn } from '@/lib/utils'
-import { processData } from '@/lib/excel-parser'
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2, Zap, SlidersHorizontal, ChevronDown, X, Files } from 'lucide-react'
+import { cn, formatFileSize } from '@/lib/utils'
+import { getMaxFileSize, uploadLimits } from '@/lib/config'
+import { detectEncoding, isAbortError, sniffCSV } from '@/lib/csv-stream'
+import { detectFixedWidthBoundaries, splitTextLines } from '@/lib/fixed-width'
+import type { JsonArrayMode } from '@/lib/json-import'
+import {
+  processData,
+  processWorkbook,
+  detectFileFormat,
+  getAcceptAttribute,
+  getSupportedExtensions,
+  readFileHead,
+  type ParseOptions,
+  type ParseResult,
+  type ProcessDataOptions,
+} from '@/lib/excel-parser'
+import { findSchemaMatches } from '@/lib/schema-matching'
+import { appendSources, getSourceName, type AppendSource } from '@/lib/append-data'
 import { useAppStore } from '@/lib/store'
 import { useExcelWorker, type ParseProgress } from '@/lib/useExcelWorker'
+import { CsvImportDialog } from './CsvImportDialog'
+import { FixedWidthEditor } from './FixedWidthEditor'
+
+// Bytes lidos para identificar o formato e montar as pré-visualizações
+const IMPORT_SAMPLE_BYTES = 64 * 1024
+
+type FormatOptions = Pick<ParseOptions, 'csv' | 'fixedWidth'>
+type TextFormat = 'delimited' | 'fixedWidth'
+
+/**
+ * Confere formato (pelo conteúdo) e tamanho do arquivo antes da leitura
+ */
+async function checkFile(file: File) {
+  // Validar tipo de arquivo pelo conteúdo (magic bytes)
+  const sample = await readFileHead(file, IMPORT_SAMPLE_BYTES)
+  const format = detectFileFormat(file.name, sample)
+  
+  if (!format) {
+    throw new Error(`Formato de arquivo não suportado. Use ${getSupportedExtensions().join(', ')}`)
+  }
+  
+  // Validar tamanho (limite configurável pelo formato detectado)
+  const maxFileSize = getMaxFileSize(format.id)
+  if (file.size > maxFileSize) {
+    throw new Error(`Arquivo muito grande. Máximo: ${formatFileSize(maxFileSize)}`)
+  }
+  
+  return { sample, format }
+}
+
+/**
+ * Detecção sem certeza pede confirmação: CSV sem um delimitador consistente
+ * ou texto sem colunas alinhadas
+ */
+function isTextFormatAmbiguous(format: TextFormat, sample: Uint8Array): boolean {
+  if (format === 'delimited') return sniffCSV(sample).ambiguous
+  const text = new TextDecoder(detectEncoding(sample)).decode(sample, { stream: true })
+  return detectFixedWidthBoundaries(splitTextLines(text)).length === 0
+}
 
 interface FileUploadProps {
   onUploadComplete?: () => void
@@ -21,11 +76,38 @@ export function FileUpload({ onUploadComplete, className }: FileUploadProps) {
     progress?: number
     stage?: ParseProgress['stage']
   }>({ status: 'idle' })
+  const [showOptions, setShowOptions] = useState(false)
+  const [parseOptions, setParseOptions] = useState<ParseOptions>({
+    headerRow: 'auto',
+    headerRowCount: 1,
+    mergedCells: 'ignore',
+    json: { arrays: 'join' },
+  })
+  // Arquivo de texto aguardando confirmação das opções de leitura
+  const [pendingImport, setPendingImport] = useState<{
+    file: File
+    sample: Uint8Array
+    format: TextFormat
+  } | null>(null)
+  // Sempre confirma as opções de CSV/TXT, mesmo com detecção confiável
+  const [reviewTextFormat, setReviewTextFormat] = useState(false)
+  // Acrescenta os arquivos aos dados carregados em vez de substituí-los
+  const [appendMode, setAppendMode] = useState(false)
   
-  const { setData, setLoading, setError } = useAppStore()
+  const { data, company, displayTimeZone, setData, replaceData, setWorkbook, setTypeReview, setSchemaMatch, setLoading, setError } = useAppStore()
+  
+  // Sugere um schema salvo parecido; sem nenhum, segue para a revisão dos tipos
+  const startReview = useCallback((source: ParseResult, options: ProcessDataOptions) => {
+    const matches = findSchemaMatches(source, Object.values(useAppStore.getState().savedSchemas))
+    if (matches.length > 0) {
+      setSchemaMatch({ source, options, matches })
+    } else {
+      setTypeReview({ source, options })
+    }
+  }, [setSchemaMatch, setTypeReview])
   
   // Use Web Worker for parsing when available
-  const { parseFile, isWorkerSupported } = useExcelWorker({
+  const { parseFile, abort, isWorkerSupported } = useExcelWorker({
     onProgress: (progress) => {
       setUploadProgress(prev => ({
         ...prev,
@@ -36,52 +118,73 @@ export function FileUpload({ onUploadComplete, className }: FileUploadProps) {
     }
   })
   
-  const processFile = useCallback(async (file: File) => {
+  const processFile = useCallback(async (file: File, formatOptions?: FormatOptions) => {
     setUploadProgress({ status: 'processing', fileName: file.name, progress: 0 })
     setLoading(true)
     
     try {
-      // Validar tipo de arquivo
-      const validTypes = [
-        'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-        'application/vnd.ms-excel',
-        'text/csv',
-      ]
-      const validExtensions = ['.xlsx', '.xls', '.csv']
-      
-      const extension = file.name.substring(file.name.lastIndexOf('.')).toLowerCase()
-      const isValidType = validTypes.includes(file.type) || validExtensions.includes(extension)
-      
-      if (!isValidType) {
-        throw new Error('Formato de arquivo não suportado. Use .xlsx, .xls ou .csv')
-      }
+      const { sample, format } = await checkFile(file)
       
-      // Validar tamanho (max 50MB)
-      if (file.size > 50 * 1024 * 1024) {
-        throw new Error('Arquivo muito grande. Máximo: 50MB')
+      // CSV/TSV/TXT: importa com as opções detectadas; codificação/delimitador
+      // ou colunas são confirmados quando a detecção é incerta ou a pedido
+      const pendingFormat: TextFormat | null = format.id === 'txt'
+        ? 'fixedWidth'
+        : format.id === 'csv' || format.id === 'tsv' ? 'delimited' : null
+      if (pendingFormat && !formatOptions && (reviewTextFormat || isTextFormatAmbiguous(pendingFormat, sample))) {
+        setPendingImport({ file, sample, format: pendingFormat })
+        setUploadProgress({ status: 'idle' })
+        return
       }
       
       // Parse do arquivo usando Web Worker quando disponível
-      const parseResult = await parseFile(file)
+      const parseResult = await parseFile(file, { ...parseOptions, ...formatOptions })
       
       if (parseResult.errors.length > 0) {
         console.warn('Avisos durante o parse:', parseResult.errors)
       }
       
-      if (parseResult.headers.length === 0) {
+      const hasData = parseResult.sheets
+        ? parseResult.sheets.some(sheet => sheet.headers.length > 0)
+        : parseResult.headers.length > 0
+      
+      if (!hasData) {
         throw new Error('Não foi possível ler os dados do arquivo')
       }
       
-      // Processar dados
-      const processed = processData(parseResult, undefined, {
+      // Processar dados (uma entrada por planilha em pastas de trabalho)
+      // Números em texto seguem o locale/moeda da empresa
+      const processOptions = {
         sourceFileName: file.name,
-      })
+        locale: company.defaultLocale,
+        currencyCode: company.currencyCode,
+        dateFormat: company.dateFormat,
+        timeZone: displayTimeZone,
+      }
+      let message: string
+      if (parseResult.sheets && parseResult.sheets.length > 1) {
+        const sheets = processWorkbook(parseResult, processOptions)
+        const totalRows = sheets.reduce((sum, sheet) => sum + sheet.data.rows.length, 0)
+        
+        setWorkbook(sheets)
+        message = `${totalRows} linhas em ${sheets.length} planilhas`
+        
+        // Schema ou tipos da planilha que ficou ativa
+        const { activeSheetIndex } = useAppStore.getState()
+        const active = parseResult.sheets[activeSheetIndex]
+        startReview(active, { ...processOptions, schemaName: active.sheet.name, sheetName: active.sheet.name })
+      } else {
+        const options = { ...processOptions, sheetName: parseResult.sheets?.[0]?.sheet.name }
+        const processed = processData(parseResult, undefined, options)
+        
+        setData(processed)
+        startReview(parseResult, options)
+        message = `${processed.rows.length} linhas carregadas`
+      }
       
-      setData(processed)
       setUploadProgress({ 
         status: 'success', 
         fileName: file.name,
-        message: `${processed.rows.length} linhas carregadas${isWorkerSupported ? ' ⚡' : ''}`,
+        message: `${message}${isWorkerSupported ? ' ⚡' : ''}`,
         progress: 100
       })
       
@@ -93,33 +196,133 @@ export function FileUpload({ onUploadComplete, className }: FileUploadProps) {
       }, 3000)
       
     } catch (error) {
+      if (isAbortError(error)) {
+        // Cancelado pelo usuário: volta ao estado inicial sem erro
+        setUploadProgress({ status: 'idle' })
+        return
+      }
       const message = error instanceof Error ? error.message : 'Erro ao processar arquivo'
       setError(message)
       setUploadProgress({ status: 'error', message })
     } finally {
       setLoading(false)
     }
-  }, [setData, setLoading, setError, onUploadComplete, parseFile, isWorkerSupported])
+  }, [company, displayTimeZone, setData, setWorkbook, startReview, setLoading, setError, onUploadComplete, parseFile, parseOptions, reviewTextFormat, isWorkerSupported])
+  
+  // Vários arquivos (ou acréscimo): une tudo em um conjunto com a coluna de
+  // origem, lendo CSV e texto com as opções detectadas
+  const processFiles = useCallback(async (files: File[]) => {
+    const fileName = files.length === 1 ? files[0].name : `${files.length} arquivos`
+    setUploadProgress({ status: 'processing', fileName, progress: 0 })
+    setLoading(true)
+    
+    try {
+      const inputs: AppendSource[] = []
+      for (const file of files) {
+        await checkFile(file)
+        const parseResult = await parseFile(file, parseOptions)
+        
+        // Em pastas de trabalho, cada planilha visível com dados é uma origem
+        const sheets = parseResult.sheets?.filter(sheet => sheet.sheet.visibility === 'visible' && sheet.headers.length > 0)
+        if (sheets && sheets.length > 1) {
+          inputs.push(...sheets.map(sheet => ({ name: getSourceName(file.name, sheet.sheet.name), source: sheet })))
+        } else if (parseResult.headers.length > 0) {
+          inputs.push({ name: file.name, source: parseResult })
+        } else {
+          throw new Error(`Não foi possível ler os dados de ${file.name}`)
+        }
+      }
+      
+      // Durante uma comparação, acrescenta aos dados comparados
+      const state = useAppStore.getState()
+      const base = appendMode ? state.diffSource ?? state.data : null
+      const processed = appendSources(inputs, base, {
+        sourceFileName: files.length === 1 ? files[0].name : undefined,
+        locale: company.defaultLocale,
+        currencyCode: company.currencyCode,
+        dateFormat: company.dateFormat,
+        timeZone: displayTimeZone,
+      })
+      
+      if (base) {
+        replaceData(processed)
+      } else {
+        setData(processed)
+      }
+      
+      const added = processed.rows.length - (base?.rows.length ?? 0)
+      setUploadProgress({
+        status: 'success',
+        fileName,
+        message: `${added} linhas de ${inputs.length} ${inputs.length === 1 ? 'origem' : 'origens'}${base ? ' acrescentadas' : ''}`,
+        progress: 100,
+      })
+      
+      onUploadComplete?.()
+      
+      setTimeout(() => {
+        setUploadProgress({ status: 'idle' })
+      }, 3000)
+    } catch (error) {
+      if (isAbortError(error)) {
+        setUploadProgress({ status: 'idle' })
+        return
+      }
+      const message = error instanceof Error ? error.message : 'Erro ao processar arquivos'
+      setError(message)
+      setUploadProgress({ status: 'error', message })
+    } finally {
+      setLoading(false)
+    }
+  }, [appendMode, company, displayTimeZone, setData, replaceData, setLoading, setError, onUploadComplete, parseFile, parseOptions])
+  
+  const handleFiles = useCallback((files: File[]) => {
+    if (files.length === 0) return
+    if (files.length === 1 && !appendMode) {
+      processFile(files[0])
+    } else {
+      processFiles(files)
+    }
+  }, [appendMode, processFile, processFiles])
   
   const handleDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     setIsDragging(false)
-    
-    const file = e.dataTransfer.files[0]
-    if (file) {
-      processFile(file)
-    }
-  }, [processFile])
+    handleFiles(Array.from(e.dataTransfer.files))
+  }, [handleFiles])
   
   const handleFileSelect = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (file) {
-      processFile(file)
-    }
-  }, [processFile])
+    const files = Array.from(e.target.files ?? [])
+    // Permite selecionar o mesmo arquivo de novo (ex.: após cancelar)
+    e.target.value = ''
+    handleFiles(files)
+  }, [handleFiles])
   
   return (
     <div className={cn('w-full', className)}>
+      {pendingImport?.format === 'delimited' && (
+        <CsvImportDialog
+          fileName={pendingImport.file.name}
+          sample={pendingImport.sample}
+          onConfirm={(csv) => {
+            setPendingImport(null)
+            processFile(pendingImport.file, { csv })
+          }}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {pendingImport?.format === 'fixedWidth' && (
+        <FixedWidthEditor
+          fileName={pendingImport.file.name}
+          sample={pendingImport.sample}
+          onConfirm={(fixedWidth) => {
+            setPendingImport(null)
+            processFile(pendingImport.file, { fixedWidth })
+          }}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      
       <div
         onDragOver={(e) => { e.preventDefault(); setIsDragging(true) }}
         onDragLeave={() => setIsDragging(false)}
@@ -144,11 +347,12 @@ export function FileUpload({ onUploadComplete, className }: FileUploadProps) {
       >
         <input
           type="file"
-          accept=".xlsx,.xls,.csv"
+          multiple
+          accept={getAcceptAttribute()}
           onChange={handleFileSelect}
           className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
           disabled={uploadProgress.status === 'processing'}
-          aria-label="Selecionar arquivo Excel ou CSV para upload"
+          aria-label="Selecionar planilha ou arquivo de texto para upload"
           id="file-upload-input"
         />
         
@@ -166,15 +370,17 @@ export function FileUpload({ onUploadComplete, className }: FileUploadProps) {
               </div>
               <div>
                 <p className="text-lg font-semibold text-gray-700">
-                  Arraste seu arquivo aqui
+                  {appendMode ? 'Arraste os arquivos a acrescentar' : 'Arraste seu arquivo aqui'}
                 </p>
                 <p className="text-sm text-gray-500 mt-1">
-                  ou clique para selecionar
+                  ou clique para selecionar (vários arquivos são unidos em uma tabela)
                 </p>
               </div>
               <div className="flex items-center gap-2 text-xs text-gray-400">
                 <FileSpreadsheet className="w-4 h-4" />
-                <span id="upload-instructions">Suporta: XLSX, XLS, CSV (máx. 50MB)</span>
+                <span id="upload-instructions">
+                  Suporta: XLSX, XLSB, XLS, ODS, JSON (máx. {formatFileSize(uploadLimits.maxSpreadsheetSize)}), CSV, TSV, TXT (máx. {formatFileSize(uploadLimits.maxCsvSize)})
+                </span>
               </div>
             </>
           )}
@@ -243,6 +449,131 @@ export function FileUpload({ onUploadComplete, className }: FileUploadProps) {
           )}
         </div>
       </div>
+      
+      {/* Cancelar importação (fora da área de drop, que fica bloqueada) */}
+      {uploadProgress.status === 'processing' && (
+        <div className="mt-3 flex justify-center">
+          <button
+            type="button"
+            onClick={abort}
+            className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-600 rounded-lg border border-gray-200 hover:bg-gray-100 transition-colors"
+          >
+            <X className="w-4 h-4" aria-hidden="true" />
+            Cancelar
+          </button>
+        </div>
+      )}
+      
+      {/* Acrescentar aos dados carregados */}
+      {data && (
+        <label className="mt-3 flex items-center gap-2 text-sm text-gray-600 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={appendMode}
+            onChange={(e) => setAppendMode(e.target.checked)}
+            className="accent-primary-600"
+          />
+          <Files className="w-4 h-4 text-gray-400" aria-hidden="true" />
+          Acrescentar aos dados atuais
+        </label>
+      )}
+      
+      {/* Opções de importação */}
+      <div className="mt-3">
+        <button
+          type="button"
+          onClick={() => setShowOptions(!showOptions)}
+          className="flex items-center gap-1.5 text-xs text-gray-500 hover:text-gray-700 transition-colors"
+          aria-expanded={showOptions}
+          aria-controls="import-options"
+        >
+          <SlidersHorizontal className="w-3.5 h-3.5" aria-hidden="true" />
+          Opções de importação
+          <ChevronDown className={cn('w-3.5 h-3.5 transition-transform', showOptions && 'rotate-180')} aria-hidden="true" />
+        </button>
+        
+        {showOptions && (
+          <div
+            id="import-options"
+            className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-3 p-3 rounded-lg border border-gray-200 bg-gray-50 text-sm"
+          >
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-600">Linha do cabeçalho</span>
+              <select
+                value={parseOptions.headerRow === 'auto' ? 'auto' : String(parseOptions.headerRow)}
+                onChange={(e) => setParseOptions(prev => ({
+                  ...prev,
+                  headerRow: e.target.value === 'auto' ? 'auto' : Number(e.target.value),
+                }))}
+                className="px-2 py-1.5 rounded-md border border-gray-200 bg-white"
+              >
+                <option value="auto">Detectar automaticamente</option>
+                {Array.from({ length: 20 }, (_, i) => (
+                  <option key={i} value={i}>Linha {i + 1}</option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1">
+              <span className="text-xs font-medium text-gray-600">Linhas de cabeçalho a mesclar</span>
+              <select
+                value={parseOptions.headerRowCount ?? 1}
+                onChange={(e) => setParseOptions(prev => ({
+                  ...prev,
+                  headerRowCount: Number(e.target.value),
+                }))}
+                className="px-2 py-1.5 rounded-md border border-gray-200 bg-white"
+              >
+                {[1, 2, 3, 4].map(count => (
+                  <option key={count} value={count}>
+                    {count === 1 ? '1 (simples)' : `${count} (ex.: "2025 / Q1")`}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 sm:col-span-2">
+              <span className="text-xs font-medium text-gray-600">Células mescladas</span>
+              <select
+                value={parseOptions.mergedCells ?? 'ignore'}
+                onChange={(e) => setParseOptions(prev => ({
+                  ...prev,
+                  mergedCells: e.target.value as ParseOptions['mergedCells'],
+                }))}
+                className="px-2 py-1.5 rounded-md border border-gray-200 bg-white"
+              >
+                <option value="ignore">Manter valor só na primeira célula</option>
+                <option value="fill">Preencher o valor em todas as células</option>
+                <option value="span">Preservar mesclagem na tabela</option>
+              </select>
+            </label>
+            <label className="flex flex-col gap-1 sm:col-span-2">
+              <span className="text-xs font-medium text-gray-600">Listas em JSON</span>
+              <select
+                value={parseOptions.json?.arrays ?? 'join'}
+                onChange={(e) => setParseOptions(prev => ({
+                  ...prev,
+                  json: { ...prev.json, arrays: e.target.value as JsonArrayMode },
+                }))}
+                className="px-2 py-1.5 rounded-md border border-gray-200 bg-white"
+              >
+                <option value="join">Juntar valores em uma célula (a, b, c)</option>
+                <option value="json">Manter como texto JSON</option>
+                <option value="index">Uma coluna por item (tags.0, tags.1)</option>
+              </select>
+            </label>
+            <label className="flex items-center gap-2 sm:col-span-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={reviewTextFormat}
+                onChange={(e) => setReviewTextFormat(e.target.checked)}
+                className="accent-primary-600"
+              />
+              <span className="text-xs font-medium text-gray-600">
+                Revisar codificação, delimitador e colunas de CSV/TXT antes de importar
+              </span>
+            </label>
+          </div>
+        )}
+      </div>
     </div>
   )
 }
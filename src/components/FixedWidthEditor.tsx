@@ -0,0 +1,212 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Columns3, RotateCcw, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { detectEncoding } from '@/lib/csv-stream'
+import {
+  detectFixedWidthBoundaries,
+  normalizeBoundaries,
+  splitFixedWidthLine,
+  splitTextLines,
+  type FixedWidthOptions,
+} from '@/lib/fixed-width'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+
+interface FixedWidthEditorProps {
+  fileName: string
+  /** Bytes iniciais do arquivo, usados na detecção e na pré-visualização */
+  sample: Uint8Array
+  onConfirm: (options: FixedWidthOptions) => void
+  onCancel: () => void
+}
+
+// Linhas exibidas no editor e na pré-visualização
+const EDITOR_LINES = 15
+const PREVIEW_LINES = 5
+
+/**
+ * Régua com a posição de cada caractere (marcas a cada 10)
+ */
+function Ruler({ width }: { width: number }) {
+  return (
+    <div className="flex text-[10px] text-gray-400 select-none" aria-hidden="true">
+      {Array.from({ length: width }, (_, i) => (
+        <span key={i} className="w-[1ch] text-center">
+          {i % 10 === 0 ? String(i / 10 % 10) : i % 5 === 0 ? '·' : ''}
+        </span>
+      ))}
+    </div>
+  )
+}
+
+export function FixedWidthEditor({ fileName, sample, onConfirm, onCancel }: FixedWidthEditorProps) {
+  const lines = useMemo(() => {
+    const text = new TextDecoder(detectEncoding(sample)).decode(sample, { stream: true })
+    return splitTextLines(text)
+  }, [sample])
+
+  const detected = useMemo(() => detectFixedWidthBoundaries(lines), [lines])
+  const [boundaries, setBoundaries] = useState<number[]>(detected)
+  const [boundaryText, setBoundaryText] = useState(detected.join(', '))
+
+  const visibleLines = lines.slice(0, EDITOR_LINES)
+  const width = Math.max(0, ...visibleLines.map(line => line.length))
+  const boundarySet = new Set(boundaries)
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onCancel, description: 'Cancelar importação' },
+  ])
+
+  const updateBoundaries = (next: number[]) => {
+    const normalized = normalizeBoundaries(next)
+    setBoundaries(normalized)
+    setBoundaryText(normalized.join(', '))
+  }
+
+  // Clique em uma posição adiciona ou remove o início de coluna
+  const toggleBoundary = (position: number) => {
+    if (position <= 0) return
+    updateBoundaries(boundarySet.has(position)
+      ? boundaries.filter(b => b !== position)
+      : [...boundaries, position])
+  }
+
+  const previewRows = lines.slice(0, PREVIEW_LINES).map(line => splitFixedWidthLine(line, boundaries))
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onCancel}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="fixed-width-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-4xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <Columns3 className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 id="fixed-width-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Colunas de largura fixa
+              </h2>
+              <p className="text-xs text-gray-500 truncate">{fileName}</p>
+            </div>
+          </div>
+          <button
+            onClick={onCancel}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4">
+          <p className="text-xs text-gray-500">
+            Clique em uma posição do texto para marcar ou remover o início de uma coluna.
+          </p>
+
+          {/* Editor */}
+          <div className="max-h-64 overflow-auto rounded-lg border border-gray-200 dark:border-gray-800 p-2 font-mono text-xs">
+            <Ruler width={width} />
+            {visibleLines.map((line, lineIndex) => (
+              <div key={lineIndex} className="flex whitespace-pre">
+                {Array.from({ length: width }, (_, position) => (
+                  <span
+                    key={position}
+                    onClick={() => toggleBoundary(position)}
+                    className={cn(
+                      'w-[1ch] cursor-col-resize hover:bg-primary-100 dark:hover:bg-primary-900/40',
+                      boundarySet.has(position) && 'border-l-2 border-primary-500',
+                      lineIndex === 0 && 'font-semibold'
+                    )}
+                  >
+                    {line[position] ?? ' '}
+                  </span>
+                ))}
+              </div>
+            ))}
+          </div>
+
+          {/* Posições editáveis pelo teclado */}
+          <div className="flex flex-wrap items-end gap-2 text-sm">
+            <label className="flex flex-col gap-1 flex-1 min-w-[12rem]">
+              <span className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                Início das colunas (posições, separadas por vírgula)
+              </span>
+              <input
+                type="text"
+                value={boundaryText}
+                onChange={(e) => setBoundaryText(e.target.value)}
+                onBlur={() => updateBoundaries(boundaryText.split(/[,;\s]+/).map(Number))}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') updateBoundaries(boundaryText.split(/[,;\s]+/).map(Number))
+                }}
+                className="px-2 py-1.5 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 font-mono"
+              />
+            </label>
+            <button
+              type="button"
+              onClick={() => updateBoundaries(detected)}
+              className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-gray-600 dark:text-gray-300 rounded-lg border border-gray-200 dark:border-gray-700 hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+            >
+              <RotateCcw className="w-4 h-4" aria-hidden="true" />
+              Detectar novamente
+            </button>
+          </div>
+
+          {/* Pré-visualização */}
+          <div>
+            <p className="text-xs font-medium text-gray-600 dark:text-gray-400 mb-2">
+              Pré-visualização ({boundaries.length + 1} colunas)
+            </p>
+            <div className="max-h-40 overflow-auto rounded-lg border border-gray-200 dark:border-gray-800">
+              <table className="w-full text-xs text-gray-700 dark:text-gray-300">
+                <tbody>
+                  {previewRows.map((row, rowIndex) => (
+                    <tr
+                      key={rowIndex}
+                      className={cn(
+                        'border-b border-gray-100 dark:border-gray-800 last:border-0',
+                        rowIndex === 0 && 'bg-gray-50 dark:bg-gray-800/50 font-medium'
+                      )}
+                    >
+                      {row.map((cell, cellIndex) => (
+                        <td key={cellIndex} className="px-2 py-1 truncate max-w-[12rem]">{cell}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={() => onConfirm({ boundaries })}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Importar
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,17 +1,17 @@
 'use client'
 
-import { Moon, Sun, Settings } from 'lucide-react'
+import { Moon, Sun, Settings, Globe } from 'lucide-react'
 import { useAppStore } from '@/lib/store'
 import { cn } from '@/lib/utils'
 import { useEffect } from 'react'
-import { applyTheme, darkTheme } from '@/lib/config'
+import { applyTheme, darkTheme, timeZoneOptions } from '@/lib/config'
 
 interface HeaderProps {
   className?: string
 }
 
 export function Header({ className }: HeaderProps) {
-  const { company, isDarkMode, toggleDarkMode, data } = useAppStore()
+  const { company, isDarkMode, toggleDarkMode, data, displayTimeZone, setDisplayTimeZone } = useAppStore()
   
   // Aplica tema ao carregar
   useEffect(() => {
@@ -76,6 +76,25 @@ export function Header({ className }: HeaderProps) {
             </div>
           )}
           
+          {/* Fuso horário de exibição */}
+          <label className="hidden md:flex items-center gap-1.5 text-gray-500 dark:text-gray-400" title="Fuso horário">
+            <Globe className="w-4 h-4" aria-hidden="true" />
+            <select
+              value={displayTimeZone ?? ''}
+              onChange={(e) => setDisplayTimeZone(e.target.value || undefined)}
+              className={cn(
+                'text-sm bg-transparent rounded-md border border-gray-200 px-2 py-1',
+                'focus:outline-none focus:ring-2 focus:ring-primary-300',
+                'dark:border-gray-700 dark:text-gray-200'
+              )}
+              aria-label="Fuso horário de exibição"
+            >
+              {timeZoneOptions.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </label>
+          
           {/* Toggle dark mode */}
           <button
             onClick={toggleDarkMode}
@@ -0,0 +1,228 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { Combine, FileSpreadsheet, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/lib/store'
+import { getAcceptAttribute } from '@/lib/excel-parser'
+import { joinData, joinTypeLabels, type JoinType } from '@/lib/join-data'
+import { useDatasetFile } from '@/lib/useDatasetFile'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+
+interface JoinDialogProps {
+  onClose: () => void
+}
+
+/**
+ * Junta aos dados atuais colunas de uma tabela de consulta (ex.: catálogo
+ * de produtos), casando as linhas por uma coluna chave de cada lado, como
+ * um PROCV
+ */
+export function JoinDialog({ onClose }: JoinDialogProps) {
+  const { data, lookupData, setLookupData, replaceData, company, displayTimeZone } = useAppStore()
+  const { readFile, isReading, error: readError } = useDatasetFile()
+  const [type, setType] = useState<JoinType>('left')
+  const [leftKey, setLeftKey] = useState(data?.schema.columns[0]?.key ?? '')
+  const [rightKey, setRightKey] = useState(lookupData?.schema.columns[0]?.key ?? '')
+  const [fields, setFields] = useState<string[]>(
+    lookupData?.schema.columns.slice(1).map(column => column.key) ?? []
+  )
+
+  const processOptions = useMemo(() => ({
+    locale: company.defaultLocale,
+    currencyCode: company.currencyCode,
+    dateFormat: company.dateFormat,
+    timeZone: displayTimeZone,
+  }), [company, displayTimeZone])
+
+  const handleFile = async (file: File) => {
+    const lookup = await readFile(file)
+    if (!lookup) return
+    setLookupData(lookup)
+    setRightKey(lookup.schema.columns[0]?.key ?? '')
+    setFields(lookup.schema.columns.slice(1).map(column => column.key))
+  }
+
+  // Resultado da junção, recalculado a cada escolha (contagens e prévia)
+  const result = useMemo(() => {
+    if (!data || !lookupData || !leftKey || !rightKey) return null
+    const selected = fields.filter(field => field !== rightKey)
+    return joinData(data, lookupData, { type, leftKey, rightKey, fields: selected }, processOptions)
+  }, [data, lookupData, type, leftKey, rightKey, fields, processOptions])
+
+  const handleApply = () => {
+    if (!result) return
+    replaceData(result.data)
+    onClose()
+  }
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onClose, description: 'Fechar junção' },
+  ])
+
+  if (!data) return null
+
+  const toggleField = (key: string) => {
+    setFields(fields.includes(key) ? fields.filter(f => f !== key) : [...fields, key])
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="join-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-2xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <Combine className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div>
+              <h2 id="join-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Juntar tabela de consulta
+              </h2>
+              <p className="text-xs text-gray-500">Traga colunas de outro arquivo pela coluna chave</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 max-h-[65vh] overflow-auto text-sm text-gray-700 dark:text-gray-300">
+          {/* Tabela de consulta */}
+          <div className="flex items-center gap-3">
+            <FileSpreadsheet className="w-5 h-5 text-gray-400 shrink-0" aria-hidden="true" />
+            <span className="flex-1 truncate">
+              {lookupData
+                ? `${lookupData.metadata.sourceFileName ?? 'Tabela de consulta'} · ${lookupData.rows.length.toLocaleString('pt-BR')} linhas`
+                : 'Nenhuma tabela de consulta carregada'}
+            </span>
+            <label className={cn(
+              'px-3 py-1.5 rounded-lg border border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-800',
+              isReading && 'opacity-50 pointer-events-none'
+            )}>
+              {isReading ? 'Lendo...' : lookupData ? 'Trocar arquivo' : 'Carregar arquivo'}
+              <input
+                type="file"
+                accept={getAcceptAttribute()}
+                className="sr-only"
+                onChange={(e) => {
+                  const file = e.target.files?.[0]
+                  e.target.value = ''
+                  if (file) handleFile(file)
+                }}
+              />
+            </label>
+          </div>
+          {readError && <p className="text-xs text-red-600">{readError}</p>}
+
+          {lookupData && (
+            <>
+              {/* Tipo de junção */}
+              <div className="flex flex-wrap gap-4">
+                {(Object.keys(joinTypeLabels) as JoinType[]).map(option => (
+                  <label key={option} className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="radio"
+                      name="join-type"
+                      checked={type === option}
+                      onChange={() => setType(option)}
+                      className="accent-primary-600"
+                    />
+                    {joinTypeLabels[option]}
+                  </label>
+                ))}
+              </div>
+
+              {/* Colunas chave */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                <label className="space-y-1">
+                  <span className="text-xs font-medium text-gray-500">Chave nos dados atuais</span>
+                  <select
+                    value={leftKey}
+                    onChange={(e) => setLeftKey(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                  >
+                    {data.schema.columns.map(column => (
+                      <option key={column.key} value={column.key}>{column.label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="text-xs font-medium text-gray-500">Chave na tabela de consulta</span>
+                  <select
+                    value={rightKey}
+                    onChange={(e) => setRightKey(e.target.value)}
+                    className="w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                  >
+                    {lookupData.schema.columns.map(column => (
+                      <option key={column.key} value={column.key}>{column.label}</option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+
+              {/* Colunas trazidas */}
+              <div>
+                <p className="text-xs font-medium text-gray-500 mb-1">Colunas a trazer</p>
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-1">
+                  {lookupData.schema.columns.filter(column => column.key !== rightKey).map(column => (
+                    <label key={column.key} className="flex items-center gap-2 cursor-pointer truncate">
+                      <input
+                        type="checkbox"
+                        checked={fields.includes(column.key)}
+                        onChange={() => toggleField(column.key)}
+                        className="accent-primary-600"
+                      />
+                      {column.label}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              {/* Resumo */}
+              {result && (
+                <p className={cn('text-xs', result.unmatched > 0 ? 'text-amber-600' : 'text-green-600')}>
+                  {result.matched.toLocaleString('pt-BR')} de {data.rows.length.toLocaleString('pt-BR')} linhas encontradas
+                  {result.unmatched > 0 && ` · ${result.unmatched.toLocaleString('pt-BR')} sem correspondência${type === 'inner' ? ' (serão descartadas)' : ' (ficarão vazias)'}`}
+                  {result.duplicateKeys > 0 && ` · ${result.duplicateKeys.toLocaleString('pt-BR')} chaves repetidas na consulta`}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Cancelar
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!result || !fields.some(field => field !== rightKey)}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Juntar colunas
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,199 @@
+'use client'
+
+import { useState } from 'react'
+import { Layers, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { applySchemaMatch, rememberMapping, type SchemaMatch } from '@/lib/schema-matching'
+import { useAppStore, type SchemaMatchReview } from '@/lib/store'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+import type { ProcessedData } from '@/types'
+import { ColumnMappingWizard } from './ColumnMappingWizard'
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+interface SchemaMatchDialogProps {
+  review: SchemaMatchReview
+  onApply: (data: ProcessedData) => void
+  onAdjust: (match: SchemaMatch) => void
+  onSkip: () => void
+}
+
+function SchemaMatchDialog({ review, onApply, onAdjust, onSkip }: SchemaMatchDialogProps) {
+  const { source, options, matches } = review
+  const [selected, setSelected] = useState(0)
+  const match = matches[selected]
+
+  const handleApply = () => {
+    onApply(applySchemaMatch(source, match, options))
+  }
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onSkip, description: 'Ignorar schema salvo' },
+  ])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onSkip}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="schema-match-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-lg w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <Layers className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 id="schema-match-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Schema salvo reconhecido
+              </h2>
+              <p className="text-xs text-gray-500 truncate">
+                {[options.sourceFileName, options.sheetName].filter(Boolean).join(' · ')}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onSkip}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-4 text-sm text-gray-700 dark:text-gray-300">
+          {/* Schemas candidatos */}
+          <div className="space-y-1">
+            {matches.map((candidate, i) => (
+              <label
+                key={candidate.schema.id}
+                className={cn(
+                  'flex items-center gap-3 px-3 py-2 rounded-lg border cursor-pointer transition-colors',
+                  i === selected
+                    ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/20'
+                    : 'border-gray-200 dark:border-gray-700 hover:bg-gray-50 dark:hover:bg-gray-800'
+                )}
+              >
+                <input
+                  type="radio"
+                  name="schema-match"
+                  checked={i === selected}
+                  onChange={() => setSelected(i)}
+                  className="accent-primary-600"
+                />
+                <span className="flex-1 font-medium text-gray-900 dark:text-white truncate">
+                  {candidate.schema.name}
+                </span>
+                <span className="text-xs font-medium text-gray-500">
+                  {formatPercent(candidate.score)} de semelhança
+                </span>
+              </label>
+            ))}
+          </div>
+
+          {/* Diferenças */}
+          <p>
+            {Object.keys(match.mapping).length} de {match.schema.columns.length} colunas do schema
+            encontradas no arquivo.
+          </p>
+          {match.missing.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-amber-600 dark:text-amber-400">
+                Faltando no arquivo (ficarão vazias)
+              </p>
+              <p className="text-xs text-gray-500">{match.missing.map(column => column.label).join(', ')}</p>
+            </div>
+          )}
+          {match.extra.length > 0 && (
+            <div>
+              <p className="text-xs font-medium text-primary-600 dark:text-primary-400">
+                Colunas novas (tipos inferidos)
+              </p>
+              <p className="text-xs text-gray-500">{match.extra.map(column => column.header).join(', ')}</p>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onSkip}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Ignorar
+          </button>
+          <button
+            type="button"
+            onClick={() => onAdjust(match)}
+            className="px-4 py-2 text-sm text-primary-600 dark:text-primary-400 rounded-lg hover:bg-primary-50 dark:hover:bg-primary-900/20 transition-colors"
+          >
+            Mapear colunas
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors"
+          >
+            Aplicar schema
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Oferece um schema salvo parecido com o arquivo importado, com a
+ * semelhança e as colunas que faltam ou sobram. "Mapear colunas" abre o
+ * assistente de mapeamento; ignorar segue para a revisão dos tipos
+ * inferidos.
+ */
+export function SchemaMatchPanel() {
+  const { data, schemaMatch, replaceData, setSchemaMatch, setTypeReview, saveSchema } = useAppStore()
+  const [adjusting, setAdjusting] = useState<SchemaMatch | null>(null)
+
+  if (!data || !schemaMatch) return null
+
+  const finish = (processed: ProcessedData) => {
+    replaceData(processed)
+    setAdjusting(null)
+    setSchemaMatch(null)
+  }
+
+  if (adjusting) {
+    return (
+      <ColumnMappingWizard
+        source={schemaMatch.source}
+        match={adjusting}
+        onBack={() => setAdjusting(null)}
+        onApply={(match) => {
+          // O mapeamento fica no schema salvo como aliases das colunas
+          const schema = rememberMapping(schemaMatch.source, match)
+          saveSchema(schema)
+          finish(applySchemaMatch(schemaMatch.source, { ...match, schema }, schemaMatch.options))
+        }}
+      />
+    )
+  }
+
+  return (
+    <SchemaMatchDialog
+      review={schemaMatch}
+      onApply={finish}
+      onAdjust={setAdjusting}
+      onSkip={() => {
+        setSchemaMatch(null)
+        setTypeReview({ source: schemaMatch.source, options: schemaMatch.options })
+      }}
+    />
+  )
+}
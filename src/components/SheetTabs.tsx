@@ -0,0 +1,102 @@
+'use client'
+
+import { Eye, EyeOff, FileSpreadsheet } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/lib/store'
+
+interface SheetTabsProps {
+  className?: string
+}
+
+export function SheetTabs({ className }: SheetTabsProps) {
+  const {
+    sheets,
+    activeSheetIndex,
+    showHiddenSheets,
+    setActiveSheet,
+    setShowHiddenSheets
+  } = useAppStore()
+
+  if (sheets.length <= 1) return null
+
+  const hiddenCount = sheets.filter(s => s.info.visibility !== 'visible').length
+  const visibleSheets = sheets
+    .map((sheet, index) => ({ sheet, index }))
+    .filter(({ sheet, index }) =>
+      showHiddenSheets ||
+      sheet.info.visibility === 'visible' ||
+      index === activeSheetIndex
+    )
+
+  return (
+    <div
+      className={cn(
+        'flex items-center gap-2 p-1 bg-white rounded-xl border border-gray-200 shadow-soft',
+        className
+      )}
+    >
+      <div
+        className="flex items-center gap-1 flex-1 overflow-x-auto"
+        role="tablist"
+        aria-label="Planilhas"
+      >
+        {visibleSheets.map(({ sheet, index }) => {
+          const isActive = index === activeSheetIndex
+          const isHidden = sheet.info.visibility !== 'visible'
+
+          return (
+            <button
+              key={`${sheet.info.index}-${sheet.info.name}`}
+              role="tab"
+              aria-selected={isActive}
+              onClick={() => setActiveSheet(index)}
+              title={
+                isHidden
+                  ? `Planilha ${sheet.info.visibility === 'veryHidden' ? 'muito oculta' : 'oculta'}`
+                  : undefined
+              }
+              className={cn(
+                'flex items-center gap-2 px-3 py-2 rounded-lg text-sm whitespace-nowrap transition-colors',
+                isActive
+                  ? 'bg-primary-50 text-primary-700 font-medium ring-1 ring-primary-200'
+                  : 'text-gray-600 hover:bg-gray-50',
+                isHidden && 'italic text-gray-400',
+              )}
+            >
+              {isHidden ? (
+                <EyeOff className="w-3.5 h-3.5" aria-hidden="true" />
+              ) : (
+                <FileSpreadsheet className="w-3.5 h-3.5" aria-hidden="true" />
+              )}
+              <span>{sheet.info.name}</span>
+              <span className="text-xs text-gray-400">
+                {sheet.data.rows.length.toLocaleString()} × {sheet.data.schema.columns.length}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+
+      {hiddenCount > 0 && (
+        <button
+          onClick={() => setShowHiddenSheets(!showHiddenSheets)}
+          className={cn(
+            'flex items-center gap-1.5 px-3 py-2 text-sm rounded-lg whitespace-nowrap',
+            'text-gray-600 bg-gray-50 hover:bg-gray-100 transition-colors'
+          )}
+          aria-pressed={showHiddenSheets}
+          aria-label={showHiddenSheets ? 'Esconder planilhas ocultas' : 'Mostrar planilhas ocultas'}
+        >
+          {showHiddenSheets ? (
+            <EyeOff className="w-4 h-4" aria-hidden="true" />
+          ) : (
+            <Eye className="w-4 h-4" aria-hidden="true" />
+          )}
+          <span className="hidden sm:inline">
+            {showHiddenSheets ? 'Esconder ocultas' : `Ocultas (${hiddenCount})`}
+          </span>
+        </button>
+      )}
+    </div>
+  )
+}
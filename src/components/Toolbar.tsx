@@ -9,13 +9,25 @@ import {
   ChevronDown,
   X,
   Pencil,
-  PencilOff
+  PencilOff,
+  Save,
+  Check,
+  Sigma,
+  Combine,
+  GitCompare,
+  CopyX,
+  Undo2
 } from 'lucide-react'
 import { useState, useRef, useEffect } from 'react'
 import { cn } from '@/lib/utils'
 import { useAppStore } from '@/lib/store'
 import { exportData } from '@/lib/excel-parser'
+import { isDocumentType } from '@/lib/br-documents'
 import { downloadFile } from '@/lib/utils'
+import { ComputedColumnDialog } from './ComputedColumnDialog'
+import { JoinDialog } from './JoinDialog'
+import { CompareDialog } from './CompareDialog'
+import { DuplicatesDialog } from './DuplicatesDialog'
 
 interface ToolbarProps {
   className?: string
@@ -30,11 +42,22 @@ export function Toolbar({ className }: ToolbarProps) {
     resetTableState, 
     toggleColumn,
     isEditMode,
-    setEditMode
+    setEditMode,
+    savedSchemas,
+    saveSchema,
+    diff,
+    undoEntry,
+    undo
   } = useAppStore()
   
   const [showColumnPicker, setShowColumnPicker] = useState(false)
   const [showExportMenu, setShowExportMenu] = useState(false)
+  const [showComputedColumn, setShowComputedColumn] = useState(false)
+  const [showJoin, setShowJoin] = useState(false)
+  const [showCompare, setShowCompare] = useState(false)
+  const [showDuplicates, setShowDuplicates] = useState(false)
+  // CPF, CNPJ, CEP e placas com máscara ou só com os caracteres
+  const [maskDocuments, setMaskDocuments] = useState(true)
   const columnPickerRef = useRef<HTMLDivElement>(null)
   const exportMenuRef = useRef<HTMLDivElement>(null)
   
@@ -53,10 +76,15 @@ export function Toolbar({ className }: ToolbarProps) {
     return () => document.removeEventListener('mousedown', handleClickOutside)
   }, [])
   
+  // Schema atual já salvo, para ser reconhecido nas próximas importações
+  const isSchemaSaved = data ? savedSchemas[data.schema.id] === data.schema : false
+  
+  const hasDocuments = data?.schema.columns.some(col => isDocumentType(col.format.type)) ?? false
+  
   const handleExport = (format: 'xlsx' | 'csv' | 'json') => {
     if (!data) return
     
-    const blob = exportData(data, format)
+    const blob = exportData(data, format, { documents: maskDocuments ? 'masked' : 'digits' })
     const extension = format === 'xlsx' ? 'xlsx' : format === 'csv' ? 'csv' : 'json'
     const filename = `${data.schema.name.replace(/\s+/g, '_')}_${new Date().toISOString().split('T')[0]}.${extension}`
     
@@ -200,6 +228,17 @@ export function Toolbar({ className }: ToolbarProps) {
               >
                 JSON (.json)
               </button>
+              {hasDocuments && (
+                <label className="flex items-center gap-2 px-4 py-2 mt-1 border-t border-gray-100 text-xs text-gray-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={maskDocuments}
+                    onChange={(e) => setMaskDocuments(e.target.checked)}
+                    className="rounded border-gray-300"
+                  />
+                  Documentos com máscara
+                </label>
+              )}
             </div>
           )}
         </div>
@@ -217,11 +256,96 @@ export function Toolbar({ className }: ToolbarProps) {
           <span className="hidden sm:inline">Imprimir</span>
         </button>
         
+        {/* Coluna calculada */}
+        <button
+          onClick={() => setShowComputedColumn(true)}
+          disabled={!!diff}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Criar coluna a partir de uma expressão com as outras colunas"
+          aria-label="Coluna calculada"
+        >
+          <Sigma className="w-4 h-4" aria-hidden="true" />
+          <span className="hidden sm:inline">Coluna calculada</span>
+        </button>
+        {showComputedColumn && <ComputedColumnDialog onClose={() => setShowComputedColumn(false)} />}
+        
+        {/* Juntar tabela de consulta */}
+        <button
+          onClick={() => setShowJoin(true)}
+          disabled={!!diff}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Trazer colunas de outro arquivo pela coluna chave (PROCV)"
+          aria-label="Juntar tabela"
+        >
+          <Combine className="w-4 h-4" aria-hidden="true" />
+          <span className="hidden sm:inline">Juntar tabela</span>
+        </button>
+        {showJoin && <JoinDialog onClose={() => setShowJoin(false)} />}
+        
+        {/* Comparar com uma versão anterior */}
+        <button
+          onClick={() => setShowCompare(true)}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+          title="Comparar os dados com uma versão anterior do arquivo"
+          aria-label="Comparar versões"
+        >
+          <GitCompare className="w-4 h-4" aria-hidden="true" />
+          <span className="hidden sm:inline">Comparar versões</span>
+        </button>
+        {showCompare && <CompareDialog onClose={() => setShowCompare(false)} />}
+        
+        {/* Duplicatas */}
+        <button
+          onClick={() => setShowDuplicates(true)}
+          disabled={!!diff}
+          className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          title="Encontrar e mesclar linhas repetidas"
+          aria-label="Duplicatas"
+        >
+          <CopyX className="w-4 h-4" aria-hidden="true" />
+          <span className="hidden sm:inline">Duplicatas</span>
+        </button>
+        {showDuplicates && <DuplicatesDialog onClose={() => setShowDuplicates(false)} />}
+        
+        {/* Desfazer a última operação (enquanto os dados não mudarem) */}
+        {undoEntry && undoEntry.after === data && (
+          <button
+            onClick={undo}
+            className="flex items-center gap-1.5 px-3 py-2 text-sm text-gray-600 bg-gray-50 hover:bg-gray-100 rounded-lg transition-colors"
+            title={`Desfazer: ${undoEntry.label} (Ctrl+Z)`}
+            aria-label={`Desfazer: ${undoEntry.label}`}
+          >
+            <Undo2 className="w-4 h-4" aria-hidden="true" />
+            <span className="hidden sm:inline">Desfazer</span>
+          </button>
+        )}
+        
+        {/* Salvar schema */}
+        <button
+          onClick={() => data && saveSchema(data.schema)}
+          disabled={isSchemaSaved}
+          className={cn(
+            'flex items-center gap-1.5 px-3 py-2 text-sm rounded-lg',
+            'text-gray-600 bg-gray-50 hover:bg-gray-100 transition-colors disabled:cursor-default disabled:hover:bg-gray-50'
+          )}
+          title="Salvar colunas, rótulos e formatos para reconhecer arquivos parecidos"
+          aria-label="Salvar schema"
+        >
+          {isSchemaSaved ? (
+            <Check className="w-4 h-4 text-green-600" aria-hidden="true" />
+          ) : (
+            <Save className="w-4 h-4" aria-hidden="true" />
+          )}
+          <span className="hidden sm:inline">{isSchemaSaved ? 'Schema salvo' : 'Salvar schema'}</span>
+        </button>
+        
         {/* Edit Mode Toggle */}
         <button
           onClick={() => setEditMode(!isEditMode)}
+          disabled={!!diff}
+          title={diff ? 'Encerre a comparação para editar' : undefined}
           className={cn(
-            'flex items-center gap-1.5 px-3 py-2 text-sm rounded-lg transition-colors',
+            'flex items-center gap-1.5 px-3 py-2 text-sm rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed',
             isEditMode 
               ? 'text-primary-600 bg-primary-50 hover:bg-primary-100 ring-1 ring-primary-200' 
               : 'text-gray-600 bg-gray-50 hover:bg-gray-100'
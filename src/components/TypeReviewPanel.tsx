@@ -0,0 +1,285 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ListChecks, X } from 'lucide-react'
+import { cn, formatValue } from '@/lib/utils'
+import { columnTypeLabels } from '@/lib/config'
+import {
+  analyzeSchemaTypes,
+  processData,
+  retypeColumn,
+  type TypeInference,
+} from '@/lib/excel-parser'
+import { useAppStore, type TypeReview } from '@/lib/store'
+import { getPrimaryKeyColumns } from '@/lib/row-ids'
+import { useKeyboardShortcuts } from '@/lib/useKeyboardShortcuts'
+import type { ColumnType, DataSchema, ProcessedData } from '@/types'
+
+// Linhas exibidas na pré-visualização de cada coluna
+const PREVIEW_ROWS = 3
+
+// Abaixo disso a confiança é destacada
+const LOW_CONFIDENCE = 0.9
+
+const COLUMN_TYPES = Object.keys(columnTypeLabels) as ColumnType[]
+
+function formatPercent(value: number): string {
+  return `${Math.round(value * 100)}%`
+}
+
+/**
+ * Explica como o tipo foi escolhido
+ */
+function describeInference(inference: TypeInference): string {
+  switch (inference.rule) {
+    case 'empty':
+      return 'Coluna vazia'
+    case 'threshold':
+      return `${formatPercent(inference.confidence)} dos valores são ${columnTypeLabels[inference.type].toLowerCase()}`
+    case 'badge':
+      return `Nenhum tipo chegou a 70%; ${inference.distinct} valores distintos`
+    case 'fallback':
+      return 'Nenhum tipo chegou a 70%'
+  }
+}
+
+/**
+ * Tipos reconhecidos nos valores, do mais frequente ao menos frequente.
+ * Progresso é um subconjunto de número e só aparece quando foi o escolhido.
+ */
+function describeCounts(inference: TypeInference): string {
+  return (Object.entries(inference.counts) as [ColumnType, number][])
+    .filter(([type]) => type !== 'progress' || inference.type === 'progress')
+    .sort((a, b) => b[1] - a[1])
+    .map(([type, count]) => `${columnTypeLabels[type]} ${count.toLocaleString('pt-BR')}`)
+    .join(' · ')
+}
+
+interface TypeReviewDialogProps {
+  data: ProcessedData
+  review: TypeReview
+  onApply: (data: ProcessedData) => void
+  onClose: () => void
+}
+
+function TypeReviewDialog({ data, review, onApply, onClose }: TypeReviewDialogProps) {
+  const { source, options } = review
+  // Tipo escolhido pelo usuário, por chave de coluna
+  const [overrides, setOverrides] = useState<Record<string, ColumnType>>({})
+  // Colunas da chave primária, que dá às linhas IDs estáveis
+  const [keyColumns, setKeyColumns] = useState<string[]>(() => getPrimaryKeyColumns(data.schema))
+
+  const inferences = useMemo(
+    () => analyzeSchemaTypes(source, data.schema, options),
+    [source, data.schema, options]
+  )
+
+  const schema = useMemo<DataSchema>(() => ({
+    ...data.schema,
+    columns: data.schema.columns.map(column => {
+      const type = overrides[column.key]
+      if (!type || type === column.format.type) return column
+      return retypeColumn(column, type, source.data.map(row => row[column.key]), options)
+    }),
+    primaryKey: keyColumns.length > 1 ? keyColumns : keyColumns[0],
+  }), [data.schema, overrides, keyColumns, source, options])
+
+  // Primeiras linhas normalizadas com os tipos escolhidos
+  const preview = useMemo(
+    () => processData({ ...source, data: source.data.slice(0, PREVIEW_ROWS), errors: [] }, schema, options),
+    [source, schema, options]
+  )
+
+  const keyChanged = keyColumns.join('\n') !== getPrimaryKeyColumns(data.schema).join('\n')
+  const changed = keyChanged || schema.columns.some((column, i) => column !== data.schema.columns[i])
+  
+  const toggleKeyColumn = (key: string) => {
+    setKeyColumns(prev => prev.includes(key) ? prev.filter(k => k !== key) : [...prev, key])
+  }
+  const sampled = Object.values(inferences).find(inference => inference.sampled < inference.total)
+
+  const handleApply = () => {
+    if (changed) onApply(processData(source, schema, options))
+    onClose()
+  }
+
+  useKeyboardShortcuts([
+    { key: 'Escape', action: onClose, description: 'Manter tipos inferidos' },
+  ])
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm animate-fade-in"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="type-review-title"
+    >
+      <div
+        className="bg-white dark:bg-gray-900 rounded-xl shadow-2xl max-w-5xl w-full mx-4 overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-center justify-between px-6 py-4 border-b border-gray-200 dark:border-gray-800">
+          <div className="flex items-center gap-3 min-w-0">
+            <div className="w-10 h-10 rounded-lg bg-primary-50 dark:bg-primary-900/30 flex items-center justify-center">
+              <ListChecks className="w-5 h-5 text-primary-600 dark:text-primary-400" />
+            </div>
+            <div className="min-w-0">
+              <h2 id="type-review-title" className="text-lg font-semibold text-gray-900 dark:text-white">
+                Tipos inferidos
+              </h2>
+              <p className="text-xs text-gray-500 truncate">
+                {[options.sourceFileName, options.sheetName].filter(Boolean).join(' · ')}
+                {sampled && ` — amostra de ${sampled.sampled.toLocaleString('pt-BR')} de ${sampled.total.toLocaleString('pt-BR')} valores por coluna`}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 transition-colors rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800"
+            aria-label="Fechar"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Colunas */}
+        <div className="max-h-[60vh] overflow-auto">
+          <table className="w-full text-sm text-gray-700 dark:text-gray-300">
+            <thead className="sticky top-0 bg-gray-50 dark:bg-gray-800 text-xs text-gray-500 dark:text-gray-400">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium">Coluna</th>
+                <th className="px-4 py-2 text-left font-medium">Tipo</th>
+                <th className="px-4 py-2 text-left font-medium" title="Colunas que identificam cada linha">Chave</th>
+                <th className="px-4 py-2 text-left font-medium">Confiança</th>
+                <th className="px-4 py-2 text-left font-medium">Contraexemplos</th>
+                <th className="px-4 py-2 text-left font-medium">Pré-visualização</th>
+              </tr>
+            </thead>
+            <tbody>
+              {schema.columns.map((column) => {
+                const inference = inferences[column.key]
+                const fromSheet = source.columnFormats?.[column.key]?.type
+                const lowConfidence = inference.rule !== 'empty' && inference.confidence < LOW_CONFIDENCE
+
+                return (
+                  <tr key={column.key} className="border-b border-gray-100 dark:border-gray-800 last:border-0 align-top">
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-gray-900 dark:text-white">{column.label}</p>
+                      <p className="text-xs text-gray-400 font-mono">{column.key}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      <select
+                        value={column.format.type}
+                        onChange={(e) => setOverrides(prev => ({ ...prev, [column.key]: e.target.value as ColumnType }))}
+                        className="px-2 py-1.5 rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800"
+                        aria-label={`Tipo da coluna ${column.label}`}
+                      >
+                        {COLUMN_TYPES.map(type => (
+                          <option key={type} value={type}>{columnTypeLabels[type]}</option>
+                        ))}
+                      </select>
+                      {fromSheet && (
+                        <p className="mt-1 text-xs text-gray-400">Formato da planilha</p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3 text-center">
+                      <input
+                        type="checkbox"
+                        checked={keyColumns.includes(column.key)}
+                        onChange={() => toggleKeyColumn(column.key)}
+                        className="w-4 h-4 rounded border-gray-300 text-primary-600 focus:ring-primary-500"
+                        aria-label={`Usar ${column.label} na chave primária`}
+                      />
+                    </td>
+                    <td className="px-4 py-3 min-w-[12rem]">
+                      <div className="flex items-center gap-2">
+                        <div className="h-1.5 w-16 rounded-full bg-gray-100 dark:bg-gray-800 overflow-hidden">
+                          <div
+                            className={cn('h-full', lowConfidence ? 'bg-amber-500' : 'bg-primary-500')}
+                            style={{ width: formatPercent(inference.confidence) }}
+                          />
+                        </div>
+                        <span className={cn('text-xs font-medium', lowConfidence && 'text-amber-600 dark:text-amber-400')}>
+                          {formatPercent(inference.confidence)}
+                        </span>
+                      </div>
+                      <p className="mt-1 text-xs text-gray-500">{describeInference(inference)}</p>
+                      <p className="text-xs text-gray-400">{describeCounts(inference)}</p>
+                    </td>
+                    <td className="px-4 py-3">
+                      {inference.counterExamples.length > 0 ? (
+                        <ul className="space-y-0.5 text-xs font-mono text-gray-500">
+                          {inference.counterExamples.map(example => (
+                            <li key={example} className="truncate max-w-[10rem]" title={example}>{example}</li>
+                          ))}
+                        </ul>
+                      ) : (
+                        <span className="text-xs text-gray-300">—</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <ul className="space-y-0.5 text-xs">
+                        {preview.rows.map((row, i) => (
+                          <li
+                            key={row._id}
+                            className="truncate max-w-[12rem]"
+                            title={String(source.data[i]?.[column.key] ?? '')}
+                          >
+                            {row[column.key] == null
+                              ? <span className="text-gray-300">vazio</span>
+                              : formatValue(row[column.key], column.format)}
+                          </li>
+                        ))}
+                      </ul>
+                    </td>
+                  </tr>
+                )
+              })}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-3 bg-gray-50 dark:bg-gray-800/50 border-t border-gray-200 dark:border-gray-800">
+          <button
+            type="button"
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-600 dark:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-800 transition-colors"
+          >
+            Manter tipos inferidos
+          </button>
+          <button
+            type="button"
+            onClick={handleApply}
+            disabled={!changed}
+            className="px-4 py-2 text-sm font-medium text-white bg-primary-600 rounded-lg hover:bg-primary-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Aplicar tipos
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Painel exibido após a importação com o tipo inferido de cada coluna,
+ * a confiança da inferência e os valores que não se encaixam. Trocar o
+ * tipo atualiza a pré-visualização; os dados só mudam ao aplicar.
+ */
+export function TypeReviewPanel() {
+  const { data, typeReview, replaceData, setTypeReview } = useAppStore()
+
+  if (!data || !typeReview) return null
+
+  return (
+    <TypeReviewDialog
+      data={data}
+      review={typeReview}
+      onApply={replaceData}
+      onClose={() => setTypeReview(null)}
+    />
+  )
+}
@@ -0,0 +1,107 @@
+'use client'
+
+import { useMemo, useState } from 'react'
+import { ShieldAlert, ShieldCheck, ChevronDown } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { useAppStore } from '@/lib/store'
+import { hasValidationRules, validationRuleLabels } from '@/lib/validation'
+import type { ValidationRule, ValidationViolation } from '@/types'
+
+// Linhas listadas de uma vez no painel
+const MAX_LISTED_ROWS = 100
+
+interface ValidationPanelProps {
+  className?: string
+}
+
+/**
+ * Relatório de qualidade dos dados: violações das regras do schema,
+ * resumidas por regra e listadas por linha. Clicar em uma violação leva
+ * até a célula na tabela.
+ */
+export function ValidationPanel({ className }: ValidationPanelProps) {
+  const { data, focusCell } = useAppStore()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const violations = useMemo(() => data?.violations ?? [], [data?.violations])
+
+  // Violações agrupadas por linha, na ordem das linhas
+  const byRow = useMemo(() => {
+    const groups = new Map<string, ValidationViolation[]>()
+    for (const violation of violations) {
+      groups.set(violation.rowId, [...(groups.get(violation.rowId) ?? []), violation])
+    }
+    return [...groups.values()]
+  }, [violations])
+
+  const byRule = useMemo(() => {
+    const counts = new Map<ValidationRule, number>()
+    for (const violation of violations) counts.set(violation.rule, (counts.get(violation.rule) ?? 0) + 1)
+    return [...counts.entries()]
+  }, [violations])
+
+  if (!data || !hasValidationRules(data.schema)) return null
+
+  const labels = new Map(data.schema.columns.map(column => [column.key, column.label]))
+
+  if (violations.length === 0) {
+    return (
+      <div className={cn('flex items-center gap-2 px-4 py-3 rounded-xl border border-green-200 bg-green-50 text-sm text-green-700', className)}>
+        <ShieldCheck className="w-4 h-4" aria-hidden="true" />
+        Todos os valores atendem às regras do schema
+      </div>
+    )
+  }
+
+  return (
+    <div className={cn('rounded-xl border border-amber-200 bg-amber-50/60 text-sm', className)}>
+      <button
+        type="button"
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex w-full items-center gap-2 px-4 py-3 text-left text-amber-800"
+        aria-expanded={isOpen}
+      >
+        <ShieldAlert className="w-4 h-4 shrink-0" aria-hidden="true" />
+        <span className="font-medium">
+          {violations.length.toLocaleString('pt-BR')} {violations.length === 1 ? 'problema' : 'problemas'} em{' '}
+          {byRow.length.toLocaleString('pt-BR')} {byRow.length === 1 ? 'linha' : 'linhas'}
+        </span>
+        <span className="hidden md:inline text-xs text-amber-700/80 truncate">
+          {byRule.map(([rule, count]) => `${validationRuleLabels[rule]} ${count.toLocaleString('pt-BR')}`).join(' · ')}
+        </span>
+        <ChevronDown className={cn('w-4 h-4 ml-auto shrink-0 transition-transform', isOpen && 'rotate-180')} aria-hidden="true" />
+      </button>
+
+      {isOpen && (
+        <ul className="max-h-72 overflow-auto border-t border-amber-200 divide-y divide-amber-100">
+          {byRow.slice(0, MAX_LISTED_ROWS).map(group => (
+            <li key={group[0].rowId} className="flex gap-3 px-4 py-2">
+              <span className="w-20 shrink-0 text-xs font-medium text-gray-500">
+                Linha {(group[0].rowIndex + 1).toLocaleString('pt-BR')}
+              </span>
+              <ul className="flex-1 space-y-0.5">
+                {group.map((violation, i) => (
+                  <li key={i}>
+                    <button
+                      type="button"
+                      onClick={() => focusCell(violation.rowId, violation.columnKey)}
+                      className="text-left text-gray-700 hover:text-primary-700 hover:underline"
+                    >
+                      <span className="font-medium">{labels.get(violation.columnKey) ?? violation.columnKey}:</span>{' '}
+                      {violation.message}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </li>
+          ))}
+          {byRow.length > MAX_LISTED_ROWS && (
+            <li className="px-4 py-2 text-xs text-gray-500">
+              e mais {(byRow.length - MAX_LISTED_ROWS).toLocaleString('pt-BR')} linhas com problemas
+            </li>
+          )}
+        </ul>
+      )}
+    </div>
+  )
+}
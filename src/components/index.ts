@@ -5,3 +5,16 @@ export { Toolbar } from './Toolbar'
 export { Pagination } from './Pagination'
 export { Charts } from './Charts'
 export { Header } from './Header'
+export { SheetTabs } from './SheetTabs'
+export { CsvImportDialog } from './CsvImportDialog'
+export { FixedWidthEditor } from './FixedWidthEditor'
+export { ClipboardPaste } from './ClipboardPaste'
+export { TypeReviewPanel } from './TypeReviewPanel'
+export { SchemaMatchPanel } from './SchemaMatchPanel'
+export { ColumnMappingWizard } from './ColumnMappingWizard'
+export { ValidationPanel } from './ValidationPanel'
+export { ComputedColumnDialog } from './ComputedColumnDialog'
+export { JoinDialog } from './JoinDialog'
+export { CompareDialog } from './CompareDialog'
+export { DiffPanel } from './DiffPanel'
+export { DuplicatesDialog } from './DuplicatesDialog'
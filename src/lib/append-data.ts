@@ -0,0 +1,170 @@
+import type { CellValue, ColumnDefinition, ColumnType, DataRow, DataSchema, ProcessedData } from '@/types'
+import {
+  generateSchemaFromData,
+  processData,
+  type ParseResult,
+  type ProcessDataOptions,
+} from './excel-parser'
+import { matchColumnSources } from './column-keys'
+import { isComputedColumn } from './computed-columns'
+import { columnTypeLabels } from './config'
+
+// ============================================
+// UNIÃO DE ARQUIVOS COM O MESMO LAYOUT
+// ============================================
+
+/** Chave da coluna com o arquivo (ou planilha) de origem de cada linha */
+export const SOURCE_COLUMN_KEY = '_source'
+
+/**
+ * Arquivo (ou planilha) a acrescentar, com o nome gravado na coluna de origem
+ */
+export interface AppendSource {
+  name: string
+  source: ParseResult
+}
+
+/**
+ * Nome de origem: o arquivo, ou "arquivo / planilha" em pastas de trabalho
+ */
+export function getSourceName(fileName: string, sheetName?: string): string {
+  return sheetName ? `${fileName} / ${sheetName}` : fileName
+}
+
+function createSourceColumn(): ColumnDefinition {
+  return {
+    key: SOURCE_COLUMN_KEY,
+    label: 'Origem',
+    header: 'Origem',
+    format: { type: 'badge' },
+    sortable: true,
+    filterable: true,
+    searchable: true,
+  }
+}
+
+// Tipos que aceitam os valores uns dos outros sem perda
+const TYPE_FAMILIES: ColumnType[][] = [
+  ['number', 'integer', 'currency', 'progress'],
+  ['date', 'datetime'],
+]
+
+/**
+ * Tipo inferido no arquivo que não combina com o tipo da coluna. Colunas de
+ * texto aceitam qualquer valor.
+ */
+function isTypeConflict(columnType: ColumnType, inferredType: ColumnType): boolean {
+  if (columnType === inferredType || columnType === 'string' || columnType === 'badge') return false
+  return !TYPE_FAMILIES.some(family => family.includes(columnType) && family.includes(inferredType))
+}
+
+function hasValues(source: ParseResult, key: string): boolean {
+  return source.data.some(record => {
+    const value = record[key]
+    return value != null && String(value).trim() !== ''
+  })
+}
+
+/**
+ * Une arquivos com o mesmo layout em um só conjunto de dados, acrescentando
+ * as linhas a `base` (dados já carregados) quando informado. As colunas são
+ * reconciliadas pela chave, cabeçalho original, rótulo ou aliases; colunas
+ * novas entram com tipos inferidos. Cada linha guarda a origem na coluna
+ * `_source`, e os avisos trazem as linhas de cada arquivo e os tipos que
+ * não combinam com os das colunas.
+ */
+export function appendSources(
+  inputs: AppendSource[],
+  base?: ProcessedData | null,
+  options?: ProcessDataOptions
+): ProcessedData {
+  const [first] = inputs
+  if (!first && !base) throw new Error('Nenhum arquivo para unir')
+
+  const initial: DataSchema = base?.schema ?? generateSchemaFromData(first.source.headers, first.source.data, {
+    ...options,
+    columnFormats: first.source.columnFormats,
+    sourceHeaders: first.source.sourceHeaders,
+  })
+  const hasSourceColumn = initial.columns.some(column => column.key === SOURCE_COLUMN_KEY)
+  const columns = hasSourceColumn ? [...initial.columns] : [createSourceColumn(), ...initial.columns]
+
+  const report: string[] = []
+  // Por arquivo: chave da coluna no schema → chave no arquivo
+  const mappings = inputs.map(({ name, source }) => {
+    const dataColumns = columns.filter(column => !isComputedColumn(column) && column.key !== SOURCE_COLUMN_KEY)
+    const mapping = matchColumnSources(dataColumns, source.headers)
+    const inferred = new Map(generateSchemaFromData(source.headers, source.data, {
+      ...options,
+      columnFormats: source.columnFormats,
+      sourceHeaders: source.sourceHeaders,
+    }).columns.map(column => [column.key, column]))
+
+    for (const column of dataColumns) {
+      const sourceKey = mapping[column.key]
+      const inferredType = sourceKey && hasValues(source, sourceKey) ? inferred.get(sourceKey)?.format.type : undefined
+      if (inferredType && isTypeConflict(column.format.type, inferredType)) {
+        report.push(
+          `"${name}", coluna "${column.label}": valores de ${columnTypeLabels[inferredType]} ` +
+          `em uma coluna de ${columnTypeLabels[column.format.type]}`
+        )
+      }
+    }
+
+    // Colunas que só existem neste arquivo
+    const mapped = new Set(Object.values(mapping))
+    const keys = new Set(columns.map(column => column.key))
+    for (const sourceKey of source.headers) {
+      if (mapped.has(sourceKey)) continue
+      let key = sourceKey
+      for (let suffix = 2; keys.has(key); suffix++) key = `${sourceKey}_${suffix}`
+      keys.add(key)
+      columns.push({ ...inferred.get(sourceKey)!, key })
+      mapping[key] = sourceKey
+    }
+
+    report.push(`"${name}": ${source.data.length.toLocaleString('pt-BR')} linhas`)
+    return mapping
+  })
+
+  const schema: DataSchema = { ...initial, columns }
+  const headers = columns.filter(column => !isComputedColumn(column)).map(column => column.key)
+
+  // Registros de todos os arquivos já com as chaves do schema
+  const union: ParseResult = {
+    headers,
+    sourceHeaders: headers.map(key => columns.find(column => column.key === key)?.header ?? key),
+    data: inputs.flatMap(({ name, source }, i) => source.data.map(record => {
+      const row: Record<string, CellValue> = { [SOURCE_COLUMN_KEY]: name }
+      for (const [key, sourceKey] of Object.entries(mappings[i])) row[key] = record[sourceKey]
+      return row
+    })),
+    rawData: [],
+    errors: inputs.flatMap(({ name, source }) => source.errors.map(error => `"${name}": ${error}`)),
+  }
+
+  // Linhas já carregadas ficam vazias nas colunas novas; sem origem, recebem
+  // o nome do arquivo delas
+  const baseName = base && getSourceName(base.metadata.sourceFileName ?? 'Dados atuais', base.metadata.sheetName)
+  const newKeys = columns.filter(column => !base?.schema.columns.some(c => c.key === column.key)).map(column => column.key)
+  const precedingRows = base?.rows.map(row => ({
+    ...Object.fromEntries(newKeys.map(key => [key, null])),
+    ...row,
+    ...(hasSourceColumn ? {} : { [SOURCE_COLUMN_KEY]: baseName }),
+  }) as DataRow)
+
+  const processed = processData(union, schema, { ...options, precedingRows })
+  const warnings = [...report, ...(processed.metadata.warnings ?? [])]
+
+  return {
+    ...processed,
+    merges: base?.merges,
+    formulas: base?.formulas,
+    metadata: {
+      ...processed.metadata,
+      sourceFileName: base?.metadata.sourceFileName ?? options?.sourceFileName ?? first.name,
+      sheetName: base?.metadata.sheetName,
+      warnings: warnings.length > 0 ? warnings : undefined,
+    },
+  }
+}
@@ -0,0 +1,157 @@
+// ============================================
+// DOCUMENTOS BRASILEIROS (CPF, CNPJ, CEP, PLACA)
+// ============================================
+
+import type { CellValue, ColumnType } from '@/types'
+
+export type DocumentType = Extract<ColumnType, 'cpf' | 'cnpj' | 'cep' | 'plate'>
+
+export const DOCUMENT_TYPES: DocumentType[] = ['cpf', 'cnpj', 'cep', 'plate']
+
+/** Tamanho da forma canônica (sem máscara) */
+const DOCUMENT_LENGTHS: Record<DocumentType, number> = {
+  cpf: 11,
+  cnpj: 14,
+  cep: 8,
+  plate: 7,
+}
+
+const MASKED_PATTERNS: Record<DocumentType, RegExp> = {
+  cpf: /^\d{3}\.\d{3}\.\d{3}-\d{2}$/,
+  cnpj: /^[\dA-Z]{2}\.[\dA-Z]{3}\.[\dA-Z]{3}\/[\dA-Z]{4}-\d{2}$/i,
+  cep: /^\d{5}-\d{3}$/,
+  plate: /^[A-Z]{3}-?\d[A-Z\d]\d{2}$/i,
+}
+
+/** Placa antiga (ABC1234) ou Mercosul (ABC1D23) */
+const PLATE_REGEX = /^[A-Z]{3}\d[A-Z\d]\d{2}$/
+
+export function isDocumentType(type: ColumnType): type is DocumentType {
+  return (DOCUMENT_TYPES as ColumnType[]).includes(type)
+}
+
+/**
+ * Dígito verificador módulo 11. Letras do CNPJ alfanumérico valem o código
+ * ASCII menos 48 (A = 17, B = 18...).
+ */
+function checkDigit(chars: string, weights: number[]): number {
+  const sum = weights.reduce((acc, weight, i) => acc + (chars.charCodeAt(i) - 48) * weight, 0)
+  const rest = sum % 11
+  return rest < 2 ? 0 : 11 - rest
+}
+
+function isValidCPF(cpf: string): boolean {
+  if (!/^\d{11}$/.test(cpf) || /^(\d)\1{10}$/.test(cpf)) return false
+  const first = checkDigit(cpf, [10, 9, 8, 7, 6, 5, 4, 3, 2])
+  const second = checkDigit(cpf, [11, 10, 9, 8, 7, 6, 5, 4, 3, 2])
+  return cpf.endsWith(`${first}${second}`)
+}
+
+function isValidCNPJ(cnpj: string): boolean {
+  if (!/^[\dA-Z]{12}\d{2}$/.test(cnpj) || /^(\d)\1{13}$/.test(cnpj)) return false
+  const first = checkDigit(cnpj, [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2])
+  const second = checkDigit(cnpj, [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2])
+  return cnpj.endsWith(`${first}${second}`)
+}
+
+/**
+ * Forma canônica, sem máscara: dígitos (CPF, CEP), dígitos e letras
+ * maiúsculas (CNPJ alfanumérico, placa). Números perdem zeros à esquerda
+ * no Excel; eles são repostos. Valores que não têm o tamanho do documento
+ * ficam como estão, para serem apontados como inválidos.
+ */
+export function normalizeDocument(value: CellValue, type: DocumentType): string | null {
+  if (value == null || value === '') return null
+
+  const text = typeof value === 'number' ? String(Math.trunc(value)) : String(value).trim()
+  const length = DOCUMENT_LENGTHS[type]
+  let canonical = text.toUpperCase().replace(/[^\dA-Z]/g, '')
+
+  if (/^\d+$/.test(canonical) && canonical.length < length && type !== 'plate') {
+    canonical = canonical.padStart(length, '0')
+  }
+
+  return canonical.length === length ? canonical : text
+}
+
+/**
+ * Valida a forma canônica: dígitos verificadores do CPF e do CNPJ, oito
+ * dígitos do CEP e os padrões de placa antigo e Mercosul
+ */
+export function isValidDocument(value: CellValue, type: DocumentType): boolean {
+  if (typeof value !== 'string') return false
+
+  switch (type) {
+    case 'cpf':
+      return isValidCPF(value)
+    case 'cnpj':
+      return isValidCNPJ(value)
+    case 'cep':
+      return /^\d{8}$/.test(value)
+    case 'plate':
+      return PLATE_REGEX.test(value)
+  }
+}
+
+/**
+ * Aplica a máscara oficial (000.000.000-00, 00.000.000/0000-00, 00000-000,
+ * ABC-1234). Placas Mercosul não têm hífen; valores fora do padrão ficam
+ * como estão.
+ */
+export function formatDocument(value: string, type: DocumentType): string {
+  if (value.length !== DOCUMENT_LENGTHS[type] || /[^\dA-Z]/.test(value)) return value
+
+  switch (type) {
+    case 'cpf':
+      return value.replace(/^(\d{3})(\d{3})(\d{3})(\d{2})$/, '$1.$2.$3-$4')
+    case 'cnpj':
+      return value.replace(/^(.{2})(.{3})(.{3})(.{4})(.{2})$/, '$1.$2.$3/$4-$5')
+    case 'cep':
+      return value.replace(/^(\d{5})(\d{3})$/, '$1-$2')
+    case 'plate':
+      return /^[A-Z]{3}\d{4}$/.test(value) ? `${value.slice(0, 3)}-${value.slice(3)}` : value
+  }
+}
+
+/**
+ * Reconhece o documento em um valor isolado. Valores com máscara contam
+ * mesmo com dígito verificador errado; sem máscara, só CPF e CNPJ válidos
+ * (sequências de dígitos também podem ser telefones ou códigos). Números
+ * perdem os zeros à esquerda no Excel: CPFs de 9 a 11 dígitos e CNPJs de
+ * 12 a 14 são completados antes da verificação. CEPs sem máscara dependem
+ * do cabeçalho da coluna (ver `isUnmaskedCep`).
+ */
+export function detectDocumentType(value: CellValue): DocumentType | null {
+  if (typeof value !== 'string' && typeof value !== 'number') return null
+  const text = String(value).trim()
+
+  if (typeof value === 'number') {
+    if (!Number.isSafeInteger(value) || value <= 0) return null
+    if (text.length >= 9 && text.length <= 11 && isValidCPF(text.padStart(11, '0'))) return 'cpf'
+    if (text.length >= 12 && text.length <= 14 && isValidCNPJ(text.padStart(14, '0'))) return 'cnpj'
+    return null
+  }
+
+  for (const type of DOCUMENT_TYPES) {
+    if (MASKED_PATTERNS[type].test(text)) return type
+  }
+
+  if (/^[\dA-Z]{14}$/i.test(text) && isValidCNPJ(text.toUpperCase())) return 'cnpj'
+  if (/^\d{11}$/.test(text) && isValidCPF(text)) return 'cpf'
+  return null
+}
+
+/** Cabeçalho que nomeia um CEP ("CEP", "cep_entrega", "CEP do cliente") */
+export function isCepHeader(header: string | undefined): boolean {
+  return !!header && /(^|[^a-z])cep([^a-z]|$)/i.test(header)
+}
+
+/**
+ * CEP sem máscara: oito dígitos em texto ou um inteiro que perdeu os zeros
+ * à esquerda. Sozinho o valor não basta; só vale em colunas com cabeçalho
+ * de CEP.
+ */
+export function isUnmaskedCep(value: CellValue): boolean {
+  if (typeof value === 'string') return /^\d{8}$/.test(value.trim())
+  return typeof value === 'number' && Number.isInteger(value) && value > 0 && value < 1e8
+}
@@ -0,0 +1,138 @@
+import Papa from 'papaparse'
+import { format as formatDate } from 'date-fns'
+import { rowsToParseResult, type ParseOptions, type ParseResult } from './excel-parser'
+import { convertTextCell } from './csv-stream'
+import { detectDecimalSeparator } from './locale-number'
+
+// ============================================
+// IMPORTAÇÃO DA ÁREA DE TRANSFERÊNCIA
+// ============================================
+
+/**
+ * Conteúdo colado: HTML (tabelas de páginas web/Excel) e/ou texto (TSV)
+ */
+export interface ClipboardContent {
+  html?: string
+  text?: string
+}
+
+/**
+ * Nome exibido como arquivo de origem (ex.: "Clipboard 2026-10-19 14:02")
+ */
+export function getClipboardSourceName(date: Date = new Date()): string {
+  return `Clipboard ${formatDate(date, 'yyyy-MM-dd HH:mm')}`
+}
+
+/**
+ * Converte o texto das células usando o separador decimal predominante
+ */
+function convertCells(rows: string[][]): unknown[][] {
+  const decimalSeparator = detectDecimalSeparator(rows.flat())
+  return rows.map(row => row.map(cell => convertTextCell(cell.trim(), decimalSeparator)))
+}
+
+/**
+ * Lê texto separado por tabulação (formato copiado por Excel, Sheets e afins).
+ * Células com quebra de linha vêm entre aspas e são respeitadas.
+ */
+export function parseClipboardText(text: string): unknown[][] {
+  const { data } = Papa.parse<string[]>(text.replace(/\r\n?/g, '\n'), {
+    delimiter: '\t',
+    skipEmptyLines: 'greedy',
+  })
+  return convertCells(data)
+}
+
+/**
+ * Lê a primeira tabela de um fragmento HTML, posicionando células com
+ * colspan/rowspan na grade. Retorna null quando não há tabela.
+ */
+export function parseClipboardHTML(html: string): unknown[][] | null {
+  const document = new DOMParser().parseFromString(html, 'text/html')
+  const table = document.querySelector('table')
+  if (!table) return null
+
+  const grid: (string | undefined)[][] = []
+  // Valores numéricos originais do Excel (atributo x:num), por posição
+  const numbers: (number | undefined)[][] = []
+
+  Array.from(table.rows).forEach((tableRow, rowIndex) => {
+    const row = (grid[rowIndex] ??= [])
+    let col = 0
+
+    for (const cell of Array.from(tableRow.cells)) {
+      while (row[col] !== undefined) col++
+
+      const text = (cell.textContent || '').replace(/\s+/g, ' ').trim()
+      const rawNumber = cell.getAttribute('x:num')
+      const colSpan = Math.max(1, cell.colSpan || 1)
+      const rowSpan = Math.max(1, cell.rowSpan || 1)
+
+      if (rawNumber && !isNaN(Number(rawNumber))) {
+        (numbers[rowIndex] ??= [])[col] = Number(rawNumber)
+      }
+
+      // Células mescladas: o valor fica na primeira posição
+      for (let r = 0; r < rowSpan; r++) {
+        const target = (grid[rowIndex + r] ??= [])
+        for (let c = 0; c < colSpan; c++) {
+          target[col + c] = r === 0 && c === 0 ? text : ''
+        }
+      }
+      col += colSpan
+    }
+  })
+
+  const width = Math.max(0, ...grid.map(row => row.length))
+  const rowIndexes = grid
+    .map((row, rowIndex) => row.some(cell => cell) ? rowIndex : -1)
+    .filter(rowIndex => rowIndex >= 0)
+
+  const converted = convertCells(rowIndexes.map(rowIndex =>
+    Array.from({ length: width }, (_, col) => grid[rowIndex][col] ?? '')
+  ))
+  return converted.map((row, i) =>
+    row.map((value, col) => numbers[rowIndexes[i]]?.[col] ?? value)
+  )
+}
+
+/**
+ * Monta o ParseResult do conteúdo colado, preferindo a tabela HTML
+ * e recorrendo ao texto tabulado
+ */
+export function clipboardToParseResult(content: ClipboardContent, options?: ParseOptions): ParseResult {
+  const htmlRows = content.html ? parseClipboardHTML(content.html) : null
+  const rows = htmlRows?.length
+    ? htmlRows
+    : content.text ? parseClipboardText(content.text) : []
+
+  if (rows.length === 0) {
+    throw new Error('A área de transferência não contém uma tabela')
+  }
+
+  return rowsToParseResult(rows, options)
+}
+
+/**
+ * Lê a área de transferência pela Clipboard API (requer permissão do navegador)
+ */
+export async function readClipboard(): Promise<ClipboardContent> {
+  if (!navigator.clipboard) {
+    throw new Error('Área de transferência indisponível neste navegador')
+  }
+
+  if (navigator.clipboard.read) {
+    const content: ClipboardContent = {}
+    for (const item of await navigator.clipboard.read()) {
+      if (!content.html && item.types.includes('text/html')) {
+        content.html = await (await item.getType('text/html')).text()
+      }
+      if (!content.text && item.types.includes('text/plain')) {
+        content.text = await (await item.getType('text/plain')).text()
+      }
+    }
+    return content
+  }
+
+  return { text: await navigator.clipboard.readText() }
+}
@@ -0,0 +1,107 @@
+// ============================================
+// CHAVES DE COLUNA
+// ============================================
+
+import type { ColumnDefinition } from '@/types'
+
+export interface ColumnKeysResult {
+  /** Chave única de cada coluna, na ordem dos cabeçalhos */
+  keys: string[]
+  /** Avisos sobre cabeçalhos vazios ou repetidos */
+  warnings: string[]
+}
+
+/**
+ * Converte o texto do cabeçalho em slug: sem acentos, minúsculo e com "_"
+ * no lugar de espaços e pontuação ("Preço (R$)" → "preco_r")
+ */
+export function slugifyHeader(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+/**
+ * Gera chaves estáveis e únicas para os cabeçalhos. Cabeçalhos vazios (ou
+ * só com símbolos) viram "column_N" (N = índice 0-based); repetições
+ * recebem "_2", "_3"... na ordem em que aparecem.
+ */
+export function createColumnKeys(headers: string[]): ColumnKeysResult {
+  const warnings: string[] = []
+  const slugs = headers.map((header, i) => slugifyHeader(header) || `column_${i}`)
+  const used = new Set<string>()
+  const firstIndex = new Map<string, number>()
+  const collisions = new Map<string, number[]>()
+
+  // Slugs originais têm prioridade sobre os gerados com sufixo
+  const taken = new Set(slugs)
+
+  const keys = slugs.map((slug, i) => {
+    const header = headers[i].trim()
+    if (!header) {
+      warnings.push(`Coluna ${i + 1} sem cabeçalho; usando a chave "${slug}"`)
+    }
+
+    if (!used.has(slug)) {
+      used.add(slug)
+      firstIndex.set(slug, i)
+      return slug
+    }
+
+    let suffix = 2
+    while (used.has(`${slug}_${suffix}`) || taken.has(`${slug}_${suffix}`)) suffix++
+    const key = `${slug}_${suffix}`
+    used.add(key)
+    collisions.set(slug, [...(collisions.get(slug) ?? [firstIndex.get(slug)!]), i])
+    return key
+  })
+
+  collisions.forEach((indexes) => {
+    const columns = indexes.map(i => i + 1).join(', ')
+    const labels = [...new Set(indexes.map(i => `"${headers[i].trim()}"`))].join(', ')
+    const generated = indexes.map(i => keys[i]).join(', ')
+    warnings.push(`Cabeçalhos repetidos (${labels}) nas colunas ${columns}: chaves ${generated}`)
+  })
+
+  return { keys, warnings }
+}
+
+/**
+ * Nomes pelos quais uma coluna é reconhecida entre as chaves do arquivo:
+ * a própria chave e os slugs do cabeçalho original, do rótulo e dos aliases
+ */
+function getColumnNames(column: ColumnDefinition): string[] {
+  const texts = [column.header ?? '', column.label, ...(column.aliases ?? [])]
+  return [column.key, ...texts.map(slugifyHeader)].filter(Boolean)
+}
+
+/**
+ * Associa as colunas de um schema às chaves do arquivo (chave da coluna →
+ * chave no arquivo). Cada chave do arquivo serve a no máximo uma coluna:
+ * primeiro as chaves iguais, depois cabeçalho, rótulo e aliases.
+ */
+export function matchColumnSources(columns: ColumnDefinition[], headers: string[]): Record<string, string> {
+  const available = new Set(headers)
+  const sources: Record<string, string> = {}
+
+  for (const column of columns) {
+    if (available.has(column.key)) {
+      sources[column.key] = column.key
+      available.delete(column.key)
+    }
+  }
+
+  for (const column of columns) {
+    if (sources[column.key]) continue
+    const name = getColumnNames(column).find(n => available.has(n))
+    if (name) {
+      sources[column.key] = name
+      available.delete(name)
+    }
+  }
+
+  return sources
+}
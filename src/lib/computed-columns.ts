@@ -0,0 +1,164 @@
+import { z } from 'zod'
+import { DataSchemaSchema, type ColumnDefinition, type DataRow, type DataSchema, type ProcessedData } from '@/types'
+import {
+  collectNames,
+  collectRefs,
+  isFormulaSupported,
+  parseFormula,
+  type FormulaErrorCode,
+  type FormulaNode,
+} from './formula-engine'
+import { evaluateRowExpression, fromFormulaValue } from './formula-sheet'
+
+// ============================================
+// COLUNAS CALCULADAS
+// ============================================
+
+export function isComputedColumn(column: ColumnDefinition): boolean {
+  return !!column.expression
+}
+
+/**
+ * Problema encontrado na expressão de uma coluna calculada
+ */
+export interface ExpressionIssue {
+  columnKey: string
+  message: string
+}
+
+/**
+ * Confere a expressão de uma coluna: sintaxe, funções conhecidas, sem
+ * endereços de célula e, com `columnKeys`, só com colunas existentes
+ * (exceto ela mesma). Chaves como "q1" ou "2025_q1" são lidas como colunas,
+ * não como endereço ou número. Devolve a árvore analisada ou o problema.
+ */
+export function checkExpression(
+  expression: string,
+  columnKeys?: string[],
+  ownKey?: string
+): { node: FormulaNode } | { error: string } {
+  let node: FormulaNode
+  try {
+    node = parseFormula(expression, { names: columnKeys })
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Expressão inválida' }
+  }
+
+  if (!isFormulaSupported(node)) return { error: 'Função não suportada' }
+  if (collectRefs(node).length > 0) return { error: 'Use o nome das colunas, não endereços de célula' }
+
+  if (!columnKeys) return { node }
+
+  const known = new Map(columnKeys.map(key => [key.toLowerCase(), key]))
+  for (const name of collectNames(node)) {
+    const key = known.get(name.toLowerCase())
+    if (!key) return { error: `Coluna "${name}" não existe` }
+    if (key === ownKey) return { error: 'A coluna não pode usar a si mesma' }
+  }
+
+  return { node }
+}
+
+interface ComputePlan {
+  /** Colunas calculadas na ordem de avaliação (dependências antes) */
+  order: Array<{ column: ColumnDefinition; node: FormulaNode } | { column: ColumnDefinition; error: FormulaErrorCode }>
+  issues: ExpressionIssue[]
+}
+
+/**
+ * Analisa as expressões e ordena as colunas calculadas pelas dependências.
+ * Expressões inválidas e referências circulares resultam em #NAME? e #REF!.
+ */
+function planComputedColumns(schema: DataSchema): ComputePlan {
+  const columnKeys = schema.columns.map(column => column.key)
+  const computed = new Map(schema.columns.filter(isComputedColumn).map(column => [column.key.toLowerCase(), column]))
+  const issues: ExpressionIssue[] = []
+  const nodes = new Map<string, FormulaNode | null>()
+
+  computed.forEach((column) => {
+    const result = checkExpression(column.expression!, columnKeys, column.key)
+    if ('error' in result) issues.push({ columnKey: column.key, message: result.error })
+    nodes.set(column.key, 'node' in result ? result.node : null)
+  })
+
+  const order: ComputePlan['order'] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+
+  const visit = (column: ColumnDefinition): boolean => {
+    const status = state.get(column.key)
+    if (status === 'done') return true
+    if (status === 'visiting') return false
+
+    state.set(column.key, 'visiting')
+    const node = nodes.get(column.key)
+    let ok = true
+    for (const name of node ? collectNames(node) : []) {
+      const dependency = computed.get(name.toLowerCase())
+      if (dependency && !visit(dependency)) ok = false
+    }
+    state.set(column.key, 'done')
+
+    if (!ok) {
+      issues.push({ columnKey: column.key, message: 'Referência circular entre colunas calculadas' })
+      order.push({ column, error: '#REF!' })
+    } else {
+      order.push(node ? { column, node } : { column, error: '#NAME?' })
+    }
+    return ok
+  }
+
+  computed.forEach(visit)
+  return { order, issues }
+}
+
+/**
+ * Problemas nas expressões das colunas calculadas do schema, inclusive
+ * referências circulares
+ */
+export function getExpressionIssues(schema: DataSchema): ExpressionIssue[] {
+  return planComputedColumns(schema).issues
+}
+
+/**
+ * `DataSchemaSchema` que também confere as expressões das colunas
+ * calculadas: sintaxe, só colunas existentes e sem referências circulares
+ */
+export const ComputedDataSchemaSchema = DataSchemaSchema.superRefine((schema, ctx) => {
+  for (const issue of getExpressionIssues(schema)) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['columns', schema.columns.findIndex(column => column.key === issue.columnKey), 'expression'],
+      message: issue.message,
+    })
+  }
+})
+
+/**
+ * Calcula as colunas calculadas de cada linha. As linhas devolvidas são
+ * cópias; sem colunas calculadas, as mesmas linhas.
+ */
+export function computeColumns(schema: DataSchema, rows: DataRow[]): { rows: DataRow[]; issues: ExpressionIssue[] } {
+  if (!schema.columns.some(isComputedColumn)) return { rows, issues: [] }
+
+  const { order, issues } = planComputedColumns(schema)
+
+  const computedRows = rows.map(row => {
+    const computedRow: DataRow = { ...row }
+    for (const entry of order) {
+      computedRow[entry.column.key] = 'node' in entry
+        ? fromFormulaValue(evaluateRowExpression(entry.node, computedRow, schema.columns), entry.column)
+        : entry.error
+    }
+    return computedRow
+  })
+
+  return { rows: computedRows, issues }
+}
+
+/**
+ * Recalcula as colunas calculadas dos dados (ex.: após editar uma célula)
+ */
+export function computeData(data: ProcessedData): ProcessedData {
+  if (!data.schema.columns.some(isComputedColumn)) return data
+  return { ...data, rows: computeColumns(data.schema, data.rows).rows }
+}
@@ -1,4 +1,4 @@
-import type { CompanyConfig, CompanyTheme } from '@/types'
+import type { ColumnType, CompanyConfig, CompanyTheme } from '@/types'
 
 // ============================================
 // TEMAS PRÉ-DEFINIDOS
@@ -143,6 +143,86 @@ export const companyPresets: Record<string, CompanyConfig> = {
   },
 }
 
+// ============================================
+// FUSOS HORÁRIOS
+// ============================================
+
+/**
+ * Fusos horários oferecidos para exibir data e hora
+ * (valor vazio = fuso do navegador)
+ */
+export const timeZoneOptions: Array<{ value: string; label: string }> = [
+  { value: '', label: 'Fuso local' },
+  { value: 'America/Sao_Paulo', label: 'Brasília' },
+  { value: 'America/Manaus', label: 'Manaus' },
+  { value: 'America/Rio_Branco', label: 'Rio Branco' },
+  { value: 'America/Noronha', label: 'Fernando de Noronha' },
+  { value: 'UTC', label: 'UTC' },
+  { value: 'Europe/Lisbon', label: 'Lisboa' },
+  { value: 'America/New_York', label: 'Nova York' },
+]
+
+// ============================================
+// TIPOS DE COLUNA
+// ============================================
+
+/**
+ * Nomes dos tipos de coluna exibidos na interface
+ */
+export const columnTypeLabels: Record<ColumnType, string> = {
+  string: 'Texto',
+  number: 'Número',
+  integer: 'Inteiro',
+  currency: 'Moeda',
+  percentage: 'Percentual',
+  date: 'Data',
+  datetime: 'Data e hora',
+  time: 'Horário',
+  duration: 'Duração',
+  boolean: 'Sim/Não',
+  email: 'E-mail',
+  url: 'Link',
+  phone: 'Telefone',
+  image: 'Imagem',
+  badge: 'Categoria',
+  progress: 'Progresso',
+  cpf: 'CPF',
+  cnpj: 'CNPJ',
+  cep: 'CEP',
+  plate: 'Placa',
+}
+
+// ============================================
+// LIMITES DE UPLOAD
+// ============================================
+
+const MB = 1024 * 1024
+
+/**
+ * Limites de tamanho de arquivo, configuráveis por variáveis de ambiente.
+ * Planilhas são carregadas inteiras na memória. CSV/TSV são lidos em
+ * streaming, mas as linhas brutas e processadas ainda ficam todas na memória
+ * (e são copiadas do worker): o padrão de 300 MB cobre exportações grandes
+ * sem chegar perto de 1 GB.
+ */
+export const uploadLimits = {
+  maxSpreadsheetSize: Number(process.env.NEXT_PUBLIC_MAX_SPREADSHEET_MB || 50) * MB,
+  maxCsvSize: Number(process.env.NEXT_PUBLIC_MAX_CSV_MB || 300) * MB,
+}
+
+/** Formatos de texto delimitado ou de largura fixa, com o limite de CSV */
+const TEXT_FORMAT_IDS = ['csv', 'tsv', 'txt']
+
+/**
+ * Obtém o tamanho máximo permitido para um arquivo pelo formato detectado
+ * no conteúdo (FormatReader.id), não pela extensão
+ */
+export function getMaxFileSize(formatId: string): number {
+  return TEXT_FORMAT_IDS.includes(formatId)
+    ? uploadLimits.maxCsvSize
+    : uploadLimits.maxSpreadsheetSize
+}
+
 // ============================================
 // FUNÇÕES DE TEMA
 // ============================================
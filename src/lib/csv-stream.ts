@@ -0,0 +1,337 @@
+import Papa from 'papaparse'
+import { detectDecimalSeparator, parseLocaleNumber, type DecimalSeparator } from './locale-number'
+
+// ============================================
+// DETECÇÃO DE FORMATO DO CSV
+// ============================================
+
+export type CsvEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252'
+
+export const CSV_ENCODINGS: { value: CsvEncoding; label: string }[] = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+  { value: 'windows-1252', label: 'Windows-1252 / Latin-1' },
+]
+
+export const CSV_DELIMITERS: { value: string; label: string }[] = [
+  { value: ',', label: 'Vírgula (,)' },
+  { value: ';', label: 'Ponto e vírgula (;)' },
+  { value: '\t', label: 'Tabulação' },
+  { value: '|', label: 'Barra vertical (|)' },
+]
+
+/**
+ * Formato do CSV; campos omitidos são detectados automaticamente
+ */
+export interface CsvFormatOptions {
+  encoding?: CsvEncoding
+  delimiter?: string
+  decimalSeparator?: DecimalSeparator
+}
+
+export interface CsvSniffResult {
+  encoding: CsvEncoding
+  delimiter: string
+  decimalSeparator: DecimalSeparator
+  hasBom: boolean
+  /** Delimitador detectado sem certeza; vale confirmar antes de importar */
+  ambiguous: boolean
+  /** Primeiras linhas já convertidas, para pré-visualização */
+  preview: unknown[][]
+}
+
+// Tamanho da amostra usada nas detecções
+const SAMPLE_SIZE = 64 * 1024
+const SAMPLE_ROWS = 20
+
+const FLOAT_REGEX = /^\s*-?(\d+\.?|\.\d+|\d+\.\d+)([eE][-+]?\d+)?\s*$/
+const COMMA_FLOAT_REGEX = /^\s*-?(\d{1,3}(\.\d{3})+|\d+)(,\d+)?\s*$/
+
+/**
+ * Detecta a codificação pelo BOM ou, na falta dele, pelo conteúdo:
+ * bytes nulos alternados indicam UTF-16 e sequências inválidas em UTF-8
+ * indicam Windows-1252 (superconjunto do Latin-1)
+ */
+export function detectEncoding(bytes: Uint8Array): CsvEncoding {
+  if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8'
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le'
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be'
+
+  const sample = bytes.subarray(0, 4096)
+  let evenZeros = 0
+  let oddZeros = 0
+  for (let i = 0; i < sample.length; i++) {
+    if (sample[i] !== 0) continue
+    if (i % 2 === 0) evenZeros++
+    else oddZeros++
+  }
+  const pairs = sample.length / 2
+  if (oddZeros > pairs * 0.3 && evenZeros < oddZeros / 10) return 'utf-16le'
+  if (evenZeros > pairs * 0.3 && oddZeros < evenZeros / 10) return 'utf-16be'
+
+  try {
+    // stream: true tolera um caractere multibyte cortado no fim da amostra
+    new TextDecoder('utf-8', { fatal: true }).decode(bytes.subarray(0, SAMPLE_SIZE), { stream: true })
+    return 'utf-8'
+  } catch {
+    return 'windows-1252'
+  }
+}
+
+/**
+ * Verifica se os bytes começam com um BOM
+ */
+function hasByteOrderMark(bytes: Uint8Array): boolean {
+  return (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) ||
+    (bytes[0] === 0xff && bytes[1] === 0xfe) ||
+    (bytes[0] === 0xfe && bytes[1] === 0xff)
+}
+
+/**
+ * Lê as primeiras linhas do texto com o delimitador informado
+ */
+function sampleRows(text: string, delimiter: string, limit = SAMPLE_ROWS): string[][] {
+  const { data } = Papa.parse<string[]>(text.slice(0, SAMPLE_SIZE), { delimiter, preview: limit })
+  return data.filter(row => !(row.length === 1 && row[0] === ''))
+}
+
+interface DelimiterScore {
+  delimiter: string
+  /** Fração das linhas com o mesmo número de campos do cabeçalho */
+  score: number
+  fields: number
+}
+
+/**
+ * Delimitadores que dividem o cabeçalho em pelo menos dois campos, do mais
+ * ao menos provável
+ */
+function rankDelimiters(text: string): DelimiterScore[] {
+  const ranked: DelimiterScore[] = []
+
+  for (const { value: delimiter } of CSV_DELIMITERS) {
+    const rows = sampleRows(text, delimiter)
+    if (rows.length === 0) continue
+
+    const fields = rows[0].length
+    if (fields < 2) continue
+
+    const score = rows.filter(row => row.length === fields).length / rows.length
+    ranked.push({ delimiter, score, fields })
+  }
+
+  return ranked.sort((a, b) => b.score - a.score || b.fields - a.fields)
+}
+
+/**
+ * Detecta o delimitador (vírgula, ponto e vírgula, tabulação ou barra vertical)
+ * escolhendo o que repete o número de campos do cabeçalho no maior número de linhas
+ */
+export function detectDelimiter(text: string): string {
+  return rankDelimiters(text)[0]?.delimiter ?? ','
+}
+
+/**
+ * A detecção não é confiável quando nenhum delimitador mantém o número de
+ * campos em todas as linhas ou quando dois empatam
+ */
+function isDelimiterAmbiguous(text: string): boolean {
+  const [best, second] = rankDelimiters(text)
+  return !best || best.score < 1 || second?.score === best.score
+}
+
+/**
+ * Resolve delimitador e separador decimal a partir do texto, respeitando os informados
+ */
+function resolveTextFormat(
+  text: string,
+  options: CsvFormatOptions
+): { delimiter: string; decimalSeparator: DecimalSeparator } {
+  const delimiter = options.delimiter || detectDelimiter(text)
+  const decimalSeparator = options.decimalSeparator ||
+    detectDecimalSeparator(sampleRows(text, delimiter).flat())
+  return { delimiter, decimalSeparator }
+}
+
+/**
+ * Analisa o início de um arquivo CSV: codificação, delimitador, separador
+ * decimal e as primeiras linhas convertidas com essas configurações
+ */
+export function sniffCSV(bytes: Uint8Array, overrides: CsvFormatOptions = {}, previewRows = 10): CsvSniffResult {
+  const encoding = overrides.encoding || detectEncoding(bytes)
+  const text = new TextDecoder(encoding).decode(bytes.subarray(0, SAMPLE_SIZE), { stream: true })
+  const { delimiter, decimalSeparator } = resolveTextFormat(text, overrides)
+
+  return {
+    encoding,
+    delimiter,
+    decimalSeparator,
+    hasBom: hasByteOrderMark(bytes),
+    ambiguous: !overrides.delimiter && isDelimiterAmbiguous(text),
+    preview: sampleRows(text, delimiter, previewRows).map(row => row.map(cell => convertTextCell(cell, decimalSeparator))),
+  }
+}
+
+// ============================================
+// LEITURA DE CSV EM STREAMING
+// ============================================
+
+export interface CsvStreamOptions extends CsvFormatOptions {
+  /** Tamanho total em bytes, usado para calcular o progresso */
+  totalBytes: number
+  /** Chamado a cada bloco lido */
+  onProgress?: (bytesRead: number, totalBytes: number, rowsParsed: number) => void
+  /** Interrompe a leitura quando retornar true */
+  isCancelled?: () => boolean
+}
+
+export interface CsvStreamResult {
+  rows: unknown[][]
+  errors: string[]
+  encoding: CsvEncoding
+  delimiter: string
+  decimalSeparator: DecimalSeparator
+}
+
+/**
+ * Erro lançado quando a leitura é cancelada
+ */
+export function createAbortError(): DOMException {
+  return new DOMException('Importação cancelada', 'AbortError')
+}
+
+/**
+ * Verifica se um erro representa um cancelamento
+ */
+export function isAbortError(error: unknown): boolean {
+  // DOMException nem sempre herda de Error (ex.: jsdom), então verifica só o nome
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError'
+}
+
+/**
+ * Converte valores textuais em número/booleano, como o dynamicTyping do Papa,
+ * usando o separador decimal do arquivo
+ */
+export function convertTextCell(value: string, decimalSeparator: DecimalSeparator): unknown {
+  if (value === '') return null
+  if (value === 'true' || value === 'TRUE') return true
+  if (value === 'false' || value === 'FALSE') return false
+
+  const isNumeric = decimalSeparator === ',' ? COMMA_FLOAT_REGEX.test(value) : FLOAT_REGEX.test(value)
+  if (isNumeric) {
+    const num = parseLocaleNumber(value, decimalSeparator)
+    if (num !== null && Math.abs(num) <= Number.MAX_SAFE_INTEGER) return num
+  }
+  return value
+}
+
+/**
+ * Junta blocos de bytes em um único array
+ */
+function concatBytes(chunks: Uint8Array[]): Uint8Array {
+  if (chunks.length === 1) return chunks[0]
+  const result = new Uint8Array(chunks.reduce((sum, chunk) => sum + chunk.byteLength, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    result.set(chunk, offset)
+    offset += chunk.byteLength
+  }
+  return result
+}
+
+/**
+ * Detecta a quebra de linha usada no texto
+ */
+function guessNewline(text: string): '\r\n' | '\n' | '\r' {
+  const index = text.search(/\r\n|\n|\r/)
+  if (index < 0) return '\n'
+  if (text[index] === '\r') return text[index + 1] === '\n' ? '\r\n' : '\r'
+  return '\n'
+}
+
+/**
+ * Lê um CSV bloco a bloco a partir de um ReadableStream (ex.: File.stream()),
+ * sem carregar o texto inteiro na memória. Linhas que atravessam o limite de
+ * um bloco são reprocessadas junto com o bloco seguinte. Codificação,
+ * delimitador e separador decimal não informados são detectados nos primeiros 64 KB.
+ */
+export async function parseCSVStream(
+  stream: ReadableStream<Uint8Array>,
+  options: CsvStreamOptions
+): Promise<CsvStreamResult> {
+  const { totalBytes, onProgress, isCancelled } = options
+  const reader = stream.getReader()
+
+  const rows: unknown[][] = []
+  const errors: string[] = []
+  let encoding = options.encoding
+  let decoder = new TextDecoder()
+  let delimiter = options.delimiter || ''
+  let decimalSeparator = options.decimalSeparator || '.'
+  let parser: Papa.Parser | null = null
+  // Blocos iniciais acumulados até haver amostra suficiente para as detecções
+  let head: Uint8Array[] | null = []
+  let partialLine = ''
+  let baseIndex = 0
+  let bytesRead = 0
+  let invalidCharWarned = false
+
+  for (;;) {
+    if (isCancelled?.()) {
+      await reader.cancel()
+      throw createAbortError()
+    }
+
+    const { done, value } = await reader.read()
+    if (value) bytesRead += value.byteLength
+
+    let chunk = value
+    if (head) {
+      if (value) head.push(value)
+      if (!done && bytesRead < SAMPLE_SIZE) continue
+      chunk = concatBytes(head)
+      head = null
+      encoding = encoding || detectEncoding(chunk)
+      decoder = new TextDecoder(encoding)
+    }
+
+    const text = decoder.decode(chunk, { stream: !done })
+    const input = partialLine + text
+
+    // U+FFFD indica bytes que não existem na codificação escolhida
+    if (!invalidCharWarned && text.includes('\uFFFD')) {
+      invalidCharWarned = true
+      errors.push(`Caracteres inválidos para a codificação ${encoding}; tente selecionar outra codificação`)
+    }
+
+    if (!parser) {
+      const format = resolveTextFormat(input, options)
+      delimiter = format.delimiter
+      decimalSeparator = format.decimalSeparator
+      parser = new Papa.Parser({ delimiter, newline: guessNewline(input) })
+    }
+
+    // No último bloco a linha final é processada mesmo sem quebra de linha
+    const result = parser.parse(input, baseIndex, !done)
+
+    for (const row of result.data as string[][]) {
+      // Ignora linhas vazias (skipEmptyLines)
+      if (row.length === 1 && row[0] === '') continue
+      rows.push(row.map(cell => convertTextCell(cell, decimalSeparator)))
+    }
+    for (const error of result.errors as { message: string }[]) {
+      errors.push(error.message)
+    }
+
+    const cursor: number = result.meta.cursor
+    partialLine = input.substring(cursor - baseIndex)
+    baseIndex = cursor
+
+    onProgress?.(bytesRead, totalBytes, rows.length)
+
+    if (done) break
+  }
+
+  return { rows, errors, encoding: encoding ?? 'utf-8', delimiter, decimalSeparator }
+}
@@ -0,0 +1,271 @@
+import * as XLSX from 'xlsx'
+import type { CellValue, ColumnDefinition, DataRow, ProcessedData } from '@/types'
+import { toJoinKey } from './join-data'
+import { formatValue } from './utils'
+
+// ============================================
+// COMPARAÇÃO ENTRE VERSÕES DE UM ARQUIVO
+// ============================================
+
+export type ChangeType = 'added' | 'removed' | 'modified' | 'unchanged'
+
+export const changeTypeLabels: Record<ChangeType, string> = {
+  added: 'Adicionada',
+  removed: 'Removida',
+  modified: 'Modificada',
+  unchanged: 'Sem alteração',
+}
+
+/** Cores de cada tipo de alteração (tabela e marcadores da exportação) */
+export const changeTypeColors: Record<ChangeType, { bg: string; text: string }> = {
+  added: { bg: '#dcfce7', text: '#166534' },
+  removed: { bg: '#fee2e2', text: '#991b1b' },
+  modified: { bg: '#fef3c7', text: '#92400e' },
+  unchanged: { bg: '#f3f4f6', text: '#4b5563' },
+}
+
+// Marcadores coloridos da exportação (a biblioteca xlsx não grava preenchimento de células)
+const CHANGE_MARKERS: Record<ChangeType, string> = {
+  added: '🟢',
+  removed: '🔴',
+  modified: '🟡',
+  unchanged: '⚪',
+}
+
+/** Coluna com o tipo de alteração nos dados da comparação */
+export const CHANGE_COLUMN_KEY = '_change'
+
+export interface CellChange {
+  columnKey: string
+  before: CellValue
+  after: CellValue
+}
+
+export interface RowDiff {
+  /** ID da linha nos dados da comparação */
+  id: string
+  /** Valor da coluna chave */
+  key: CellValue
+  change: ChangeType
+  before?: DataRow
+  after?: DataRow
+  /** Células alteradas (linhas modificadas) */
+  changes: CellChange[]
+}
+
+export interface DataDiff {
+  keyColumn: string
+  /** Colunas das duas versões: as da versão nova, depois as removidas */
+  columns: ColumnDefinition[]
+  /** Colunas que só existem na versão nova */
+  addedColumns: string[]
+  /** Colunas que só existem na versão anterior */
+  removedColumns: string[]
+  rows: RowDiff[]
+  counts: Record<ChangeType, number>
+  beforeName?: string
+  afterName?: string
+}
+
+/**
+ * Valores iguais entre versões: datas pelo instante, vazio e texto vazio
+ * como iguais
+ */
+function isSameValue(a: CellValue, b: CellValue): boolean {
+  const emptyA = a == null || a === ''
+  const emptyB = b == null || b === ''
+  if (emptyA || emptyB) return emptyA && emptyB
+  if (a instanceof Date || b instanceof Date) {
+    return a instanceof Date && b instanceof Date && a.getTime() === b.getTime()
+  }
+  return a === b
+}
+
+/**
+ * Chave de comparação de cada linha; chaves repetidas são pareadas pela
+ * ordem de ocorrência e linhas sem chave nunca se correspondem
+ */
+function keyRows(rows: DataRow[], keyColumn: string, prefix: string): Map<string, DataRow> {
+  const keyed = new Map<string, DataRow>()
+  const occurrences = new Map<string, number>()
+  rows.forEach((row, i) => {
+    const key = toJoinKey(row[keyColumn] as CellValue)
+    if (key == null) {
+      keyed.set(`${prefix}#${i}`, row)
+      return
+    }
+    const count = (occurrences.get(key) ?? 0) + 1
+    occurrences.set(key, count)
+    keyed.set(count > 1 ? `${key}~${count}` : key, row)
+  })
+  return keyed
+}
+
+/**
+ * Compara duas versões dos dados pela coluna chave: linhas adicionadas,
+ * removidas e modificadas (com os valores de antes e depois de cada célula).
+ * Só as colunas presentes nas duas versões contam como alteração; colunas
+ * acrescentadas ou retiradas são listadas à parte.
+ */
+export function diffData(before: ProcessedData, after: ProcessedData, keyColumn: string): DataDiff {
+  const afterKeys = new Set(after.schema.columns.map(column => column.key))
+  if (!afterKeys.has(keyColumn) || !before.schema.columns.some(column => column.key === keyColumn)) {
+    throw new Error(`A coluna chave "${keyColumn}" precisa existir nas duas versões`)
+  }
+
+  const beforeKeys = new Set(before.schema.columns.map(column => column.key))
+  const removedColumns = before.schema.columns.filter(column => !afterKeys.has(column.key))
+  const columns = [...after.schema.columns, ...removedColumns]
+  const shared = after.schema.columns.filter(column => beforeKeys.has(column.key))
+  const beforeRows = keyRows(before.rows, keyColumn, 'antes')
+  const afterRows = keyRows(after.rows, keyColumn, 'depois')
+  const counts: Record<ChangeType, number> = { added: 0, removed: 0, modified: 0, unchanged: 0 }
+  const rows: RowDiff[] = []
+
+  const push = (key: string, diff: Omit<RowDiff, 'id'>) => {
+    counts[diff.change]++
+    rows.push({ id: `diff:${key}`, ...diff })
+  }
+
+  afterRows.forEach((afterRow, key) => {
+    const beforeRow = beforeRows.get(key)
+    if (!beforeRow) {
+      push(key, { key: afterRow[keyColumn] as CellValue, change: 'added', after: afterRow, changes: [] })
+      return
+    }
+    const changes = shared
+      .filter(column => !isSameValue(beforeRow[column.key] as CellValue, afterRow[column.key] as CellValue))
+      .map(column => ({
+        columnKey: column.key,
+        before: (beforeRow[column.key] ?? null) as CellValue,
+        after: (afterRow[column.key] ?? null) as CellValue,
+      }))
+    push(key, {
+      key: afterRow[keyColumn] as CellValue,
+      change: changes.length > 0 ? 'modified' : 'unchanged',
+      before: beforeRow,
+      after: afterRow,
+      changes,
+    })
+  })
+
+  beforeRows.forEach((beforeRow, key) => {
+    if (!afterRows.has(key)) {
+      push(key, { key: beforeRow[keyColumn] as CellValue, change: 'removed', before: beforeRow, changes: [] })
+    }
+  })
+
+  return {
+    keyColumn,
+    columns,
+    addedColumns: after.schema.columns.filter(column => !beforeKeys.has(column.key)).map(column => column.key),
+    removedColumns: removedColumns.map(column => column.key),
+    rows,
+    counts,
+    beforeName: before.metadata.sourceFileName,
+    afterName: after.metadata.sourceFileName,
+  }
+}
+
+/**
+ * Dados exibidos na tabela durante a comparação: valores da versão nova
+ * (ou da antiga, nas linhas removidas) e a coluna com o tipo de alteração
+ */
+export function diffToProcessedData(diff: DataDiff): ProcessedData {
+  const changeColumn: ColumnDefinition = {
+    key: CHANGE_COLUMN_KEY,
+    label: 'Alteração',
+    format: {
+      type: 'badge',
+      badgeColors: Object.fromEntries(
+        (Object.keys(changeTypeLabels) as ChangeType[]).map(change => [changeTypeLabels[change], changeTypeColors[change]])
+      ),
+    },
+    sortable: true,
+    filterable: true,
+    searchable: false,
+  }
+
+  // Sem regras nem expressões: os valores comparados são os das versões
+  const columns = diff.columns.map(column => ({ ...column, rules: undefined, expression: undefined }))
+  const rows = diff.rows.map((rowDiff, i): DataRow => {
+    const values = rowDiff.after ?? rowDiff.before!
+    const row: DataRow = { _id: rowDiff.id, _rowIndex: i, [CHANGE_COLUMN_KEY]: changeTypeLabels[rowDiff.change] }
+    for (const column of columns) row[column.key] = values[column.key] ?? null
+    return row
+  })
+
+  return {
+    schema: {
+      id: 'comparacao',
+      name: `Comparação ${[diff.beforeName, diff.afterName].filter(Boolean).join(' → ')}`.trim(),
+      columns: [changeColumn, ...columns],
+    },
+    rows,
+    metadata: {
+      totalRows: rows.length,
+      processedAt: new Date(),
+      sourceFileName: diff.afterName,
+    },
+  }
+}
+
+/**
+ * Pasta de trabalho da comparação: aba "Alterações" com um marcador colorido
+ * por linha e o valor anterior em comentário nas células modificadas, e aba
+ * "Resumo" com as contagens e as colunas acrescentadas ou retiradas
+ */
+export function createDiffWorkbook(diff: DataDiff): XLSX.WorkBook {
+  const { columns } = diff
+
+  const aoa: unknown[][] = [
+    ['Alteração', ...columns.map(column => column.label)],
+    ...diff.rows.map(rowDiff => {
+      const values = rowDiff.after ?? rowDiff.before!
+      return [
+        `${CHANGE_MARKERS[rowDiff.change]} ${changeTypeLabels[rowDiff.change]}`,
+        ...columns.map(column => values[column.key] ?? null),
+      ]
+    }),
+  ]
+  const sheet = XLSX.utils.aoa_to_sheet(aoa)
+
+  const columnIndex = new Map(columns.map((column, i) => [column.key, i + 1]))
+  const columnsByKey = new Map(columns.map(column => [column.key, column]))
+  diff.rows.forEach((rowDiff, i) => {
+    for (const change of rowDiff.changes) {
+      const address = XLSX.utils.encode_cell({ r: i + 1, c: columnIndex.get(change.columnKey)! })
+      const column = columnsByKey.get(change.columnKey)!
+      const cell = sheet[address] ?? (sheet[address] = { t: 'z' })
+      cell.c = [{ a: 'Comparação', t: `Antes: ${formatValue(change.before, column.format) || '(vazio)'}` }]
+    }
+  })
+
+  const labelOf = (key: string) => columnsByKey.get(key)?.label ?? key
+  const summary = XLSX.utils.aoa_to_sheet([
+    ['Alteração', 'Linhas'],
+    ...(Object.keys(changeTypeLabels) as ChangeType[]).map(change => [
+      `${CHANGE_MARKERS[change]} ${changeTypeLabels[change]}`,
+      diff.counts[change],
+    ]),
+    [],
+    ['Colunas adicionadas', diff.addedColumns.map(labelOf).join(', ')],
+    ['Colunas removidas', diff.removedColumns.map(labelOf).join(', ')],
+    [],
+    ['Versão anterior', diff.beforeName ?? ''],
+    ['Versão nova', diff.afterName ?? ''],
+  ])
+
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, sheet, 'Alterações')
+  XLSX.utils.book_append_sheet(workbook, summary, 'Resumo')
+  return workbook
+}
+
+/**
+ * Exporta a comparação para XLSX
+ */
+export function exportDiff(diff: DataDiff): Blob {
+  const buffer = XLSX.write(createDiffWorkbook(diff), { type: 'array', bookType: 'xlsx' })
+  return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+}
@@ -0,0 +1,260 @@
+import type { CellValue, ColumnDefinition, DataRow, ProcessedData } from '@/types'
+import { computeData, isComputedColumn } from './computed-columns'
+import { validateData } from './validation'
+
+// ============================================
+// DUPLICATAS: DETECÇÃO E MESCLAGEM
+// ============================================
+
+/**
+ * Exata compara os textos normalizados; as demais aceitam diferenças de
+ * digitação até o limite de semelhança
+ */
+export type DuplicateMethod = 'exact' | 'levenshtein' | 'jaroWinkler'
+
+export const duplicateMethodLabels: Record<DuplicateMethod, string> = {
+  exact: 'Exata',
+  levenshtein: 'Levenshtein (letras trocadas, faltando ou sobrando)',
+  jaroWinkler: 'Jaro-Winkler (nomes com o mesmo começo)',
+}
+
+export interface DuplicateOptions {
+  /** Colunas comparadas */
+  columns: string[]
+  method: DuplicateMethod
+  /** Semelhança mínima (0–1) nos métodos aproximados */
+  threshold: number
+}
+
+export interface DuplicateGroup {
+  id: string
+  /** Linhas do grupo, na ordem dos dados */
+  rowIds: string[]
+  /** Menor semelhança entre as linhas que formaram o grupo (1 = idênticas) */
+  similarity: number
+}
+
+/**
+ * Grupo a mesclar: a linha sobrevivente recebe `values` e as demais saem
+ */
+export interface MergeGroup {
+  survivorId: string
+  rowIds: string[]
+  values?: Record<string, CellValue>
+}
+
+// Comparação aproximada é quadrática; acima disso, só a exata
+export const MAX_FUZZY_VALUES = 5000
+
+/**
+ * Texto de comparação: sem acentos, minúsculo, sem espaços repetidos; datas
+ * pelo dia
+ */
+export function normalizeForMatch(value: CellValue): string {
+  if (value == null) return ''
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10)
+  return String(value)
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Número mínimo de inserções, remoções e trocas de caracteres entre os textos
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/**
+ * Semelhança de Levenshtein normalizada pelo texto mais longo (0–1)
+ */
+export function levenshteinSimilarity(a: string, b: string): number {
+  const length = Math.max(a.length, b.length)
+  return length === 0 ? 1 : 1 - levenshteinDistance(a, b) / length
+}
+
+/**
+ * Semelhança de Jaro-Winkler (0–1): favorece textos com o mesmo começo,
+ * comum em nomes abreviados ou com sobrenome a mais
+ */
+export function jaroWinklerSimilarity(a: string, b: string): number {
+  if (a === b) return 1
+  if (a.length === 0 || b.length === 0) return 0
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1)
+  const matchedA: boolean[] = new Array(a.length).fill(false)
+  const matchedB: boolean[] = new Array(b.length).fill(false)
+  let matches = 0
+  for (let i = 0; i < a.length; i++) {
+    const end = Math.min(i + window + 1, b.length)
+    for (let j = Math.max(0, i - window); j < end; j++) {
+      if (matchedB[j] || a[i] !== b[j]) continue
+      matchedA[i] = matchedB[j] = true
+      matches++
+      break
+    }
+  }
+  if (matches === 0) return 0
+
+  let transpositions = 0
+  for (let i = 0, j = 0; i < a.length; i++) {
+    if (!matchedA[i]) continue
+    while (!matchedB[j]) j++
+    if (a[i] !== b[j]) transpositions++
+    j++
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3
+  let prefix = 0
+  while (prefix < 4 && a[prefix] === b[prefix]) prefix++
+  return jaro + prefix * 0.1 * (1 - jaro)
+}
+
+/**
+ * Semelhança média das colunas comparadas; vazio só é igual a vazio
+ */
+function valuesSimilarity(a: string[], b: string[], method: DuplicateMethod): number {
+  let total = 0
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) total += 1
+    else if (a[i] === '' || b[i] === '' || method === 'exact') continue
+    else total += method === 'levenshtein' ? levenshteinSimilarity(a[i], b[i]) : jaroWinklerSimilarity(a[i], b[i])
+  }
+  return total / a.length
+}
+
+/**
+ * Agrupa as linhas duplicadas nas colunas escolhidas. Linhas com os mesmos
+ * textos normalizados ficam juntas; nos métodos aproximados, grupos cujos
+ * textos atingem o limite de semelhança também se unem (transitivamente).
+ * Linhas vazias em todas as colunas são ignoradas.
+ */
+export function findDuplicates(rows: DataRow[], options: DuplicateOptions): DuplicateGroup[] {
+  const { columns, method, threshold } = options
+  if (columns.length === 0) throw new Error('Escolha ao menos uma coluna para comparar')
+
+  // Linhas por texto normalizado (duplicatas exatas)
+  const buckets = new Map<string, { values: string[]; rowIds: string[] }>()
+  for (const row of rows) {
+    const values = columns.map(column => normalizeForMatch(row[column] as CellValue))
+    if (values.every(value => value === '')) continue
+    const key = JSON.stringify(values)
+    const bucket = buckets.get(key)
+    if (bucket) bucket.rowIds.push(row._id)
+    else buckets.set(key, { values, rowIds: [row._id] })
+  }
+
+  const entries = [...buckets.values()]
+  const parent = entries.map((_, i) => i)
+  const similarity = entries.map(() => 1)
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])))
+
+  if (method !== 'exact') {
+    if (entries.length > MAX_FUZZY_VALUES) {
+      throw new Error(
+        `Comparação aproximada limitada a ${MAX_FUZZY_VALUES.toLocaleString('pt-BR')} valores distintos; ` +
+        'use a comparação exata ou filtre os dados'
+      )
+    }
+    for (let i = 0; i < entries.length; i++) {
+      for (let j = i + 1; j < entries.length; j++) {
+        const score = valuesSimilarity(entries[i].values, entries[j].values, method)
+        if (score < threshold) continue
+        const rootI = find(i)
+        const rootJ = find(j)
+        const lowest = Math.min(similarity[rootI], similarity[rootJ], score)
+        parent[rootJ] = rootI
+        similarity[rootI] = lowest
+      }
+    }
+  }
+
+  const groups = new Map<number, string[]>()
+  entries.forEach((entry, i) => {
+    const root = find(i)
+    groups.set(root, [...(groups.get(root) ?? []), ...entry.rowIds])
+  })
+
+  const order = new Map(rows.map((row, i) => [row._id, i]))
+  const byOrder = (a: string, b: string) => order.get(a)! - order.get(b)!
+  return [...groups.entries()]
+    .filter(([, rowIds]) => rowIds.length > 1)
+    .map(([root, rowIds]) => {
+      rowIds.sort(byOrder)
+      return { id: `dup:${rowIds[0]}`, rowIds, similarity: similarity[root] }
+    })
+    .sort((a, b) => byOrder(a.rowIds[0], b.rowIds[0]))
+}
+
+/**
+ * Valores sugeridos para a linha sobrevivente: os dela e, nas células
+ * vazias, o primeiro valor preenchido das outras linhas do grupo
+ */
+export function suggestMergeValues(
+  rows: DataRow[],
+  columns: ColumnDefinition[],
+  survivorId: string
+): Record<string, CellValue> {
+  const survivor = rows.find(row => row._id === survivorId)
+  if (!survivor) throw new Error('Linha sobrevivente fora do grupo')
+  const others = rows.filter(row => row !== survivor)
+
+  const isEmpty = (value: unknown) => value == null || value === ''
+  const values: Record<string, CellValue> = {}
+  for (const column of columns) {
+    if (isComputedColumn(column)) continue
+    const value = survivor[column.key] as CellValue
+    values[column.key] = isEmpty(value)
+      ? (others.find(row => !isEmpty(row[column.key]))?.[column.key] ?? null) as CellValue
+      : value
+  }
+  return values
+}
+
+/**
+ * Mescla os grupos: cada sobrevivente recebe os valores escolhidos e mantém
+ * seu ID; as outras linhas do grupo são removidas. Colunas calculadas e
+ * regras são reavaliadas.
+ */
+export function mergeDuplicates(data: ProcessedData, groups: MergeGroup[]): ProcessedData {
+  const removed = new Set<string>()
+  const survivors = new Map<string, Record<string, CellValue>>()
+  const computed = new Set(data.schema.columns.filter(isComputedColumn).map(column => column.key))
+
+  for (const group of groups) {
+    if (!group.rowIds.includes(group.survivorId)) throw new Error('Linha sobrevivente fora do grupo')
+    for (const rowId of group.rowIds) if (rowId !== group.survivorId) removed.add(rowId)
+    survivors.set(group.survivorId, Object.fromEntries(
+      Object.entries(group.values ?? {}).filter(([key]) => !computed.has(key))
+    ))
+  }
+
+  const rows = data.rows
+    .filter(row => !removed.has(row._id))
+    .map(row => (survivors.has(row._id) ? { ...row, ...survivors.get(row._id) } : row))
+
+  return validateData(computeData({
+    ...data,
+    rows,
+    // Linhas removidas desalinham mesclagens e fórmulas
+    merges: removed.size > 0 ? undefined : data.merges,
+    formulas: removed.size > 0 ? undefined : data.formulas,
+    metadata: { ...data.metadata, totalRows: rows.length },
+  }))
+}
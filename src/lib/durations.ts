@@ -0,0 +1,64 @@
+// ============================================
+// DURAÇÕES (TEMPO DECORRIDO)
+// ============================================
+
+/** Durações são guardadas em segundos; no Excel, em dias */
+export const SECONDS_PER_DAY = 86400
+
+/** "1:30", "01:30:00", "36:15:00", "-0:45" (horas sem limite) */
+const CLOCK_DURATION_REGEX = /^([+-])?(\d+):([0-5]\d)(?::([0-5]\d(?:[.,]\d+)?))?$/
+
+/** "1h30", "2 horas", "45min", "1d 2h", "90s" (ao menos uma unidade) */
+const UNIT_DURATION_REGEX = /^([+-])?(?:(\d+(?:[.,]\d+)?)(?:dias?|d))?(?:(\d+(?:[.,]\d+)?)(?:horas?|hrs?|h))?(?:(\d+(?:[.,]\d+)?)(?:minutos?|min|m)?)?(?:(\d+(?:[.,]\d+)?)(?:segundos?|seg|s))?$/
+
+function toNumber(text: string | undefined): number {
+  return text ? Number(text.replace(',', '.')) : 0
+}
+
+/**
+ * Interpreta uma duração em texto e devolve o total em segundos.
+ * Horas podem passar de 24 ("36:15:00"); números sem unidade não são
+ * durações.
+ */
+export function parseDuration(text: string): number | null {
+  const value = text.trim().toLowerCase()
+  if (!value) return null
+
+  const clock = CLOCK_DURATION_REGEX.exec(value)
+  if (clock) {
+    const [, sign, hours, minutes, seconds] = clock
+    const total = toNumber(hours) * 3600 + toNumber(minutes) * 60 + toNumber(seconds)
+    return sign === '-' ? -total : total
+  }
+
+  const compact = value.replace(/\s+/g, '')
+  if (!/\d/.test(compact) || !/[a-z]/.test(compact)) return null
+
+  const units = UNIT_DURATION_REGEX.exec(compact)
+  if (!units) return null
+
+  const [, sign, days, hours, minutes, seconds] = units
+  // Minutos sem unidade só depois de horas ("1h30")
+  if (minutes && !hours && !/\d(minutos?|min|m)/.test(compact)) return null
+
+  const total = toNumber(days) * SECONDS_PER_DAY + toNumber(hours) * 3600 + toNumber(minutes) * 60 + toNumber(seconds)
+  return sign === '-' ? -total : total
+}
+
+/**
+ * Formata segundos como tempo decorrido ("h:mm" ou "h:mm:ss"), com horas
+ * além de 24
+ */
+export function formatDuration(seconds: number, pattern = 'h:mm:ss'): string {
+  const sign = seconds < 0 ? '-' : ''
+  const pad = (n: number) => String(n).padStart(2, '0')
+
+  if (!pattern.includes('s')) {
+    const minutes = Math.round(Math.abs(seconds) / 60)
+    return `${sign}${Math.floor(minutes / 60)}:${pad(minutes % 60)}`
+  }
+
+  const total = Math.round(Math.abs(seconds))
+  const hours = Math.floor(total / 3600)
+  return `${sign}${hours}:${pad(Math.floor((total % 3600) / 60))}:${pad(total % 60)}`
+}
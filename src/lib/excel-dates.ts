@@ -0,0 +1,201 @@
+// ============================================
+// DATAS DO EXCEL E DATAS EM TEXTO
+// ============================================
+
+/** Data sem hora, data com hora ou somente hora */
+export type DateKind = 'date' | 'datetime' | 'time'
+
+export interface ParsedDate {
+  date: Date
+  kind: DateKind
+}
+
+const MS_PER_DAY = 86400000
+
+/** Dia 0 do sistema 1900 (30/12/1899), também usado como âncora dos horários */
+const EPOCH_1900 = Date.UTC(1899, 11, 30)
+
+/** Dias entre 30/12/1899 e 01/01/1904, início do sistema 1904 */
+const DAYS_1904 = 1462
+
+/**
+ * Número serial do Excel → data com os mesmos componentes no fuso local.
+ *
+ * No sistema 1900 o Excel conta o 29/02/1900, que não existe: seriais
+ * abaixo de 61 ficam um dia adiantados. Valores abaixo de 1 são só hora
+ * e ficam ancorados em 30/12/1899 nos dois sistemas.
+ */
+export function excelSerialToDate(serial: number, date1904 = false): Date {
+  const days = Math.floor(serial)
+  let offset = days
+  if (days >= 1) {
+    if (date1904) offset += DAYS_1904
+    else if (days < 61) offset += 1
+  }
+
+  // Componentes em UTC, sem saltos de horário de verão
+  const ms = Math.round((serial - days) * MS_PER_DAY)
+  const utc = new Date(EPOCH_1900 + offset * MS_PER_DAY + ms)
+  return new Date(
+    utc.getUTCFullYear(), utc.getUTCMonth(), utc.getUTCDate(),
+    utc.getUTCHours(), utc.getUTCMinutes(), utc.getUTCSeconds(), utc.getUTCMilliseconds()
+  )
+}
+
+/**
+ * Data (componentes locais) → número serial do Excel
+ */
+export function dateToExcelSerial(date: Date, date1904 = false): number {
+  const utc = Date.UTC(
+    date.getFullYear(), date.getMonth(), date.getDate(),
+    date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds()
+  )
+  const offset = (utc - EPOCH_1900) / MS_PER_DAY
+
+  if (offset < 1) return offset
+  if (date1904) return offset - DAYS_1904
+  return offset < 61 ? offset - 1 : offset
+}
+
+/**
+ * Classifica a data: horário ancorado em 30/12/1899 é só hora;
+ * meia-noite exata é data sem hora
+ */
+export function getDateKind(date: Date): DateKind {
+  if (date.getFullYear() === 1899 && date.getMonth() === 11 && date.getDate() === 30) return 'time'
+  const hasTime = date.getHours() || date.getMinutes() || date.getSeconds() || date.getMilliseconds()
+  return hasTime ? 'datetime' : 'date'
+}
+
+// ============================================
+// DATAS EM TEXTO
+// ============================================
+
+const ISO_INSTANT_REGEX = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})$/
+const NUMERIC_DATE_REGEX = /^(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4})(?:(?:\s+|T)(\d{1,2}):(\d{2})(?::(\d{2})(?:\.(\d{1,3}))?)?(?:\s*([ap])\.?m\.?)?)?$/i
+const TIME_REGEX = /^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\s*([ap])\.?m\.?)?$/i
+
+/**
+ * Ordem de dia, mês e ano no padrão do date-fns (ex.: "dd/MM/yyyy" → "dmy").
+ * Trechos entre aspas simples são ignorados.
+ */
+function getFieldOrder(dateFormat: string): string {
+  const pattern = dateFormat.replace(/'[^']*'/g, '')
+  const positions = (['d', 'M', 'y'] as const)
+    .map(field => ({ field: field.toLowerCase(), index: pattern.indexOf(field) }))
+    .filter(p => p.index >= 0)
+
+  if (positions.length < 3) return 'dmy'
+  return positions.sort((a, b) => a.index - b.index).map(p => p.field).join('')
+}
+
+/** Ano com dois dígitos segue a janela do Excel (00–29 → 2000, 30–99 → 1900) */
+function expandYear(text: string): number {
+  const year = Number(text)
+  if (text.length > 2) return year
+  return year < 30 ? 2000 + year : 1900 + year
+}
+
+function toHours(hours: number, meridiem?: string): number {
+  if (!meridiem) return hours
+  const pm = meridiem.toLowerCase() === 'p'
+  return (hours % 12) + (pm ? 12 : 0)
+}
+
+function isValidTime(hours: number, minutes: number, seconds: number, meridiem?: string): boolean {
+  if (meridiem && (hours < 1 || hours > 12)) return false
+  return hours < 24 && minutes < 60 && seconds < 60
+}
+
+/**
+ * Interpreta datas em texto. Datas numéricas seguem a ordem do formato
+ * configurado (CompanyConfig.dateFormat): "03/04/2024" é 3 de abril em
+ * "dd/MM/yyyy" e 4 de março em "MM/dd/yyyy". Valores fora do calendário
+ * são rejeitados em vez de terem dia e mês trocados.
+ */
+export function parseDateString(text: string, dateFormat = 'dd/MM/yyyy'): ParsedDate | null {
+  const value = text.trim()
+  if (!value) return null
+
+  // Instante com fuso explícito (ISO 8601 com Z ou deslocamento)
+  if (ISO_INSTANT_REGEX.test(value)) {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? null : { date, kind: 'datetime' }
+  }
+
+  const numeric = NUMERIC_DATE_REGEX.exec(value)
+  if (numeric) {
+    const [, first, second, third, hh, mm, ss, ms, meridiem] = numeric
+    const order = first.length >= 3 ? 'ymd' : getFieldOrder(dateFormat)
+    const parts: Record<string, string> = {}
+    order.split('').forEach((field, i) => { parts[field] = [first, second, third][i] })
+
+    if (parts.y.length === 3 || parts.d.length > 2 || parts.m.length > 2) return null
+
+    const year = expandYear(parts.y)
+    const month = Number(parts.m) - 1
+    const day = Number(parts.d)
+    const hours = hh ? toHours(Number(hh), meridiem) : 0
+    const minutes = mm ? Number(mm) : 0
+    const seconds = ss ? Number(ss) : 0
+
+    if (month < 0 || month > 11 || day < 1) return null
+    if (day > new Date(year, month + 1, 0).getDate()) return null
+    if (hh && !isValidTime(Number(hh), minutes, seconds, meridiem)) return null
+
+    const date = new Date(year, month, day, hours, minutes, seconds, ms ? Number(ms.padEnd(3, '0')) : 0)
+    return { date, kind: hh ? 'datetime' : 'date' }
+  }
+
+  const time = TIME_REGEX.exec(value)
+  if (time) {
+    const [, hh, mm, ss, meridiem] = time
+    const minutes = Number(mm)
+    const seconds = ss ? Number(ss) : 0
+    if (!isValidTime(Number(hh), minutes, seconds, meridiem)) return null
+    return { date: new Date(1899, 11, 30, toHours(Number(hh), meridiem), minutes, seconds), kind: 'time' }
+  }
+
+  return null
+}
+
+// ============================================
+// FUSO HORÁRIO DE EXIBIÇÃO
+// ============================================
+
+const timeZoneFormatters = new Map<string, Intl.DateTimeFormat>()
+
+function getTimeZoneFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = timeZoneFormatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    timeZoneFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * Data cujos componentes locais são o horário de parede em `timeZone`
+ * (para formatar com date-fns). Fusos inválidos mantêm a data.
+ */
+export function toTimeZone(date: Date, timeZone: string): Date {
+  try {
+    const parts = getTimeZoneFormatter(timeZone).formatToParts(date)
+    const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value)
+    return new Date(
+      get('year'), get('month') - 1, get('day'),
+      get('hour'), get('minute'), get('second'), date.getMilliseconds()
+    )
+  } catch {
+    return date
+  }
+}
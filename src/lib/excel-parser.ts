@@ -4,72 +4,275 @@ import type {
   DataRow, 
   DataSchema, 
   ColumnDefinition, 
+  ColumnFormat,
   ColumnType,
   ProcessedData,
-  CellValue
+  CellValue,
+  CellSpan,
+  CellFormula,
+  SheetFormulas,
+  SheetInfo,
+  SheetVisibility
 } from '@/types'
+import { parseCSVStream, createAbortError, detectEncoding, type CsvFormatOptions } from './csv-stream'
+import { parseFixedWidth, type FixedWidthOptions } from './fixed-width'
+import { parseJSONText, parseNDJSONText, type JsonImportOptions, type JsonImportResult } from './json-import'
+import { formatFileSize, formatValue } from './utils'
+import { getLocaleSeparators, parseFormattedNumber, type DecimalSeparator } from './locale-number'
+import { excelFormatToColumnFormat, isDateFormat, isDurationFormat, isPercentFormat } from './number-format'
+import { excelSerialToDate, getDateKind, parseDateString, type DateKind } from './excel-dates'
+import { translateFormula } from './formula-sheet'
+import { createColumnKeys, matchColumnSources } from './column-keys'
+import { parseDuration, SECONDS_PER_DAY } from './durations'
+import {
+  detectDocumentType,
+  formatDocument,
+  isCepHeader,
+  isDocumentType,
+  isUnmaskedCep,
+  isValidDocument,
+  normalizeDocument,
+} from './br-documents'
+import { hasValidationRules, validateRows } from './validation'
+import { assignRowIds } from './row-ids'
+import { computeColumns, isComputedColumn } from './computed-columns'
 
 // ============================================
 // PARSER DE ARQUIVOS
 // ============================================
 
 export interface ParseResult {
+  /** Chaves das colunas (slugs únicos, usados como chaves de `data`) */
   headers: string[]
+  /** Texto original de cada cabeçalho, na mesma ordem de `headers` */
+  sourceHeaders?: string[]
   data: Record<string, CellValue>[]
   rawData: unknown[][]
   errors: string[]
+  /** Índice (0-based) da primeira linha de cabeçalho utilizada */
+  headerRow?: number
+  /** Quantidade de linhas de cabeçalho mescladas nos rótulos */
+  headerRowCount?: number
+  /** Células mescladas preservadas (modo 'span') */
+  merges?: CellSpan[]
+  /** Formato de número predominante de cada coluna, lido da planilha */
+  columnFormats?: Record<string, ColumnFormat>
+  /** Fórmulas das células de dados (somente planilhas) */
+  formulas?: SheetFormulas
+  /** Todas as planilhas da pasta de trabalho (somente xlsx/xls) */
+  sheets?: SheetParseResult[]
 }
 
 /**
- * Detecta o tipo de arquivo baseado na extensão ou magic bytes
+ * Opções de leitura de arquivos
  */
-function detectFileType(file: File): 'xlsx' | 'xls' | 'csv' | 'unknown' {
-  const extension = file.name.split('.').pop()?.toLowerCase()
+export interface ParseOptions {
+  /** Linha do cabeçalho (0-based) ou 'auto' para detecção automática */
+  headerRow?: number | 'auto'
+  /** Quantidade de linhas de cabeçalho a mesclar (ex.: "2025 / Q1") */
+  headerRowCount?: number
+  /**
+   * Tratamento de células mescladas nos dados:
+   * 'ignore' mantém o valor só na primeira célula, 'fill' replica o valor
+   * em todas as células cobertas e 'span' preserva a mesclagem
+   */
+  mergedCells?: 'ignore' | 'fill' | 'span'
+  /** Codificação, delimitador e separador decimal do CSV (detectados quando omitidos) */
+  csv?: CsvFormatOptions
+  /** Colunas de arquivos .txt de largura fixa (detectadas quando omitidas) */
+  fixedWidth?: FixedWidthOptions
+  /** Achatamento de registros JSON/NDJSON */
+  json?: JsonImportOptions
+}
+
+/**
+ * Resultado do parse de uma planilha individual
+ */
+export interface SheetParseResult extends Omit<ParseResult, 'sheets'> {
+  sheet: SheetInfo
+}
+
+/**
+ * Planilha já processada, pronta para o store
+ */
+export interface ProcessedSheet {
+  info: SheetInfo
+  data: ProcessedData
+}
+
+/**
+ * Obtém a visibilidade de uma planilha (visível, oculta ou muito oculta)
+ */
+export function getSheetVisibility(workbook: XLSX.WorkBook, index: number): SheetVisibility {
+  const hidden = workbook.Workbook?.Sheets?.[index]?.Hidden
+  if (hidden === 1) return 'hidden'
+  if (hidden === 2) return 'veryHidden'
+  return 'visible'
+}
+
+// ============================================
+// DETECÇÃO DE CABEÇALHO
+// ============================================
+
+/** Quantidade máxima de linhas analisadas na detecção de cabeçalho */
+const HEADER_SCAN_ROWS = 30
+
+/** Quantidade de linhas de dados usadas para pontuar um candidato */
+const HEADER_SAMPLE_ROWS = 10
+
+function isEmptyCell(value: unknown): boolean {
+  return value == null || String(value).trim() === ''
+}
+
+function cellKind(value: unknown): 'number' | 'date' | 'boolean' | 'text' {
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'boolean') return 'boolean'
+  if (value instanceof Date) return 'date'
   
-  if (extension === 'xlsx' || extension === 'xls') {
-    return extension
-  }
+  const str = String(value).trim()
+  if (/^-?[\d.,]+$/.test(str)) return 'number'
+  if (DATE_REGEX.test(str)) return 'date'
+  return 'text'
+}
+
+/**
+ * Detecta a linha de cabeçalho pontuando cada candidata pela densidade de
+ * texto e pela uniformidade de tipos das linhas de dados logo abaixo.
+ * Retorna o índice da primeira linha do bloco de `headerRowCount` linhas.
+ */
+export function detectHeaderRow(rows: unknown[][], headerRowCount = 1): number {
+  const limit = Math.min(rows.length, HEADER_SCAN_ROWS)
+  const filledCount = (row: unknown[] | undefined) => 
+    (row || []).filter(v => !isEmptyCell(v)).length
+  
+  const width = Math.max(0, ...rows.slice(0, limit + HEADER_SAMPLE_ROWS).map(filledCount))
+  if (width === 0) return 0
+  
+  let bestRow = -1
+  let bestScore = -Infinity
   
-  if (extension === 'csv' || file.type === 'text/csv') {
-    return 'csv'
+  for (let r = headerRowCount - 1; r < limit; r++) {
+    const row = rows[r] || []
+    const filled = row
+      .map((value, col) => ({ value, col }))
+      .filter(({ value }) => !isEmptyCell(value))
+    
+    if (filled.length === 0) continue
+    
+    const textRatio = filled.filter(({ value }) => cellKind(value) === 'text').length / filled.length
+    const fillRatio = filled.length / width
+    const uniqueRatio = new Set(filled.map(({ value }) => String(value).trim().toLowerCase())).size / filled.length
+    
+    const sample = rows
+      .slice(r + 1, r + 1 + HEADER_SAMPLE_ROWS)
+      .filter(dataRow => filledCount(dataRow) > 0)
+    
+    // Cada coluna do cabeçalho deve ter dados de um único tipo abaixo dela
+    let uniformity = 0
+    let dataFill = 0
+    if (sample.length > 0) {
+      for (const { col } of filled) {
+        const kinds = sample
+          .map(dataRow => dataRow?.[col])
+          .filter(v => !isEmptyCell(v))
+          .map(cellKind)
+        
+        if (kinds.length === 0) continue
+        const counts = new Map<string, number>()
+        kinds.forEach(k => counts.set(k, (counts.get(k) || 0) + 1))
+        uniformity += Math.max(...counts.values()) / kinds.length
+      }
+      uniformity /= filled.length
+      
+      const avgFilled = sample.reduce((sum, dataRow) => sum + filledCount(dataRow), 0) / sample.length
+      dataFill = Math.min(1, avgFilled / filled.length)
+    }
+    
+    const score = textRatio * 2 + fillRatio * 2 + uniqueRatio + uniformity + dataFill
+    
+    // Empates favorecem a linha mais acima
+    if (score > bestScore + 1e-9) {
+      bestScore = score
+      bestRow = r
+    }
   }
   
-  return 'unknown'
+  if (bestRow < 0) return 0
+  return Math.max(0, bestRow - headerRowCount + 1)
 }
 
 /**
- * Parseia arquivo Excel (xlsx/xls)
+ * Texto de uma célula de cabeçalho (datas como dd/MM/yyyy)
  */
-async function parseExcel(file: File): Promise<ParseResult> {
-  const arrayBuffer = await file.arrayBuffer()
-  const workbook = XLSX.read(arrayBuffer, { 
-    type: 'array',
-    cellDates: true,
-    cellNF: true,
-  })
+function headerText(value: unknown): string {
+  if (isEmptyCell(value)) return ''
+  if (value instanceof Date) return formatValue(value, { type: 'date' })
+  return String(value).trim()
+}
+
+/**
+ * Mescla várias linhas de cabeçalho em rótulos compostos ("2025 / Q1").
+ * Rótulos de grupo (células mescladas no Excel) são propagados para a direita.
+ */
+export function mergeHeaderRows(headerRows: unknown[][]): string[] {
+  const width = Math.max(0, ...headerRows.map(row => row.length))
+  const filled = headerRows.map(row => 
+    Array.from({ length: width }, (_, col) => headerText(row[col]))
+  )
   
-  // Pega a primeira planilha
-  const sheetName = workbook.SheetNames[0]
-  const worksheet = workbook.Sheets[sheetName]
+  // Propaga rótulos de grupo apenas nas linhas superiores, dentro do grupo pai
+  for (let level = 0; level < filled.length - 1; level++) {
+    for (let col = 1; col < width; col++) {
+      const startsNewGroup = headerRows
+        .slice(0, level)
+        .some(row => !isEmptyCell(row[col]))
+      
+      if (!filled[level][col] && !startsNewGroup) {
+        filled[level][col] = filled[level][col - 1]
+      }
+    }
+  }
   
-  // Converte para JSON
-  const rawData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { 
-    header: 1,
-    defval: null,
-    raw: false,
+  return Array.from({ length: width }, (_, col) => {
+    const parts: string[] = []
+    filled.forEach(row => {
+      const part = row[col]
+      if (part && parts[parts.length - 1] !== part) parts.push(part)
+    })
+    return parts.join(' / ')
   })
-  
+}
+
+/**
+ * Converte linhas brutas em headers e registros, detectando ou usando
+ * a linha de cabeçalho informada
+ */
+export function rowsToParseResult(
+  rawData: unknown[][],
+  options?: ParseOptions,
+  onProgress?: (processed: number, total: number) => void
+): Omit<ParseResult, 'sheets'> {
   if (rawData.length === 0) {
     return { headers: [], data: [], rawData: [], errors: ['Planilha vazia'] }
   }
   
-  // Headers são a primeira linha
-  const headers = (rawData[0] as string[]).map((h, i) => 
-    h?.toString().trim() || `column_${i}`
-  )
+  const headerRowCount = Math.max(1, options?.headerRowCount ?? 1)
+  const requestedRow = options?.headerRow ?? 'auto'
+  const headerRow = requestedRow === 'auto'
+    ? detectHeaderRow(rawData, headerRowCount)
+    : Math.min(Math.max(0, requestedRow), rawData.length - 1)
   
-  // Dados são as linhas restantes
-  const data = rawData.slice(1).map((row) => {
+  // Chaves únicas em slug; o texto original fica em sourceHeaders
+  const headerRows = rawData.slice(headerRow, headerRow + headerRowCount)
+  const sourceHeaders = mergeHeaderRows(headerRows)
+  const { keys: headers, warnings } = createColumnKeys(sourceHeaders)
+  
+  // Dados são as linhas após o bloco de cabeçalho
+  const dataRows = rawData.slice(headerRow + headerRowCount)
+  const totalRows = dataRows.length
+  const data = dataRows.map((row, index) => {
+    onProgress?.(index, totalRows)
+    
     const rowData: Record<string, CellValue> = {}
     headers.forEach((header, i) => {
       rowData[header] = (row as CellValue[])[i] ?? null
@@ -77,28 +280,486 @@ async function parseExcel(file: File): Promise<ParseResult> {
     return rowData
   })
   
-  return { headers, data, rawData, errors: [] }
+  return { headers, sourceHeaders, data, rawData, errors: warnings, headerRow, headerRowCount }
+}
+
+/**
+ * Parseia uma planilha individual da pasta de trabalho
+ */
+export function parseWorksheet(
+  workbook: XLSX.WorkBook,
+  index: number,
+  options?: ParseOptions,
+  onProgress?: (processed: number, total: number) => void
+): SheetParseResult {
+  const name = workbook.SheetNames[index]
+  const worksheet = workbook.Sheets[name]
+  const ref = worksheet?.['!ref']
+  const range = ref ? XLSX.utils.decode_range(ref) : null
+  
+  const sheet: SheetInfo = {
+    name,
+    index,
+    visibility: getSheetVisibility(workbook, index),
+    rowCount: range ? range.e.r - range.s.r + 1 : 0,
+    columnCount: range ? range.e.c - range.s.c + 1 : 0,
+    range: ref,
+  }
+  
+  // Valores tipados (números, datas); os formatos vêm de cada célula
+  const rawData = worksheet
+    ? XLSX.utils.sheet_to_json<unknown[]>(worksheet, { 
+        header: 1,
+        defval: null,
+        raw: true,
+      })
+    : []
+  const formatCodes = worksheet && range ? readFormatCodes(worksheet, range) : []
+  
+  // Seriais com formato de data viram Date (no sistema de datas da pasta);
+  // tempo decorrido vira segundos e percentuais ficam em 0–100, como os
+  // lidos de texto ("12,5%")
+  const date1904 = Boolean(workbook.Workbook?.WBProps?.date1904)
+  const kinds = new Map<string, 'date' | 'duration' | 'percent' | 'number'>()
+  formatCodes.forEach((row, r) => row.forEach((code, c) => {
+    const value = rawData[r]?.[c]
+    if (typeof value !== 'number' || !code) return
+    
+    let kind = kinds.get(code)
+    if (!kind) {
+      kind = isDateFormat(code) ? 'date'
+        : isDurationFormat(code) ? 'duration'
+        : isPercentFormat(code) ? 'percent' : 'number'
+      kinds.set(code, kind)
+    }
+    
+    if (kind === 'date') rawData[r][c] = excelSerialToDate(value, date1904)
+    else if (kind === 'duration') rawData[r][c] = Math.round(value * SECONDS_PER_DAY * 1000) / 1000
+    else if (kind === 'percent') rawData[r][c] = Number((value * 100).toPrecision(15))
+  }))
+  
+  const parsed = withFormulas(
+    withColumnFormats(rowsToParseResult(rawData, options, onProgress), formatCodes),
+    worksheet,
+    range
+  )
+  const merges = worksheet?.['!merges']
+  
+  if (range && merges?.length && options?.mergedCells && options.mergedCells !== 'ignore') {
+    // Coordenadas relativas ao início do intervalo usado pela planilha
+    const relative = merges.map(m => ({
+      s: { r: m.s.r - range.s.r, c: m.s.c - range.s.c },
+      e: { r: m.e.r - range.s.r, c: m.e.c - range.s.c },
+    }))
+    return { ...applyMerges(parsed, relative, options.mergedCells), sheet }
+  }
+  
+  return { ...parsed, sheet }
+}
+
+/**
+ * Códigos de formato das células numéricas e de data, relativos ao início
+ * do intervalo usado (mesma grade de sheet_to_json com header: 1)
+ */
+function readFormatCodes(worksheet: XLSX.WorkSheet, range: XLSX.Range): (string | undefined)[][] {
+  const codes: (string | undefined)[][] = []
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const row: (string | undefined)[] = []
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell: XLSX.CellObject | undefined = worksheet[XLSX.utils.encode_cell({ r, c })]
+      row.push(cell && (cell.t === 'n' || cell.t === 'd') ? String(cell.z ?? 'General') : undefined)
+    }
+    codes.push(row)
+  }
+  return codes
+}
+
+/**
+ * Associa a cada coluna o formato de número predominante nas linhas de dados,
+ * quando ele cobre ao menos 70% dos valores preenchidos
+ */
+function withColumnFormats(
+  parsed: Omit<ParseResult, 'sheets'>,
+  formatCodes: (string | undefined)[][]
+): Omit<ParseResult, 'sheets'> {
+  const dataStart = (parsed.headerRow ?? 0) + (parsed.headerRowCount ?? 1)
+  const dataCodes = formatCodes.slice(dataStart)
+  const columnFormats: Record<string, ColumnFormat> = {}
+  
+  parsed.headers.forEach((header, col) => {
+    const counts = new Map<string, number>()
+    dataCodes.forEach(row => {
+      const code = row[col]
+      if (code) counts.set(code, (counts.get(code) || 0) + 1)
+    })
+    
+    const [code, count] = [...counts].sort((a, b) => b[1] - a[1])[0] ?? []
+    const filled = parsed.data.filter(row => !isEmptyCell(row[header])).length
+    const format = count && count / filled >= 0.7 ? excelFormatToColumnFormat(code) : null
+    if (format) columnFormats[header] = format
+  })
+  
+  return Object.keys(columnFormats).length > 0 ? { ...parsed, columnFormats } : parsed
+}
+
+/**
+ * Guarda as fórmulas das células de dados ("=SUM(B2:B9)") e os valores das
+ * linhas acima dos dados, que as fórmulas podem referenciar
+ */
+function withFormulas(
+  parsed: Omit<ParseResult, 'sheets'>,
+  worksheet: XLSX.WorkSheet | undefined,
+  range: XLSX.Range | null
+): Omit<ParseResult, 'sheets'> {
+  if (!worksheet || !range) return parsed
+  
+  const dataStart = (parsed.headerRow ?? 0) + (parsed.headerRowCount ?? 1)
+  const cells: CellFormula[] = []
+  const constants: Record<string, CellValue> = {}
+  
+  for (let r = range.s.r; r <= range.e.r; r++) {
+    const rowIndex = r - range.s.r - dataStart
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const address = XLSX.utils.encode_cell({ r, c })
+      const cell: XLSX.CellObject | undefined = worksheet[address]
+      if (!cell) continue
+      
+      const columnKey = parsed.headers[c - range.s.c]
+      if (rowIndex >= 0 && cell.f && columnKey) {
+        cells.push({ rowIndex, columnKey, formula: `=${cell.f}` })
+      } else if (rowIndex < 0 && !isEmptyCell(cell.v)) {
+        const converted = parsed.rawData[r - range.s.r]?.[c - range.s.c]
+        constants[address] = (converted instanceof Date ? converted : cell.v) as CellValue
+      }
+    }
+  }
+  
+  if (cells.length === 0) return parsed
+  
+  return {
+    ...parsed,
+    formulas: {
+      origin: { row: range.s.r + dataStart, col: range.s.c },
+      columns: parsed.headers,
+      cells,
+      constants,
+    },
+  }
+}
+
+/**
+ * Aplica células mescladas às linhas de dados, preenchendo os valores ou
+ * registrando os spans. Mesclagens no bloco de cabeçalho são ignoradas.
+ */
+export function applyMerges(
+  parsed: Omit<ParseResult, 'sheets'>,
+  merges: XLSX.Range[],
+  mode: 'fill' | 'span'
+): Omit<ParseResult, 'sheets'> {
+  const dataStart = (parsed.headerRow ?? 0) + (parsed.headerRowCount ?? 1)
+  const data = mode === 'fill' ? parsed.data.map(row => ({ ...row })) : parsed.data
+  const spans: CellSpan[] = []
+  
+  for (const merge of merges) {
+    // Apenas a parte da mesclagem que cai na área de dados
+    const firstRow = Math.max(merge.s.r, dataStart) - dataStart
+    const lastRow = Math.min(merge.e.r - dataStart, data.length - 1)
+    const lastCol = Math.min(merge.e.c, parsed.headers.length - 1)
+    if (firstRow > lastRow || merge.s.c > lastCol) continue
+    
+    const anchorKey = parsed.headers[merge.s.c]
+    
+    if (mode === 'span') {
+      spans.push({
+        rowIndex: firstRow,
+        columnKey: anchorKey,
+        rowSpan: lastRow - firstRow + 1,
+        colSpan: lastCol - merge.s.c + 1,
+      })
+      continue
+    }
+    
+    const value = (parsed.rawData[merge.s.r]?.[merge.s.c] ?? null) as CellValue
+    for (let r = firstRow; r <= lastRow; r++) {
+      for (let c = merge.s.c; c <= lastCol; c++) {
+        data[r][parsed.headers[c]] = value
+      }
+    }
+  }
+  
+  return mode === 'span' ? { ...parsed, merges: spans } : { ...parsed, data }
+}
+
+/**
+ * Parseia todas as planilhas de uma pasta de trabalho
+ */
+export function parseWorkbook(
+  workbook: XLSX.WorkBook,
+  options?: ParseOptions,
+  onSheet?: (sheet: SheetParseResult, total: number) => void
+): ParseResult {
+  const sheets = workbook.SheetNames.map((_, index) => {
+    const sheet = parseWorksheet(workbook, index, options)
+    onSheet?.(sheet, workbook.SheetNames.length)
+    return sheet
+  })
+  
+  return combineSheets(sheets)
+}
+
+/**
+ * Monta o resultado da pasta de trabalho a partir das planilhas parseadas.
+ * Os campos de nível superior refletem a primeira planilha visível.
+ */
+export function combineSheets(sheets: SheetParseResult[]): ParseResult {
+  const primary = sheets.find(s => s.sheet.visibility === 'visible') || sheets[0]
+  
+  if (!primary) {
+    return { headers: [], data: [], rawData: [], errors: ['Planilha vazia'], sheets }
+  }
+  
+  // Campos da planilha principal, sem a descrição da aba
+  return {
+    headers: primary.headers,
+    sourceHeaders: primary.sourceHeaders,
+    data: primary.data,
+    rawData: primary.rawData,
+    errors: primary.errors,
+    headerRow: primary.headerRow,
+    headerRowCount: primary.headerRowCount,
+    merges: primary.merges,
+    columnFormats: primary.columnFormats,
+    formulas: primary.formulas,
+    sheets,
+  }
+}
+
+// ============================================
+// REGISTRO DE FORMATOS
+// ============================================
+
+/**
+ * Progresso e cancelamento da leitura (worker ou thread principal)
+ */
+export interface ParseContext {
+  onProgress?: (stage: 'reading' | 'parsing' | 'processing', progress: number, message: string) => void
+  isCancelled?: () => boolean
+}
+
+/**
+ * Leitor de um formato de arquivo. Novos formatos entram com registerFormat.
+ */
+export interface FormatReader {
+  id: string
+  label: string
+  /** Extensões com ponto (ex.: ".xlsx") */
+  extensions: string[]
+  mimeTypes: string[]
+  /** Formatos de texto só são aceitos com uma extensão conhecida */
+  kind: 'binary' | 'text'
+  /** Reconhece o formato pelos bytes iniciais (magic bytes) e pela extensão */
+  matches: (head: Uint8Array, extension: string) => boolean
+  /** Consultado só quando nenhum outro leitor reconhece o arquivo */
+  fallback?: boolean
+  parse: (file: File, options: ParseOptions, context: ParseContext) => Promise<ParseResult>
+}
+
+/** Bytes iniciais lidos para identificar o formato */
+export const FORMAT_HEAD_BYTES = 4096
+
+const formatRegistry: FormatReader[] = []
+
+/**
+ * Registra (ou substitui) um leitor. A ordem de registro define a prioridade,
+ * mas leitores de fallback são sempre consultados por último.
+ */
+export function registerFormat(reader: FormatReader): void {
+  const index = formatRegistry.findIndex(r => r.id === reader.id)
+  if (index >= 0) {
+    formatRegistry[index] = reader
+  } else {
+    formatRegistry.push(reader)
+  }
+}
+
+/**
+ * Lista os formatos registrados
+ */
+export function getFormats(): FormatReader[] {
+  return [...formatRegistry]
+}
+
+/**
+ * Obtém um leitor pelo id
+ */
+export function getFormat(id: string): FormatReader | undefined {
+  return formatRegistry.find(r => r.id === id)
+}
+
+/**
+ * Extensões aceitas por algum leitor (ex.: [".xlsx", ".csv", ...])
+ */
+export function getSupportedExtensions(): string[] {
+  return [...new Set(formatRegistry.flatMap(r => r.extensions))]
+}
+
+/**
+ * Valor para o atributo accept de inputs de arquivo
+ */
+export function getAcceptAttribute(): string {
+  return [...new Set(formatRegistry.flatMap(r => [...r.extensions, ...r.mimeTypes]))].join(',')
+}
+
+/**
+ * Lê os bytes iniciais de um arquivo
+ */
+export async function readFileHead(file: Blob, bytes = FORMAT_HEAD_BYTES): Promise<Uint8Array> {
+  return new Uint8Array(await file.slice(0, bytes).arrayBuffer())
+}
+
+function getExtension(fileName: string): string {
+  const index = fileName.lastIndexOf('.')
+  return index >= 0 ? fileName.slice(index).toLowerCase() : ''
+}
+
+/**
+ * Identifica o formato pelos bytes iniciais; a extensão só desempata formatos
+ * com a mesma assinatura (XLSX, XLSB e ODS são ZIP) e escolhe entre os de texto
+ */
+export function detectFileFormat(fileName: string, head: Uint8Array): FormatReader | undefined {
+  const extension = getExtension(fileName)
+  const knownExtension = formatRegistry.some(r => r.extensions.includes(extension))
+  
+  const accepts = (reader: FormatReader) =>
+    reader.matches(head, extension) && (reader.kind === 'binary' || knownExtension)
+  
+  return formatRegistry.find(reader => !reader.fallback && accepts(reader)) ||
+    formatRegistry.find(reader => reader.fallback && accepts(reader))
+}
+
+// Assinaturas
+const ZIP_SIGNATURE = [0x50, 0x4b, 0x03, 0x04]
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]
+
+function startsWithBytes(head: Uint8Array, signature: number[]): boolean {
+  return signature.every((byte, i) => head[i] === byte)
+}
+
+function containsAscii(head: Uint8Array, text: string): boolean {
+  return new TextDecoder('latin1').decode(head).includes(text)
+}
+
+/**
+ * Texto: sem bytes nulos, exceto em UTF-16
+ */
+function isTextContent(head: Uint8Array): boolean {
+  const encoding = detectEncoding(head)
+  return encoding.startsWith('utf-16') || !head.includes(0)
+}
+
+/**
+ * HTML ou XML (ex.: tabela HTML ou SpreadsheetML salva como .xls)
+ */
+function isMarkupContent(head: Uint8Array): boolean {
+  return isTextContent(head) &&
+    new TextDecoder(detectEncoding(head)).decode(head).trimStart().startsWith('<')
+}
+
+/**
+ * Cria um leitor de pasta de trabalho (todos lidos pelo SheetJS)
+ */
+function createWorkbookReader(
+  reader: Omit<FormatReader, 'kind' | 'parse'>
+): FormatReader {
+  return {
+    ...reader,
+    kind: 'binary',
+    parse: async (file, options, context) => {
+      context.onProgress?.('reading', 15, 'Lendo planilha...')
+      const arrayBuffer = await file.arrayBuffer()
+      if (context.isCancelled?.()) throw createAbortError()
+      
+      // Datas chegam como seriais e são convertidas em parseWorksheet, que
+      // respeita o sistema 1904 e não depende do fuso (ao contrário de cellDates)
+      const workbook = XLSX.read(arrayBuffer, {
+        type: 'array',
+        cellNF: true,
+      })
+      
+      context.onProgress?.('parsing', 40, 'Convertendo dados...')
+      
+      const totalSheets = workbook.SheetNames.length
+      const sheets = workbook.SheetNames.map((name, sheetIndex) => {
+        const baseProgress = 40 + Math.floor((sheetIndex / totalSheets) * 50)
+        const sheetSpan = 50 / totalSheets
+        
+        context.onProgress?.('processing', baseProgress, `Processando planilha "${name}"...`)
+        
+        return parseWorksheet(workbook, sheetIndex, options, (index, totalRows) => {
+          // Progresso em planilhas grandes
+          if (totalRows > 1000 && index % 1000 === 0) {
+            const progress = baseProgress + Math.floor((index / totalRows) * sheetSpan)
+            context.onProgress?.('processing', progress, `${name}: linha ${index + 1} de ${totalRows}...`)
+          }
+        })
+      })
+      
+      return combineSheets(sheets)
+    },
+  }
+}
+
+/**
+ * Lê texto delimitado, em streaming quando o navegador suporta File.stream()
+ */
+async function parseDelimited(file: File, options: ParseOptions, context: ParseContext): Promise<ParseResult> {
+  if (typeof file.stream !== 'function') {
+    return parseDelimitedWithPapa(file, options)
+  }
+  
+  const totalLabel = formatFileSize(file.size)
+  let lastProgress = -1
+  
+  const { rows, errors } = await parseCSVStream(file.stream(), {
+    ...options.csv,
+    totalBytes: file.size,
+    isCancelled: context.isCancelled,
+    onProgress: (bytesRead, totalBytes, rowsParsed) => {
+      const progress = 10 + Math.floor((bytesRead / Math.max(totalBytes, 1)) * 80)
+      // Evita inundar a thread principal com mensagens repetidas
+      if (progress === lastProgress) return
+      lastProgress = progress
+      context.onProgress?.(
+        'parsing',
+        progress,
+        `Lendo ${formatFileSize(bytesRead)} de ${totalLabel} (${rowsParsed.toLocaleString('pt-BR')} linhas)...`
+      )
+    },
+  })
+  
+  context.onProgress?.('processing', 92, 'Finalizando...')
+  
+  const parsed = rowsToParseResult(rows, options)
+  return { ...parsed, errors: [...parsed.errors, ...errors] }
 }
 
 /**
- * Parseia arquivo CSV
+ * Fallback sem streaming para navegadores antigos
  */
-async function parseCSV(file: File): Promise<ParseResult> {
+function parseDelimitedWithPapa(file: File, options: ParseOptions): Promise<ParseResult> {
   return new Promise((resolve) => {
-    Papa.parse(file, {
-      header: true,
+    Papa.parse<unknown[]>(file, {
+      encoding: options.csv?.encoding,
+      delimiter: options.csv?.delimiter,
+      header: false,
       skipEmptyLines: true,
       dynamicTyping: true,
       complete: (result) => {
-        const headers = result.meta.fields || []
-        const data = result.data as Record<string, CellValue>[]
-        const errors = result.errors.map(e => e.message)
+        const parsed = rowsToParseResult(result.data, options)
         
         resolve({ 
-          headers, 
-          data, 
-          rawData: result.data as unknown[][], 
-          errors 
+          ...parsed,
+          errors: [...parsed.errors, ...result.errors.map(e => e.message)],
         })
       },
       error: (error) => {
@@ -114,27 +775,165 @@ async function parseCSV(file: File): Promise<ParseResult> {
 }
 
 /**
- * Parse genérico de arquivo
+ * Lê um arquivo de texto inteiro, detectando a codificação
  */
-export async function parseFile(file: File): Promise<ParseResult> {
-  const fileType = detectFileType(file)
+async function readTextFile(file: File, options: ParseOptions, context: ParseContext): Promise<string> {
+  context.onProgress?.('reading', 15, 'Lendo arquivo de texto...')
+  const bytes = new Uint8Array(await file.arrayBuffer())
+  if (context.isCancelled?.()) throw createAbortError()
   
-  switch (fileType) {
-    case 'xlsx':
-    case 'xls':
-      return parseExcel(file)
-    case 'csv':
-      return parseCSV(file)
-    default:
-      return { 
-        headers: [], 
-        data: [], 
-        rawData: [], 
-        errors: [`Tipo de arquivo não suportado: ${file.name}`] 
-      }
+  const encoding = options.csv?.encoding || detectEncoding(bytes)
+  return new TextDecoder(encoding).decode(bytes)
+}
+
+/**
+ * Converte registros JSON achatados em ParseResult (cabeçalhos já conhecidos)
+ */
+function jsonToParseResult({ headers: paths, data, errors }: JsonImportResult): ParseResult {
+  const { keys, warnings } = createColumnKeys(paths)
+  return {
+    headers: keys,
+    sourceHeaders: paths,
+    data: data.map(row => Object.fromEntries(keys.map((key, i) => [key, row[paths[i]] ?? null]))),
+    rawData: [paths, ...data.map(row => paths.map(path => row[path] ?? null))],
+    errors: [...errors, ...warnings],
   }
 }
 
+/**
+ * Lê texto de largura fixa; as colunas vêm de options.fixedWidth ou são detectadas
+ */
+async function parseFixedWidthFile(file: File, options: ParseOptions, context: ParseContext): Promise<ParseResult> {
+  const text = await readTextFile(file, options, context)
+  
+  context.onProgress?.('parsing', 50, 'Separando colunas...')
+  const { rows } = parseFixedWidth(text, {
+    ...options.fixedWidth,
+    decimalSeparator: options.fixedWidth?.decimalSeparator || options.csv?.decimalSeparator,
+  })
+  
+  context.onProgress?.('processing', 90, 'Finalizando...')
+  return rowsToParseResult(rows, options)
+}
+
+// Formatos nativos, em ordem de prioridade
+registerFormat(createWorkbookReader({
+  id: 'ods',
+  label: 'OpenDocument',
+  extensions: ['.ods'],
+  mimeTypes: ['application/vnd.oasis.opendocument.spreadsheet'],
+  matches: (head) => startsWithBytes(head, ZIP_SIGNATURE) && containsAscii(head, 'opendocument.spreadsheet'),
+}))
+
+registerFormat(createWorkbookReader({
+  id: 'xlsb',
+  label: 'Excel Binário',
+  extensions: ['.xlsb'],
+  mimeTypes: ['application/vnd.ms-excel.sheet.binary.macroEnabled.12'],
+  matches: (head, extension) => startsWithBytes(head, ZIP_SIGNATURE) && extension === '.xlsb',
+}))
+
+registerFormat(createWorkbookReader({
+  id: 'xlsx',
+  label: 'Excel',
+  extensions: ['.xlsx'],
+  mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  matches: (head) => startsWithBytes(head, ZIP_SIGNATURE),
+}))
+
+registerFormat(createWorkbookReader({
+  id: 'xls',
+  label: 'Excel 97-2003',
+  extensions: ['.xls'],
+  mimeTypes: ['application/vnd.ms-excel'],
+  // Também aceita HTML/XML salvos como .xls, comuns em exportações de sistemas
+  matches: (head, extension) => startsWithBytes(head, CFB_SIGNATURE) ||
+    (extension === '.xls' && isMarkupContent(head)),
+}))
+
+registerFormat({
+  id: 'tsv',
+  label: 'TSV',
+  extensions: ['.tsv'],
+  mimeTypes: ['text/tab-separated-values'],
+  kind: 'text',
+  matches: (head, extension) => extension === '.tsv' && isTextContent(head),
+  parse: (file, options, context) => parseDelimited(file, {
+    ...options,
+    csv: { ...options.csv, delimiter: options.csv?.delimiter || '\t' },
+  }, context),
+})
+
+registerFormat({
+  id: 'txt',
+  label: 'Texto de largura fixa',
+  extensions: ['.txt'],
+  mimeTypes: ['text/plain'],
+  kind: 'text',
+  matches: (head, extension) => extension === '.txt' && isTextContent(head),
+  parse: parseFixedWidthFile,
+})
+
+registerFormat({
+  id: 'json',
+  label: 'JSON',
+  extensions: ['.json'],
+  mimeTypes: ['application/json'],
+  kind: 'text',
+  matches: (head, extension) => extension === '.json' && isTextContent(head),
+  parse: async (file, options, context) => {
+    const text = await readTextFile(file, options, context)
+    context.onProgress?.('parsing', 50, 'Achatando registros...')
+    return jsonToParseResult(parseJSONText(text, options.json))
+  },
+})
+
+registerFormat({
+  id: 'ndjson',
+  label: 'NDJSON',
+  extensions: ['.ndjson', '.jsonl'],
+  mimeTypes: ['application/x-ndjson'],
+  kind: 'text',
+  matches: (head, extension) => (extension === '.ndjson' || extension === '.jsonl') && isTextContent(head),
+  parse: async (file, options, context) => {
+    const text = await readTextFile(file, options, context)
+    context.onProgress?.('parsing', 50, 'Achatando registros...')
+    return jsonToParseResult(parseNDJSONText(text, options.json))
+  },
+})
+
+// Qualquer texto com extensão conhecida (ex.: CSV salvo como .xls)
+registerFormat({
+  id: 'csv',
+  label: 'CSV',
+  extensions: ['.csv'],
+  mimeTypes: ['text/csv'],
+  kind: 'text',
+  fallback: true,
+  matches: (head) => isTextContent(head),
+  parse: parseDelimited,
+})
+
+/**
+ * Parse genérico de arquivo, identificando o formato pelo conteúdo
+ */
+export async function parseFile(file: File, options: ParseOptions = {}, signal?: AbortSignal): Promise<ParseResult> {
+  const reader = detectFileFormat(file.name, await readFileHead(file))
+  
+  if (!reader) {
+    return { 
+      headers: [], 
+      data: [], 
+      rawData: [], 
+      errors: [`Tipo de arquivo não suportado: ${file.name}`] 
+    }
+  }
+  
+  return reader.parse(file, options, {
+    isCancelled: () => signal?.aborted ?? false,
+  })
+}
+
 // ============================================
 // INFERÊNCIA DE TIPOS
 // ============================================
@@ -143,129 +942,328 @@ const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
 const URL_REGEX = /^https?:\/\/[^\s]+$/
 const PHONE_REGEX = /^[\d\s()+-]{8,}$/
 const DATE_REGEX = /^\d{1,4}[-/]\d{1,2}[-/]\d{1,4}$/
-const CURRENCY_REGEX = /^[R$€£¥]\s?[\d.,]+$|^[\d.,]+\s?[R$€£¥]$/
-const PERCENTAGE_REGEX = /^[\d.,]+\s?%$/
+
+/** Locale usado quando nem a coluna nem a empresa definem um */
+const DEFAULT_LOCALE = 'pt-BR'
+
+/** Formato de data usado quando a empresa não define um */
+const DEFAULT_DATE_FORMAT = 'dd/MM/yyyy'
+
+const NUMERIC_TYPES: ColumnType[] = ['number', 'integer', 'currency', 'percentage', 'progress']
+
+const DATE_TYPES: ColumnType[] = ['date', 'datetime', 'time']
 
 /**
- * Infere o tipo de uma coluna baseado nos valores
+ * Converte o valor em data: Date, serial do Excel ou texto no formato
+ * configurado
  */
-function inferColumnType(values: CellValue[]): ColumnType {
-  // Remove valores nulos/undefined
-  const nonNullValues = values.filter(v => v != null && v !== '')
+function toDateValue(value: CellValue, dateFormat: string): Date | null {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value
+  if (typeof value === 'number') return isFinite(value) ? excelSerialToDate(value) : null
+  if (typeof value !== 'string') return null
+  return parseDateString(value, dateFormat)?.date ?? null
+}
+
+/**
+ * Converte o valor em horário (ancorado em 30/12/1899): de datas fica só a
+ * hora; seriais usam a parte fracionária
+ */
+function toTimeValue(value: CellValue, dateFormat: string): Date | null {
+  const date = typeof value === 'number'
+    ? (isFinite(value) ? excelSerialToDate(value - Math.floor(value)) : null)
+    : toDateValue(value, dateFormat)
+  if (!date) return null
+  return new Date(1899, 11, 30, date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds())
+}
+
+/**
+ * Converte o valor em duração (segundos): números já estão em segundos,
+ * textos como "36:15:00" ou "1h30" são interpretados e horários viram o
+ * tempo desde a meia-noite
+ */
+function toDurationValue(value: CellValue): number | null {
+  if (typeof value === 'number') return isFinite(value) ? value : null
+  if (typeof value === 'string') return parseDuration(value)
+  if (value instanceof Date && getDateKind(value) === 'time') {
+    return value.getHours() * 3600 + value.getMinutes() * 60 + value.getSeconds()
+  }
+  return null
+}
+
+/**
+ * Tipo de data predominante na coluna: só hora quando todos os valores são
+ * horários, com hora quando algum valor tem horário
+ */
+function getColumnDateKind(values: CellValue[], dateFormat: string): DateKind {
+  let timeOnly = true
+  let hasTime = false
   
-  if (nonNullValues.length === 0) return 'string'
-  
-  // Contadores para cada tipo
-  const typeCounts: Record<ColumnType, number> = {
-    string: 0,
-    number: 0,
-    currency: 0,
-    percentage: 0,
-    date: 0,
-    datetime: 0,
-    boolean: 0,
-    email: 0,
-    url: 0,
-    phone: 0,
-    image: 0,
-    badge: 0,
-    progress: 0,
-  }
-  
-  for (const value of nonNullValues) {
-    const strValue = String(value).trim()
-    
-    // Boolean
-    if (typeof value === 'boolean' || 
-        ['true', 'false', 'sim', 'não', 'yes', 'no', '0', '1'].includes(strValue.toLowerCase())) {
-      typeCounts.boolean++
-      continue
-    }
-    
-    // Date object
-    if (value instanceof Date) {
-      typeCounts.date++
-      continue
-    }
-    
-    // Email
-    if (EMAIL_REGEX.test(strValue)) {
-      typeCounts.email++
-      continue
-    }
-    
-    // URL / Image
-    if (URL_REGEX.test(strValue)) {
-      if (/\.(jpg|jpeg|png|gif|webp|svg)$/i.test(strValue)) {
-        typeCounts.image++
-      } else {
-        typeCounts.url++
-      }
-      continue
-    }
-    
-    // Phone
-    if (PHONE_REGEX.test(strValue) && !(/[a-zA-Z]/.test(strValue))) {
-      typeCounts.phone++
-      continue
-    }
-    
-    // Currency
-    if (CURRENCY_REGEX.test(strValue)) {
-      typeCounts.currency++
-      continue
-    }
-    
-    // Percentage
-    if (PERCENTAGE_REGEX.test(strValue)) {
-      typeCounts.percentage++
-      continue
-    }
-    
-    // Date string
-    if (DATE_REGEX.test(strValue)) {
-      typeCounts.date++
-      continue
-    }
+  for (const value of values) {
+    const kind = value instanceof Date
+      ? getDateKind(value)
+      : typeof value === 'string' ? parseDateString(value, dateFormat)?.kind : undefined
+    if (!kind) continue
+    if (kind !== 'time') timeOnly = false
+    if (kind !== 'date') hasTime = true
+  }
+  
+  if (timeOnly && hasTime) return 'time'
+  return hasTime ? 'datetime' : 'date'
+}
+
+/** Fração mínima dos valores reconhecidos em um tipo para adotá-lo */
+const INFERENCE_THRESHOLD = 0.7
+
+/** Máximo de valores analisados por coluna; acima disso usa uma amostra */
+export const INFERENCE_SAMPLE_SIZE = 5000
+
+/** Máximo de contraexemplos guardados por coluna */
+const MAX_COUNTER_EXAMPLES = 5
+
+/** Ordem de precedência quando mais de um tipo atinge o limite */
+const TYPE_PRIORITY: ColumnType[] = [
+  'cnpj', 'cpf', 'cep', 'plate',
+  'email', 'url', 'image', 'phone', 'currency', 'percentage', 'duration',
+  'time', 'date', 'boolean', 'integer', 'progress', 'number', 'string'
+]
+
+/** Reconhecimento de um valor isolado */
+interface ValueClass {
+  type: ColumnType
+  /** Número entre 0 e 100 (também conta como progresso) */
+  progress?: boolean
+  /** Horário "hh:mm[:ss]" que também pode ser lido como duração */
+  clock?: boolean
+}
+
+/**
+ * Resultado da inferência de tipo de uma coluna
+ */
+export interface TypeInference {
+  type: ColumnType
+  /** Fração dos valores analisados compatíveis com o tipo escolhido (0–1) */
+  confidence: number
+  /** Quantos valores analisados foram reconhecidos em cada tipo */
+  counts: Partial<Record<ColumnType, number>>
+  /** Valores não vazios analisados (menor que `total` quando há amostragem) */
+  sampled: number
+  /** Valores não vazios na coluna */
+  total: number
+  /** Valores distintos entre os analisados */
+  distinct: number
+  /** Exemplos de valores que não se encaixam no tipo escolhido */
+  counterExamples: string[]
+  /**
+   * Como o tipo foi decidido: `threshold` (≥ 70% dos valores), `badge`
+   * (nenhum tipo atingiu o limite, mas há até 10 valores distintos),
+   * `fallback` (texto) ou `empty` (coluna vazia)
+   */
+  rule: 'threshold' | 'badge' | 'fallback' | 'empty'
+}
+
+/**
+ * Amostra uniforme e determinística: valores igualmente espaçados ao longo
+ * da coluna, para que o início do arquivo não domine a inferência
+ */
+function sampleValues<T>(values: T[], size: number): T[] {
+  if (values.length <= size) return values
+  const step = values.length / size
+  return Array.from({ length: size }, (_, i) => values[Math.floor(i * step)])
+}
+
+/**
+ * Tipo reconhecido em um único valor. Datas, datas com hora e horários
+ * isolados são separados; números inteiros e fracionários também.
+ */
+function classifyValue(
+  value: CellValue,
+  decimalSeparator: DecimalSeparator,
+  dateFormat: string
+): ValueClass {
+  const strValue = String(value).trim()
+  
+  // Boolean
+  if (typeof value === 'boolean' || 
+      ['true', 'false', 'sim', 'não', 'yes', 'no', '0', '1'].includes(strValue.toLowerCase())) {
+    return { type: 'boolean' }
+  }
+  
+  // Documentos (CPF, CNPJ, CEP, placa) antes de telefone e número, que
+  // perderiam os zeros à esquerda
+  const document = detectDocumentType(value)
+  if (document) return { type: document }
+  
+  // Datas (Date ou texto no formato configurado); com ou sem hora é
+  // decidido ao final, pela coluna inteira
+  if (value instanceof Date) {
+    return { type: getDateKind(value) === 'time' ? 'time' : 'date' }
+  }
+  if (typeof value === 'string') {
+    const parsed = parseDateString(strValue, dateFormat)
+    if (parsed?.kind === 'time') return { type: 'time', clock: parseDuration(strValue) != null }
+    if (parsed) return { type: 'date' }
     
-    // Number
-    const numValue = parseFloat(strValue.replace(/[,\s]/g, ''))
-    if (!isNaN(numValue) && typeof value === 'number') {
-      // Progress (0-100)
-      if (numValue >= 0 && numValue <= 100) {
-        typeCounts.progress++
-      }
-      typeCounts.number++
-      continue
+    // Tempo decorrido: "36:15:00", "1h30", "45min"
+    if (parseDuration(strValue) != null) return { type: 'duration' }
+  }
+  
+  // Email
+  if (EMAIL_REGEX.test(strValue)) return { type: 'email' }
+  
+  // URL / Image
+  if (URL_REGEX.test(strValue)) {
+    return { type: /\.(jpg|jpeg|png|gif|webp|svg)$/i.test(strValue) ? 'image' : 'url' }
+  }
+  
+  // Phone (só em texto; números longos, como IDs, continuam números)
+  if (typeof value === 'string' && PHONE_REGEX.test(strValue) && !(/[a-zA-Z]/.test(strValue))) {
+    return { type: 'phone' }
+  }
+  
+  // Números em texto: "R$ 1.234,56", "(10,00)", "12,5%"...
+  const formatted = typeof value === 'string' ? parseFormattedNumber(strValue, decimalSeparator) : null
+  
+  if (formatted?.isCurrency) return { type: 'currency' }
+  if (formatted?.isPercent) return { type: 'percentage' }
+  
+  // Inteiro / Número / Progress (0-100)
+  const numValue = typeof value === 'number' ? value : formatted?.value
+  if (numValue != null && !isNaN(numValue)) {
+    return {
+      type: Number.isInteger(numValue) ? 'integer' : 'number',
+      progress: numValue >= 0 && numValue <= 100,
     }
-    
-    // Default: string
-    typeCounts.string++
   }
   
-  // Retorna o tipo mais frequente (com precedência para tipos específicos)
+  // Default: string
+  return { type: 'string' }
+}
+
+/**
+ * Quantos valores analisados contam a favor de cada tipo de coluna:
+ * horários "hh:mm" entram nas durações quando a coluna também tem
+ * durações inequívocas; datas com horários isolados formam data e hora;
+ * inteiros só vencem sem números fracionários.
+ */
+function scoreColumnType(type: ColumnType, counts: Partial<Record<ColumnType, number>>, clocks: number): number {
+  const count = (t: ColumnType) => counts[t] ?? 0
+  
+  switch (type) {
+    case 'duration':
+      return count('duration') ? count('duration') + clocks : 0
+    case 'date':
+      return count('date') + count('time')
+    case 'integer':
+      return count('number') ? 0 : count('integer')
+    case 'number':
+      return count('integer') + count('number')
+    default:
+      return count(type)
+  }
+}
+
+/**
+ * Infere o tipo de uma coluna e explica a escolha: contagem por tipo,
+ * confiança e contraexemplos. Textos numéricos são lidos com o separador
+ * decimal do locale e datas em texto com o formato de data configurado.
+ * Colunas com mais de INFERENCE_SAMPLE_SIZE valores são analisadas por
+ * amostragem. O cabeçalho ajuda a reconhecer CEPs sem máscara.
+ */
+export function analyzeColumnType(
+  values: CellValue[],
+  decimalSeparator: DecimalSeparator = ',',
+  dateFormat = DEFAULT_DATE_FORMAT,
+  header?: string
+): TypeInference {
+  // Remove valores nulos/undefined
+  const nonNullValues = values.filter(v => v != null && v !== '')
+  const sample = sampleValues(nonNullValues, INFERENCE_SAMPLE_SIZE)
   const total = nonNullValues.length
-  const threshold = 0.7 // 70% dos valores devem ser do mesmo tipo
   
-  // Ordem de prioridade
-  const priorityOrder: ColumnType[] = [
-    'email', 'url', 'image', 'phone', 'currency', 'percentage', 
-    'date', 'datetime', 'boolean', 'progress', 'number', 'badge', 'string'
-  ]
+  if (sample.length === 0) {
+    return { type: 'string', confidence: 0, counts: {}, sampled: 0, total: 0, distinct: 0, counterExamples: [], rule: 'empty' }
+  }
+  
+  let classes = sample.map(value => classifyValue(value, decimalSeparator, dateFormat))
   
-  for (const type of priorityOrder) {
-    if (typeCounts[type] / total >= threshold) {
-      return type
+  // CEP sem máscara é só uma sequência de dígitos (datas yyyymmdd, códigos,
+  // matrículas): só vale quando o cabeçalho é de CEP
+  if (isCepHeader(header)) {
+    const ceps = sample.map((value, i) => classes[i].type === 'cep' || isUnmaskedCep(value))
+    if (ceps.filter(Boolean).length / sample.length >= INFERENCE_THRESHOLD) {
+      classes = classes.map((valueClass, i) => (ceps[i] ? { type: 'cep' } : valueClass))
     }
   }
   
-  // Se nenhum tipo atingir o threshold, verifica se é badge (poucos valores únicos)
-  const uniqueValues = new Set(nonNullValues.map(v => String(v).toLowerCase()))
-  if (uniqueValues.size <= 10 && uniqueValues.size > 0) {
-    return 'badge'
+  const counts: Partial<Record<ColumnType, number>> = {}
+  let clocks = 0
+  for (const { type, progress, clock } of classes) {
+    counts[type] = (counts[type] ?? 0) + 1
+    if (progress) counts.progress = (counts.progress ?? 0) + 1
+    if (clock) clocks++
+  }
+  
+  const distinct = new Set(sample.map(v => String(v).toLowerCase())).size
+  
+  // Tipo mais específico que atinge o limite; se nenhum atingir, poucos
+  // valores distintos viram badge
+  let type: ColumnType = 'string'
+  let rule: TypeInference['rule'] = 'fallback'
+  const reached = TYPE_PRIORITY.find(t => scoreColumnType(t, counts, clocks) / sample.length >= INFERENCE_THRESHOLD)
+  if (reached) {
+    type = reached
+    rule = 'threshold'
+    if (type === 'date' && getColumnDateKind(sample, dateFormat) !== 'date') type = 'datetime'
+  } else if (distinct <= 10) {
+    type = 'badge'
+    rule = 'badge'
+  }
+  
+  // Texto aceita qualquer valor; nos demais tipos o que não foi reconhecido
+  // é contraexemplo
+  const matches = ({ type: valueType, progress, clock }: ValueClass) => {
+    switch (type) {
+      case 'string':
+      case 'badge':
+        return valueType === 'string'
+      case 'progress':
+        return !!progress
+      case 'duration':
+        return valueType === 'duration' || !!clock
+      case 'date':
+      case 'datetime':
+        return valueType === 'date' || valueType === 'time'
+      case 'number':
+        return valueType === 'number' || valueType === 'integer'
+      default:
+        return valueType === type
+    }
   }
   
-  return 'string'
+  let matched = 0
+  const counterExamples: string[] = []
+  classes.forEach((valueClass, i) => {
+    if (matches(valueClass)) {
+      matched++
+      return
+    }
+    if (type === 'string' || type === 'badge') return
+    const text = String(sample[i])
+    if (counterExamples.length < MAX_COUNTER_EXAMPLES && !counterExamples.includes(text)) {
+      counterExamples.push(text)
+    }
+  })
+  
+  return {
+    type,
+    confidence: matched / sample.length,
+    counts,
+    sampled: sample.length,
+    total,
+    distinct,
+    counterExamples,
+    rule,
+  }
 }
 
 /**
@@ -295,6 +1293,126 @@ function generateBadgeColors(values: CellValue[]): Record<string, { bg: string;
   return colors
 }
 
+/**
+ * Obtém o código da moeda indicado nos próprios valores (ex.: "US$ 10", "10 EUR")
+ */
+function detectCurrencyCode(values: CellValue[], decimalSeparator: DecimalSeparator): string | undefined {
+  for (const value of values) {
+    if (typeof value !== 'string') continue
+    const currency = parseFormattedNumber(value, decimalSeparator)?.currency
+    if (currency) return currency
+  }
+  return undefined
+}
+
+/**
+ * Tipos incluídos na busca global
+ */
+function isSearchableType(type: ColumnType): boolean {
+  return type === 'string' || type === 'email' || isDocumentType(type)
+}
+
+/**
+ * Configurações específicas por tipo (moeda, casas decimais, formato de
+ * data, cores de badge, alinhamento)
+ */
+function applyTypeDefaults(
+  column: ColumnDefinition,
+  values: CellValue[],
+  options: { locale: string; dateFormat: string; currencyCode?: string; timeZone?: string }
+): ColumnDefinition {
+  const { decimal } = getLocaleSeparators(options.locale)
+  
+  switch (column.format.type) {
+    case 'currency':
+      column.format.currency = detectCurrencyCode(values, decimal) || options.currencyCode || 'BRL'
+      column.format.locale = options.locale
+      column.align = 'right'
+      break
+    case 'number':
+    case 'percentage':
+    case 'progress':
+      column.align = 'right'
+      column.format.decimals = 2
+      break
+    case 'integer':
+      column.align = 'right'
+      column.format.decimals = 0
+      break
+    case 'date':
+      column.format.dateFormat = options.dateFormat
+      column.align = 'center'
+      break
+    case 'datetime':
+      column.format.dateFormat = `${options.dateFormat} HH:mm`
+      if (options.timeZone) column.format.timeZone = options.timeZone
+      column.align = 'center'
+      break
+    case 'time': {
+      const withSeconds = values.some(v => toTimeValue(v, options.dateFormat)?.getSeconds())
+      column.format.dateFormat = withSeconds ? 'HH:mm:ss' : 'HH:mm'
+      column.align = 'center'
+      break
+    }
+    case 'duration': {
+      const withSeconds = values.some(v => (toDurationValue(v) ?? 0) % 60 !== 0)
+      column.format.dateFormat = withSeconds ? 'h:mm:ss' : 'h:mm'
+      column.align = 'right'
+      break
+    }
+    case 'badge':
+      column.format.badgeColors = generateBadgeColors(values)
+      column.align = 'center'
+      break
+    case 'boolean':
+      column.align = 'center'
+      break
+  }
+  
+  return column
+}
+
+/**
+ * Troca o tipo de uma coluna, refazendo o formato padrão do novo tipo a
+ * partir dos valores brutos. Chave, rótulo e preferências de exibição
+ * (largura, visibilidade, fixação) são mantidos.
+ */
+export function retypeColumn(
+  column: ColumnDefinition,
+  type: ColumnType,
+  values: CellValue[],
+  options?: Pick<ProcessDataOptions, 'locale' | 'currencyCode' | 'dateFormat' | 'timeZone'>
+): ColumnDefinition {
+  return applyTypeDefaults({
+    ...column,
+    format: { type },
+    align: undefined,
+    searchable: isSearchableType(type),
+  }, values, {
+    ...options,
+    locale: options?.locale || DEFAULT_LOCALE,
+    dateFormat: options?.dateFormat || DEFAULT_DATE_FORMAT,
+  })
+}
+
+/**
+ * Analisa o tipo de cada coluna do schema, lendo números em texto com o
+ * locale da coluna (ou o padrão)
+ */
+export function analyzeSchemaTypes(
+  parseResult: ParseResult,
+  schema: DataSchema,
+  options?: Pick<ProcessDataOptions, 'locale' | 'dateFormat'>
+): Record<string, TypeInference> {
+  const dateFormat = options?.dateFormat || DEFAULT_DATE_FORMAT
+  
+  return Object.fromEntries(schema.columns.map(column => {
+    const { decimal } = getLocaleSeparators(column.format.locale || options?.locale || DEFAULT_LOCALE)
+    const values = parseResult.data.map(row => row[column.key])
+    return [column.key, analyzeColumnType(values, decimal, dateFormat, column.header || column.key)]
+  }))
+}
+
 /**
  * Gera schema automaticamente baseado nos dados
  */
@@ -304,49 +1422,43 @@ export function generateSchemaFromData(
   options?: {
     schemaId?: string
     schemaName?: string
+    /** Locale padrão (ex.: CompanyConfig.defaultLocale) */
+    locale?: string
+    /** Moeda padrão (ex.: CompanyConfig.currencyCode) */
+    currencyCode?: string
+    /** Formatos lidos da planilha (ParseResult.columnFormats), que têm precedência */
+    columnFormats?: Record<string, ColumnFormat>
+    /** Formato de data (ex.: CompanyConfig.dateFormat), para ler e exibir datas */
+    dateFormat?: string
+    /** Fuso horário de exibição das colunas com data e hora */
+    timeZone?: string
+    /** Texto original dos cabeçalhos (ParseResult.sourceHeaders), usado nos rótulos */
+    sourceHeaders?: string[]
   }
 ): DataSchema {
-  const columns: ColumnDefinition[] = headers.map((header) => {
+  const locale = options?.locale || DEFAULT_LOCALE
+  const { decimal } = getLocaleSeparators(locale)
+  const dateFormat = options?.dateFormat || DEFAULT_DATE_FORMAT
+  
+  const columns: ColumnDefinition[] = headers.map((header, index) => {
+    const sourceHeader = options?.sourceHeaders?.[index]
     const values = data.map(row => row[header])
-    const inferredType = inferColumnType(values)
+    const sheetFormat = options?.columnFormats?.[header]
+    const inferredType = sheetFormat?.type ?? analyzeColumnType(values, decimal, dateFormat, sourceHeader || header).type
     
-    const column: ColumnDefinition = {
+    const column = applyTypeDefaults({
       key: header,
-      label: formatLabel(header),
+      label: formatLabel(sourceHeader?.trim() || header),
+      header: sourceHeader,
       format: { type: inferredType },
       sortable: true,
       filterable: true,
-      searchable: inferredType === 'string' || inferredType === 'email',
-    }
+      searchable: isSearchableType(inferredType),
+    }, values, { ...options, locale, dateFormat })
     
-    // Configurações específicas por tipo
-    switch (inferredType) {
-      case 'currency':
-        column.format.currency = 'BRL'
-        column.format.locale = 'pt-BR'
-        column.align = 'right'
-        break
-      case 'number':
-      case 'percentage':
-      case 'progress':
-        column.align = 'right'
-        column.format.decimals = 2
-        break
-      case 'date':
-        column.format.dateFormat = 'dd/MM/yyyy'
-        column.align = 'center'
-        break
-      case 'datetime':
-        column.format.dateFormat = 'dd/MM/yyyy HH:mm'
-        column.align = 'center'
-        break
-      case 'badge':
-        column.format.badgeColors = generateBadgeColors(values)
-        column.align = 'center'
-        break
-      case 'boolean':
-        column.align = 'center'
-        break
+    // Formato da planilha (casas decimais, moeda, máscara de data, prefixo/sufixo)
+    if (sheetFormat) {
+      column.format = { ...column.format, ...sheetFormat }
     }
     
     return column
@@ -372,50 +1484,193 @@ export function generateSchemaFromData(
 // PROCESSAMENTO DE DADOS
 // ============================================
 
+/**
+ * Opções de processamento (normalmente vindas de CompanyConfig)
+ */
+export interface ProcessDataOptions {
+  schemaId?: string
+  schemaName?: string
+  sourceFileName?: string
+  sheetName?: string
+  /** Locale padrão para colunas sem ColumnFormat.locale */
+  locale?: string
+  currencyCode?: string
+  /** Formato de data da empresa (CompanyConfig.dateFormat) */
+  dateFormat?: string
+  /** Fuso horário de exibição das colunas com data e hora */
+  timeZone?: string
+  /** Linhas já processadas que antecedem as do arquivo (acréscimo a dados carregados) */
+  precedingRows?: DataRow[]
+}
+
+/**
+ * Valor esperado pelo tipo, para os avisos de valores inválidos
+ */
+function describeExpectedValue(type: ColumnType): string | undefined {
+  if (type === 'integer') return 'um número inteiro'
+  if (type === 'time') return 'um horário válido'
+  if (type === 'duration') return 'uma duração válida'
+  if (type === 'plate') return 'uma placa válida'
+  if (isDocumentType(type)) return `um ${type.toUpperCase()} válido`
+  if (NUMERIC_TYPES.includes(type)) return 'um número válido'
+  if (DATE_TYPES.includes(type)) return 'uma data válida'
+  return undefined
+}
+
+/**
+ * Renomeia colunas do arquivo (chave no arquivo → nova chave), inclusive
+ * nos formatos, mesclagens e fórmulas
+ */
+export function renameSourceColumns(source: ParseResult, renames: Map<string, string>): ParseResult {
+  if (renames.size === 0) return source
+  const rename = (key: string) => renames.get(key) ?? key
+
+  return {
+    ...source,
+    headers: source.headers.map(rename),
+    data: source.data.map(row => {
+      const renamed: typeof row = {}
+      for (const [key, value] of Object.entries(row)) renamed[rename(key)] = value
+      return renamed
+    }),
+    columnFormats: source.columnFormats && Object.fromEntries(
+      Object.entries(source.columnFormats).map(([key, format]) => [rename(key), format])
+    ),
+    merges: source.merges?.map(merge => ({ ...merge, columnKey: rename(merge.columnKey) })),
+    formulas: source.formulas && {
+      ...source.formulas,
+      columns: source.formulas.columns.map(rename),
+      cells: source.formulas.cells.map(cell => ({ ...cell, columnKey: rename(cell.columnKey) })),
+    },
+  }
+}
+
 /**
  * Processa dados brutos em formato estruturado
  */
 export function processData(
   parseResult: ParseResult,
   schema?: DataSchema,
-  options?: {
-    schemaId?: string
-    schemaName?: string
-    sourceFileName?: string
-  }
+  options?: ProcessDataOptions
 ): ProcessedData {
+  // Com um schema salvo, colunas com cabeçalho diferente são reconhecidas
+  // pelo cabeçalho original, rótulo ou aliases e lidas com a chave do schema
+  if (schema) {
+    const sources = matchColumnSources(schema.columns.filter(c => !isComputedColumn(c)), parseResult.headers)
+    const renames = new Map(
+      Object.entries(sources)
+        .filter(([key, sourceKey]) => key !== sourceKey)
+        .map(([key, sourceKey]) => [sourceKey, key])
+    )
+    parseResult = renameSourceColumns(parseResult, renames)
+  }
+  
   const { headers, data } = parseResult
+  const warnings = [...parseResult.errors]
   
   // Gera ou usa schema existente
-  const finalSchema = schema || generateSchemaFromData(headers, data, options)
+  const finalSchema = schema || generateSchemaFromData(headers, data, {
+    ...options,
+    columnFormats: parseResult.columnFormats,
+    sourceHeaders: parseResult.sourceHeaders,
+  })
+  
+  const dateFormat = options?.dateFormat || DEFAULT_DATE_FORMAT
   
-  // Processa cada linha
-  const rows: DataRow[] = data.map((row, index) => {
+  // Separador decimal de cada coluna, pelo locale da coluna ou o padrão
+  const decimalSeparators = new Map(finalSchema.columns.map(column => [
+    column.key,
+    getLocaleSeparators(column.format.locale || options?.locale || DEFAULT_LOCALE).decimal,
+  ]))
+  
+  // Linhas acrescentadas continuam a numeração das já carregadas
+  const precedingRows = options?.precedingRows ?? []
+  const firstRowIndex = precedingRows.reduce((next, row) => Math.max(next, row._rowIndex + 1), 0)
+  
+  // Processa cada linha (colunas calculadas vêm depois)
+  const sourceColumns = finalSchema.columns.filter(c => !isComputedColumn(c))
+  const normalizedRows: DataRow[] = data.map((row, index) => {
     const processedRow: DataRow = {
-      _id: generateId(),
-      _rowIndex: index,
+      _id: '',
+      _rowIndex: firstRowIndex + index,
     }
     
-    finalSchema.columns.forEach((column) => {
+    sourceColumns.forEach((column) => {
       const value = row[column.key]
-      processedRow[column.key] = normalizeValue(value, column.format.type)
+      const normalized = normalizeValue(value, column.format.type, decimalSeparators.get(column.key), dateFormat)
+      
+      // Documentos inválidos são mantidos (e destacados na tabela)
+      const type = column.format.type
+      const invalid = !isEmptyCell(value) && (normalized === null || (isDocumentType(type) && !isValidDocument(normalized, type)))
+      const expected = invalid ? describeExpectedValue(type) : undefined
+      if (expected) {
+        warnings.push(`Linha ${firstRowIndex + index + 1}, coluna "${column.label}": "${String(value)}" não é ${expected}`)
+      }
+      
+      processedRow[column.key] = normalized
     })
     
     return processedRow
   })
   
+  const { rows, issues } = computeColumns(finalSchema, [
+    ...precedingRows.map(row => ({ ...row })),
+    ...normalizedRows,
+  ])
+  for (const issue of issues) {
+    const label = finalSchema.columns.find(c => c.key === issue.columnKey)?.label ?? issue.columnKey
+    warnings.push(`Coluna calculada "${label}": ${issue.message}`)
+  }
+  
+  // IDs estáveis: chave primária ou conteúdo da linha; as linhas já
+  // carregadas mantêm os seus
+  warnings.push(...assignRowIds(rows.slice(precedingRows.length), finalSchema, rows.slice(0, precedingRows.length)))
+  
+  // Mesclagens só fazem sentido para colunas presentes no schema
+  const schemaKeys = new Set(finalSchema.columns.map(c => c.key))
+  const merges = parseResult.merges?.filter(m => schemaKeys.has(m.columnKey))
+  
   return {
     schema: finalSchema,
     rows,
+    merges: merges?.length ? merges : undefined,
+    formulas: parseResult.formulas,
+    violations: hasValidationRules(finalSchema) ? validateRows(finalSchema, rows) : undefined,
     metadata: {
       totalRows: rows.length,
       processedAt: new Date(),
       sourceFileName: options?.sourceFileName,
-      warnings: parseResult.errors.length > 0 ? parseResult.errors : undefined,
+      sheetName: options?.sheetName,
+      warnings: warnings.length > 0 ? warnings : undefined,
     },
   }
 }
 
+/**
+ * Processa cada planilha de uma pasta de trabalho com schema próprio
+ */
+export function processWorkbook(
+  parseResult: ParseResult,
+  options?: {
+    sourceFileName?: string
+    locale?: string
+    currencyCode?: string
+    dateFormat?: string
+    timeZone?: string
+  }
+): ProcessedSheet[] {
+  const sheets = parseResult.sheets || []
+  
+  return sheets.map((sheet) => ({
+    info: sheet.sheet,
+    data: processData(sheet, undefined, {
+      ...options,
+      schemaName: sheet.sheet.name,
+      sheetName: sheet.sheet.name,
+    }),
+  }))
+}
+
 // ============================================
 // UTILIDADES
 // ============================================
@@ -427,8 +1682,8 @@ function formatLabel(header: string): string {
   return header
     .replace(/_/g, ' ')
     .replace(/([A-Z])/g, ' $1')
-    .replace(/^\s+/, '')
-    .split(' ')
+    .trim()
+    .split(/\s+/)
     .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
     .join(' ')
     .trim()
@@ -444,7 +1699,12 @@ function generateId(): string {
 /**
  * Normaliza valor para o tipo esperado
  */
-function normalizeValue(value: CellValue, type: ColumnType): CellValue {
+function normalizeValue(
+  value: CellValue,
+  type: ColumnType,
+  decimalSeparator: DecimalSeparator = ',',
+  dateFormat = DEFAULT_DATE_FORMAT
+): CellValue {
   if (value == null) return null
   
   switch (type) {
@@ -452,9 +1712,16 @@ function normalizeValue(value: CellValue, type: ColumnType): CellValue {
     case 'currency':
     case 'percentage':
     case 'progress':
-      const strValue = String(value).replace(/[R$%,\s]/g, '').replace(',', '.')
-      const numValue = parseFloat(strValue)
-      return isNaN(numValue) ? null : numValue
+      if (typeof value === 'number') return isNaN(value) ? null : value
+      if (typeof value !== 'string') return null
+      return parseFormattedNumber(value, decimalSeparator)?.value ?? null
+      
+    case 'integer': {
+      const number = typeof value === 'number'
+        ? value
+        : typeof value === 'string' ? parseFormattedNumber(value, decimalSeparator)?.value : undefined
+      return number != null && Number.isInteger(number) ? number : null
+    }
       
     case 'boolean':
       if (typeof value === 'boolean') return value
@@ -463,39 +1730,101 @@ function normalizeValue(value: CellValue, type: ColumnType): CellValue {
       
     case 'date':
     case 'datetime':
-      if (value instanceof Date) return value
-      const dateValue = new Date(String(value))
-      return isNaN(dateValue.getTime()) ? null : dateValue
+      return toDateValue(value, dateFormat)
+      
+    case 'time':
+      return toTimeValue(value, dateFormat)
+      
+    case 'duration':
+      return toDurationValue(value)
+      
+    case 'cpf':
+    case 'cnpj':
+    case 'cep':
+    case 'plate':
+      return normalizeDocument(value, type)
       
     default:
       return String(value)
   }
 }
 
+/**
+ * Converte o texto digitado na edição de uma célula para o tipo da coluna.
+ * Números seguem o locale da coluna (ou `defaultLocale`), como na
+ * importação: "1.234,56" em pt-BR é 1234,56. Fórmulas ("=...") seguem como
+ * texto para o recálculo.
+ */
+export function parseEditValue(text: string, format: ColumnFormat, defaultLocale?: string): CellValue {
+  if (text.trim().startsWith('=')) return text
+  
+  const { type } = format
+  if (type === 'number' || type === 'currency' || type === 'percentage' || type === 'progress' || type === 'integer') {
+    const { decimal } = getLocaleSeparators(format.locale ?? defaultLocale)
+    const number = parseFormattedNumber(text, decimal)?.value
+    if (number == null) return null
+    return type === 'integer' ? Math.round(number) : number
+  }
+  if (type === 'time') {
+    const parsed = parseDateString(text)
+    if (!parsed) return null
+    const { date } = parsed
+    return new Date(1899, 11, 30, date.getHours(), date.getMinutes(), date.getSeconds())
+  }
+  if (type === 'duration') {
+    return parseDuration(text)
+  }
+  if (isDocumentType(type)) {
+    return normalizeDocument(text, type)
+  }
+  if (type === 'boolean') {
+    return ['true', 'sim', 'yes', '1', 's'].includes(text.toLowerCase())
+  }
+  return text
+}
+
+/**
+ * Opções de exportação
+ */
+export interface ExportOptions {
+  /** CPF, CNPJ, CEP e placas com máscara (padrão) ou só com os caracteres */
+  documents?: 'masked' | 'digits'
+}
+
+/**
+ * Valor da célula como será exportado
+ */
+function toExportValue(value: CellValue, column: ColumnDefinition, options?: ExportOptions): CellValue {
+  const { type } = column.format
+  if (isDocumentType(type) && typeof value === 'string' && options?.documents !== 'digits') {
+    return formatDocument(value, type)
+  }
+  return value ?? null
+}
+
 /**
  * Exporta dados para diferentes formatos
  */
 export function exportData(
   data: ProcessedData,
-  format: 'xlsx' | 'csv' | 'json'
+  format: 'xlsx' | 'csv' | 'json',
+  options?: ExportOptions
 ): Blob {
+  if (format === 'xlsx') {
+    const workbook = createExportWorkbook(data, options)
+    const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
+    return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
+  }
+  
   const rows = data.rows.map(row => {
     const cleanRow: Record<string, CellValue> = {}
     data.schema.columns.forEach(col => {
-      cleanRow[col.label] = row[col.key]
+      cleanRow[col.label] = toExportValue(row[col.key], col, options)
     })
     return cleanRow
   })
   
   switch (format) {
-    case 'xlsx': {
-      const worksheet = XLSX.utils.json_to_sheet(rows)
-      const workbook = XLSX.utils.book_new()
-      XLSX.utils.book_append_sheet(workbook, worksheet, data.schema.name)
-      const buffer = XLSX.write(workbook, { type: 'array', bookType: 'xlsx' })
-      return new Blob([buffer], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' })
-    }
-    
     case 'csv': {
       const csv = Papa.unparse(rows)
       return new Blob([csv], { type: 'text/csv;charset=utf-8;' })
@@ -506,3 +1835,76 @@ export function exportData(
     }
   }
 }
+
+/**
+ * Monta a pasta de trabalho de exportação, incluindo células mescladas
+ * e fórmulas (com referências ajustadas às novas posições)
+ */
+export function createExportWorkbook(data: ProcessedData, options?: ExportOptions): XLSX.WorkBook {
+  const { columns } = data.schema
+  const aoa: unknown[][] = [
+    columns.map(col => col.label),
+    ...data.rows.map(row => columns.map(col => toExportValue(row[col.key], col, options))),
+  ]
+  
+  const worksheet = XLSX.utils.aoa_to_sheet(aoa)
+  
+  // Durações voltam a ser frações de dia com formato de tempo decorrido
+  columns.forEach((col, c) => {
+    if (col.format.type !== 'duration') return
+    const code = col.format.dateFormat?.includes('s') === false ? '[h]:mm' : '[h]:mm:ss'
+    data.rows.forEach((row, i) => {
+      const value = row[col.key]
+      if (typeof value !== 'number') return
+      worksheet[XLSX.utils.encode_cell({ r: i + 1, c })] = { t: 'n', v: value / SECONDS_PER_DAY, z: code }
+    })
+  })
+  
+  // Posição de exportação de cada linha original (linha 0 = cabeçalho)
+  const positions = new Map(data.rows.map((row, i) => [row._rowIndex, i + 1]))
+  const columnIndex = new Map(columns.map((col, i) => [col.key, i]))
+  
+  data.formulas?.cells.forEach(cell => {
+    const r = positions.get(cell.rowIndex)
+    const c = columnIndex.get(cell.columnKey)
+    if (r == null || c == null) return
+    
+    const formula = translateFormula(
+      data,
+      cell.formula,
+      ({ rowIndex, columnKey }) => {
+        const row = positions.get(rowIndex)
+        const col = columnIndex.get(columnKey)
+        return row != null && col != null ? { row, col } : undefined
+      },
+      columnKey => columnIndex.get(columnKey)
+    )
+    const address = XLSX.utils.encode_cell({ r, c })
+    // Valor em cache acompanha a fórmula; o Excel recalcula ao abrir
+    worksheet[address] = { ...(worksheet[address] ?? { t: 'z' }), f: formula.slice(1) }
+  })
+  
+  if (data.merges?.length) {
+    const merges = data.merges.flatMap((merge): XLSX.Range[] => {
+      const startRow = positions.get(merge.rowIndex)
+      const endRow = positions.get(merge.rowIndex + merge.rowSpan - 1)
+      const startCol = columnIndex.get(merge.columnKey)
+      
+      // Só exporta mesclagens cujas linhas continuam contíguas
+      if (startRow == null || startCol == null || endRow !== startRow + merge.rowSpan - 1) {
+        return []
+      }
+      
+      return [{
+        s: { r: startRow, c: startCol },
+        e: { r: endRow, c: Math.min(startCol + merge.colSpan - 1, columns.length - 1) },
+      }]
+    })
+    
+    if (merges.length > 0) worksheet['!merges'] = merges
+  }
+  
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, worksheet, data.schema.name)
+  return workbook
+}
@@ -1,25 +1,32 @@
 /**
- * Web Worker for Excel/CSV parsing
- * Offloads heavy parsing to a separate thread for better UI responsiveness
+ * Web Worker for spreadsheet/text parsing
+ * Offloads heavy parsing to a separate thread for better UI responsiveness.
+ * Formats come from the registry in excel-parser, shared with the main-thread fallback.
  */
 
-import * as XLSX from 'xlsx'
-import Papa from 'papaparse'
-import type { CellValue } from '@/types'
+import type { CellValue, CellSpan, ColumnFormat, SheetFormulas } from '@/types'
+import { isAbortError } from './csv-stream'
+import { 
+  detectFileFormat,
+  readFileHead,
+  type ParseOptions,
+  type SheetParseResult
+} from './excel-parser'
 
 // ============================================
 // MESSAGE TYPES
 // ============================================
 
 export interface WorkerMessage {
-  type: 'parse' | 'progress'
-  payload: ParsePayload | ProgressPayload
+  type: 'parse' | 'progress' | 'cancel'
+  payload?: ParsePayload | ProgressPayload
 }
 
 export interface ParsePayload {
-  fileData: ArrayBuffer
+  /** Arquivo original; o formato é identificado pelo conteúdo no worker */
+  file: File
   fileName: string
-  fileType: 'xlsx' | 'xls' | 'csv'
+  options?: ParseOptions
 }
 
 export interface ProgressPayload {
@@ -29,15 +36,22 @@ export interface ProgressPayload {
 }
 
 export interface WorkerResult {
-  type: 'result' | 'error' | 'progress'
+  type: 'result' | 'error' | 'progress' | 'cancelled'
   payload: ParseResultPayload | ErrorPayload | ProgressPayload
 }
 
 export interface ParseResultPayload {
   headers: string[]
+  sourceHeaders?: string[]
   data: Record<string, CellValue>[]
   rawData: unknown[][]
   errors: string[]
+  headerRow?: number
+  headerRowCount?: number
+  merges?: CellSpan[]
+  columnFormats?: Record<string, ColumnFormat>
+  formulas?: SheetFormulas
+  sheets?: SheetParseResult[]
 }
 
 export interface ErrorPayload {
@@ -51,6 +65,9 @@ export interface ErrorPayload {
 
 const ctx: Worker = self as unknown as Worker
 
+// Marcado pela mensagem 'cancel'; verificado a cada bloco lido
+let cancelRequested = false
+
 /**
  * Send progress update to main thread
  */
@@ -61,103 +78,6 @@ function sendProgress(stage: ProgressPayload['stage'], progress: number, message
   } satisfies WorkerResult)
 }
 
-/**
- * Parse Excel file (xlsx/xls)
- */
-function parseExcel(arrayBuffer: ArrayBuffer): ParseResultPayload {
-  sendProgress('parsing', 20, 'Lendo planilha...')
-  
-  const workbook = XLSX.read(arrayBuffer, { 
-    type: 'array',
-    cellDates: true,
-    cellNF: true,
-  })
-  
-  sendProgress('parsing', 40, 'Convertendo dados...')
-  
-  // Get first worksheet
-  const sheetName = workbook.SheetNames[0]
-  const worksheet = workbook.Sheets[sheetName]
-  
-  // Convert to JSON
-  const rawData = XLSX.utils.sheet_to_json<unknown[]>(worksheet, { 
-    header: 1,
-    defval: null,
-    raw: false,
-  })
-  
-  if (rawData.length === 0) {
-    return { headers: [], data: [], rawData: [], errors: ['Planilha vazia'] }
-  }
-  
-  sendProgress('processing', 60, 'Processando linhas...')
-  
-  // Headers are the first row
-  const headers = (rawData[0] as string[]).map((h, i) => 
-    h?.toString().trim() || `column_${i}`
-  )
-  
-  // Data are the remaining rows
-  const totalRows = rawData.length - 1
-  const data = rawData.slice(1).map((row, index) => {
-    // Send progress for large files
-    if (totalRows > 1000 && index % 1000 === 0) {
-      const progress = 60 + Math.floor((index / totalRows) * 30)
-      sendProgress('processing', progress, `Processando linha ${index + 1} de ${totalRows}...`)
-    }
-    
-    const rowData: Record<string, CellValue> = {}
-    headers.forEach((header, i) => {
-      rowData[header] = (row as CellValue[])[i] ?? null
-    })
-    return rowData
-  })
-  
-  sendProgress('complete', 100, 'Concluído!')
-  
-  return { headers, data, rawData, errors: [] }
-}
-
-/**
- * Parse CSV file
- */
-function parseCSV(text: string): Promise<ParseResultPayload> {
-  return new Promise((resolve) => {
-    sendProgress('parsing', 20, 'Analisando CSV...')
-    
-    Papa.parse<Record<string, CellValue>>(text, {
-      header: true,
-      skipEmptyLines: true,
-      dynamicTyping: true,
-      step: undefined, // Could add progress callback here
-      complete: (result) => {
-        sendProgress('processing', 80, 'Finalizando...')
-        
-        const headers = result.meta.fields || []
-        const data = result.data
-        const errors = result.errors.map(e => e.message)
-        
-        sendProgress('complete', 100, 'Concluído!')
-        
-        resolve({ 
-          headers, 
-          data, 
-          rawData: result.data as unknown as unknown[][], 
-          errors 
-        })
-      },
-      error: (error: Error) => {
-        resolve({ 
-          headers: [], 
-          data: [], 
-          rawData: [], 
-          errors: [error.message] 
-        })
-      },
-    })
-  })
-}
-
 // ============================================
 // MESSAGE HANDLER
 // ============================================
@@ -165,32 +85,47 @@ function parseCSV(text: string): Promise<ParseResultPayload> {
 ctx.addEventListener('message', async (event: MessageEvent<WorkerMessage>) => {
   const { type, payload } = event.data
   
+  if (type === 'cancel') {
+    cancelRequested = true
+    return
+  }
+  
   if (type !== 'parse') {
     return
   }
   
-  const { fileData, fileName, fileType } = payload as ParsePayload
+  cancelRequested = false
+  const { file, fileName, options } = payload as ParsePayload
   
   try {
     sendProgress('reading', 10, `Carregando ${fileName}...`)
     
-    let result: ParseResultPayload
-    
-    if (fileType === 'csv') {
-      // Decode ArrayBuffer to string for CSV
-      const decoder = new TextDecoder('utf-8')
-      const text = decoder.decode(fileData)
-      result = await parseCSV(text)
-    } else {
-      result = parseExcel(fileData)
+    const reader = detectFileFormat(fileName, await readFileHead(file))
+    if (!reader) {
+      throw new Error(`Tipo de arquivo não suportado: ${fileName}`)
     }
     
+    const result: ParseResultPayload = await reader.parse(file, options ?? {}, {
+      onProgress: sendProgress,
+      isCancelled: () => cancelRequested,
+    })
+    
+    sendProgress('complete', 100, 'Concluído!')
+    
     ctx.postMessage({
       type: 'result',
       payload: result
     } satisfies WorkerResult)
     
   } catch (error) {
+    if (isAbortError(error)) {
+      ctx.postMessage({
+        type: 'cancelled',
+        payload: { message: 'Importação cancelada' }
+      } satisfies WorkerResult)
+      return
+    }
+    
     const errorPayload: ErrorPayload = {
       message: error instanceof Error ? error.message : 'Erro desconhecido',
       stack: error instanceof Error ? error.stack : undefined
@@ -0,0 +1,83 @@
+import { convertTextCell } from './csv-stream'
+import { detectDecimalSeparator, type DecimalSeparator } from './locale-number'
+
+// ============================================
+// TEXTO DE LARGURA FIXA
+// ============================================
+
+export interface FixedWidthOptions {
+  /** Posições (0-based) onde cada coluna começa, exceto a primeira */
+  boundaries?: number[]
+  decimalSeparator?: DecimalSeparator
+}
+
+export interface FixedWidthResult {
+  rows: unknown[][]
+  boundaries: number[]
+  decimalSeparator: DecimalSeparator
+}
+
+// Linhas usadas na detecção de colunas e do separador decimal
+const SAMPLE_LINES = 200
+
+/**
+ * Divide o texto em linhas, descartando as vazias
+ */
+export function splitTextLines(text: string): string[] {
+  return text.split(/\r\n|\n|\r/).filter(line => line.trim() !== '')
+}
+
+/**
+ * Ordena, remove duplicadas e posições inválidas
+ */
+export function normalizeBoundaries(boundaries: number[]): number[] {
+  return [...new Set(boundaries.filter(b => Number.isInteger(b) && b > 0))].sort((a, b) => a - b)
+}
+
+/**
+ * Detecta onde cada coluna começa: posições em que todas as linhas têm espaço
+ * seguidas de uma posição em que alguma linha tem conteúdo
+ */
+export function detectFixedWidthBoundaries(lines: string[]): number[] {
+  const sample = lines.filter(line => line.trim() !== '').slice(0, SAMPLE_LINES)
+  const width = Math.max(0, ...sample.map(line => line.length))
+
+  const blank = Array.from({ length: width }, (_, i) =>
+    sample.every(line => i >= line.length || line[i] === ' ')
+  )
+
+  const boundaries: number[] = []
+  for (let i = 1; i < width; i++) {
+    if (blank[i - 1] && !blank[i]) boundaries.push(i)
+  }
+  return boundaries
+}
+
+/**
+ * Corta uma linha nas posições informadas, removendo os espaços de preenchimento
+ */
+export function splitFixedWidthLine(line: string, boundaries: number[]): string[] {
+  const starts = [0, ...boundaries]
+  return starts.map((start, i) => line.slice(start, starts[i + 1]).trim())
+}
+
+/**
+ * Converte texto de largura fixa em linhas de células; sem posições
+ * informadas, as colunas são detectadas pelos espaços alinhados
+ */
+export function parseFixedWidth(text: string, options: FixedWidthOptions = {}): FixedWidthResult {
+  const lines = splitTextLines(text)
+  const boundaries = options.boundaries
+    ? normalizeBoundaries(options.boundaries)
+    : detectFixedWidthBoundaries(lines)
+
+  const cells = lines.map(line => splitFixedWidthLine(line, boundaries))
+  const decimalSeparator = options.decimalSeparator ||
+    detectDecimalSeparator(cells.slice(0, SAMPLE_LINES).flat())
+
+  return {
+    rows: cells.map(row => row.map(cell => convertTextCell(cell, decimalSeparator))),
+    boundaries,
+    decimalSeparator,
+  }
+}
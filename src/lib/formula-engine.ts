@@ -0,0 +1,851 @@
+import { excelFormatToColumnFormat } from './number-format'
+import { formatValue } from './utils'
+import { dateToExcelSerial, excelSerialToDate } from './excel-dates'
+import { SECONDS_PER_DAY } from './durations'
+
+// ============================================
+// MOTOR DE FÓRMULAS
+// ============================================
+
+/**
+ * Endereço de célula (0-based). `row` ausente indica coluna inteira (A:A).
+ */
+export interface CellRef {
+  row?: number
+  col: number
+  rowAbsolute?: boolean
+  colAbsolute?: boolean
+  /** Planilha de outra aba (Plan2!A1), sem suporte no recálculo */
+  sheet?: string
+}
+
+export type BinaryOperator = '+' | '-' | '*' | '/' | '^' | '&' | '=' | '<>' | '<' | '>' | '<=' | '>='
+
+export type FormulaNode =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'ref'; ref: CellRef }
+  | { type: 'range'; start: CellRef; end: CellRef }
+  | { type: 'name'; name: string }
+  | { type: 'unary'; operator: '+' | '-'; operand: FormulaNode }
+  | { type: 'percent'; operand: FormulaNode }
+  | { type: 'binary'; operator: BinaryOperator; left: FormulaNode; right: FormulaNode }
+  | { type: 'call'; name: string; args: FormulaNode[] }
+
+export type FormulaErrorCode = '#DIV/0!' | '#VALUE!' | '#REF!' | '#NAME?' | '#N/A' | '#NUM!'
+
+export interface FormulaError {
+  error: FormulaErrorCode
+}
+
+/** Valor no modelo do Excel: datas são números seriais, vazio é null */
+export type FormulaValue = number | string | boolean | null | FormulaError
+
+/** Argumento de função: valor simples ou intervalo (linhas × colunas) */
+export type FormulaArg = FormulaValue | FormulaValue[][]
+
+/**
+ * Acesso às células durante a avaliação
+ */
+export interface FormulaContext {
+  getCell: (ref: CellRef) => FormulaValue
+  getRange: (start: CellRef, end: CellRef) => FormulaValue[][]
+  /** Nomes livres (ex.: colunas em colunas calculadas); sem ele, #NAME? */
+  resolveName?: (name: string) => FormulaValue
+}
+
+// ============================================
+// ENDEREÇOS A1
+// ============================================
+
+/**
+ * Converte o índice (0-based) em letras de coluna: 0 → A, 27 → AB
+ */
+export function columnLetter(index: number): string {
+  let letters = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+/**
+ * Converte letras de coluna em índice (0-based): A → 0, AB → 27
+ */
+export function columnIndex(letters: string): number {
+  return letters.toUpperCase().split('').reduce((n, char) => n * 26 + char.charCodeAt(0) - 64, 0) - 1
+}
+
+/**
+ * Escreve o endereço no formato A1, mantendo os "$" de referências absolutas
+ */
+export function formatCellRef(ref: CellRef): string {
+  const col = `${ref.colAbsolute ? '$' : ''}${columnLetter(ref.col)}`
+  return ref.row == null ? col : `${col}${ref.rowAbsolute ? '$' : ''}${ref.row + 1}`
+}
+
+// ============================================
+// TOKENIZAÇÃO
+// ============================================
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'string'; value: string }
+  | { type: 'ref'; ref: CellRef }
+  | { type: 'columns'; start: CellRef; end: CellRef }
+  | { type: 'function'; name: string }
+  | { type: 'name'; name: string }
+  | { type: 'operator'; value: string }
+  | { type: 'paren'; value: '(' | ')' }
+  | { type: 'separator' }
+
+interface PositionedToken {
+  token: Token
+  start: number
+  end: number
+}
+
+const SHEET_PREFIX = String.raw`(?:'((?:[^']|'')+)'|([A-Za-z_][\w.]*))!`
+const CELL_REF_REGEX = new RegExp(String.raw`^(?:${SHEET_PREFIX})?(\$?)([A-Za-z]{1,3})(\$?)(\d+)(?![\w(])`)
+const COLUMN_RANGE_REGEX = new RegExp(String.raw`^(?:${SHEET_PREFIX})?(\$?)([A-Za-z]{1,3}):(\$?)([A-Za-z]{1,3})(?![\w(])`)
+const NUMBER_REGEX = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/
+const IDENTIFIER_REGEX = /^[A-Za-z_][\w.]*/
+// Palavra com ao menos uma letra ou "_", que pode começar com dígito (2025_q1)
+const KNOWN_NAME_REGEX = /^[\w.]*[A-Za-z_][\w.]*/
+const OPERATORS = ['<>', '<=', '>=', '+', '-', '*', '/', '^', '&', '=', '<', '>', '%', ':']
+
+function tokenize(formula: string, names?: Set<string>): PositionedToken[] {
+  const tokens: PositionedToken[] = []
+  const text = formula.startsWith('=') ? formula.slice(1) : formula
+  const offset = formula.length - text.length
+  let i = 0
+
+  const push = (token: Token, length: number) => {
+    tokens.push({ token, start: offset + i, end: offset + i + length })
+    i += length
+  }
+
+  while (i < text.length) {
+    const rest = text.slice(i)
+    const char = text[i]
+
+    if (/\s/.test(char)) {
+      i++
+      continue
+    }
+
+    if (char === '"') {
+      let value = ''
+      let j = i + 1
+      while (j < text.length) {
+        if (text[j] === '"' && text[j + 1] === '"') {
+          value += '"'
+          j += 2
+        } else if (text[j] === '"') {
+          break
+        } else {
+          value += text[j++]
+        }
+      }
+      if (j >= text.length) throw new Error('Texto sem aspas de fechamento')
+      push({ type: 'string', value }, j - i + 1)
+      continue
+    }
+
+    // Nomes conhecidos vêm antes de endereços e números: colunas "q1", "2025_q1"
+    const known = names && KNOWN_NAME_REGEX.exec(rest)
+    if (known && names.has(known[0].toLowerCase()) && !/^[(!]/.test(text.slice(i + known[0].length))) {
+      push({ type: 'name', name: known[0] }, known[0].length)
+      continue
+    }
+
+    const columns = COLUMN_RANGE_REGEX.exec(rest)
+    if (columns) {
+      const sheet = columns[1]?.replace(/''/g, "'") ?? columns[2]
+      push({
+        type: 'columns',
+        start: { col: columnIndex(columns[4]), colAbsolute: !!columns[3], sheet },
+        end: { col: columnIndex(columns[6]), colAbsolute: !!columns[5], sheet },
+      }, columns[0].length)
+      continue
+    }
+
+    const cell = CELL_REF_REGEX.exec(rest)
+    if (cell) {
+      push({
+        type: 'ref',
+        ref: {
+          col: columnIndex(cell[4]),
+          row: Number(cell[6]) - 1,
+          colAbsolute: !!cell[3],
+          rowAbsolute: !!cell[5],
+          sheet: cell[1]?.replace(/''/g, "'") ?? cell[2],
+        },
+      }, cell[0].length)
+      continue
+    }
+
+    const number = NUMBER_REGEX.exec(rest)
+    if (number) {
+      push({ type: 'number', value: Number(number[0]) }, number[0].length)
+      continue
+    }
+
+    const identifier = IDENTIFIER_REGEX.exec(rest)
+    if (identifier) {
+      const isCall = text[i + identifier[0].length] === '('
+      const name = identifier[0].toUpperCase().replace(/^_XLFN\./, '')
+      push(isCall ? { type: 'function', name } : { type: 'name', name: identifier[0] }, identifier[0].length)
+      continue
+    }
+
+    if (char === '(' || char === ')') {
+      push({ type: 'paren', value: char }, 1)
+      continue
+    }
+
+    // "," e ";" (Excel em português) separam argumentos
+    if (char === ',' || char === ';') {
+      push({ type: 'separator' }, 1)
+      continue
+    }
+
+    const operator = OPERATORS.find(op => rest.startsWith(op))
+    if (operator) {
+      push({ type: 'operator', value: operator }, operator.length)
+      continue
+    }
+
+    throw new Error(`Caractere inesperado na fórmula: "${char}"`)
+  }
+
+  return tokens
+}
+
+// ============================================
+// ANÁLISE SINTÁTICA
+// ============================================
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>=']
+
+export interface FormulaParseOptions {
+  /**
+   * Nomes livres conhecidos (ex.: chaves de coluna), sem diferenciar
+   * maiúsculas; valem como nome mesmo quando parecem endereço (q1) ou
+   * começam com dígito (2025_q1)
+   */
+  names?: string[]
+}
+
+/**
+ * Converte o texto da fórmula (com ou sem "=") em árvore sintática.
+ * Lança Error para fórmulas malformadas.
+ */
+export function parseFormula(formula: string, options?: FormulaParseOptions): FormulaNode {
+  const names = options?.names && new Set(options.names.map(name => name.toLowerCase()))
+  const tokens = tokenize(formula, names).map(t => t.token)
+  let position = 0
+
+  const peek = () => tokens[position]
+  const isOperator = (...values: string[]) => {
+    const token = peek()
+    return token?.type === 'operator' && values.includes(token.value)
+  }
+  const expectParen = (value: '(' | ')') => {
+    const token = tokens[position++]
+    if (token?.type !== 'paren' || token.value !== value) {
+      throw new Error(`Esperado "${value}" na fórmula`)
+    }
+  }
+
+  const binary = (next: () => FormulaNode, operators: string[]) => (): FormulaNode => {
+    let left = next()
+    while (isOperator(...operators)) {
+      const operator = (tokens[position++] as { value: string }).value as BinaryOperator
+      left = { type: 'binary', operator, left, right: next() }
+    }
+    return left
+  }
+
+  const parsePrimary = (): FormulaNode => {
+    const token = tokens[position++]
+    if (!token) throw new Error('Fórmula incompleta')
+
+    switch (token.type) {
+      case 'number':
+        return { type: 'number', value: token.value }
+      case 'string':
+        return { type: 'string', value: token.value }
+      case 'columns':
+        return { type: 'range', start: token.start, end: token.end }
+      case 'ref': {
+        if (isOperator(':')) {
+          position++
+          const end = tokens[position++]
+          if (end?.type !== 'ref') throw new Error('Intervalo inválido')
+          return { type: 'range', start: token.ref, end: end.ref }
+        }
+        return { type: 'ref', ref: token.ref }
+      }
+      case 'name': {
+        const upper = token.name.toUpperCase()
+        if (upper === 'TRUE' || upper === 'FALSE') return { type: 'boolean', value: upper === 'TRUE' }
+        return { type: 'name', name: token.name }
+      }
+      case 'function': {
+        expectParen('(')
+        const args: FormulaNode[] = []
+        const isArgumentEnd = () => {
+          const next = peek()
+          return next?.type === 'separator' || (next?.type === 'paren' && next.value === ')')
+        }
+        if (!(peek()?.type === 'paren' && isArgumentEnd())) {
+          for (;;) {
+            // Argumento omitido (=IF(A1;;0)) vale como texto vazio
+            args.push(isArgumentEnd() ? { type: 'string', value: '' } : parseComparison())
+            if (peek()?.type !== 'separator') break
+            position++
+          }
+        }
+        expectParen(')')
+        return { type: 'call', name: token.name, args }
+      }
+      case 'paren': {
+        if (token.value !== '(') break
+        const inner = parseComparison()
+        expectParen(')')
+        return inner
+      }
+    }
+    throw new Error('Fórmula inválida')
+  }
+
+  const parsePostfix = (): FormulaNode => {
+    let node = parsePrimary()
+    while (isOperator('%')) {
+      position++
+      node = { type: 'percent', operand: node }
+    }
+    return node
+  }
+
+  const parseUnary = (): FormulaNode => {
+    if (isOperator('-', '+')) {
+      const operator = (tokens[position++] as { value: string }).value as '+' | '-'
+      return { type: 'unary', operator, operand: parseUnary() }
+    }
+    return parsePostfix()
+  }
+
+  const parsePower = binary(parseUnary, ['^'])
+  const parseMultiplicative = binary(parsePower, ['*', '/'])
+  const parseAdditive = binary(parseMultiplicative, ['+', '-'])
+  const parseConcat = binary(parseAdditive, ['&'])
+  const parseComparison: () => FormulaNode = binary(parseConcat, COMPARISON_OPERATORS)
+
+  const root = parseComparison()
+  if (position < tokens.length) throw new Error('Fórmula inválida')
+  return root
+}
+
+/**
+ * Reescreve as referências de uma fórmula (ex.: ao exportar com outra
+ * disposição de linhas/colunas). `mapRef` retorna o novo texto da referência.
+ */
+export function rewriteFormulaRefs(formula: string, mapRef: (ref: CellRef) => string): string {
+  let result = ''
+  let cursor = 0
+
+  for (const { token, start, end } of tokenize(formula)) {
+    if (token.type !== 'ref' && token.type !== 'columns') continue
+    if (token.type === 'ref' && token.ref.sheet) continue
+    if (token.type === 'columns' && token.start.sheet) continue
+
+    result += formula.slice(cursor, start)
+    result += token.type === 'ref'
+      ? mapRef(token.ref)
+      : `${mapRef(token.start)}:${mapRef(token.end)}`
+    cursor = end
+  }
+
+  return result + formula.slice(cursor)
+}
+
+/**
+ * Referências e intervalos usados pela fórmula
+ */
+export function collectRefs(node: FormulaNode): Array<{ start: CellRef; end: CellRef }> {
+  switch (node.type) {
+    case 'ref':
+      return [{ start: node.ref, end: node.ref }]
+    case 'range':
+      return [{ start: node.start, end: node.end }]
+    case 'unary':
+    case 'percent':
+      return collectRefs(node.operand)
+    case 'binary':
+      return [...collectRefs(node.left), ...collectRefs(node.right)]
+    case 'call':
+      return node.args.flatMap(collectRefs)
+    default:
+      return []
+  }
+}
+
+/**
+ * Nomes livres usados pela fórmula (ex.: colunas em colunas calculadas)
+ */
+export function collectNames(node: FormulaNode): string[] {
+  switch (node.type) {
+    case 'name':
+      return [node.name]
+    case 'unary':
+    case 'percent':
+      return collectNames(node.operand)
+    case 'binary':
+      return [...collectNames(node.left), ...collectNames(node.right)]
+    case 'call':
+      return node.args.flatMap(collectNames)
+    default:
+      return []
+  }
+}
+
+/**
+ * Indica se a fórmula só usa recursos suportados pelo recálculo
+ * (funções conhecidas e referências da própria planilha)
+ */
+export function isFormulaSupported(node: FormulaNode): boolean {
+  switch (node.type) {
+    case 'ref':
+      return !node.ref.sheet
+    case 'range':
+      return !node.start.sheet
+    case 'unary':
+    case 'percent':
+      return isFormulaSupported(node.operand)
+    case 'binary':
+      return isFormulaSupported(node.left) && isFormulaSupported(node.right)
+    case 'call':
+      return node.name in FUNCTIONS && node.args.every(isFormulaSupported)
+    default:
+      return true
+  }
+}
+
+// ============================================
+// CONVERSÕES
+// ============================================
+
+export function isFormulaError(value: unknown): value is FormulaError {
+  return typeof value === 'object' && value !== null && 'error' in value
+}
+
+function formulaError(error: FormulaErrorCode): FormulaError {
+  return { error }
+}
+
+function toNumber(value: FormulaValue): number | FormulaError {
+  if (isFormulaError(value)) return value
+  if (typeof value === 'number') return value
+  if (typeof value === 'boolean') return value ? 1 : 0
+  if (value === null || value === '') return 0
+  const num = Number(value.trim())
+  return isNaN(num) ? formulaError('#VALUE!') : num
+}
+
+function toText(value: FormulaValue): string | FormulaError {
+  if (isFormulaError(value)) return value
+  if (value === null) return ''
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  return String(value)
+}
+
+function toBoolean(value: FormulaValue): boolean | FormulaError {
+  if (isFormulaError(value)) return value
+  if (typeof value === 'string') {
+    const upper = value.toUpperCase()
+    if (upper === 'TRUE' || upper === 'FALSE') return upper === 'TRUE'
+    return formulaError('#VALUE!')
+  }
+  return Boolean(value)
+}
+
+function compareValues(a: FormulaValue, b: FormulaValue): number {
+  // Vazio se comporta como 0 ou "" conforme o outro lado
+  const left = a === null ? (typeof b === 'string' ? '' : 0) : a
+  const right = b === null ? (typeof a === 'string' ? '' : 0) : b
+  const rank = (v: FormulaValue) => (typeof v === 'number' ? 0 : typeof v === 'string' ? 1 : 2)
+
+  if (rank(left) !== rank(right)) return rank(left) - rank(right)
+  if (typeof left === 'string' && typeof right === 'string') {
+    return left.localeCompare(right, undefined, { sensitivity: 'accent' })
+  }
+  return Number(left) - Number(right)
+}
+
+/** Valores de um argumento, com intervalos achatados */
+function flatten(args: FormulaArg[]): Array<{ value: FormulaValue; fromRange: boolean }> {
+  return args.flatMap((arg): Array<{ value: FormulaValue; fromRange: boolean }> => Array.isArray(arg)
+    ? arg.flat().map(value => ({ value, fromRange: true }))
+    : [{ value: arg, fromRange: false }])
+}
+
+/** Números de uma lista de argumentos (intervalos ignoram texto e vazios, como no Excel) */
+function collectNumbers(args: FormulaArg[]): number[] | FormulaError {
+  const numbers: number[] = []
+  for (const { value, fromRange } of flatten(args)) {
+    if (isFormulaError(value)) return value
+    if (fromRange) {
+      if (typeof value === 'number') numbers.push(value)
+      continue
+    }
+    const num = toNumber(value)
+    if (isFormulaError(num)) return num
+    numbers.push(num)
+  }
+  return numbers
+}
+
+function scalar(arg: FormulaArg | undefined): FormulaValue {
+  if (arg === undefined) return null
+  return Array.isArray(arg) ? (arg[0]?.[0] ?? null) : arg
+}
+
+// ============================================
+// DATAS (NÚMEROS SERIAIS)
+// ============================================
+
+const MS_PER_DAY = 86400000
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30)
+
+/**
+ * Data (componentes locais) → número serial do Excel (sistema 1900)
+ */
+export function dateToSerial(date: Date): number {
+  return dateToExcelSerial(date)
+}
+
+/**
+ * Número serial do Excel → data com os mesmos componentes no fuso local
+ */
+export function serialToDate(serial: number): Date {
+  return excelSerialToDate(serial)
+}
+
+function serialFromParts(year: number, month: number, day: number): number {
+  return (Date.UTC(year, month, day) - EXCEL_EPOCH) / MS_PER_DAY
+}
+
+function serialParts(serial: number) {
+  const date = new Date(EXCEL_EPOCH + Math.floor(serial) * MS_PER_DAY)
+  return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate(), weekday: date.getUTCDay() }
+}
+
+// ============================================
+// FUNÇÕES
+// ============================================
+
+type FormulaFunction = (args: FormulaArg[]) => FormulaValue
+
+/** Aplica `fn` aos argumentos convertidos em número, propagando erros */
+function numeric(fn: (...values: number[]) => FormulaValue, minArgs = 1): FormulaFunction {
+  return (args) => {
+    if (args.length < minArgs) return formulaError('#VALUE!')
+    const values: number[] = []
+    for (const arg of args) {
+      const num = toNumber(scalar(arg))
+      if (isFormulaError(num)) return num
+      values.push(num)
+    }
+    return fn(...values)
+  }
+}
+
+function roundTo(value: number, digits: number, mode: 'round' | 'up' | 'down'): number {
+  const factor = 10 ** Math.trunc(digits)
+  const scaled = Number((Math.abs(value) * factor).toPrecision(15))
+  const rounded = mode === 'round' ? Math.round(scaled) : mode === 'up' ? Math.ceil(scaled) : Math.floor(scaled)
+  return Math.sign(value) * rounded / factor
+}
+
+function addMonths(serial: number, months: number, endOfMonth: boolean): number {
+  const { year, month, day } = serialParts(serial)
+  const target = month + Math.trunc(months)
+  if (endOfMonth) return serialFromParts(year, target + 1, 0)
+  const lastDay = new Date(Date.UTC(year, target + 1, 0)).getUTCDate()
+  return serialFromParts(year, target, Math.min(day, lastDay))
+}
+
+function textFunction(args: FormulaArg[]): FormulaValue {
+  const value = scalar(args[0])
+  const code = toText(scalar(args[1]))
+  if (isFormulaError(value)) return value
+  if (isFormulaError(code)) return code
+
+  const format = excelFormatToColumnFormat(code)
+  if (!format || typeof value !== 'number') return toText(value)
+
+  switch (format.type) {
+    case 'date':
+    case 'datetime':
+    case 'time':
+      return formatValue(serialToDate(value), format)
+    case 'percentage':
+      return formatValue(value * 100, format)
+    case 'duration':
+      return formatValue(value * SECONDS_PER_DAY, format)
+    default:
+      return formatValue(value, format)
+  }
+}
+
+function vlookup(args: FormulaArg[]): FormulaValue {
+  const lookup = scalar(args[0])
+  const table = args[1]
+  const column = toNumber(scalar(args[2]))
+  const approximate = args[3] === undefined ? true : toBoolean(scalar(args[3]))
+
+  if (isFormulaError(lookup)) return lookup
+  if (isFormulaError(column)) return column
+  if (isFormulaError(approximate)) return approximate
+  if (!Array.isArray(table)) return formulaError('#VALUE!')
+  if (column < 1 || column > (table[0]?.length ?? 0)) return formulaError('#REF!')
+
+  let match = -1
+  if (approximate) {
+    // Tabela ordenada: maior valor menor ou igual ao procurado
+    table.forEach((row, index) => {
+      if (row[0] !== null && compareValues(row[0], lookup) <= 0) match = index
+    })
+  } else {
+    match = table.findIndex(row => row[0] !== null && compareValues(row[0], lookup) === 0)
+  }
+
+  return match < 0 ? formulaError('#N/A') : table[match][Math.trunc(column) - 1]
+}
+
+const FUNCTIONS: Record<string, FormulaFunction> = {
+  // Agregação
+  SUM: (args) => {
+    const numbers = collectNumbers(args)
+    return isFormulaError(numbers) ? numbers : numbers.reduce((sum, n) => sum + n, 0)
+  },
+  AVERAGE: (args) => {
+    const numbers = collectNumbers(args)
+    if (isFormulaError(numbers)) return numbers
+    return numbers.length === 0 ? formulaError('#DIV/0!') : numbers.reduce((sum, n) => sum + n, 0) / numbers.length
+  },
+  MIN: (args) => {
+    const numbers = collectNumbers(args)
+    return isFormulaError(numbers) ? numbers : numbers.length ? Math.min(...numbers) : 0
+  },
+  MAX: (args) => {
+    const numbers = collectNumbers(args)
+    return isFormulaError(numbers) ? numbers : numbers.length ? Math.max(...numbers) : 0
+  },
+  COUNT: (args) => flatten(args).filter(({ value }) => typeof value === 'number').length,
+  COUNTA: (args) => flatten(args).filter(({ value }) => value !== null && value !== '').length,
+
+  // Lógica
+  IF: (args) => {
+    const condition = toBoolean(scalar(args[0]))
+    if (isFormulaError(condition)) return condition
+    return condition ? scalar(args[1] ?? true) : scalar(args[2] ?? false)
+  },
+  IFERROR: (args) => {
+    const value = scalar(args[0])
+    return isFormulaError(value) ? scalar(args[1]) : value
+  },
+  AND: (args) => {
+    for (const { value } of flatten(args)) {
+      const bool = toBoolean(value)
+      if (isFormulaError(bool)) return bool
+      if (!bool) return false
+    }
+    return true
+  },
+  OR: (args) => {
+    let result = false
+    for (const { value } of flatten(args)) {
+      const bool = toBoolean(value)
+      if (isFormulaError(bool)) return bool
+      result ||= bool
+    }
+    return result
+  },
+  NOT: (args) => {
+    const bool = toBoolean(scalar(args[0]))
+    return isFormulaError(bool) ? bool : !bool
+  },
+
+  // Busca
+  VLOOKUP: vlookup,
+
+  // Matemática
+  ROUND: numeric((value, digits = 0) => roundTo(value, digits, 'round')),
+  ROUNDUP: numeric((value, digits = 0) => roundTo(value, digits, 'up')),
+  ROUNDDOWN: numeric((value, digits = 0) => roundTo(value, digits, 'down')),
+  ABS: numeric(Math.abs),
+  INT: numeric(Math.floor),
+  MOD: numeric((value, divisor) =>
+    divisor === 0 ? formulaError('#DIV/0!') : value - divisor * Math.floor(value / divisor), 2),
+
+  // Texto
+  TEXT: textFunction,
+  CONCATENATE: (args) => {
+    let result = ''
+    for (const { value } of flatten(args)) {
+      const text = toText(value)
+      if (isFormulaError(text)) return text
+      result += text
+    }
+    return result
+  },
+  LEN: (args) => {
+    const text = toText(scalar(args[0]))
+    return isFormulaError(text) ? text : text.length
+  },
+  LEFT: (args) => {
+    const text = toText(scalar(args[0]))
+    const count = args[1] === undefined ? 1 : toNumber(scalar(args[1]))
+    if (isFormulaError(text)) return text
+    return isFormulaError(count) ? count : text.slice(0, Math.max(0, count))
+  },
+  RIGHT: (args) => {
+    const text = toText(scalar(args[0]))
+    const count = args[1] === undefined ? 1 : toNumber(scalar(args[1]))
+    if (isFormulaError(text)) return text
+    return isFormulaError(count) ? count : count <= 0 ? '' : text.slice(-count)
+  },
+  UPPER: (args) => {
+    const text = toText(scalar(args[0]))
+    return isFormulaError(text) ? text : text.toUpperCase()
+  },
+  LOWER: (args) => {
+    const text = toText(scalar(args[0]))
+    return isFormulaError(text) ? text : text.toLowerCase()
+  },
+  TRIM: (args) => {
+    const text = toText(scalar(args[0]))
+    return isFormulaError(text) ? text : text.trim().replace(/ +/g, ' ')
+  },
+
+  // Datas
+  DATE: numeric((year, month, day) => serialFromParts(Math.trunc(year), Math.trunc(month) - 1, Math.trunc(day)), 3),
+  TODAY: () => Math.floor(dateToSerial(new Date())),
+  NOW: () => dateToSerial(new Date()),
+  YEAR: numeric((serial) => serialParts(serial).year),
+  MONTH: numeric((serial) => serialParts(serial).month + 1),
+  DAY: numeric((serial) => serialParts(serial).day),
+  WEEKDAY: numeric((serial, type = 1) => {
+    const weekday = serialParts(serial).weekday
+    // 1: domingo = 1; 2: segunda = 1; 3: segunda = 0
+    if (type === 2) return ((weekday + 6) % 7) + 1
+    if (type === 3) return (weekday + 6) % 7
+    return weekday + 1
+  }),
+  EDATE: numeric((serial, months) => addMonths(serial, months, false), 2),
+  EOMONTH: numeric((serial, months) => addMonths(serial, months, true), 2),
+  DAYS: numeric((end, start) => Math.floor(end) - Math.floor(start), 2),
+}
+FUNCTIONS.CONCAT = FUNCTIONS.CONCATENATE
+
+/**
+ * Nomes das funções suportadas pelo motor
+ */
+export function getSupportedFunctions(): string[] {
+  return Object.keys(FUNCTIONS).sort()
+}
+
+// ============================================
+// AVALIAÇÃO
+// ============================================
+
+function evaluateArg(node: FormulaNode, context: FormulaContext): FormulaArg {
+  return node.type === 'range' ? context.getRange(node.start, node.end) : evaluateNode(node, context)
+}
+
+function evaluateBinary(operator: BinaryOperator, left: FormulaValue, right: FormulaValue): FormulaValue {
+  if (isFormulaError(left)) return left
+  if (isFormulaError(right)) return right
+
+  if (operator === '&') return `${toText(left)}${toText(right)}`
+
+  if (COMPARISON_OPERATORS.includes(operator)) {
+    const comparison = compareValues(left, right)
+    switch (operator) {
+      case '=': return comparison === 0
+      case '<>': return comparison !== 0
+      case '<': return comparison < 0
+      case '>': return comparison > 0
+      case '<=': return comparison <= 0
+      default: return comparison >= 0
+    }
+  }
+
+  const a = toNumber(left)
+  const b = toNumber(right)
+  if (isFormulaError(a)) return a
+  if (isFormulaError(b)) return b
+
+  switch (operator) {
+    case '+': return a + b
+    case '-': return a - b
+    case '*': return a * b
+    case '/': return b === 0 ? formulaError('#DIV/0!') : a / b
+    default: {
+      const result = a ** b
+      return isFinite(result) ? result : formulaError('#NUM!')
+    }
+  }
+}
+
+function evaluateNode(node: FormulaNode, context: FormulaContext): FormulaValue {
+  switch (node.type) {
+    case 'number':
+    case 'string':
+    case 'boolean':
+      return node.value
+    case 'ref':
+      return node.ref.sheet ? formulaError('#REF!') : context.getCell(node.ref)
+    case 'range':
+      // Intervalo usado como valor simples: primeira célula
+      return scalar(context.getRange(node.start, node.end))
+    case 'name':
+      return context.resolveName ? context.resolveName(node.name) : formulaError('#NAME?')
+    case 'unary': {
+      const value = toNumber(evaluateNode(node.operand, context))
+      if (isFormulaError(value)) return value
+      return node.operator === '-' ? -value : value
+    }
+    case 'percent': {
+      const value = toNumber(evaluateNode(node.operand, context))
+      return isFormulaError(value) ? value : value / 100
+    }
+    case 'binary':
+      return evaluateBinary(node.operator, evaluateNode(node.left, context), evaluateNode(node.right, context))
+    case 'call': {
+      const fn = FUNCTIONS[node.name]
+      if (!fn) return formulaError('#NAME?')
+      return fn(node.args.map(arg => evaluateArg(arg, context)))
+    }
+  }
+}
+
+/**
+ * Avalia uma fórmula (texto ou árvore já analisada).
+ * Fórmulas malformadas resultam em #NAME?, como no Excel.
+ */
+export function evaluateFormula(formula: string | FormulaNode, context: FormulaContext): FormulaValue {
+  let node: FormulaNode
+  try {
+    node = typeof formula === 'string' ? parseFormula(formula) : formula
+  } catch {
+    return formulaError('#NAME?')
+  }
+  const result = evaluateNode(node, context)
+  if (typeof result === 'number' && !isFinite(result)) return formulaError('#NUM!')
+  return result
+}
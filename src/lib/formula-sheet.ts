@@ -0,0 +1,340 @@
+import type { CellValue, ColumnDefinition, DataRow, ProcessedData, SheetFormulas } from '@/types'
+import {
+  collectRefs,
+  columnLetter,
+  dateToSerial,
+  evaluateFormula,
+  isFormulaError,
+  isFormulaSupported,
+  parseFormula,
+  rewriteFormulaRefs,
+  serialToDate,
+  type CellRef,
+  type FormulaContext,
+  type FormulaErrorCode,
+  type FormulaNode,
+  type FormulaValue,
+} from './formula-engine'
+import { SECONDS_PER_DAY } from './durations'
+
+// ============================================
+// FÓRMULAS DA PLANILHA (GRAFO DE DEPENDÊNCIAS)
+// ============================================
+
+/** Célula de dados identificada pela linha original e pela coluna */
+export interface DataCell {
+  rowIndex: number
+  columnKey: string
+}
+
+const ERROR_VALUE_REGEX = /^#(DIV\/0!|VALUE!|REF!|NAME\?|N\/A|NUM!)$/
+
+function cellKey(rowIndex: number, columnKey: string): string {
+  return `${rowIndex}\n${columnKey}`
+}
+
+/**
+ * Correspondência padrão para dados sem fórmulas importadas:
+ * cabeçalho na linha 1 e colunas na ordem do schema
+ */
+export function createSheetFormulas(data: ProcessedData): SheetFormulas {
+  return {
+    origin: { row: 1, col: 0 },
+    columns: data.schema.columns.map(c => c.key),
+    cells: [],
+  }
+}
+
+/**
+ * Fórmula da célula, se houver
+ */
+export function getCellFormula(data: ProcessedData, rowIndex: number, columnKey: string): string | undefined {
+  return data.formulas?.cells.find(c => c.rowIndex === rowIndex && c.columnKey === columnKey)?.formula
+}
+
+/**
+ * Endereço A1 da célula na planilha de origem (ex.: "C5")
+ */
+export function getCellAddress(data: ProcessedData, rowIndex: number, columnKey: string): string | undefined {
+  const sheet = data.formulas ?? createSheetFormulas(data)
+  const col = sheet.columns.indexOf(columnKey)
+  if (col < 0) return undefined
+  return `${columnLetter(sheet.origin.col + col)}${sheet.origin.row + rowIndex + 1}`
+}
+
+/**
+ * Valor da célula no modelo do Excel: datas viram seriais e percentuais
+ * (guardados em 0–100) voltam a ser frações
+ */
+function toFormulaValue(value: CellValue, column?: ColumnDefinition): FormulaValue {
+  if (value == null || value === '') return null
+  if (value instanceof Date) return dateToSerial(value)
+  if (typeof value === 'number' && column?.format.type === 'percentage') return value / 100
+  if (typeof value === 'number' && column?.format.type === 'duration') return value / SECONDS_PER_DAY
+  if (typeof value === 'string' && ERROR_VALUE_REGEX.test(value)) return { error: value as FormulaErrorCode }
+  return value
+}
+
+/**
+ * Resultado da fórmula convertido para o tipo da coluna
+ */
+export function fromFormulaValue(value: FormulaValue, column?: ColumnDefinition): CellValue {
+  if (isFormulaError(value)) return value.error
+  if (typeof value !== 'number') return value
+
+  switch (column?.format.type) {
+    case 'date':
+    case 'datetime':
+    case 'time':
+      return serialToDate(value)
+    case 'percentage':
+      return Number((value * 100).toPrecision(15))
+    case 'duration':
+      return Math.round(value * SECONDS_PER_DAY * 1000) / 1000
+    default:
+      return value
+  }
+}
+
+/**
+ * Recalcula as fórmulas afetadas pelas células alteradas (ou todas, sem
+ * `changed`), em ordem topológica. Fórmulas com funções ou referências não
+ * suportadas e referências circulares mantêm o valor atual.
+ */
+export function recalculateFormulas(data: ProcessedData, changed?: DataCell[]): ProcessedData {
+  const sheet = data.formulas
+  if (!sheet?.cells.length) return data
+
+  const { origin } = sheet
+  const columnsByKey = new Map(data.schema.columns.map(c => [c.key, c]))
+  const positions = new Map(data.rows.map((row, i) => [row._rowIndex, i]))
+  const maxRowIndex = data.rows.reduce((max, row) => Math.max(max, row._rowIndex), -1)
+  const rows: DataRow[] = [...data.rows]
+  const copied = new Set<number>()
+
+  // Referências → células de dados (intervalos limitados à área de dados)
+  const refsToKeys = (refs: Array<{ start: CellRef; end: CellRef }>): string[] => {
+    const keys: string[] = []
+    for (const { start, end } of refs) {
+      if (start.sheet) continue
+      const firstRow = Math.max(0, Math.min(start.row ?? origin.row, end.row ?? origin.row + maxRowIndex) - origin.row)
+      const lastRow = Math.min(maxRowIndex, Math.max(start.row ?? origin.row, end.row ?? origin.row + maxRowIndex) - origin.row)
+      const firstCol = Math.min(start.col, end.col) - origin.col
+      const lastCol = Math.max(start.col, end.col) - origin.col
+      for (let c = Math.max(0, firstCol); c <= lastCol && c < sheet.columns.length; c++) {
+        for (let r = firstRow; r <= lastRow; r++) keys.push(cellKey(r, sheet.columns[c]))
+      }
+    }
+    return keys
+  }
+
+  const formulas = new Map<string, { rowIndex: number; columnKey: string; node: FormulaNode | null; deps: string[] }>()
+  const dependents = new Map<string, string[]>()
+
+  for (const cell of sheet.cells) {
+    let node: FormulaNode | null = null
+    try {
+      node = parseFormula(cell.formula)
+      if (!isFormulaSupported(node)) node = null
+    } catch {
+      node = null
+    }
+
+    const key = cellKey(cell.rowIndex, cell.columnKey)
+    const deps = node ? refsToKeys(collectRefs(node)) : []
+    formulas.set(key, { rowIndex: cell.rowIndex, columnKey: cell.columnKey, node, deps })
+    deps.forEach(dep => {
+      const list = dependents.get(dep)
+      if (list) list.push(key)
+      else dependents.set(dep, [key])
+    })
+  }
+
+  // Fórmulas afetadas: as alteradas e tudo que depende delas
+  const affected = new Set<string>()
+  if (changed) {
+    const queue = changed.map(c => cellKey(c.rowIndex, c.columnKey))
+    queue.forEach(key => formulas.has(key) && affected.add(key))
+    while (queue.length > 0) {
+      for (const dependent of dependents.get(queue.shift()!) ?? []) {
+        if (affected.has(dependent)) continue
+        affected.add(dependent)
+        queue.push(dependent)
+      }
+    }
+  } else {
+    formulas.forEach((_, key) => affected.add(key))
+  }
+
+  // Ordem topológica (DFS iterativa, evita estouro de pilha em cadeias longas)
+  const depsOf = (key: string) => formulas.get(key)?.deps.filter(dep => affected.has(dep)) ?? []
+  const order: string[] = []
+  const state = new Map<string, 'visiting' | 'done'>()
+  const circular = new Set<string>()
+
+  for (const root of affected) {
+    if (state.has(root)) continue
+    state.set(root, 'visiting')
+    const stack = [{ key: root, deps: depsOf(root), index: 0 }]
+
+    while (stack.length > 0) {
+      const frame = stack[stack.length - 1]
+      if (frame.index < frame.deps.length) {
+        const dep = frame.deps[frame.index++]
+        const depState = state.get(dep)
+        if (depState === 'visiting') {
+          stack.slice(stack.findIndex(f => f.key === dep)).forEach(f => circular.add(f.key))
+        } else if (!depState) {
+          state.set(dep, 'visiting')
+          stack.push({ key: dep, deps: depsOf(dep), index: 0 })
+        }
+      } else {
+        state.set(frame.key, 'done')
+        order.push(frame.key)
+        stack.pop()
+      }
+    }
+  }
+
+  const context: FormulaContext = {
+    getCell: (ref) => {
+      const rowIndex = (ref.row ?? origin.row) - origin.row
+      const columnKey = sheet.columns[ref.col - origin.col]
+      if (rowIndex < 0) {
+        const address = `${columnLetter(ref.col)}${(ref.row ?? 0) + 1}`
+        return toFormulaValue(sheet.constants?.[address] ?? null)
+      }
+      const position = positions.get(rowIndex)
+      if (position == null || columnKey == null) return null
+      return toFormulaValue(rows[position][columnKey] as CellValue, columnsByKey.get(columnKey))
+    },
+    getRange: (start, end) => {
+      const firstRow = Math.min(start.row ?? origin.row, end.row ?? origin.row + maxRowIndex)
+      const lastRow = Math.max(start.row ?? origin.row, end.row ?? origin.row + maxRowIndex)
+      const firstCol = Math.min(start.col, end.col)
+      const lastCol = Math.max(start.col, end.col)
+      const range: FormulaValue[][] = []
+      for (let row = firstRow; row <= lastRow; row++) {
+        const values: FormulaValue[] = []
+        for (let col = firstCol; col <= lastCol; col++) values.push(context.getCell({ row, col }))
+        range.push(values)
+      }
+      return range
+    },
+  }
+
+  for (const key of order) {
+    const formula = formulas.get(key)!
+    if (!formula.node || circular.has(key)) continue
+
+    const position = positions.get(formula.rowIndex)
+    if (position == null) continue
+
+    const value = fromFormulaValue(evaluateFormula(formula.node, context), columnsByKey.get(formula.columnKey))
+    if (!copied.has(position)) {
+      rows[position] = { ...rows[position] }
+      copied.add(position)
+    }
+    rows[position][formula.columnKey] = value
+  }
+
+  return copied.size > 0 ? { ...data, rows } : data
+}
+
+/**
+ * Aplica uma edição: texto iniciado por "=" define a fórmula da célula;
+ * outro valor substitui a fórmula existente. Dependentes são recalculados.
+ */
+export function applyCellEdit(data: ProcessedData, rowId: string, columnKey: string, value: CellValue): ProcessedData {
+  const target = data.rows.find(row => row._id === rowId)
+  if (!target) return data
+
+  const formula = typeof value === 'string' && /^=.+/.test(value.trim()) ? value.trim() : undefined
+  const otherFormulas = data.formulas?.cells.filter(
+    c => !(c.rowIndex === target._rowIndex && c.columnKey === columnKey)
+  ) ?? []
+
+  let formulas = data.formulas
+  if (formula) {
+    formulas = {
+      ...(formulas ?? createSheetFormulas(data)),
+      cells: [...otherFormulas, { rowIndex: target._rowIndex, columnKey, formula }],
+    }
+  } else if (formulas) {
+    formulas = { ...formulas, cells: otherFormulas }
+  }
+
+  const rows = data.rows.map(row =>
+    row._id === rowId ? { ...row, [columnKey]: formula ? null : value } : row
+  )
+
+  return recalculateFormulas({ ...data, rows, formulas }, [{ rowIndex: target._rowIndex, columnKey }])
+}
+
+/**
+ * Texto de um valor fixo dentro de uma fórmula
+ */
+function formulaLiteral(value: CellValue): string {
+  if (value == null || value === '') return '0'
+  if (value instanceof Date) return String(dateToSerial(value))
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE'
+  if (typeof value === 'number') return String(value)
+  return `"${value.replace(/"/g, '""')}"`
+}
+
+/**
+ * Reescreve a fórmula para outra disposição das células (ex.: exportação,
+ * com cabeçalho na linha 1 e colunas na ordem do schema). Referências a
+ * valores fora da área de dados viram literais; células ausentes, #REF!.
+ */
+export function translateFormula(
+  data: ProcessedData,
+  formula: string,
+  mapCell: (cell: DataCell) => { row: number; col: number } | undefined,
+  mapColumn: (columnKey: string) => number | undefined
+): string {
+  const sheet = data.formulas ?? createSheetFormulas(data)
+
+  return rewriteFormulaRefs(formula, (ref) => {
+    const columnKey = sheet.columns[ref.col - sheet.origin.col]
+    const col = columnKey != null ? mapColumn(columnKey) : undefined
+
+    if (ref.row == null) {
+      return col == null ? '#REF!' : `${ref.colAbsolute ? '$' : ''}${columnLetter(col)}`
+    }
+
+    const rowIndex = ref.row - sheet.origin.row
+    if (rowIndex < 0) {
+      return formulaLiteral(sheet.constants?.[`${columnLetter(ref.col)}${ref.row + 1}`] ?? null)
+    }
+
+    const target = columnKey != null ? mapCell({ rowIndex, columnKey }) : undefined
+    if (!target) return '#REF!'
+    return `${ref.colAbsolute ? '$' : ''}${columnLetter(target.col)}${ref.rowAbsolute ? '$' : ''}${target.row + 1}`
+  })
+}
+
+// ============================================
+// EXPRESSÕES POR LINHA
+// ============================================
+
+/**
+ * Avalia uma expressão sobre uma linha, com as colunas pelo nome da chave
+ * (ex.: "data_fim >= data_inicio"). Referências A1 resultam em #REF!.
+ */
+export function evaluateRowExpression(
+  expression: string | FormulaNode,
+  row: DataRow,
+  columns: ColumnDefinition[]
+): FormulaValue {
+  const columnsByName = new Map(columns.map(c => [c.key.toLowerCase(), c]))
+
+  return evaluateFormula(expression, {
+    getCell: () => ({ error: '#REF!' }),
+    getRange: () => [[{ error: '#REF!' }]],
+    resolveName: (name) => {
+      const column = columnsByName.get(name.toLowerCase())
+      return column ? toFormulaValue(row[column.key] as CellValue, column) : { error: '#NAME?' }
+    },
+  })
+}
@@ -0,0 +1,142 @@
+import type { CellValue, DataRow, ProcessedData } from '@/types'
+import { generateSchemaFromData, type ProcessDataOptions } from './excel-parser'
+import { validateData } from './validation'
+
+// ============================================
+// JUNÇÃO COM UMA TABELA DE CONSULTA (PROCV)
+// ============================================
+
+/**
+ * Junção à esquerda mantém todas as linhas; interna, só as encontradas
+ */
+export type JoinType = 'left' | 'inner'
+
+export const joinTypeLabels: Record<JoinType, string> = {
+  left: 'Manter todas as linhas',
+  inner: 'Só linhas encontradas',
+}
+
+export interface JoinOptions {
+  type: JoinType
+  /** Coluna chave dos dados atuais */
+  leftKey: string
+  /** Coluna chave da tabela de consulta */
+  rightKey: string
+  /** Colunas da tabela de consulta trazidas para os dados atuais */
+  fields: string[]
+}
+
+export interface JoinResult {
+  data: ProcessedData
+  /** Linhas com a chave encontrada na tabela de consulta */
+  matched: number
+  /** Linhas sem correspondência (mantidas vazias ou descartadas) */
+  unmatched: number
+  /** Chaves repetidas na tabela de consulta (vale a primeira, como no PROCV) */
+  duplicateKeys: number
+}
+
+/**
+ * Texto de comparação das chaves: sem espaços nas pontas e sem diferenciar
+ * maiúsculas, como o PROCV; datas pelo dia
+ */
+export function toJoinKey(value: CellValue): string | null {
+  if (value == null) return null
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString().slice(0, 10)
+  const text = String(value).trim().toLowerCase()
+  return text === '' ? null : text
+}
+
+/**
+ * Enriquece os dados atuais com colunas de uma tabela de consulta, casando
+ * as linhas pela coluna chave de cada lado. As colunas trazidas recebem
+ * chaves únicas e são tipadas por generateSchemaFromData; as linhas dos
+ * dados atuais mantêm seus IDs.
+ */
+export function joinData(
+  left: ProcessedData,
+  right: ProcessedData,
+  options: JoinOptions,
+  processOptions?: ProcessDataOptions
+): JoinResult {
+  const { type, leftKey, rightKey, fields } = options
+  const leftColumn = left.schema.columns.find(column => column.key === leftKey)
+  const rightColumn = right.schema.columns.find(column => column.key === rightKey)
+  if (!leftColumn) throw new Error(`Coluna "${leftKey}" não existe nos dados atuais`)
+  if (!rightColumn) throw new Error(`Coluna "${rightKey}" não existe na tabela de consulta`)
+
+  // Primeira linha de cada chave na tabela de consulta
+  const lookup = new Map<string, DataRow>()
+  let duplicateKeys = 0
+  for (const row of right.rows) {
+    const key = toJoinKey(row[rightKey] as CellValue)
+    if (key == null) continue
+    if (lookup.has(key)) duplicateKeys++
+    else lookup.set(key, row)
+  }
+
+  // Colunas trazidas, com chaves que não colidem com as atuais
+  const rightColumns = fields.map(field => {
+    const column = right.schema.columns.find(c => c.key === field)
+    if (!column) throw new Error(`Coluna "${field}" não existe na tabela de consulta`)
+    return column
+  })
+  const keys = new Set(left.schema.columns.map(column => column.key))
+  const joinedKeys = rightColumns.map(column => {
+    let key = column.key
+    for (let suffix = 2; keys.has(key); suffix++) key = `${column.key}_${suffix}`
+    keys.add(key)
+    return key
+  })
+
+  let matched = 0
+  const rows: DataRow[] = []
+  for (const row of left.rows) {
+    const key = toJoinKey(row[leftKey] as CellValue)
+    const found = key != null ? lookup.get(key) : undefined
+    if (found) matched++
+    else if (type === 'inner') continue
+
+    const joined: DataRow = { ...row }
+    rightColumns.forEach((column, i) => {
+      joined[joinedKeys[i]] = found ? found[column.key] ?? null : null
+    })
+    rows.push(joined)
+  }
+  const unmatched = left.rows.length - matched
+
+  // Os formatos da tabela de consulta têm precedência sobre os inferidos
+  const joinedColumns = generateSchemaFromData(joinedKeys, rows as Record<string, CellValue>[], {
+    ...processOptions,
+    columnFormats: Object.fromEntries(joinedKeys.map((key, i) => [key, rightColumns[i].format])),
+    sourceHeaders: rightColumns.map(column => column.label),
+  }).columns
+
+  const rightName = right.metadata.sourceFileName ?? 'tabela de consulta'
+  const warnings = [
+    ...(left.metadata.warnings ?? []),
+    ...(unmatched > 0
+      ? [`${unmatched.toLocaleString('pt-BR')} ${unmatched === 1 ? 'linha' : 'linhas'} sem "${leftColumn.label}" em "${rightName}"${type === 'inner' ? ' (descartadas)' : ''}`]
+      : []),
+    ...(duplicateKeys > 0
+      ? [`${duplicateKeys.toLocaleString('pt-BR')} ${duplicateKeys === 1 ? 'chave repetida' : 'chaves repetidas'} em "${rightName}"; usando a primeira ocorrência`]
+      : []),
+  ]
+
+  const data = validateData({
+    ...left,
+    schema: { ...left.schema, columns: [...left.schema.columns, ...joinedColumns] },
+    rows,
+    // Linhas descartadas desalinham mesclagens e fórmulas
+    merges: type === 'left' ? left.merges : undefined,
+    formulas: type === 'left' ? left.formulas : undefined,
+    metadata: {
+      ...left.metadata,
+      totalRows: rows.length,
+      processedAt: new Date(),
+      warnings: warnings.length > 0 ? warnings : undefined,
+    },
+  })
+
+  return { data, matched, unmatched, duplicateKeys }
+}
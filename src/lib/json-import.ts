@@ -0,0 +1,155 @@
+import type { CellValue } from '@/types'
+import { parseDateString } from './excel-dates'
+
+// ============================================
+// IMPORTAÇÃO DE JSON / NDJSON
+// ============================================
+
+/**
+ * Representação de arrays ao achatar registros:
+ * 'join' junta valores simples com ", " (arrays de objetos viram JSON),
+ * 'json' mantém o array como texto JSON e
+ * 'index' cria uma coluna por posição (ex.: "tags.0", "tags.1")
+ */
+export type JsonArrayMode = 'join' | 'json' | 'index'
+
+export interface JsonImportOptions {
+  arrays?: JsonArrayMode
+}
+
+export interface JsonImportResult {
+  headers: string[]
+  data: Record<string, CellValue>[]
+  errors: string[]
+}
+
+// Datas ISO 8601, como as geradas por JSON.stringify em exportações
+const ISO_DATE_REGEX = /^\d{4}-\d{2}-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Converte um valor primitivo do JSON em valor de célula
+ */
+function toCellValue(value: unknown): CellValue {
+  if (value === null || value === undefined) return null
+  if (typeof value === 'string') {
+    // Sem fuso explícito a data é local ("2024-03-15" não vira 14/03 no Brasil)
+    if (ISO_DATE_REGEX.test(value)) {
+      const parsed = parseDateString(value, 'yyyy-MM-dd')
+      if (parsed) return parsed.date
+    }
+    return value
+  }
+  if (typeof value === 'number' || typeof value === 'boolean') return value
+  return JSON.stringify(value)
+}
+
+/**
+ * Achata um registro aninhado em colunas com chaves pontuadas
+ * (ex.: { cliente: { nome } } → "cliente.nome")
+ */
+export function flattenRecord(
+  value: unknown,
+  options: JsonImportOptions = {},
+  prefix = '',
+  target: Record<string, CellValue> = {}
+): Record<string, CellValue> {
+  const arrays = options.arrays || 'join'
+
+  if (isPlainObject(value)) {
+    const entries = Object.entries(value)
+    // Objeto vazio ainda ocupa a coluna
+    if (entries.length === 0 && prefix) target[prefix] = null
+    for (const [key, child] of entries) {
+      flattenRecord(child, options, prefix ? `${prefix}.${key}` : key, target)
+    }
+    return target
+  }
+
+  const key = prefix || 'value'
+
+  if (Array.isArray(value)) {
+    if (arrays === 'index') {
+      value.forEach((item, index) => flattenRecord(item, options, `${key}.${index}`, target))
+    } else if (arrays === 'join' && value.every(item => !isPlainObject(item) && !Array.isArray(item))) {
+      target[key] = value.map(item => (item === null ? '' : String(item))).join(', ')
+    } else {
+      target[key] = JSON.stringify(value)
+    }
+    return target
+  }
+
+  target[key] = toCellValue(value)
+  return target
+}
+
+/**
+ * Obtém a lista de registros: um array, ou o array "data" (ou o primeiro
+ * array de objetos) de um objeto envelope; um objeto isolado vira um registro
+ */
+export function extractRecords(parsed: unknown): unknown[] {
+  if (Array.isArray(parsed)) return parsed
+  if (!isPlainObject(parsed)) return [parsed]
+
+  if (Array.isArray(parsed.data)) return parsed.data
+
+  const nested = Object.values(parsed).find(
+    value => Array.isArray(value) && value.length > 0 && value.every(isPlainObject)
+  )
+  return Array.isArray(nested) ? nested : [parsed]
+}
+
+/**
+ * Monta cabeçalhos (na ordem em que as chaves aparecem) e linhas achatadas
+ */
+function buildResult(records: unknown[], options: JsonImportOptions, errors: string[]): JsonImportResult {
+  const headerSet = new Set<string>()
+  const data = records.map(record => {
+    const row = flattenRecord(record, options)
+    Object.keys(row).forEach(key => headerSet.add(key))
+    return row
+  })
+
+  return { headers: [...headerSet], data, errors }
+}
+
+/**
+ * Lê NDJSON/JSON Lines: um registro por linha; linhas inválidas viram avisos
+ */
+export function parseNDJSONText(text: string, options: JsonImportOptions = {}): JsonImportResult {
+  const records: unknown[] = []
+  const errors: string[] = []
+
+  text.split(/\r\n|\n|\r/).forEach((line, index) => {
+    if (!line.trim()) return
+    try {
+      records.push(JSON.parse(line))
+    } catch {
+      errors.push(`Linha ${index + 1}: JSON inválido`)
+    }
+  })
+
+  return buildResult(records, options, errors)
+}
+
+/**
+ * Lê JSON (array de objetos ou objeto com array "data").
+ * Arquivos .json com um objeto por linha são lidos como NDJSON.
+ */
+export function parseJSONText(text: string, options: JsonImportOptions = {}): JsonImportResult {
+  let parsed: unknown
+  try {
+    parsed = JSON.parse(text)
+  } catch (error) {
+    const ndjson = parseNDJSONText(text, options)
+    if (ndjson.data.length > 0 && ndjson.errors.length === 0) return ndjson
+
+    const message = error instanceof Error ? error.message : 'JSON inválido'
+    return { headers: [], data: [], errors: [`JSON inválido: ${message}`] }
+  }
+
+  return buildResult(extractRecords(parsed), options, [])
+}
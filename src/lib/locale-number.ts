@@ -0,0 +1,182 @@
+// ============================================
+// NÚMEROS COM SEPARADORES REGIONAIS
+// ============================================
+
+export type DecimalSeparator = ',' | '.'
+
+export interface NumberSeparators {
+  decimal: DecimalSeparator
+  group: string
+}
+
+// Aceita agrupamento de milhar opcional e notação científica
+const COMMA_DECIMAL_REGEX = /^[-+]?(\d{1,3}(\.\d{3})+|\d*)(,\d+)?([eE][-+]?\d+)?$/
+const DOT_DECIMAL_REGEX = /^[-+]?(\d{1,3}(,\d{3})+|\d*)(\.\d+)?([eE][-+]?\d+)?$/
+
+// Valores como "1,234" ou "1.234" são ambíguos e não contam na detecção
+const AMBIGUOUS_REGEX = /^[-+]?\d{1,3}[.,]\d{3}$/
+const COMMA_EVIDENCE_REGEX = /^[-+]?\d+(\.\d{3})*,\d+$/
+const DOT_EVIDENCE_REGEX = /^[-+]?\d+(,\d{3})*\.\d+$/
+
+/**
+ * Obtém os separadores decimal e de milhar de um locale (ex.: pt-BR → "," e ".")
+ */
+export function getLocaleSeparators(locale = 'pt-BR'): NumberSeparators {
+  const parts = new Intl.NumberFormat(locale).formatToParts(1234567.5)
+  const decimal: DecimalSeparator = parts.find(p => p.type === 'decimal')?.value === ',' ? ',' : '.'
+  const group = parts.find(p => p.type === 'group')?.value ?? (decimal === ',' ? '.' : ',')
+  return { decimal, group }
+}
+
+/**
+ * Converte texto numérico respeitando o separador decimal informado.
+ * Separadores de milhar e espaços são ignorados; retorna null se o texto não for um número.
+ */
+export function parseLocaleNumber(value: string, decimalSeparator: DecimalSeparator = '.'): number | null {
+  const text = value.trim().replace(/\s/g, '')
+  if (!text || !/\d/.test(text)) return null
+
+  const pattern = decimalSeparator === ',' ? COMMA_DECIMAL_REGEX : DOT_DECIMAL_REGEX
+  if (!pattern.test(text)) return null
+
+  const groupSeparator = decimalSeparator === ',' ? '.' : ','
+  const normalized = text.split(groupSeparator).join('').replace(decimalSeparator, '.')
+  const num = Number(normalized)
+
+  return Number.isFinite(num) ? num : null
+}
+
+/**
+ * Detecta o separador decimal predominante em uma amostra de valores.
+ * Retorna "." quando não há evidência suficiente.
+ */
+export function detectDecimalSeparator(values: unknown[]): DecimalSeparator {
+  let comma = 0
+  let dot = 0
+
+  for (const value of values) {
+    if (typeof value !== 'string') continue
+    const text = value.trim()
+    if (AMBIGUOUS_REGEX.test(text)) continue
+    if (COMMA_EVIDENCE_REGEX.test(text)) comma++
+    else if (DOT_EVIDENCE_REGEX.test(text)) dot++
+  }
+
+  return comma > dot ? ',' : '.'
+}
+
+// ============================================
+// VALORES FORMATADOS (MOEDA, PERCENTUAL E SINAIS)
+// ============================================
+
+export interface FormattedNumber {
+  value: number
+  /** O texto trazia símbolo ou código de moeda */
+  isCurrency: boolean
+  /** Código ISO da moeda, quando identificável pelo símbolo/código */
+  currency?: string
+  /** O texto terminava com "%" */
+  isPercent: boolean
+}
+
+// "$" sozinho é ambíguo (USD, ARS, MXN...) e não define código
+const CURRENCY_SYMBOLS: Record<string, string | undefined> = {
+  'R$': 'BRL',
+  'US$': 'USD',
+  '€': 'EUR',
+  '£': 'GBP',
+  '¥': 'JPY',
+  '$': undefined,
+}
+
+const CURRENCY_CODES = ['BRL', 'USD', 'EUR', 'GBP', 'JPY', 'ARS', 'CLP', 'MXN', 'CAD', 'AUD', 'CHF', 'CNY']
+
+const CURRENCY_PATTERN = [
+  ...Object.keys(CURRENCY_SYMBOLS).map(symbol => symbol.replace(/\$/g, '\\$')),
+  ...CURRENCY_CODES,
+].join('|')
+
+const LEADING_CURRENCY_REGEX = new RegExp(`^(${CURRENCY_PATTERN})\\s*`)
+const TRAILING_CURRENCY_REGEX = new RegExp(`\\s*(${CURRENCY_PATTERN})$`)
+
+/**
+ * Código ISO de um símbolo ("R$", "€") ou código ("usd") de moeda conhecido
+ */
+export function getCurrencyCode(token: string): string | undefined {
+  const text = token.trim()
+  if (text in CURRENCY_SYMBOLS) return CURRENCY_SYMBOLS[text]
+  return CURRENCY_CODES.includes(text.toUpperCase()) ? text.toUpperCase() : undefined
+}
+
+/**
+ * Indica se o texto é um símbolo ou código de moeda conhecido
+ */
+export function isCurrencyToken(token: string): boolean {
+  const text = token.trim()
+  return text in CURRENCY_SYMBOLS || CURRENCY_CODES.includes(text.toUpperCase())
+}
+
+/**
+ * Converte textos como "R$ 1.234,56", "(1.234,56)", "1.234,56-", "USD 10.00"
+ * ou "12,5%" em número. Negativos podem vir com sinal à esquerda, à direita
+ * ou entre parênteses. Retorna null se o texto não for numérico.
+ */
+export function parseFormattedNumber(
+  value: string,
+  decimalSeparator: DecimalSeparator = '.'
+): FormattedNumber | null {
+  let text = value.trim()
+  if (!text) return null
+
+  let negative = false
+  let isPercent = false
+  let isCurrency = false
+  let currency: string | undefined
+
+  const stripSign = () => {
+    if (text.startsWith('-')) negative = true
+    if (text.startsWith('-') || text.startsWith('+')) text = text.slice(1).trim()
+    if (text.endsWith('-')) {
+      negative = true
+      text = text.slice(0, -1).trim()
+    }
+  }
+  const stripCurrency = (regex: RegExp) => {
+    const match = regex.exec(text)
+    if (!match) return
+    isCurrency = true
+    currency = currency ?? (CURRENCY_SYMBOLS[match[1]] ?? (CURRENCY_CODES.includes(match[1]) ? match[1] : undefined))
+    text = text.replace(regex, '').trim()
+  }
+
+  // Negativo contábil: (1.234,56)
+  const parentheses = /^\((.*)\)$/.exec(text)
+  if (parentheses) {
+    negative = true
+    text = parentheses[1].trim()
+  }
+
+  if (text.endsWith('%')) {
+    isPercent = true
+    text = text.slice(0, -1).trim()
+  }
+
+  // O sinal pode vir antes ou depois da moeda: "-R$ 1,00", "R$ -1,00", "1,00 €-"
+  stripSign()
+  stripCurrency(LEADING_CURRENCY_REGEX)
+  stripSign()
+  stripCurrency(TRAILING_CURRENCY_REGEX)
+  stripSign()
+
+  // Se o separador do locale não servir, tenta o outro (ex.: "1234.56" em pt-BR)
+  const otherSeparator: DecimalSeparator = decimalSeparator === ',' ? '.' : ','
+  const num = parseLocaleNumber(text, decimalSeparator) ?? parseLocaleNumber(text, otherSeparator)
+  if (num === null) return null
+
+  return {
+    value: negative ? -Math.abs(num) : num,
+    isCurrency,
+    currency,
+    isPercent,
+  }
+}
@@ -0,0 +1,295 @@
+import type { ColumnFormat } from '@/types'
+import { getCurrencyCode, isCurrencyToken } from './locale-number'
+
+// ============================================
+// FORMATOS DE NÚMERO DO EXCEL
+// ============================================
+
+interface FormatToken {
+  /** 'code' são caracteres de formatação; 'literal' é texto fixo ("kg", \x) */
+  kind: 'code' | 'literal'
+  text: string
+}
+
+interface ParsedSection {
+  tokens: FormatToken[]
+  /** Símbolo de moeda indicado em [$R$-416] */
+  currencySymbol?: string
+  /** Locale indicado pelo LCID em [$-416] */
+  locale?: string
+  /** Tempo decorrido ([h]:mm), que não é uma data */
+  elapsed: boolean
+}
+
+// LCIDs mais comuns em planilhas (hexadecimal, minúsculo)
+const LCID_LOCALES: Record<string, string> = {
+  '416': 'pt-BR',
+  '816': 'pt-PT',
+  '409': 'en-US',
+  '809': 'en-GB',
+  '407': 'de-DE',
+  '40c': 'fr-FR',
+  'c0a': 'es-ES',
+  '80a': 'es-MX',
+  '2c0a': 'es-AR',
+  '410': 'it-IT',
+  '411': 'ja-JP',
+}
+
+// Formatos de data do sistema (ids 14 e 22), exibidos no formato regional
+const SYSTEM_DATE_FORMATS: Record<string, ColumnFormat> = {
+  'm/d/yy': { type: 'date', dateFormat: 'dd/MM/yyyy' },
+  'm/d/yy h:mm': { type: 'datetime', dateFormat: 'dd/MM/yyyy HH:mm' },
+}
+
+const PLACEHOLDER_REGEX = /[0#?]/
+
+/**
+ * Separa as seções do formato (positivo;negativo;zero;texto),
+ * ignorando ";" dentro de aspas, colchetes ou escapado
+ */
+function splitSections(code: string): string[] {
+  const sections: string[] = []
+  let current = ''
+  let quoted = false
+  let bracket = false
+
+  for (let i = 0; i < code.length; i++) {
+    const char = code[i]
+    if (char === '\\' && !quoted) {
+      current += char + (code[i + 1] ?? '')
+      i++
+      continue
+    }
+    if (char === '"' && !bracket) quoted = !quoted
+    else if (char === '[' && !quoted) bracket = true
+    else if (char === ']' && !quoted) bracket = false
+    else if (char === ';' && !quoted && !bracket) {
+      sections.push(current)
+      current = ''
+      continue
+    }
+    current += char
+  }
+  sections.push(current)
+  return sections
+}
+
+/**
+ * Quebra uma seção em caracteres de formatação e textos fixos
+ */
+function parseSection(section: string): ParsedSection {
+  const result: ParsedSection = { tokens: [], elapsed: false }
+  const push = (kind: FormatToken['kind'], text: string) => {
+    const last = result.tokens[result.tokens.length - 1]
+    if (kind === 'literal' && last?.kind === 'literal') last.text += text
+    else result.tokens.push({ kind, text })
+  }
+
+  for (let i = 0; i < section.length; i++) {
+    const char = section[i]
+
+    if (char === '"') {
+      const end = section.indexOf('"', i + 1)
+      const stop = end < 0 ? section.length : end
+      push('literal', section.slice(i + 1, stop))
+      i = stop
+    } else if (char === '\\') {
+      push('literal', section[i + 1] ?? '')
+      i++
+    } else if (char === '_' || char === '*') {
+      // Espaçamento (_x) e preenchimento (*x) não aparecem no valor
+      i++
+    } else if (char === '[') {
+      const end = section.indexOf(']', i + 1)
+      const stop = end < 0 ? section.length : end
+      const content = section.slice(i + 1, stop)
+      i = stop
+
+      if (content.startsWith('$')) {
+        // [$R$-416]: símbolo de moeda e/ou LCID
+        const dash = content.lastIndexOf('-')
+        const symbol = dash > 0 ? content.slice(1, dash) : content.slice(1)
+        const lcid = dash >= 0 ? content.slice(dash + 1) : ''
+        if (symbol) result.currencySymbol = symbol
+        const lcidValue = parseInt(lcid, 16)
+        if (!isNaN(lcidValue)) result.locale ??= LCID_LOCALES[(lcidValue & 0xffff).toString(16)]
+      } else if (/^(h+|m+|s+)$/i.test(content)) {
+        result.elapsed = true
+        push('code', content)
+      }
+      // Cores e condições ([Red], [>=100]) não afetam o formato da coluna
+    } else {
+      push('code', char)
+    }
+  }
+
+  return result
+}
+
+/**
+ * Converte os códigos de data/hora do Excel para o padrão do date-fns
+ */
+function toDateFnsFormat(tokens: FormatToken[]): { dateFormat: string; hasDate: boolean; hasTime: boolean } {
+  // Sequência de caracteres com a marcação de literal
+  const chars = tokens.flatMap(token =>
+    token.kind === 'literal'
+      ? [{ char: token.text, literal: true }]
+      : token.text.split('').map(char => ({ char, literal: false }))
+  )
+  const lowerCode = chars.filter(c => !c.literal).map(c => c.char).join('').toLowerCase()
+  const twelveHour = /am\/pm|a\/p/.test(lowerCode)
+
+  let dateFormat = ''
+  let hasDate = false
+  let hasTime = false
+  let lastUnit = ''
+
+  for (let i = 0; i < chars.length; i++) {
+    const { char, literal } = chars[i]
+    if (literal) {
+      dateFormat += `'${char.replace(/'/g, "''")}'`
+      continue
+    }
+
+    const lower = char.toLowerCase()
+
+    // AM/PM e A/P
+    const rest = chars.slice(i, i + 5).map(c => c.char).join('').toLowerCase()
+    if (rest.startsWith('am/pm') || rest.startsWith('a/p')) {
+      dateFormat += 'a'
+      i += rest.startsWith('am/pm') ? 4 : 2
+      continue
+    }
+
+    if (!'ymdhs'.includes(lower)) {
+      dateFormat += /[a-z]/i.test(char) ? `'${char}'` : char
+      continue
+    }
+
+    let length = 1
+    while (chars[i + length] && !chars[i + length].literal && chars[i + length].char.toLowerCase() === lower) length++
+    i += length - 1
+
+    let unit = lower
+    if (lower === 'm') {
+      // "m" é minuto logo após horas ou antes de segundos
+      const next = chars.slice(i + 1).find(c => !c.literal && /[a-z]/i.test(c.char))
+      if (lastUnit === 'h' || next?.char.toLowerCase() === 's') unit = 'n'
+    }
+
+    switch (unit) {
+      case 'y':
+        dateFormat += length <= 2 ? 'yy' : 'yyyy'
+        hasDate = true
+        break
+      case 'm':
+        dateFormat += ['M', 'MM', 'MMM', 'MMMM', 'MMMMM'][Math.min(length, 5) - 1]
+        hasDate = true
+        break
+      case 'd':
+        dateFormat += ['d', 'dd', 'EEE', 'EEEE'][Math.min(length, 4) - 1]
+        hasDate = true
+        break
+      case 'h':
+        dateFormat += (twelveHour ? 'h' : 'H').repeat(Math.min(length, 2))
+        hasTime = true
+        break
+      case 'n':
+        dateFormat += 'm'.repeat(Math.min(length, 2))
+        hasTime = true
+        break
+      case 's':
+        dateFormat += 's'.repeat(Math.min(length, 2))
+        hasTime = true
+        break
+    }
+    lastUnit = unit === 'n' ? 'm' : unit
+  }
+
+  return { dateFormat, hasDate, hasTime }
+}
+
+/**
+ * Traduz um código de formato de número do Excel (ex.: `0.00%`,
+ * `"R$" #,##0.00`, `dd/mm/yyyy hh:mm`) em ColumnFormat.
+ * Retorna null para "General", texto e formatos sem equivalente.
+ */
+export function excelFormatToColumnFormat(code: string | undefined): ColumnFormat | null {
+  if (!code || /^(general|@)$/i.test(code.trim())) return null
+
+  const system = SYSTEM_DATE_FORMATS[code.trim().toLowerCase()]
+  if (system) return { ...system }
+
+  const section = parseSection(splitSections(code)[0])
+  const codeText = section.tokens.filter(t => t.kind === 'code').map(t => t.text).join('')
+
+  // Sem marcadores numéricos: data, horário ou tempo decorrido ([h]:mm)
+  if (!PLACEHOLDER_REGEX.test(codeText)) {
+    if (section.elapsed) return { type: 'duration', dateFormat: /s/i.test(codeText) ? 'h:mm:ss' : 'h:mm' }
+    if (!/[ymdhs]/i.test(codeText)) return null
+    const { dateFormat, hasDate, hasTime } = toDateFnsFormat(section.tokens)
+    return { type: hasDate ? (hasTime ? 'datetime' : 'date') : 'time', dateFormat }
+  }
+
+  const placeholders = section.tokens
+    .map((token, index) => (token.kind === 'code' && PLACEHOLDER_REGEX.test(token.text) ? index : -1))
+    .filter(index => index >= 0)
+  const first = placeholders[0]
+  const last = placeholders[placeholders.length - 1]
+
+  // Moeda: [$R$-416], "R$" ou símbolo solto ($ € £ ¥)
+  let currencySymbol = section.currencySymbol
+  let prefix = ''
+  let suffix = ''
+  section.tokens.forEach((token, index) => {
+    if (token.kind === 'code') {
+      if (/[$€£¥]/.test(token.text)) currencySymbol ??= token.text
+      return
+    }
+    if (!currencySymbol && isCurrencyToken(token.text)) {
+      currencySymbol = token.text.trim()
+      return
+    }
+    if (index < first) prefix += token.text
+    else if (index > last) suffix += token.text
+  })
+
+  const decimals = /\.([0#?]+)/.exec(codeText)?.[1].length ?? 0
+
+  const format: ColumnFormat = codeText.includes('%')
+    ? { type: 'percentage', decimals }
+    : currencySymbol
+      ? { type: 'currency', decimals, currency: getCurrencyCode(currencySymbol) }
+      : { type: 'number', decimals }
+
+  if (format.type === 'currency' && !format.currency) delete format.currency
+  if (section.locale) format.locale = section.locale
+  if (prefix) format.prefix = prefix
+  if (suffix) format.suffix = suffix
+  return format
+}
+
+/**
+ * Indica se o formato exibe o valor como percentual (valor × 100)
+ */
+export function isPercentFormat(code: string | undefined): boolean {
+  if (!code) return false
+  return parseSection(splitSections(code)[0]).tokens.some(t => t.kind === 'code' && t.text.includes('%'))
+}
+
+/**
+ * Indica se o formato exibe o serial como data ou hora
+ * (tempo decorrido, como [h]:mm, é duração)
+ */
+export function isDateFormat(code: string | undefined): boolean {
+  const type = excelFormatToColumnFormat(code)?.type
+  return type === 'date' || type === 'datetime' || type === 'time'
+}
+
+/**
+ * Indica se o formato exibe o serial como tempo decorrido ([h]:mm:ss)
+ */
+export function isDurationFormat(code: string | undefined): boolean {
+  return excelFormatToColumnFormat(code)?.type === 'duration'
+}
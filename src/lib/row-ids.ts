@@ -0,0 +1,99 @@
+import type { CellValue, DataRow, DataSchema } from '@/types'
+import { isComputedColumn } from './computed-columns'
+
+// ============================================
+// IDENTIDADE DAS LINHAS
+// ============================================
+
+/**
+ * Colunas da chave primária do schema (vazio sem chave)
+ */
+export function getPrimaryKeyColumns(schema: DataSchema): string[] {
+  const { primaryKey } = schema
+  if (!primaryKey) return []
+  return Array.isArray(primaryKey) ? primaryKey : [primaryKey]
+}
+
+/**
+ * Texto estável de um valor normalizado
+ */
+function keyPart(value: CellValue): string {
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString()
+  return value == null ? '' : String(value)
+}
+
+/**
+ * Hash de 53 bits (cyrb53) em base 36
+ */
+function hashText(text: string): string {
+  let h1 = 0xdeadbeef
+  let h2 = 0x41c6ce57
+  for (let i = 0; i < text.length; i++) {
+    const char = text.charCodeAt(i)
+    h1 = Math.imul(h1 ^ char, 2654435761)
+    h2 = Math.imul(h2 ^ char, 1597334677)
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909)
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909)
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36)
+}
+
+/**
+ * Atribui a cada linha um `_id` estável entre carregamentos do mesmo
+ * arquivo: "pk:" + valores da chave primária quando o schema tem uma, ou
+ * "row:" + hash do conteúdo. IDs repetidos recebem "~2", "~3"... na ordem
+ * das linhas. Devolve avisos sobre chaves ausentes, vazias ou repetidas.
+ *
+ * `existingRows` (linhas já carregadas, ao acrescentar dados) mantêm seus
+ * IDs, mesmo que tenham sido editadas; as novas não repetem nenhum deles.
+ */
+export function assignRowIds(rows: DataRow[], schema: DataSchema, existingRows: DataRow[] = []): string[] {
+  const warnings: string[] = []
+  const columnKeys = schema.columns.map(column => column.key)
+  // Colunas calculadas não entram no hash: acrescentá-las não muda os IDs
+  const contentKeys = schema.columns.filter(column => !isComputedColumn(column)).map(column => column.key)
+  let keyColumns = getPrimaryKeyColumns(schema)
+
+  const unknown = keyColumns.filter(key => !columnKeys.includes(key))
+  if (unknown.length > 0) {
+    warnings.push(`Chave primária com colunas inexistentes (${unknown.join(', ')}); usando o conteúdo das linhas`)
+    keyColumns = []
+  }
+
+  const firstRow = new Map<string, number>()
+  const occurrences = new Map<string, number>()
+  const taken = new Set(existingRows.map(row => row._id))
+  for (const row of existingRows) {
+    const id = row._id.replace(/~\d+$/, '')
+    if (id.startsWith('pk:') && !firstRow.has(id)) firstRow.set(id, row._rowIndex)
+  }
+
+  for (const row of rows) {
+    let id: string | undefined
+
+    if (keyColumns.length > 0) {
+      const parts = keyColumns.map(key => keyPart(row[key] as CellValue))
+      if (parts.every(part => part === '')) {
+        warnings.push(`Linha ${row._rowIndex + 1}: chave primária vazia`)
+      } else {
+        id = `pk:${parts.map(encodeURIComponent).join('/')}`
+        const first = firstRow.get(id)
+        if (first != null) {
+          warnings.push(`Linha ${row._rowIndex + 1}: chave primária "${parts.join(' / ')}" repetida (linha ${first + 1})`)
+        } else {
+          firstRow.set(id, row._rowIndex)
+        }
+      }
+    }
+
+    id ??= `row:${hashText(contentKeys.map(key => keyPart(row[key] as CellValue)).join('\u001f'))}`
+
+    let count = (occurrences.get(id) ?? 0) + 1
+    while (taken.has(count > 1 ? `${id}~${count}` : id)) count++
+    occurrences.set(id, count)
+    row._id = count > 1 ? `${id}~${count}` : id
+    taken.add(row._id)
+  }
+
+  return warnings
+}
@@ -0,0 +1,138 @@
+import type { ColumnDefinition, DataSchema, ProcessedData } from '@/types'
+import {
+  generateSchemaFromData,
+  processData,
+  renameSourceColumns,
+  type ParseResult,
+  type ProcessDataOptions,
+} from './excel-parser'
+import { matchColumnSources } from './column-keys'
+import { isComputedColumn } from './computed-columns'
+
+// ============================================
+// RECONHECIMENTO DE SCHEMAS SALVOS
+// ============================================
+
+/** Similaridade mínima para sugerir um schema salvo */
+export const MIN_SCHEMA_SCORE = 0.5
+
+export interface SchemaMatch {
+  schema: DataSchema
+  /** Colunas em comum sobre o total de colunas distintas dos dois lados (0–1) */
+  score: number
+  /** Chave da coluna no schema → chave da coluna no arquivo */
+  mapping: Record<string, string>
+  /** Colunas do schema que não aparecem no arquivo */
+  missing: ColumnDefinition[]
+  /** Colunas do arquivo sem correspondente no schema */
+  extra: { key: string; header: string }[]
+}
+
+/**
+ * Compara os cabeçalhos do arquivo com as colunas de um schema, pela chave,
+ * cabeçalho original, rótulo ou aliases de cada coluna
+ */
+export function matchSchema(source: ParseResult, schema: DataSchema): SchemaMatch {
+  const sourceColumns = schema.columns.filter(column => !isComputedColumn(column))
+  return remapSchemaMatch(source, schema, matchColumnSources(sourceColumns, source.headers))
+}
+
+/**
+ * Monta a comparação com um mapeamento escolhido pelo usuário (chave da
+ * coluna no schema → chave no arquivo)
+ */
+export function remapSchemaMatch(
+  source: ParseResult,
+  schema: DataSchema,
+  mapping: Record<string, string>
+): SchemaMatch {
+  // Colunas calculadas não vêm do arquivo: ficam fora da comparação
+  const sourceColumns = schema.columns.filter(column => !isComputedColumn(column))
+  const mapped = new Set(Object.values(mapping))
+  const missing = sourceColumns.filter(column => !mapping[column.key])
+  const extra = source.headers
+    .map((key, i) => ({ key, header: source.sourceHeaders?.[i] ?? key }))
+    .filter(({ key }) => !mapped.has(key))
+  const matched = sourceColumns.length - missing.length
+  const total = sourceColumns.length + extra.length
+
+  return {
+    schema,
+    score: total > 0 ? matched / total : 0,
+    mapping,
+    missing,
+    extra,
+  }
+}
+
+/**
+ * Schemas salvos parecidos com o arquivo, do mais ao menos parecido
+ */
+export function findSchemaMatches(
+  source: ParseResult,
+  schemas: DataSchema[],
+  minScore = MIN_SCHEMA_SCORE
+): SchemaMatch[] {
+  return schemas
+    .map(schema => matchSchema(source, schema))
+    .filter(match => match.score >= minScore)
+    .sort((a, b) => b.score - a.score)
+}
+
+/**
+ * Guarda o mapeamento no schema: cabeçalhos associados manualmente que não
+ * seriam reconhecidos sozinhos viram aliases da coluna
+ */
+export function rememberMapping(source: ParseResult, match: SchemaMatch): DataSchema {
+  const headerTexts = new Map(source.headers.map((key, i) => [key, source.sourceHeaders?.[i] ?? key]))
+
+  return {
+    ...match.schema,
+    columns: match.schema.columns.map(column => {
+      const sourceKey = match.mapping[column.key]
+      if (!sourceKey || isComputedColumn(column) || matchColumnSources([column], [sourceKey])[column.key]) return column
+      return { ...column, aliases: [...(column.aliases ?? []), headerTexts.get(sourceKey) ?? sourceKey] }
+    }),
+  }
+}
+
+/**
+ * Processa o arquivo com o schema salvo: as colunas reconhecidas usam os
+ * rótulos e formatos do schema, as que faltam ficam vazias e as colunas
+ * novas do arquivo são acrescentadas com tipos inferidos
+ */
+export function applySchemaMatch(
+  source: ParseResult,
+  match: SchemaMatch,
+  options?: ProcessDataOptions
+): ProcessedData {
+  const renames = new Map(
+    Object.entries(match.mapping)
+      .filter(([schemaKey, sourceKey]) => schemaKey !== sourceKey)
+      .map(([schemaKey, sourceKey]) => [sourceKey, schemaKey])
+  )
+
+  // Coluna nova com a chave de uma coluna do schema que ficou sem origem
+  const schemaKeys = new Set(match.schema.columns.map(column => column.key))
+  const extraKeys = match.extra.map(({ key }) => {
+    if (!schemaKeys.has(key)) return key
+    let suffix = 2
+    while (schemaKeys.has(`${key}_${suffix}`) || source.headers.includes(`${key}_${suffix}`)) suffix++
+    renames.set(key, `${key}_${suffix}`)
+    return `${key}_${suffix}`
+  })
+  const renamed = renameSourceColumns(source, renames)
+
+  const extraColumns = extraKeys.length > 0
+    ? generateSchemaFromData(extraKeys, renamed.data, {
+        ...options,
+        columnFormats: renamed.columnFormats,
+        sourceHeaders: match.extra.map(e => e.header),
+      }).columns
+    : []
+
+  return processData(renamed, {
+    ...match.schema,
+    columns: [...match.schema.columns, ...extraColumns],
+  }, options)
+}
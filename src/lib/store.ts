@@ -7,14 +7,51 @@ import type {
   DataSchema,
   FilterState,
   SortState,
-  CellValue 
+  CellValue,
+  ColumnDefinition,
+  DataRow,
+  WorkbookSheet
 } from '@/types'
 import { companyPresets } from './config'
+import type { ParseResult, ProcessDataOptions, ProcessedSheet } from './excel-parser'
+import { applyCellEdit } from './formula-sheet'
+import { validateData } from './validation'
+import { computeData } from './computed-columns'
+import type { SchemaMatch } from './schema-matching'
+import { diffToProcessedData, type DataDiff } from './data-diff'
+import { mergeDuplicates, type MergeGroup } from './duplicates'
 
 // ============================================
 // STORE PRINCIPAL DA APLICAÇÃO
 // ============================================
 
+/**
+ * Importação aguardando a revisão dos tipos inferidos: dados brutos da
+ * planilha ativa e as opções usadas para processá-los
+ */
+export interface TypeReview {
+  source: ParseResult
+  options: ProcessDataOptions
+}
+
+/**
+ * Importação parecida com schemas salvos, aguardando o usuário aplicar um
+ * deles ou seguir com os tipos inferidos
+ */
+export interface SchemaMatchReview extends TypeReview {
+  matches: SchemaMatch[]
+}
+
+/**
+ * Operação que pode ser desfeita: os dados antes e depois dela. Só vale
+ * enquanto os dados atuais forem os de `after`
+ */
+export interface UndoEntry {
+  label: string
+  before: ProcessedData
+  after: ProcessedData
+}
+
 interface AppState {
   // Dados carregados
   data: ProcessedData | null
@@ -24,32 +61,83 @@ interface AppState {
   // Configuração da empresa
   company: CompanyConfig
   isDarkMode: boolean
+  /** Fuso horário IANA para exibir data e hora (ausente = fuso do navegador) */
+  displayTimeZone?: string
   
   // Estado da tabela
   tableState: TableState
   
+  // Planilhas da pasta de trabalho (vazio quando o arquivo tem uma só)
+  sheets: WorkbookSheet[]
+  activeSheetIndex: number
+  showHiddenSheets: boolean
+  
   // Modo de edição
   isEditMode: boolean
   editingCell: { rowId: string; columnKey: string } | null
   
+  // Célula destacada ao navegar a partir do painel de validação
+  focusedCell: { rowId: string; columnKey: string } | null
+  
   // Schemas salvos
   savedSchemas: Record<string, DataSchema>
   
+  // Revisão dos tipos inferidos após a importação
+  typeReview: TypeReview | null
+  
+  // Schemas salvos parecidos com o arquivo importado
+  schemaMatch: SchemaMatchReview | null
+  
+  // Tabela de consulta (ex.: catálogo de produtos) para juntar aos dados
+  lookupData: ProcessedData | null
+  
+  // Comparação entre versões: a tabela mostra as alterações e os dados
+  // comparados ficam guardados para voltar a eles
+  diff: DataDiff | null
+  diffSource: ProcessedData | null
+  
+  // Última operação que pode ser desfeita
+  undoEntry: UndoEntry | null
+  
   // Actions - Dados
   setData: (data: ProcessedData | null) => void
   setLoading: (loading: boolean) => void
   setError: (error: string | null) => void
   clearData: () => void
+  /** Substitui os dados da planilha ativa, mantendo as demais planilhas */
+  replaceData: (data: ProcessedData) => void
+  setTypeReview: (review: TypeReview | null) => void
+  setSchemaMatch: (review: SchemaMatchReview | null) => void
+  setLookupData: (data: ProcessedData | null) => void
+  /** Mostra a comparação na tabela no lugar dos dados atuais */
+  showDiff: (diff: DataDiff) => void
+  /** Encerra a comparação e volta aos dados comparados */
+  closeDiff: () => void
+  
+  // Actions - Planilhas
+  setWorkbook: (sheets: ProcessedSheet[], activeIndex?: number) => void
+  setActiveSheet: (index: number) => void
+  setShowHiddenSheets: (show: boolean) => void
   
   // Actions - Edição
   setEditMode: (enabled: boolean) => void
   setEditingCell: (cell: { rowId: string; columnKey: string } | null) => void
   updateCell: (rowId: string, columnKey: string, value: CellValue) => void
+  /** Vai até a página da célula (limpando busca e filtros que a escondam) e a destaca */
+  focusCell: (rowId: string, columnKey: string) => void
+  clearFocusedCell: () => void
+  /** Acrescenta uma coluna calculada ao schema dos dados atuais e a exibe */
+  addComputedColumn: (column: ColumnDefinition) => void
+  /** Mescla grupos de linhas duplicadas em uma operação que pode ser desfeita */
+  mergeDuplicateRows: (groups: MergeGroup[]) => void
+  /** Desfaz a última operação, se os dados não mudaram desde ela */
+  undo: () => void
   
   // Actions - Empresa/Tema
   setCompany: (companyId: string) => void
   setCustomCompany: (config: CompanyConfig) => void
   toggleDarkMode: () => void
+  setDisplayTimeZone: (timeZone: string | undefined) => void
   
   // Actions - Tabela
   setSort: (sort: SortState | undefined) => void
@@ -81,6 +169,41 @@ const defaultTableState: TableState = {
   visibleColumns: [],
 }
 
+/**
+ * Cria o estado inicial da tabela para um conjunto de dados
+ */
+function createTableState(data: ProcessedData | null): TableState {
+  return {
+    ...defaultTableState,
+    visibleColumns: data?.schema.columns
+      .filter(c => !c.hidden)
+      .map(c => c.key) || [],
+    pagination: {
+      ...defaultTableState.pagination,
+      totalItems: data?.rows.length || 0,
+      totalPages: Math.ceil((data?.rows.length || 0) / defaultTableState.pagination.pageSize),
+    },
+    sort: data?.schema.defaultSort,
+  }
+}
+
+/**
+ * Aplica o fuso de exibição às colunas com data e hora
+ */
+function withTimeZone(data: ProcessedData, timeZone: string | undefined): ProcessedData {
+  return {
+    ...data,
+    schema: {
+      ...data.schema,
+      columns: data.schema.columns.map(column =>
+        column.format.type === 'datetime'
+          ? { ...column, format: { ...column.format, timeZone } }
+          : column
+      ),
+    },
+  }
+}
+
 export const useAppStore = create<AppState>()(
   persist(
     (set, get) => ({
@@ -91,9 +214,19 @@ export const useAppStore = create<AppState>()(
       company: companyPresets.default,
       isDarkMode: false,
       tableState: defaultTableState,
+      sheets: [],
+      activeSheetIndex: 0,
+      showHiddenSheets: false,
       isEditMode: false,
       editingCell: null,
+      focusedCell: null,
       savedSchemas: {},
+      typeReview: null,
+      schemaMatch: null,
+      lookupData: null,
+      diff: null,
+      diffSource: null,
+      undoEntry: null,
       
       // Actions - Dados
       setData: (data) => {
@@ -102,18 +235,12 @@ export const useAppStore = create<AppState>()(
           error: null,
           isEditMode: false,
           editingCell: null,
-          tableState: {
-            ...defaultTableState,
-            visibleColumns: data?.schema.columns
-              .filter(c => !c.hidden)
-              .map(c => c.key) || [],
-            pagination: {
-              ...defaultTableState.pagination,
-              totalItems: data?.rows.length || 0,
-              totalPages: Math.ceil((data?.rows.length || 0) / defaultTableState.pagination.pageSize),
-            },
-            sort: data?.schema.defaultSort,
-          },
+          sheets: [],
+          activeSheetIndex: 0,
+          diff: null,
+          diffSource: null,
+          undoEntry: null,
+          tableState: createTableState(data),
         })
       },
       
@@ -126,9 +253,108 @@ export const useAppStore = create<AppState>()(
         error: null, 
         isEditMode: false,
         editingCell: null,
-        tableState: defaultTableState 
+        focusedCell: null,
+        sheets: [],
+        activeSheetIndex: 0,
+        tableState: defaultTableState,
+        typeReview: null,
+        schemaMatch: null,
+        lookupData: null,
+        diff: null,
+        diffSource: null,
+        undoEntry: null,
+      }),
+      
+      replaceData: (data) => set({
+        data,
+        isEditMode: false,
+        editingCell: null,
+        diff: null,
+        diffSource: null,
+        tableState: createTableState(data),
+      }),
+      
+      setTypeReview: (typeReview) => set({ typeReview }),
+      
+      setSchemaMatch: (schemaMatch) => set({ schemaMatch }),
+      
+      setLookupData: (lookupData) => set({ lookupData }),
+      
+      showDiff: (diff) => set((state) => {
+        const data = diffToProcessedData(diff)
+        return {
+          diff,
+          diffSource: state.diffSource ?? state.data,
+          data,
+          isEditMode: false,
+          editingCell: null,
+          focusedCell: null,
+          tableState: createTableState(data),
+        }
       }),
       
+      closeDiff: () => set((state) => ({
+        diff: null,
+        diffSource: null,
+        data: state.diffSource,
+        tableState: createTableState(state.diffSource),
+      })),
+      
+      // Actions - Planilhas
+      setWorkbook: (processedSheets, activeIndex) => {
+        const sheets: WorkbookSheet[] = processedSheets.map(({ info, data }) => ({
+          info,
+          data,
+          tableState: createTableState(data),
+        }))
+        
+        const firstVisible = sheets.findIndex(s => s.info.visibility === 'visible')
+        const index = activeIndex ?? Math.max(0, firstVisible)
+        const active = sheets[index]
+        
+        set({
+          sheets,
+          activeSheetIndex: index,
+          data: active?.data || null,
+          tableState: active?.tableState || defaultTableState,
+          error: null,
+          isEditMode: false,
+          editingCell: null,
+          diff: null,
+          diffSource: null,
+          undoEntry: null,
+        })
+      },
+      
+      setActiveSheet: (index) => set((state) => {
+        if (index === state.activeSheetIndex || !state.sheets[index]) return state
+        
+        // Guarda dados (inclusive edições) e estado da planilha atual; uma
+        // comparação aberta é encerrada, guardando os dados comparados
+        const current = state.diffSource
+          ? { data: state.diffSource, tableState: createTableState(state.diffSource) }
+          : { data: state.data, tableState: state.tableState }
+        const sheets = state.sheets.map((sheet, i) => 
+          i === state.activeSheetIndex && current.data
+            ? { ...sheet, data: current.data, tableState: current.tableState }
+            : sheet
+        )
+        const target = sheets[index]
+        
+        return {
+          sheets,
+          activeSheetIndex: index,
+          data: target.data,
+          tableState: target.tableState,
+          isEditMode: false,
+          editingCell: null,
+          diff: null,
+          diffSource: null,
+        }
+      }),
+      
+      setShowHiddenSheets: (showHiddenSheets) => set({ showHiddenSheets }),
+      
       // Actions - Edição
       setEditMode: (isEditMode) => set({ isEditMode, editingCell: null }),
       
@@ -137,19 +363,70 @@ export const useAppStore = create<AppState>()(
       updateCell: (rowId, columnKey, value) => set((state) => {
         if (!state.data) return state
         
-        const updatedRows = state.data.rows.map(row => {
-          if (row._id === rowId) {
-            return { ...row, [columnKey]: value }
-          }
-          return row
-        })
+        // Fórmulas ("=..."), dependentes e colunas calculadas são
+        // recalculados; depois, as regras
+        return {
+          data: validateData(computeData(applyCellEdit(state.data, rowId, columnKey, value))),
+          editingCell: null,
+        }
+      }),
+      
+      focusCell: (rowId, columnKey) => set((state) => {
+        if (!state.data) return state
+        
+        let tableState = state.tableState
+        let position = getViewRows(state.data, tableState).findIndex(row => row._id === rowId)
+        if (position < 0) {
+          tableState = { ...tableState, search: '', filters: [] }
+          position = getViewRows(state.data, tableState).findIndex(row => row._id === rowId)
+        }
+        if (position < 0) return state
         
+        const { visibleColumns, pagination } = tableState
         return {
-          data: {
-            ...state.data,
-            rows: updatedRows,
+          focusedCell: { rowId, columnKey },
+          tableState: {
+            ...tableState,
+            visibleColumns: visibleColumns.includes(columnKey) ? visibleColumns : [...visibleColumns, columnKey],
+            pagination: { ...pagination, page: Math.floor(position / pagination.pageSize) + 1 },
           },
+        }
+      }),
+      
+      clearFocusedCell: () => set({ focusedCell: null }),
+      
+      addComputedColumn: (column) => set((state) => {
+        if (!state.data) return state
+        
+        const schema = { ...state.data.schema, columns: [...state.data.schema.columns, column] }
+        const { visibleColumns } = state.tableState
+        return {
+          data: validateData(computeData({ ...state.data, schema })),
+          tableState: { ...state.tableState, visibleColumns: [...visibleColumns, column.key] },
+        }
+      }),
+      
+      mergeDuplicateRows: (groups) => set((state) => {
+        if (!state.data || groups.length === 0) return state
+        
+        const data = mergeDuplicates(state.data, groups)
+        return {
+          data,
+          editingCell: null,
+          undoEntry: { label: 'Mesclar duplicatas', before: state.data, after: data },
+          tableState: { ...state.tableState, pagination: { ...state.tableState.pagination, page: 1 } },
+        }
+      }),
+      
+      undo: () => set((state) => {
+        const entry = state.undoEntry
+        if (!entry || state.data !== entry.after) return state
+        
+        return {
+          data: entry.before,
           editingCell: null,
+          undoEntry: null,
+          tableState: { ...state.tableState, pagination: { ...state.tableState.pagination, page: 1 } },
         }
       }),
       
@@ -163,6 +440,12 @@ export const useAppStore = create<AppState>()(
       
       toggleDarkMode: () => set((state) => ({ isDarkMode: !state.isDarkMode })),
       
+      setDisplayTimeZone: (displayTimeZone) => set((state) => ({
+        displayTimeZone,
+        data: state.data && withTimeZone(state.data, displayTimeZone),
+        sheets: state.sheets.map(sheet => ({ ...sheet, data: withTimeZone(sheet.data, displayTimeZone) })),
+      })),
+      
       // Actions - Tabela
       setSort: (sort) => set((state) => ({
         tableState: { ...state.tableState, sort },
@@ -269,6 +552,8 @@ export const useAppStore = create<AppState>()(
       partialize: (state) => ({
         isDarkMode: state.isDarkMode,
         company: state.company,
+        displayTimeZone: state.displayTimeZone,
+        showHiddenSheets: state.showHiddenSheets,
         savedSchemas: state.savedSchemas,
       }),
     }
@@ -280,13 +565,9 @@ export const useAppStore = create<AppState>()(
 // ============================================
 
 /**
- * Hook para obter dados filtrados e paginados
+ * Linhas na ordem exibida: busca, filtros e ordenação, sem paginação
  */
-export function useFilteredData() {
-  const { data, tableState } = useAppStore()
-  
-  if (!data) return { rows: [], totalFiltered: 0 }
-  
+export function getViewRows(data: ProcessedData, tableState: TableState): DataRow[] {
   let filteredRows = [...data.rows]
   
   // Aplicar busca
@@ -358,6 +639,18 @@ export function useFilteredData() {
     })
   }
   
+  return filteredRows
+}
+
+/**
+ * Hook para obter dados filtrados e paginados
+ */
+export function useFilteredData() {
+  const { data, tableState } = useAppStore()
+  
+  if (!data) return { rows: [], totalFiltered: 0 }
+  
+  const filteredRows = getViewRows(data, tableState)
   const totalFiltered = filteredRows.length
   
   // Aplicar paginação
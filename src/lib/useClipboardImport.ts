@@ -0,0 +1,57 @@
+'use client'
+
+import { useCallback } from 'react'
+import { processData } from './excel-parser'
+import { useAppStore } from './store'
+import {
+  clipboardToParseResult,
+  getClipboardSourceName,
+  readClipboard,
+  type ClipboardContent,
+} from './clipboard-import'
+
+interface UseClipboardImportReturn {
+  /** Importa conteúdo já obtido (ex.: de um evento de colar) */
+  importContent: (content: ClipboardContent) => void
+  /** Lê a área de transferência pela Clipboard API e importa */
+  pasteFromClipboard: () => Promise<void>
+}
+
+/**
+ * Hook para importar tabelas coladas, com o mesmo processamento de um upload
+ */
+export function useClipboardImport(): UseClipboardImportReturn {
+  const { company, displayTimeZone, setData, setLoading, setError } = useAppStore()
+
+  const importContent = useCallback((content: ClipboardContent) => {
+    setLoading(true)
+    try {
+      const parseResult = clipboardToParseResult(content)
+      const processed = processData(parseResult, undefined, {
+        sourceFileName: getClipboardSourceName(),
+        locale: company.defaultLocale,
+        currencyCode: company.currencyCode,
+        dateFormat: company.dateFormat,
+        timeZone: displayTimeZone,
+      })
+      setData(processed)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erro ao importar dados colados')
+    } finally {
+      setLoading(false)
+    }
+  }, [company, displayTimeZone, setData, setLoading, setError])
+
+  const pasteFromClipboard = useCallback(async () => {
+    let content: ClipboardContent
+    try {
+      content = await readClipboard()
+    } catch {
+      setError('Não foi possível ler a área de transferência. Clique na área de colagem e use Ctrl+V.')
+      return
+    }
+    importContent(content)
+  }, [importContent, setError])
+
+  return { importContent, pasteFromClipboard }
+}
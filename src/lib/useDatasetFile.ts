@@ -0,0 +1,59 @@
+'use client'
+
+import { useCallback, useState } from 'react'
+import type { ProcessedData } from '@/types'
+import {
+  detectFileFormat,
+  getSupportedExtensions,
+  processData,
+  readFileHead,
+  FORMAT_HEAD_BYTES,
+} from './excel-parser'
+import { useAppStore } from './store'
+import { useExcelWorker } from './useExcelWorker'
+
+interface UseDatasetFileReturn {
+  /** Lê e processa o arquivo; devolve null (com `error`) se não for possível */
+  readFile: (file: File) => Promise<ProcessedData | null>
+  isReading: boolean
+  error: string | null
+}
+
+/**
+ * Hook para carregar um arquivo auxiliar (tabela de consulta, versão
+ * anterior) sem substituir os dados atuais
+ */
+export function useDatasetFile(): UseDatasetFileReturn {
+  const { company, displayTimeZone } = useAppStore()
+  const { parseFile } = useExcelWorker()
+  const [isReading, setIsReading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const readFile = useCallback(async (file: File) => {
+    setIsReading(true)
+    setError(null)
+    try {
+      const sample = await readFileHead(file, FORMAT_HEAD_BYTES)
+      if (!detectFileFormat(file.name, sample)) {
+        throw new Error(`Formato de arquivo não suportado. Use ${getSupportedExtensions().join(', ')}`)
+      }
+      const parseResult = await parseFile(file)
+      if (parseResult.headers.length === 0) throw new Error('Não foi possível ler os dados do arquivo')
+
+      return processData(parseResult, undefined, {
+        sourceFileName: file.name,
+        locale: company.defaultLocale,
+        currencyCode: company.currencyCode,
+        dateFormat: company.dateFormat,
+        timeZone: displayTimeZone,
+      })
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Erro ao ler o arquivo')
+      return null
+    } finally {
+      setIsReading(false)
+    }
+  }, [company, displayTimeZone, parseFile])
+
+  return { readFile, isReading, error }
+}
@@ -1,7 +1,9 @@
 'use client'
 
 import { useCallback, useRef, useState } from 'react'
-import type { CellValue } from '@/types'
+import type { CellValue, CellSpan, ColumnFormat, SheetFormulas } from '@/types'
+import type { ParseOptions, SheetParseResult } from './excel-parser'
+import { createAbortError, isAbortError } from './csv-stream'
 
 // ============================================
 // TYPES (shared with worker)
@@ -15,9 +17,16 @@ export interface ParseProgress {
 
 export interface ParseResultPayload {
   headers: string[]
+  sourceHeaders?: string[]
   data: Record<string, CellValue>[]
   rawData: unknown[][]
   errors: string[]
+  headerRow?: number
+  headerRowCount?: number
+  merges?: CellSpan[]
+  columnFormats?: Record<string, ColumnFormat>
+  formulas?: SheetFormulas
+  sheets?: SheetParseResult[]
 }
 
 // ============================================
@@ -29,7 +38,9 @@ interface UseExcelWorkerOptions {
 }
 
 interface UseExcelWorkerReturn {
-  parseFile: (file: File) => Promise<ParseResultPayload>
+  parseFile: (file: File, options?: ParseOptions) => Promise<ParseResultPayload>
+  /** Cancela a importação em andamento; parseFile rejeita com AbortError */
+  abort: () => void
   isWorkerSupported: boolean
   isLoading: boolean
   progress: ParseProgress | null
@@ -43,6 +54,7 @@ interface UseExcelWorkerReturn {
 export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWorkerReturn {
   const { onProgress } = options
   const workerRef = useRef<Worker | null>(null)
+  const cancelRef = useRef<(() => void) | null>(null)
   const [isLoading, setIsLoading] = useState(false)
   const [progress, setProgress] = useState<ParseProgress | null>(null)
   const [error, setError] = useState<string | null>(null)
@@ -50,21 +62,10 @@ export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWor
   // Check if workers are supported
   const isWorkerSupported = typeof Worker !== 'undefined'
   
-  /**
-   * Detect file type from filename
-   */
-  const detectFileType = useCallback((fileName: string): 'xlsx' | 'xls' | 'csv' | 'unknown' => {
-    const extension = fileName.split('.').pop()?.toLowerCase()
-    if (extension === 'xlsx') return 'xlsx'
-    if (extension === 'xls') return 'xls'
-    if (extension === 'csv') return 'csv'
-    return 'unknown'
-  }, [])
-  
   /**
    * Parse file using Web Worker
    */
-  const parseWithWorker = useCallback((file: File): Promise<ParseResultPayload> => {
+  const parseWithWorker = useCallback((file: File, parseOptions?: ParseOptions): Promise<ParseResultPayload> => {
     return new Promise((resolve, reject) => {
       // Create worker
       const worker = new Worker(
@@ -73,10 +74,34 @@ export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWor
       )
       workerRef.current = worker
       
+      // Após cancelar, mensagens tardias do worker são ignoradas
+      let settled = false
+      const dispose = () => {
+        worker.terminate()
+        if (workerRef.current === worker) workerRef.current = null
+      }
+      
+      cancelRef.current = () => {
+        if (settled) return
+        settled = true
+        cancelRef.current = null
+        // Pede ao worker que pare a leitura; encerra à força se não responder
+        worker.postMessage({ type: 'cancel' })
+        setTimeout(dispose, 500)
+        reject(createAbortError())
+      }
+      
       // Handle messages from worker
       worker.onmessage = (event) => {
         const { type, payload } = event.data
         
+        if (type === 'cancelled') {
+          dispose()
+          return
+        }
+        
+        if (settled) return
+        
         switch (type) {
           case 'ready':
             // Worker is ready, now we can send the file
@@ -89,18 +114,20 @@ export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWor
             break
             
           case 'result':
+            settled = true
+            cancelRef.current = null
             setIsLoading(false)
             setProgress(null)
-            worker.terminate()
-            workerRef.current = null
+            dispose()
             resolve(payload as ParseResultPayload)
             break
             
           case 'error':
+            settled = true
+            cancelRef.current = null
             setIsLoading(false)
             setError(payload.message)
-            worker.terminate()
-            workerRef.current = null
+            dispose()
             reject(new Error(payload.message))
             break
         }
@@ -108,39 +135,31 @@ export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWor
       
       // Handle worker errors
       worker.onerror = (event) => {
+        if (settled) return
+        settled = true
+        cancelRef.current = null
         setIsLoading(false)
         setError(event.message)
-        worker.terminate()
-        workerRef.current = null
+        dispose()
         reject(new Error(event.message))
       }
       
-      // Read file and send to worker
-      file.arrayBuffer().then((arrayBuffer) => {
-        const fileType = detectFileType(file.name)
-        
-        if (fileType === 'unknown') {
-          setIsLoading(false)
-          reject(new Error(`Tipo de arquivo não suportado: ${file.name}`))
-          return
+      // O worker identifica o formato pelo conteúdo e lê o File diretamente
+      worker.postMessage({
+        type: 'parse',
+        payload: {
+          file,
+          fileName: file.name,
+          options: parseOptions
         }
-        
-        worker.postMessage({
-          type: 'parse',
-          payload: {
-            fileData: arrayBuffer,
-            fileName: file.name,
-            fileType
-          }
-        }, [arrayBuffer]) // Transfer ownership for performance
       })
     })
-  }, [detectFileType, onProgress])
+  }, [onProgress])
   
   /**
    * Fallback: Parse file on main thread
    */
-  const parseWithoutWorker = useCallback(async (file: File): Promise<ParseResultPayload> => {
+  const parseWithoutWorker = useCallback(async (file: File, parseOptions?: ParseOptions): Promise<ParseResultPayload> => {
     // Dynamically import the parser
     const { parseFile } = await import('./excel-parser')
     
@@ -150,7 +169,15 @@ export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWor
       message: 'Processando...'
     })
     
-    const result = await parseFile(file)
+    const controller = new AbortController()
+    cancelRef.current = () => controller.abort()
+    
+    let result: ParseResultPayload
+    try {
+      result = await parseFile(file, parseOptions, controller.signal)
+    } finally {
+      cancelRef.current = null
+    }
     
     setProgress({
       stage: 'complete',
@@ -164,7 +191,7 @@ export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWor
   /**
    * Main parse function - uses worker if available
    */
-  const parseFile = useCallback(async (file: File): Promise<ParseResultPayload> => {
+  const parseFile = useCallback(async (file: File, parseOptions?: ParseOptions): Promise<ParseResultPayload> => {
     setIsLoading(true)
     setError(null)
     setProgress({
@@ -175,20 +202,33 @@ export function useExcelWorker(options: UseExcelWorkerOptions = {}): UseExcelWor
     
     try {
       if (isWorkerSupported) {
-        return await parseWithWorker(file)
+        return await parseWithWorker(file, parseOptions)
       } else {
-        return await parseWithoutWorker(file)
+        return await parseWithoutWorker(file, parseOptions)
       }
     } catch (err) {
       setIsLoading(false)
+      if (isAbortError(err)) {
+        // Cancelamento pelo usuário não é erro
+        setProgress(null)
+        throw err
+      }
       const message = err instanceof Error ? err.message : 'Erro ao processar arquivo'
       setError(message)
       throw err
     }
   }, [isWorkerSupported, parseWithWorker, parseWithoutWorker])
   
+  /**
+   * Cancel the import in progress, if any
+   */
+  const abort = useCallback(() => {
+    cancelRef.current?.()
+  }, [])
+  
   return {
     parseFile,
+    abort,
     isWorkerSupported,
     isLoading,
     progress,
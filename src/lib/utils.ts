@@ -3,6 +3,9 @@ import { twMerge } from 'tailwind-merge'
 import { format as formatDate, parseISO, isValid } from 'date-fns'
 import { ptBR } from 'date-fns/locale'
 import type { CellValue, ColumnFormat } from '@/types'
+import { getDateKind, toTimeZone } from './excel-dates'
+import { formatDuration } from './durations'
+import { formatDocument } from './br-documents'
 
 /**
  * Combina classes CSS com suporte a Tailwind
@@ -12,11 +15,14 @@ export function cn(...inputs: ClassValue[]) {
 }
 
 /**
- * Formata valor para exibição baseado no tipo
+ * Formata valor para exibição baseado no tipo, com prefixo/sufixo da coluna
  */
 export function formatValue(value: CellValue, format: ColumnFormat): string {
   if (value == null || value === '') return '—'
-  
+  return `${format.prefix ?? ''}${formatTypedValue(value, format)}${format.suffix ?? ''}`
+}
+
+function formatTypedValue(value: NonNullable<CellValue>, format: ColumnFormat): string {
   const { type, locale = 'pt-BR', currency = 'BRL', decimals = 2, dateFormat: dateFormatStr = 'dd/MM/yyyy' } = format
   
   switch (type) {
@@ -34,6 +40,13 @@ export function formatValue(value: CellValue, format: ColumnFormat): string {
         maximumFractionDigits: decimals,
       }).format(Number(value))
     
+    case 'integer':
+      // Inteiros costumam ser códigos e IDs: sem separador de milhar
+      return new Intl.NumberFormat(locale, {
+        maximumFractionDigits: 0,
+        useGrouping: false,
+      }).format(Number(value))
+    
     case 'percentage':
       return new Intl.NumberFormat(locale, {
         style: 'percent',
@@ -45,7 +58,20 @@ export function formatValue(value: CellValue, format: ColumnFormat): string {
     case 'datetime':
       const date = value instanceof Date ? value : parseISO(String(value))
       if (!isValid(date)) return String(value)
-      return formatDate(date, dateFormatStr, { locale: ptBR })
+      // Datas sem hora e horários isolados não mudam de fuso
+      const shown = type === 'datetime' && format.timeZone && getDateKind(date) !== 'time'
+        ? toTimeZone(date, format.timeZone)
+        : date
+      return formatDate(shown, dateFormatStr, { locale: ptBR })
+    
+    case 'time': {
+      const time = value instanceof Date ? value : parseISO(String(value))
+      if (!isValid(time)) return String(value)
+      return formatDate(time, format.dateFormat ?? 'HH:mm', { locale: ptBR })
+    }
+    
+    case 'duration':
+      return typeof value === 'number' ? formatDuration(value, format.dateFormat) : String(value)
     
     case 'boolean':
       return value ? 'Sim' : 'Não'
@@ -53,6 +79,12 @@ export function formatValue(value: CellValue, format: ColumnFormat): string {
     case 'progress':
       return `${Number(value).toFixed(0)}%`
     
+    case 'cpf':
+    case 'cnpj':
+    case 'cep':
+    case 'plate':
+      return formatDocument(String(value), type)
+    
     default:
       return String(value)
   }
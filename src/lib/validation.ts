@@ -0,0 +1,197 @@
+import { parseISO } from 'date-fns'
+import type {
+  CellValue,
+  ColumnDefinition,
+  DataRow,
+  DataSchema,
+  ProcessedData,
+  ValidationRule,
+  ValidationViolation,
+} from '@/types'
+import { isFormulaError, parseFormula, type FormulaNode } from './formula-engine'
+import { evaluateRowExpression } from './formula-sheet'
+import { formatValue } from './utils'
+
+// ============================================
+// REGRAS DE VALIDAÇÃO DO SCHEMA
+// ============================================
+
+export const validationRuleLabels: Record<ValidationRule, string> = {
+  required: 'Obrigatório',
+  unique: 'Único',
+  min: 'Mínimo',
+  max: 'Máximo',
+  pattern: 'Padrão',
+  allowedValues: 'Valores permitidos',
+  expression: 'Expressão',
+}
+
+function isEmptyValue(value: CellValue): boolean {
+  return value == null || value === ''
+}
+
+/**
+ * Valor comparável com mínimo e máximo: números e datas (em milissegundos)
+ */
+function toComparable(value: CellValue): number | null {
+  if (value instanceof Date) return value.getTime()
+  return typeof value === 'number' ? value : null
+}
+
+/**
+ * Limite da regra: número, ou data ISO em colunas de data
+ */
+function toBound(bound: number | string): CellValue {
+  if (typeof bound === 'number') return bound
+  const date = parseISO(bound)
+  if (!isNaN(date.getTime())) return date
+  const number = Number(bound)
+  return bound.trim() !== '' && !isNaN(number) ? number : null
+}
+
+/**
+ * Texto do valor para padrões e valores permitidos
+ */
+function toText(value: CellValue, column: ColumnDefinition): string {
+  if (typeof value === 'string') return value
+  if (value instanceof Date) return formatValue(value, column.format)
+  return String(value)
+}
+
+/**
+ * Chave de comparação para a regra de valor único
+ */
+function toUniqueKey(value: CellValue): string {
+  if (value instanceof Date) return `date:${value.getTime()}`
+  return `${typeof value}:${String(value)}`
+}
+
+/**
+ * Regras de uma coluna já preparadas (limites, expressões regulares e
+ * expressões analisadas uma só vez)
+ */
+interface CompiledRules {
+  column: ColumnDefinition
+  min?: { value: CellValue; comparable: number }
+  max?: { value: CellValue; comparable: number }
+  pattern?: RegExp
+  allowedValues?: Set<string>
+  expression?: FormulaNode | null
+  seen?: Map<string, number>
+}
+
+function compileRules(column: ColumnDefinition): CompiledRules {
+  const rules = column.rules ?? {}
+  const compiled: CompiledRules = { column }
+
+  for (const name of ['min', 'max'] as const) {
+    const bound = rules[name]
+    if (bound == null) continue
+    const value = toBound(bound)
+    const comparable = toComparable(value)
+    if (comparable != null) compiled[name] = { value, comparable }
+  }
+
+  if (rules.pattern) {
+    try {
+      compiled.pattern = new RegExp(`^(?:${rules.pattern})$`)
+    } catch {
+      // Padrão inválido (o schema é validado pelo ColumnRulesSchema)
+    }
+  }
+
+  if (rules.allowedValues?.length) compiled.allowedValues = new Set(rules.allowedValues)
+
+  if (rules.expression) {
+    try {
+      compiled.expression = parseFormula(rules.expression)
+    } catch {
+      compiled.expression = null
+    }
+  }
+
+  if (rules.unique) compiled.seen = new Map()
+
+  return compiled
+}
+
+/**
+ * Schema com alguma regra de validação
+ */
+export function hasValidationRules(schema: DataSchema): boolean {
+  return schema.columns.some(column => column.rules && Object.keys(column.rules).length > 0)
+}
+
+/**
+ * Confere as linhas contra as regras das colunas. As violações saem na
+ * ordem das linhas e, dentro de cada linha, na ordem das colunas; em
+ * valores repetidos, a primeira ocorrência é a válida.
+ */
+export function validateRows(schema: DataSchema, rows: DataRow[]): ValidationViolation[] {
+  const compiled = schema.columns.filter(column => column.rules).map(compileRules)
+  const violations: ValidationViolation[] = []
+
+  for (const row of rows) {
+    for (const rules of compiled) {
+      const { column } = rules
+      const value = row[column.key] as CellValue
+      const report = (rule: ValidationRule, message: string) => {
+        violations.push({ rowId: row._id, rowIndex: row._rowIndex, columnKey: column.key, rule, message })
+      }
+
+      if (isEmptyValue(value)) {
+        if (column.rules?.required) report('required', 'Valor obrigatório')
+        continue
+      }
+
+      if (rules.seen) {
+        const key = toUniqueKey(value)
+        const first = rules.seen.get(key)
+        if (first != null) {
+          report('unique', `Valor repetido (já aparece na linha ${first + 1})`)
+        } else {
+          rules.seen.set(key, row._rowIndex)
+        }
+      }
+
+      const comparable = toComparable(value)
+      if (rules.min && comparable != null && comparable < rules.min.comparable) {
+        report('min', `Menor que o mínimo (${formatValue(rules.min.value, column.format)})`)
+      }
+      if (rules.max && comparable != null && comparable > rules.max.comparable) {
+        report('max', `Maior que o máximo (${formatValue(rules.max.value, column.format)})`)
+      }
+
+      if (rules.pattern && !rules.pattern.test(toText(value, column))) {
+        report('pattern', 'Fora do padrão esperado')
+      }
+
+      if (rules.allowedValues && !rules.allowedValues.has(toText(value, column))) {
+        report('allowedValues', `"${toText(value, column)}" não está entre os valores permitidos`)
+      }
+
+      if (rules.expression !== undefined) {
+        const result = rules.expression && evaluateRowExpression(rules.expression, row, schema.columns)
+        const passed = result === true || (typeof result === 'number' && result !== 0)
+        if (!passed) {
+          const reason = rules.expression === null || isFormulaError(result)
+            ? `Expressão inválida: ${column.rules?.expression}`
+            : column.rules?.message ?? `Não atende à regra ${column.rules?.expression}`
+          report('expression', reason)
+        }
+      }
+    }
+  }
+
+  return violations
+}
+
+/**
+ * Recalcula as violações dos dados (ex.: após editar uma célula)
+ */
+export function validateData(data: ProcessedData): ProcessedData {
+  if (!hasValidationRules(data.schema)) {
+    return data.violations ? { ...data, violations: undefined } : data
+  }
+  return { ...data, violations: validateRows(data.schema, data.rows) }
+}
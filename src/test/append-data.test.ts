@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+import { processData, type ParseResult } from '@/lib/excel-parser'
+import { appendSources, getSourceName, SOURCE_COLUMN_KEY } from '@/lib/append-data'
+
+function source(headers: string[], data: Record<string, string>[], sourceHeaders?: string[]): ParseResult {
+  return { headers, sourceHeaders, data, rawData: [], errors: [] }
+}
+
+const norte = source(['regiao', 'valor', 'data'], [
+  { regiao: 'Norte', valor: '1.250,50', data: '01/03/2024' },
+  { regiao: 'Norte', valor: '700', data: '02/03/2024' },
+])
+
+const sul = source(['regiao', 'valor', 'data'], [
+  { regiao: 'Sul', valor: '3', data: '05/03/2024' },
+])
+
+describe('appendSources', () => {
+  it('unions files with a source column and per-file counts', () => {
+    const result = appendSources([
+      { name: 'norte.csv', source: norte },
+      { name: 'sul.csv', source: sul },
+    ])
+
+    expect(result.schema.columns.map(column => column.key)).toEqual([SOURCE_COLUMN_KEY, 'regiao', 'valor', 'data'])
+    expect(result.rows.map(row => [row._source, row.regiao, row.valor])).toEqual([
+      ['norte.csv', 'Norte', 1250.5],
+      ['norte.csv', 'Norte', 700],
+      ['sul.csv', 'Sul', 3],
+    ])
+    expect(result.rows.map(row => row._rowIndex)).toEqual([0, 1, 2])
+    expect(result.metadata.warnings).toEqual(['"norte.csv": 2 linhas', '"sul.csv": 1 linhas'])
+  })
+
+  it('reconciles columns by alias and appends new ones', () => {
+    const leste = source(['vlr', 'regiao', 'vendedor'], [
+      { vlr: '4', regiao: 'Leste', vendedor: 'Ana' },
+    ], ['Vlr', 'Região', 'Vendedor'])
+    const base = processData(norte, undefined, { sourceFileName: 'norte.csv' })
+    const schema = {
+      ...base.schema,
+      columns: base.schema.columns.map(column => column.key === 'valor' ? { ...column, aliases: ['Vlr'] } : column),
+    }
+
+    const result = appendSources([{ name: 'leste.csv', source: leste }], { ...base, schema })
+
+    expect(result.schema.columns.map(column => column.key)).toEqual([SOURCE_COLUMN_KEY, 'regiao', 'valor', 'data', 'vendedor'])
+    expect(result.rows[2]).toMatchObject({ _source: 'leste.csv', valor: 4, regiao: 'Leste', vendedor: 'Ana', data: null })
+    expect(result.rows[0]).toMatchObject({ _source: 'norte.csv', vendedor: null })
+    expect(result.rows.map(row => row._rowIndex)).toEqual([0, 1, 2])
+  })
+
+  it('reports type conflicts and keeps ids unique across files', () => {
+    const oeste = source(['regiao', 'valor', 'data'], [
+      { regiao: 'Oeste', valor: 'a combinar', data: '05/03/2024' },
+    ])
+    const result = appendSources([
+      { name: 'norte.csv', source: norte },
+      { name: 'oeste.csv', source: oeste },
+      { name: 'norte-copia.csv', source: norte },
+    ])
+
+    expect(result.metadata.warnings).toContain('"oeste.csv", coluna "Valor": valores de Texto em uma coluna de Número')
+    expect(result.metadata.warnings).toContain('Linha 3, coluna "Valor": "a combinar" não é um número válido')
+    expect(new Set(result.rows.map(row => row._id)).size).toBe(result.rows.length)
+  })
+
+  it('keeps the ids of loaded and edited rows when appending', () => {
+    const base = processData(norte, undefined, { sourceFileName: 'norte.csv' })
+    const edited = { ...base, rows: [{ ...base.rows[0], valor: 999 }, base.rows[1]] }
+    const ids = edited.rows.map(row => row._id)
+
+    const result = appendSources([{ name: 'norte-copia.csv', source: norte }], edited)
+
+    expect(result.rows.slice(0, 2).map(row => row._id)).toEqual(ids)
+    expect(result.rows[0]).toMatchObject({ _source: 'norte.csv', valor: 999 })
+    expect(new Set(result.rows.map(row => row._id)).size).toBe(4)
+  })
+
+  it('names workbook sheets after the file', () => {
+    expect(getSourceName('vendas.xlsx', 'Sul')).toBe('vendas.xlsx / Sul')
+    expect(getSourceName('vendas.csv')).toBe('vendas.csv')
+  })
+})
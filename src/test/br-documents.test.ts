@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  detectDocumentType,
+  formatDocument,
+  isValidDocument,
+  normalizeDocument,
+} from '@/lib/br-documents'
+import { analyzeColumnType, createExportWorkbook, exportData, processData } from '@/lib/excel-parser'
+import { formatValue } from '@/lib/utils'
+
+function readBlob(blob: Blob): Promise<string> {
+  return new Promise((resolve) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result))
+    reader.readAsText(blob)
+  })
+}
+
+describe('validation', () => {
+  it('checks CPF and CNPJ check digits', () => {
+    expect(isValidDocument('52998224725', 'cpf')).toBe(true)
+    expect(isValidDocument('52998224724', 'cpf')).toBe(false)
+    expect(isValidDocument('11111111111', 'cpf')).toBe(false)
+    expect(isValidDocument('11222333000181', 'cnpj')).toBe(true)
+    expect(isValidDocument('11222333000180', 'cnpj')).toBe(false)
+    // CNPJ alfanumérico
+    expect(isValidDocument('12ABC34501DE35', 'cnpj')).toBe(true)
+  })
+
+  it('checks CEP and plates', () => {
+    expect(isValidDocument('01310100', 'cep')).toBe(true)
+    expect(isValidDocument('0131010', 'cep')).toBe(false)
+    expect(isValidDocument('ABC1234', 'plate')).toBe(true)
+    expect(isValidDocument('BRA2E19', 'plate')).toBe(true)
+    expect(isValidDocument('AB12345', 'plate')).toBe(false)
+  })
+})
+
+describe('normalization and masks', () => {
+  it('restores leading zeros and strips masks', () => {
+    expect(normalizeDocument(1310100, 'cep')).toBe('01310100')
+    expect(normalizeDocument('529.982.247-25', 'cpf')).toBe('52998224725')
+    expect(normalizeDocument('12.abc.345/01de-35', 'cnpj')).toBe('12ABC34501DE35')
+    expect(normalizeDocument('abc-1234', 'plate')).toBe('ABC1234')
+    expect(normalizeDocument('123', 'plate')).toBe('123')
+  })
+
+  it('applies the official masks', () => {
+    expect(formatDocument('52998224725', 'cpf')).toBe('529.982.247-25')
+    expect(formatDocument('11222333000181', 'cnpj')).toBe('11.222.333/0001-81')
+    expect(formatDocument('01310100', 'cep')).toBe('01310-100')
+    expect(formatDocument('ABC1234', 'plate')).toBe('ABC-1234')
+    expect(formatDocument('BRA2E19', 'plate')).toBe('BRA2E19')
+    expect(formatValue('123', { type: 'cpf' })).toBe('123')
+  })
+})
+
+describe('inference', () => {
+  it('detects documents before phone and number rules', () => {
+    expect(detectDocumentType('529.982.247-25')).toBe('cpf')
+    expect(detectDocumentType('52998224725')).toBe('cpf')
+    expect(detectDocumentType('11987654321')).toBeNull()
+
+    expect(analyzeColumnType(['529.982.247-25', '111.444.777-35', '123.456.789-00']).type).toBe('cpf')
+    expect(analyzeColumnType(['11222333000181', '11.444.777/0001-61']).type).toBe('cnpj')
+    expect(analyzeColumnType(['01310-100', '20040-002']).type).toBe('cep')
+    expect(analyzeColumnType(['ABC-1234', 'BRA2E19']).type).toBe('plate')
+  })
+
+  it('pads numeric CPFs and CNPJs that lost their leading zeros', () => {
+    expect(detectDocumentType(1234567890)).toBe('cpf')
+    expect(detectDocumentType(191)).toBeNull()
+    expect(detectDocumentType(191000000116)).toBe('cnpj')
+    expect(detectDocumentType(1222333000128)).toBe('cnpj')
+    expect(detectDocumentType(1222333000129)).toBeNull()
+
+    expect(analyzeColumnType([1234567890, 52998224725, 11144477735]).type).toBe('cpf')
+    expect(analyzeColumnType([191000000116, 1222333000128]).type).toBe('cnpj')
+  })
+
+  it('detects unmasked CEPs only in columns with a CEP header', () => {
+    expect(analyzeColumnType(['01310100', '20040002', '70040010'], ',', undefined, 'cep').type).toBe('cep')
+    expect(analyzeColumnType(['01310100', '20040002', '70040010'], ',', undefined, 'codigo').type).not.toBe('cep')
+    expect(analyzeColumnType(['20240115', '20240131', '20240229'], ',', undefined, 'data_emissao').type).not.toBe('cep')
+    expect(analyzeColumnType([1310100, 20040002, 70040010]).type).toBe('integer')
+    expect(analyzeColumnType([1310100, 20040002, 70040010], ',', undefined, 'CEP de entrega').type).toBe('cep')
+    expect(analyzeColumnType([1310100, 20040002], ',', undefined, 'receptor').type).toBe('integer')
+  })
+
+  it('pads numeric CEPs in a CEP column', () => {
+    const result = processData({
+      headers: ['cep'],
+      data: [{ cep: 1310100 }, { cep: 20040002 }],
+      rawData: [],
+      errors: [],
+    })
+
+    expect(result.schema.columns[0].format.type).toBe('cep')
+    expect(result.rows.map(row => row.cep)).toEqual(['01310100', '20040002'])
+  })
+
+  it('keeps invalid values and warns about them', () => {
+    const result = processData({
+      headers: ['cpf'],
+      data: [{ cpf: '529.982.247-25' }, { cpf: '111.444.777-35' }, { cpf: '123.456.789-00' }],
+      rawData: [],
+      errors: [],
+    })
+
+    expect(result.rows.map(row => row.cpf)).toEqual(['52998224725', '11144477735', '12345678900'])
+    expect(result.metadata.warnings).toEqual(['Linha 3, coluna "Cpf": "123.456.789-00" não é um CPF válido'])
+  })
+})
+
+describe('export', () => {
+  const data = processData({
+    headers: ['cep'],
+    data: [{ cep: '01310-100' }, { cep: '20040-002' }],
+    rawData: [],
+    errors: [],
+  })
+
+  it('exports masked values by default and digits on request', async () => {
+    const masked = createExportWorkbook(data)
+    expect(masked.Sheets[masked.SheetNames[0]].A2).toMatchObject({ t: 's', v: '01310-100' })
+
+    const digits = createExportWorkbook(data, { documents: 'digits' })
+    expect(digits.Sheets[digits.SheetNames[0]].A2).toMatchObject({ t: 's', v: '01310100' })
+
+    const json = JSON.parse(await readBlob(exportData(data, 'json', { documents: 'digits' })))
+    expect(json).toEqual([{ Cep: '01310100' }, { Cep: '20040002' }])
+  })
+
+  it('keeps the leading zeros through an xlsx round trip', () => {
+    const bytes = XLSX.write(createExportWorkbook(data, { documents: 'digits' }), { bookType: 'xlsx', type: 'array' })
+    const workbook = XLSX.read(bytes, { type: 'array' })
+    expect(workbook.Sheets[workbook.SheetNames[0]].A2.v).toBe('01310100')
+  })
+})
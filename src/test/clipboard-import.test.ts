@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { processData } from '@/lib/excel-parser'
+import {
+  clipboardToParseResult,
+  getClipboardSourceName,
+  parseClipboardHTML,
+  parseClipboardText,
+} from '@/lib/clipboard-import'
+
+describe('parseClipboardText', () => {
+  it('reads tab-separated ranges copied from spreadsheets', () => {
+    const rows = parseClipboardText('Produto\tPreço\r\nCaneta\t1,50\r\n"Lápis\nHB"\t0,99\r\n')
+
+    expect(rows).toEqual([
+      ['Produto', 'Preço'],
+      ['Caneta', 1.5],
+      ['Lápis\nHB', 0.99],
+    ])
+  })
+})
+
+describe('parseClipboardHTML', () => {
+  it('returns null without a table', () => {
+    expect(parseClipboardHTML('<p>texto</p>')).toBeNull()
+  })
+
+  it('places merged cells on the grid and skips empty rows', () => {
+    const rows = parseClipboardHTML(`
+      <table>
+        <tr><th colspan="2">Região</th><th>Total</th></tr>
+        <tr><td rowspan="2">Sul</td><td>RS</td><td>10</td></tr>
+        <tr><td>SC</td><td>20</td></tr>
+        <tr><td></td><td></td><td></td></tr>
+      </table>
+    `)
+
+    expect(rows).toEqual([
+      ['Região', null, 'Total'],
+      ['Sul', 'RS', 10],
+      [null, 'SC', 20],
+    ])
+  })
+
+  it('prefers the raw number Excel stores in x:num', () => {
+    const rows = parseClipboardHTML(
+      '<table><tr><td>Valor</td></tr><tr><td x:num="1234.5">R$ 1.234,50</td></tr></table>'
+    )
+
+    expect(rows?.[1][0]).toBe(1234.5)
+  })
+})
+
+describe('clipboardToParseResult', () => {
+  it('uses the HTML table and falls back to the text', () => {
+    const fromHtml = clipboardToParseResult({
+      html: '<table><tr><td>nome</td></tr><tr><td>Ana</td></tr></table>',
+      text: 'ignorado',
+    })
+    expect(fromHtml.data).toEqual([{ nome: 'Ana' }])
+
+    const fromText = clipboardToParseResult({ html: '<b>sem tabela</b>', text: 'nome\tidade\nAna\t30' })
+    expect(fromText.data).toEqual([{ nome: 'Ana', idade: 30 }])
+  })
+
+  it('rejects empty content', () => {
+    expect(() => clipboardToParseResult({ text: '' })).toThrow('não contém uma tabela')
+  })
+
+  it('runs through processData like an uploaded file', () => {
+    const sourceFileName = getClipboardSourceName(new Date(2026, 9, 19, 14, 2))
+    const result = processData(clipboardToParseResult({ text: 'nome\tvalor\nAna\t10,5\nBruno\t3' }), undefined, {
+      sourceFileName,
+    })
+
+    expect(sourceFileName).toBe('Clipboard 2026-10-19 14:02')
+    expect(result.metadata.sourceFileName).toBe(sourceFileName)
+    expect(result.rows.map(row => row.valor)).toEqual([10.5, 3])
+  })
+})
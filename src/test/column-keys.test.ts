@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { createColumnKeys, slugifyHeader } from '@/lib/column-keys'
+import { processData, rowsToParseResult } from '@/lib/excel-parser'
+
+describe('slugifyHeader', () => {
+  it('strips accents, case and punctuation', () => {
+    expect(slugifyHeader('Preço (R$)')).toBe('preco_r')
+    expect(slugifyHeader('a.b')).toBe('a_b')
+    expect(slugifyHeader('  Data de Emissão ')).toBe('data_de_emissao')
+    expect(slugifyHeader('%')).toBe('')
+  })
+})
+
+describe('createColumnKeys', () => {
+  it('disambiguates repeated headers in order', () => {
+    const { keys, warnings } = createColumnKeys(['Valor', 'Produto', 'valor', 'VALOR'])
+
+    expect(keys).toEqual(['valor', 'produto', 'valor_2', 'valor_3'])
+    expect(warnings).toEqual(['Cabeçalhos repetidos ("Valor", "valor", "VALOR") nas colunas 1, 3, 4: chaves valor, valor_2, valor_3'])
+  })
+
+  it('does not reuse a suffix that another header already produces', () => {
+    expect(createColumnKeys(['Valor', 'Valor', 'Valor 2']).keys).toEqual(['valor', 'valor_3', 'valor_2'])
+  })
+
+  it('names empty headers by position and warns', () => {
+    const { keys, warnings } = createColumnKeys(['Nome', '', '%'])
+
+    expect(keys).toEqual(['nome', 'column_1', 'column_2'])
+    expect(warnings).toEqual(['Coluna 2 sem cabeçalho; usando a chave "column_1"'])
+  })
+
+  it('is stable across imports of the same headers', () => {
+    const headers = ['Cliente', 'Cliente', 'Preço (R$)']
+    expect(createColumnKeys(headers).keys).toEqual(createColumnKeys(headers).keys)
+  })
+})
+
+describe('column keys in parsed data', () => {
+  it('keeps both values of repeated headers', () => {
+    const parsed = rowsToParseResult([
+      ['Produto', 'Valor', 'Valor'],
+      ['Caneta', 10, 12],
+    ], { headerRow: 0 })
+
+    expect(parsed.data).toEqual([{ produto: 'Caneta', valor: 10, valor_2: 12 }])
+    expect(parsed.errors).toHaveLength(1)
+  })
+
+  it('keeps the original header on the column and the warnings on the data', () => {
+    const result = processData(rowsToParseResult([
+      ['Preço (R$)', 'Preço (R$)', ''],
+      [10, 20, 'x'],
+    ], { headerRow: 0 }))
+    const [first, second, third] = result.schema.columns
+
+    expect(first).toMatchObject({ key: 'preco_r', header: 'Preço (R$)' })
+    expect(second).toMatchObject({ key: 'preco_r_2', header: 'Preço (R$)' })
+    expect(third).toMatchObject({ key: 'column_2', header: '' })
+    expect(result.rows[0]).toMatchObject({ preco_r: 10, preco_r_2: 20, column_2: 'x' })
+    expect(result.metadata.warnings).toHaveLength(2)
+  })
+})
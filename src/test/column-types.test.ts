@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { analyzeColumnType, createExportWorkbook, generateSchemaFromData, parseWorkbook, processData } from '@/lib/excel-parser'
+import { formatDuration, parseDuration } from '@/lib/durations'
+import { evaluateFormula } from '@/lib/formula-engine'
+import { formatValue } from '@/lib/utils'
+import { ColumnFormatSchema } from '@/types'
+
+describe('durations', () => {
+  it('parses clock and unit notations into seconds', () => {
+    expect(parseDuration('01:30:00')).toBe(5400)
+    expect(parseDuration('36:15')).toBe(130500)
+    expect(parseDuration('-0:45')).toBe(-2700)
+    expect(parseDuration('1h30')).toBe(5400)
+    expect(parseDuration('2 horas')).toBe(7200)
+    expect(parseDuration('1d 2h')).toBe(93600)
+    expect(parseDuration('45min')).toBe(2700)
+    expect(parseDuration('90')).toBeNull()
+    expect(parseDuration('abc')).toBeNull()
+  })
+
+  it('formats elapsed time beyond 24 hours', () => {
+    expect(formatDuration(130500)).toBe('36:15:00')
+    expect(formatDuration(5430, 'h:mm')).toBe('1:31')
+    expect(formatDuration(-2700, 'h:mm')).toBe('-0:45')
+  })
+})
+
+describe('inference', () => {
+  it('detects time, duration and integer columns', () => {
+    expect(analyzeColumnType(['08:00', '12:30', '17:45']).type).toBe('time')
+    expect(analyzeColumnType(['01:30:00', '26:00:00', '00:45:00']).type).toBe('duration')
+    expect(analyzeColumnType(['1h30', '2h', '45min']).type).toBe('duration')
+    expect(analyzeColumnType([1001, 1002, 20345]).type).toBe('integer')
+    expect(analyzeColumnType([1001, 1002.5, 20345]).type).toBe('number')
+    expect(analyzeColumnType(['15/03/2024 08:00', '16/03/2024']).type).toBe('datetime')
+  })
+
+  it('builds formats for the new types', () => {
+    const schema = generateSchemaFromData(['id', 'entrada', 'pausa'], [
+      { id: 10234, entrada: '08:00:15', pausa: '45min' },
+      { id: 10235, entrada: '13:00:00', pausa: '1h30' },
+    ])
+    const [id, entrada, pausa] = schema.columns
+
+    expect(id.format).toMatchObject({ type: 'integer', decimals: 0 })
+    expect(entrada.format).toMatchObject({ type: 'time', dateFormat: 'HH:mm:ss' })
+    expect(pausa.format).toMatchObject({ type: 'duration', dateFormat: 'h:mm' })
+    expect(formatValue(10234, id.format)).toBe('10234')
+    expect(ColumnFormatSchema.safeParse(pausa.format).success).toBe(true)
+  })
+})
+
+describe('normalization', () => {
+  it('normalizes values and warns on invalid ones', () => {
+    const parsed = {
+      headers: ['qtd', 'hora', 'tempo'],
+      data: [
+        { qtd: '12', hora: '2:30 PM', tempo: '1h30' },
+        { qtd: '2,5', hora: '25:00', tempo: 'longo' },
+      ],
+      rawData: [],
+      errors: [],
+    }
+    const schema = generateSchemaFromData(parsed.headers, [parsed.data[0]])
+    const result = processData(parsed, schema)
+    const [first, second] = result.rows
+
+    expect(first.qtd).toBe(12)
+    expect(formatValue(first.hora, schema.columns[1].format)).toBe('14:30')
+    expect(first.tempo).toBe(5400)
+    expect(second).toMatchObject({ qtd: null, hora: null, tempo: null })
+    expect(result.metadata.warnings).toEqual([
+      'Linha 2, coluna "Qtd": "2,5" não é um número inteiro',
+      'Linha 2, coluna "Hora": "25:00" não é um horário válido',
+      'Linha 2, coluna "Tempo": "longo" não é uma duração válida',
+    ])
+  })
+
+  it('reads elapsed-time cells as seconds', () => {
+    const worksheet = XLSX.utils.aoa_to_sheet([['tarefa', 'tempo'], ['Coleta', 1.5], ['Entrega', 0.25]])
+    worksheet.B2.z = '[h]:mm:ss'
+    worksheet.B3.z = '[h]:mm:ss'
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Tarefas')
+    const bytes = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })
+
+    const result = processData(parseWorkbook(XLSX.read(bytes, { type: 'array', cellNF: true })))
+    const tempo = result.schema.columns[1]
+
+    expect(tempo.format).toMatchObject({ type: 'duration', dateFormat: 'h:mm:ss' })
+    expect(result.rows.map(row => row.tempo)).toEqual([129600, 21600])
+    expect(formatValue(result.rows[0].tempo, tempo.format)).toBe('36:00:00')
+
+    const exported = createExportWorkbook(result)
+    expect(exported.Sheets[exported.SheetNames[0]].B2).toMatchObject({ t: 'n', v: 1.5, z: '[h]:mm:ss' })
+  })
+
+  it('formats durations in TEXT formulas', () => {
+    expect(evaluateFormula('=TEXT(1.5,"[h]:mm")', { getCell: () => null, getRange: () => [] })).toBe('36:00')
+  })
+})
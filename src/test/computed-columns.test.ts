@@ -0,0 +1,141 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { generateSchemaFromData, processData, type ParseResult } from '@/lib/excel-parser'
+import { checkExpression, computeColumns, getExpressionIssues, ComputedDataSchemaSchema } from '@/lib/computed-columns'
+import { matchSchema } from '@/lib/schema-matching'
+import { slugifyHeader } from '@/lib/column-keys'
+import { useAppStore } from '@/lib/store'
+import type { ColumnDefinition, DataSchema } from '@/types'
+
+const source: ParseResult = {
+  headers: ['produto', 'preco', 'custo', 'venda'],
+  data: [
+    { produto: 'Caneta', preco: '10', custo: '6', venda: '15/03/2024' },
+    { produto: 'Caderno', preco: '25', custo: '20', venda: '31/01/2024' },
+  ],
+  rawData: [],
+  errors: [],
+}
+
+function withComputed(...columns: Array<Pick<ColumnDefinition, 'key' | 'expression'> & Partial<ColumnDefinition>>): DataSchema {
+  const schema = generateSchemaFromData(source.headers, source.data)
+  return {
+    ...schema,
+    columns: [
+      ...schema.columns,
+      ...columns.map(column => ({ label: column.key, format: { type: 'number' as const }, ...column })),
+    ],
+  }
+}
+
+describe('checkExpression', () => {
+  it('accepts column names and supported functions', () => {
+    expect('node' in checkExpression('IF(preco > custo, "lucro", "prejuízo")', ['preco', 'custo'])).toBe(true)
+  })
+
+  it('rejects cell references, unknown functions and columns', () => {
+    expect(checkExpression('A1 * 2', ['preco'])).toEqual({ error: 'Use o nome das colunas, não endereços de célula' })
+    expect(checkExpression('VLOOKUP2(preco)', ['preco'])).toEqual({ error: 'Função não suportada' })
+    expect(checkExpression('preco - frete', ['preco'])).toEqual({ error: 'Coluna "frete" não existe' })
+    expect(checkExpression('margem * 2', ['margem'], 'margem')).toEqual({ error: 'A coluna não pode usar a si mesma' })
+  })
+
+  it('reads column keys that look like cell addresses or start with a digit', () => {
+    expect('node' in checkExpression('q1 + ano2024', ['q1', 'ano2024'])).toBe(true)
+    expect('node' in checkExpression('2025_q1 * 2 + 1.5', ['2025_q1'])).toBe(true)
+    expect(checkExpression('q1 + A1', ['q1'])).toEqual({ error: 'Use o nome das colunas, não endereços de célula' })
+  })
+})
+
+describe('computeColumns', () => {
+  it('evaluates arithmetic, text, conditional and date expressions', () => {
+    const result = processData(source, withComputed(
+      { key: 'margem', expression: '(preco - custo) / preco' },
+      { key: 'rotulo', expression: 'CONCATENATE(UPPER(produto), " - ", preco)', format: { type: 'string' } },
+      { key: 'faixa', expression: 'IF(preco >= 20, "alta", "baixa")', format: { type: 'string' } },
+      { key: 'fim_mes', expression: 'EOMONTH(venda, 0)', format: { type: 'date' } },
+    ))
+
+    expect(result.rows[0]).toMatchObject({ margem: 0.4, rotulo: 'CANETA - 10', faixa: 'baixa' })
+    expect(result.rows[1]).toMatchObject({ margem: 0.2, faixa: 'alta' })
+    expect((result.rows[0].fim_mes as Date).getDate()).toBe(31)
+    expect(result.metadata.warnings).toBeUndefined()
+  })
+
+  it('follows dependencies between computed columns', () => {
+    const schema = withComputed(
+      { key: 'lucro_total', expression: 'lucro * 2' },
+      { key: 'lucro', expression: 'preco - custo' },
+    )
+    expect(processData(source, schema).rows[0]).toMatchObject({ lucro: 4, lucro_total: 8 })
+  })
+
+  it('marks circular and invalid expressions instead of failing', () => {
+    const schema = withComputed(
+      { key: 'a', expression: 'b + 1' },
+      { key: 'b', expression: 'a + 1' },
+      { key: 'c', expression: 'preco +' },
+    )
+    const { rows, issues } = computeColumns(schema, processData(source).rows)
+
+    expect(rows[0]).toMatchObject({ a: '#REF!', b: '#REF!', c: '#NAME?' })
+    expect(issues.map(issue => issue.columnKey).sort()).toEqual(['a', 'b', 'c'])
+    expect(processData(source, schema).metadata.warnings!.some(w => w.startsWith('Coluna calculada "a"'))).toBe(true)
+  })
+
+  it('keeps computed columns out of schema matching and row ids', () => {
+    const schema = withComputed({ key: 'margem', expression: '(preco - custo) / preco' })
+
+    expect(matchSchema(source, schema).score).toBe(1)
+    expect(processData(source, schema).rows.map(row => row._id)).toEqual(processData(source).rows.map(row => row._id))
+  })
+  it('evaluates keys generated from headers such as "2025 / Q1"', () => {
+    const [q1, q2] = ['2025 / Q1', 'Q2'].map(slugifyHeader)
+    const quarters: ParseResult = { headers: [q1, q2], data: [{ [q1]: '10', [q2]: '15' }], rawData: [], errors: [] }
+    const schema = generateSchemaFromData(quarters.headers, quarters.data)
+    schema.columns.push({ key: 'total', label: 'Total', format: { type: 'number' }, expression: `${q1} + ${q2}` })
+
+    expect([q1, q2]).toEqual(['2025_q1', 'q2'])
+    expect(getExpressionIssues(schema)).toEqual([])
+    expect(processData(quarters, schema).rows[0].total).toBe(25)
+  })
+})
+
+describe('ComputedDataSchemaSchema', () => {
+  it('validates expressions against the schema columns', () => {
+    expect(ComputedDataSchemaSchema.safeParse(withComputed({ key: 'margem', expression: '(preco - custo) / preco' })).success).toBe(true)
+    expect(ComputedDataSchemaSchema.safeParse(withComputed({ key: 'margem', expression: '(preco - ' })).success).toBe(false)
+
+    const unknown = ComputedDataSchemaSchema.safeParse(withComputed({ key: 'margem', expression: 'preco - frete' }))
+    expect(unknown.success).toBe(false)
+    expect(unknown.error?.issues.map(issue => issue.path)).toContainEqual(['columns', 4, 'expression'])
+    expect(getExpressionIssues(withComputed(
+      { key: 'a', expression: 'b' },
+      { key: 'b', expression: 'a' },
+    ))).toHaveLength(2)
+  })
+})
+
+describe('store', () => {
+  beforeEach(() => {
+    useAppStore.getState().clearData()
+  })
+
+  it('recomputes after editing a cell', () => {
+    useAppStore.getState().setData(processData(source, withComputed({ key: 'lucro', expression: 'preco - custo' })))
+    const row = useAppStore.getState().data!.rows[0]
+
+    useAppStore.getState().updateCell(row._id, 'custo', 9)
+    expect(useAppStore.getState().data!.rows[0].lucro).toBe(1)
+  })
+
+  it('adds a computed column to the loaded data', () => {
+    useAppStore.getState().setData(processData(source))
+    useAppStore.getState().addComputedColumn({
+      key: 'lucro', label: 'Lucro', format: { type: 'currency' }, expression: 'preco - custo',
+    })
+    const { data, tableState } = useAppStore.getState()
+
+    expect(data!.rows.map(row => row.lucro)).toEqual([4, 5])
+    expect(tableState.visibleColumns).toContain('lucro')
+  })
+})
@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest'
+import { detectEncoding, detectDelimiter, sniffCSV, parseCSVStream } from '@/lib/csv-stream'
+import { parseLocaleNumber, detectDecimalSeparator, getLocaleSeparators } from '@/lib/locale-number'
+
+/**
+ * Codifica texto em Windows-1252 (apenas caracteres Latin-1)
+ */
+function encodeLatin1(text: string): Uint8Array {
+  return Uint8Array.from(text, char => char.charCodeAt(0))
+}
+
+function encodeUtf16LE(text: string, withBom = false): Uint8Array {
+  const bytes = new Uint8Array((withBom ? 2 : 0) + text.length * 2)
+  let offset = 0
+  if (withBom) {
+    bytes.set([0xff, 0xfe])
+    offset = 2
+  }
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i)
+    bytes[offset + i * 2] = code & 0xff
+    bytes[offset + i * 2 + 1] = code >> 8
+  }
+  return bytes
+}
+
+const erpExport = 'Código;Descrição;Preço;Estoque\n001;Pão de açúcar;1.234,56;10\n002;Café;12,5;-3\n003;Feijão;0,99;7\n'
+
+describe('detectEncoding', () => {
+  it('recognises byte order marks', () => {
+    expect(detectEncoding(new Uint8Array([0xef, 0xbb, 0xbf, 0x61]))).toBe('utf-8')
+    expect(detectEncoding(encodeUtf16LE('a;b', true))).toBe('utf-16le')
+    expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x61]))).toBe('utf-16be')
+  })
+
+  it('detects UTF-16 without a BOM', () => {
+    expect(detectEncoding(encodeUtf16LE('nome;valor\nAna;1\n'))).toBe('utf-16le')
+  })
+
+  it('falls back to Windows-1252 for invalid UTF-8', () => {
+    expect(detectEncoding(encodeLatin1(erpExport))).toBe('windows-1252')
+    expect(detectEncoding(new TextEncoder().encode(erpExport))).toBe('utf-8')
+  })
+})
+
+describe('detectDelimiter', () => {
+  it('picks the delimiter that keeps the header field count', () => {
+    expect(detectDelimiter('a,b,c\n1,2,3\n')).toBe(',')
+    expect(detectDelimiter(erpExport)).toBe(';')
+    expect(detectDelimiter('a\tb\n1\t2\n')).toBe('\t')
+    expect(detectDelimiter('a|b\n1|2\n')).toBe('|')
+  })
+
+  it('is not fooled by decimal commas inside semicolon files', () => {
+    expect(detectDelimiter('valor;total\n1,5;2,5\n3,5;4,5\n')).toBe(';')
+  })
+})
+
+describe('parseLocaleNumber', () => {
+  it('parses comma-decimal numbers with thousands separators', () => {
+    expect(parseLocaleNumber('1.234,56', ',')).toBe(1234.56)
+    expect(parseLocaleNumber('-0,5', ',')).toBe(-0.5)
+    expect(parseLocaleNumber('1 234,5', ',')).toBe(1234.5)
+  })
+
+  it('parses dot-decimal numbers with thousands separators', () => {
+    expect(parseLocaleNumber('1,234.56')).toBe(1234.56)
+    expect(parseLocaleNumber('1e3')).toBe(1000)
+  })
+
+  it('rejects text and misplaced separators', () => {
+    expect(parseLocaleNumber('abc', ',')).toBeNull()
+    expect(parseLocaleNumber('1,2,3', ',')).toBeNull()
+    expect(parseLocaleNumber('12.34,5.6', ',')).toBeNull()
+  })
+
+  it('reads separators from the locale', () => {
+    expect(getLocaleSeparators('pt-BR')).toEqual({ decimal: ',', group: '.' })
+    expect(getLocaleSeparators('en-US')).toEqual({ decimal: '.', group: ',' })
+  })
+})
+
+describe('detectDecimalSeparator', () => {
+  it('uses unambiguous values only', () => {
+    expect(detectDecimalSeparator(['1.234,56', '12,5', '1.234'])).toBe(',')
+    expect(detectDecimalSeparator(['1,234.56', '0.5'])).toBe('.')
+    expect(detectDecimalSeparator(['1,234', 'abc'])).toBe('.')
+  })
+})
+
+describe('sniffCSV', () => {
+  it('detects a Windows-1252 semicolon export with comma decimals', () => {
+    const result = sniffCSV(encodeLatin1(erpExport))
+
+    expect(result.encoding).toBe('windows-1252')
+    expect(result.delimiter).toBe(';')
+    expect(result.decimalSeparator).toBe(',')
+    expect(result.preview[0]).toEqual(['Código', 'Descrição', 'Preço', 'Estoque'])
+    expect(result.preview[1]).toEqual([1, 'Pão de açúcar', 1234.56, 10])
+  })
+
+  it('applies overrides to the preview', () => {
+    const result = sniffCSV(encodeLatin1(erpExport), { decimalSeparator: '.' })
+
+    expect(result.decimalSeparator).toBe('.')
+    expect(result.preview[1][2]).toBe('1.234,56')
+  })
+
+  it('flags the delimiter as ambiguous only without a consistent winner', () => {
+    const encode = (text: string) => new TextEncoder().encode(text)
+
+    expect(sniffCSV(encodeLatin1(erpExport)).ambiguous).toBe(false)
+    expect(sniffCSV(encode('nome\nAna\nBia\n')).ambiguous).toBe(true)
+    expect(sniffCSV(encode('a,b,c\n1,2\n3,4,5\n')).ambiguous).toBe(true)
+    expect(sniffCSV(encode('a;b,c\n1;2,3\n')).ambiguous).toBe(true)
+    expect(sniffCSV(encode('a;b,c\n1;2,3\n'), { delimiter: ';' }).ambiguous).toBe(false)
+  })
+})
+
+describe('parseCSVStream format detection', () => {
+  it('decodes and converts an ERP export end to end', async () => {
+    const bytes = encodeLatin1(erpExport)
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.subarray(0, 40))
+        controller.enqueue(bytes.subarray(40))
+        controller.close()
+      },
+    })
+
+    const result = await parseCSVStream(stream, { totalBytes: bytes.byteLength })
+
+    expect(result.encoding).toBe('windows-1252')
+    expect(result.delimiter).toBe(';')
+    expect(result.rows).toEqual([
+      ['Código', 'Descrição', 'Preço', 'Estoque'],
+      [1, 'Pão de açúcar', 1234.56, 10],
+      [2, 'Café', 12.5, -3],
+      [3, 'Feijão', 0.99, 7],
+    ])
+    expect(result.errors).toEqual([])
+  })
+})
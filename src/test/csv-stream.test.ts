@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest'
+import { parseCSVStream, isAbortError } from '@/lib/csv-stream'
+
+function createStream(chunks: string[]): { stream: ReadableStream<Uint8Array>; totalBytes: number } {
+  const encoder = new TextEncoder()
+  const encoded = chunks.map(chunk => encoder.encode(chunk))
+  let index = 0
+
+  const stream = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (index < encoded.length) {
+        controller.enqueue(encoded[index++])
+      } else {
+        controller.close()
+      }
+    },
+  })
+
+  return { stream, totalBytes: encoded.reduce((sum, chunk) => sum + chunk.byteLength, 0) }
+}
+
+describe('parseCSVStream', () => {
+  it('parses rows split across chunks, including quoted fields', async () => {
+    const { stream, totalBytes } = createStream([
+      'nome,cidade,valor\nAna,"São ',
+      'Paulo, SP",10.5\nBru',
+      'no,Recife,20\n\n',
+      'Carla,"Linha\nquebrada",30',
+    ])
+
+    const result = await parseCSVStream(stream, { totalBytes })
+
+    expect(result.delimiter).toBe(',')
+    expect(result.rows).toEqual([
+      ['nome', 'cidade', 'valor'],
+      ['Ana', 'São Paulo, SP', 10.5],
+      ['Bruno', 'Recife', 20],
+      ['Carla', 'Linha\nquebrada', 30],
+    ])
+  })
+
+  it('detects semicolon delimiters and CRLF line breaks', async () => {
+    const { stream, totalBytes } = createStream(['a;b\r\n1;', '2\r\n'])
+
+    const result = await parseCSVStream(stream, { totalBytes })
+
+    expect(result.delimiter).toBe(';')
+    expect(result.rows).toEqual([['a', 'b'], [1, 2]])
+  })
+
+  it('reports progress by bytes read', async () => {
+    const { stream, totalBytes } = createStream(['a,b\n', '1,2\n', '3,4\n'])
+    const updates: number[] = []
+
+    await parseCSVStream(stream, {
+      totalBytes,
+      onProgress: (bytesRead) => updates.push(bytesRead),
+    })
+
+    expect(updates[updates.length - 1]).toBe(totalBytes)
+    expect(updates).toEqual([...updates].sort((a, b) => a - b))
+  })
+
+  it('stops reading and rejects with an AbortError when cancelled', async () => {
+    // Blocos maiores que a amostra de detecção (64 KB)
+    const block = '1,2\n'.repeat(20000)
+    const { stream, totalBytes } = createStream(['a,b\n' + block, block, block])
+    let cancelled = false
+
+    const promise = parseCSVStream(stream, {
+      totalBytes,
+      onProgress: () => { cancelled = true },
+      isCancelled: () => cancelled,
+    })
+
+    const error = await promise.catch(err => err)
+    expect(isAbortError(error)).toBe(true)
+  })
+})
@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { createDiffWorkbook, diffData, diffToProcessedData, CHANGE_COLUMN_KEY } from '@/lib/data-diff'
+import { load } from './helpers'
+
+const janeiro = load(['sku', 'produto', 'estoque'], [
+  { sku: 'A-1', produto: 'Caneta', estoque: '100' },
+  { sku: 'B-2', produto: 'Caderno', estoque: '40' },
+  { sku: 'C-3', produto: 'Lápis', estoque: '250' },
+], 'estoque-jan.csv')
+
+const fevereiro = load(['sku', 'produto', 'estoque'], [
+  { sku: 'a-1 ', produto: 'Caneta', estoque: '80' },
+  { sku: 'C-3', produto: 'Lápis', estoque: '250' },
+  { sku: 'D-4', produto: 'Borracha', estoque: '60' },
+], 'estoque-fev.csv')
+
+describe('diffData', () => {
+  it('classifies rows by the key column', () => {
+    const diff = diffData(janeiro, fevereiro, 'sku')
+
+    expect(diff.counts).toEqual({ added: 1, removed: 1, modified: 1, unchanged: 1 })
+    expect(diff.rows.map(row => [row.key, row.change])).toEqual([
+      ['a-1 ', 'modified'],
+      ['C-3', 'unchanged'],
+      ['D-4', 'added'],
+      ['B-2', 'removed'],
+    ])
+  })
+
+  it('lists the before and after value of each modified cell', () => {
+    const diff = diffData(janeiro, fevereiro, 'sku')
+
+    expect(diff.rows[0].changes).toEqual([
+      { columnKey: 'sku', before: 'A-1', after: 'a-1 ' },
+      { columnKey: 'estoque', before: 100, after: 80 },
+    ])
+  })
+
+  it('pairs repeated keys by occurrence', () => {
+    const antes = load(['sku', 'qtd'], [{ sku: 'A', qtd: '10' }, { sku: 'A', qtd: '25' }], 'antes.csv')
+    const depois = load(['sku', 'qtd'], [{ sku: 'A', qtd: '10' }], 'depois.csv')
+    const diff = diffData(antes, depois, 'sku')
+
+    expect(diff.counts).toMatchObject({ unchanged: 1, removed: 1 })
+    expect(diff.rows[1].before?.qtd).toBe(25)
+  })
+
+  it('compares only shared columns and lists added and removed ones', () => {
+    const antes = load(['sku', 'estoque', 'fornecedor'], [
+      { sku: 'A-1', estoque: '100', fornecedor: 'Acme' },
+      { sku: 'B-2', estoque: '40', fornecedor: 'Acme' },
+    ], 'antes.csv')
+    const depois = load(['sku', 'estoque', 'preco'], [
+      { sku: 'A-1', estoque: '100', preco: '2,50' },
+      { sku: 'B-2', estoque: '35', preco: '15,90' },
+    ], 'depois.csv')
+    const diff = diffData(antes, depois, 'sku')
+
+    expect(diff.counts).toMatchObject({ unchanged: 1, modified: 1 })
+    expect(diff.rows[1].changes).toEqual([{ columnKey: 'estoque', before: 40, after: 35 }])
+    expect(diff.addedColumns).toEqual(['preco'])
+    expect(diff.removedColumns).toEqual(['fornecedor'])
+    expect(diff.columns.map(column => column.key)).toEqual(['sku', 'estoque', 'preco', 'fornecedor'])
+  })
+
+  it('requires the key column in both versions', () => {
+    expect(() => diffData(janeiro, fevereiro, 'preco')).toThrow('precisa existir nas duas versões')
+  })
+
+  it('builds table data with the change column', () => {
+    const data = diffToProcessedData(diffData(janeiro, fevereiro, 'sku'))
+
+    expect(data.schema.columns[0].key).toBe(CHANGE_COLUMN_KEY)
+    expect(data.rows.map(row => [row[CHANGE_COLUMN_KEY], row.produto])).toEqual([
+      ['Modificada', 'Caneta'],
+      ['Sem alteração', 'Lápis'],
+      ['Adicionada', 'Borracha'],
+      ['Removida', 'Caderno'],
+    ])
+  })
+})
+
+describe('createDiffWorkbook', () => {
+  it('exports markers, previous values as comments and a summary', () => {
+    const workbook = XLSX.read(
+      XLSX.write(createDiffWorkbook(diffData(janeiro, fevereiro, 'sku')), { type: 'array', bookType: 'xlsx' }),
+      { type: 'array' }
+    )
+    const sheet = workbook.Sheets['Alterações']
+    const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 })
+
+    expect(workbook.SheetNames).toEqual(['Alterações', 'Resumo'])
+    expect(rows[1]).toEqual(['🟡 Modificada', 'a-1 ', 'Caneta', 80])
+    expect(rows[4][0]).toBe('🔴 Removida')
+    expect(sheet.D2.c?.[0].t).toBe('Antes: 100')
+    const summary = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.Resumo, { header: 1 })
+    expect(summary[1]).toEqual(['🟢 Adicionada', 1])
+    expect(summary).toContainEqual(['Colunas adicionadas', ''])
+  })
+})
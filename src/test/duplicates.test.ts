@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  findDuplicates,
+  jaroWinklerSimilarity,
+  levenshteinDistance,
+  mergeDuplicates,
+  normalizeForMatch,
+  suggestMergeValues,
+} from '@/lib/duplicates'
+import { useAppStore } from '@/lib/store'
+import { load } from './helpers'
+
+const clientes = load(['nome', 'email', 'cidade'], [
+  { nome: 'José da Silva', email: 'jose@exemplo.com', cidade: '' },
+  { nome: 'Maria Souza', email: 'maria@exemplo.com', cidade: 'Recife' },
+  { nome: 'jose  da silva', email: '', cidade: 'São Paulo' },
+  { nome: 'Jose da Silv', email: 'jose@exemplo.com', cidade: 'Santos' },
+  { nome: 'Mariana Souza', email: 'mariana@exemplo.com', cidade: 'Recife' },
+], 'clientes.csv')
+const ids = clientes.rows.map(row => row._id)
+
+describe('similarity', () => {
+  it('normalizes case, accents and spaces', () => {
+    expect(normalizeForMatch('  José   da SILVA ')).toBe('jose da silva')
+  })
+
+  it('measures edit distance and Jaro-Winkler similarity', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3)
+    expect(jaroWinklerSimilarity('martha', 'marhta')).toBeCloseTo(0.961, 3)
+    expect(jaroWinklerSimilarity('abc', 'xyz')).toBe(0)
+  })
+})
+
+describe('findDuplicates', () => {
+  it('groups exact duplicates after normalization', () => {
+    const groups = findDuplicates(clientes.rows, { columns: ['nome'], method: 'exact', threshold: 1 })
+
+    expect(groups).toEqual([{ id: `dup:${ids[0]}`, rowIds: [ids[0], ids[2]], similarity: 1 }])
+  })
+
+  it('groups fuzzy duplicates above the threshold', () => {
+    const groups = findDuplicates(clientes.rows, { columns: ['nome'], method: 'levenshtein', threshold: 0.9 })
+
+    expect(groups.map(group => group.rowIds)).toEqual([[ids[0], ids[2], ids[3]]])
+    expect(groups[0].similarity).toBeCloseTo(1 - 1 / 13)
+  })
+
+  it('averages the similarity of several columns', () => {
+    const groups = findDuplicates(clientes.rows, { columns: ['nome', 'cidade'], method: 'jaroWinkler', threshold: 0.9 })
+
+    expect(groups.map(group => group.rowIds)).toEqual([[ids[1], ids[4]]])
+  })
+})
+
+describe('mergeDuplicates', () => {
+  it('fills the survivor gaps from the other rows', () => {
+    const rows = [clientes.rows[0], clientes.rows[2]]
+
+    expect(suggestMergeValues(rows, clientes.schema.columns, ids[0])).toEqual({
+      nome: 'José da Silva', email: 'jose@exemplo.com', cidade: 'São Paulo',
+    })
+  })
+
+  it('keeps the survivor id and removes the other rows', () => {
+    const merged = mergeDuplicates(clientes, [
+      { survivorId: ids[2], rowIds: [ids[0], ids[2], ids[3]], values: { email: 'jose@exemplo.com' } },
+    ])
+
+    expect(merged.rows.map(row => row._id)).toEqual([ids[1], ids[2], ids[4]])
+    expect(merged.rows[1]).toMatchObject({ nome: 'jose  da silva', email: 'jose@exemplo.com', cidade: 'São Paulo' })
+    expect(merged.metadata.totalRows).toBe(3)
+  })
+
+  it('rejects a survivor outside the group', () => {
+    expect(() => mergeDuplicates(clientes, [{ survivorId: ids[1], rowIds: [ids[0], ids[2]] }])).toThrow()
+  })
+})
+
+describe('store: merge and undo', () => {
+  beforeEach(() => {
+    useAppStore.getState().setData(clientes)
+  })
+
+  it('undoes the merge as one operation', () => {
+    const { mergeDuplicateRows } = useAppStore.getState()
+    mergeDuplicateRows([
+      { survivorId: ids[0], rowIds: [ids[0], ids[2]] },
+      { survivorId: ids[1], rowIds: [ids[1], ids[4]] },
+    ])
+    expect(useAppStore.getState().data?.rows).toHaveLength(3)
+
+    useAppStore.getState().undo()
+    expect(useAppStore.getState().data).toBe(clientes)
+    expect(useAppStore.getState().undoEntry).toBeNull()
+  })
+
+  it('does not undo over later edits', () => {
+    const { mergeDuplicateRows } = useAppStore.getState()
+    mergeDuplicateRows([{ survivorId: ids[0], rowIds: [ids[0], ids[2]] }])
+    useAppStore.getState().updateCell(ids[1], 'cidade', 'Olinda')
+
+    useAppStore.getState().undo()
+    expect(useAppStore.getState().data?.rows).toHaveLength(4)
+  })
+})
@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { generateSchemaFromData, parseWorkbook, processData } from '@/lib/excel-parser'
+import {
+  dateToExcelSerial,
+  excelSerialToDate,
+  getDateKind,
+  parseDateString,
+  toTimeZone,
+} from '@/lib/excel-dates'
+import { parseJSONText } from '@/lib/json-import'
+import { formatValue } from '@/lib/utils'
+
+/** Componentes locais para comparação independente do fuso da máquina */
+function parts(date: Date) {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate(), date.getHours(), date.getMinutes(), date.getSeconds()]
+}
+
+describe('Excel serials', () => {
+  it('converts 1900-system serials exactly, including times', () => {
+    expect(parts(excelSerialToDate(45366))).toEqual([2024, 3, 15, 0, 0, 0])
+    expect(parts(excelSerialToDate(45366.604166666664))).toEqual([2024, 3, 15, 14, 30, 0])
+    expect(parts(excelSerialToDate(1))).toEqual([1900, 1, 1, 0, 0, 0])
+    expect(parts(excelSerialToDate(61))).toEqual([1900, 3, 1, 0, 0, 0])
+  })
+
+  it('converts 1904-system serials', () => {
+    expect(parts(excelSerialToDate(0, true))).toEqual([1899, 12, 30, 0, 0, 0])
+    expect(parts(excelSerialToDate(43904, true))).toEqual([2024, 3, 15, 0, 0, 0])
+  })
+
+  it('anchors time-only serials and converts back', () => {
+    const time = excelSerialToDate(0.75)
+    expect(parts(time)).toEqual([1899, 12, 30, 18, 0, 0])
+    expect(getDateKind(time)).toBe('time')
+    expect(dateToExcelSerial(time)).toBe(0.75)
+    expect(dateToExcelSerial(new Date(2024, 2, 15, 12))).toBe(45366.5)
+    expect(dateToExcelSerial(new Date(2024, 2, 15), true)).toBe(43904)
+  })
+})
+
+describe('parseDateString', () => {
+  it('follows the configured day/month order', () => {
+    expect(parts(parseDateString('03/04/2024')!.date)).toEqual([2024, 4, 3, 0, 0, 0])
+    expect(parts(parseDateString('03/04/2024', 'MM/dd/yyyy')!.date)).toEqual([2024, 3, 4, 0, 0, 0])
+    expect(parseDateString('13/25/2024', 'MM/dd/yyyy')).toBeNull()
+    expect(parseDateString('31/02/2024')).toBeNull()
+  })
+
+  it('tells dates, datetimes and times apart', () => {
+    expect(parseDateString('15/03/24')).toMatchObject({ kind: 'date' })
+    expect(parseDateString('15/03/2024 14:30')).toMatchObject({ kind: 'datetime' })
+    expect(parseDateString('2024-03-15T14:30:00')).toMatchObject({ kind: 'datetime' })
+    expect(parseDateString('2:30 PM')).toMatchObject({ kind: 'time' })
+    expect(parts(parseDateString('2:30 PM')!.date)).toEqual([1899, 12, 30, 14, 30, 0])
+    expect(parseDateString('25:00')).toBeNull()
+  })
+
+  it('keeps ISO dates without offset in local time', () => {
+    expect(parts(parseDateString('2024-03-15')!.date)).toEqual([2024, 3, 15, 0, 0, 0])
+    expect(parseDateString('2024-03-15T12:00:00Z')!.date.toISOString()).toBe('2024-03-15T12:00:00.000Z')
+  })
+})
+
+describe('date columns', () => {
+  it('reads date cells as serials and honours the 1904 system', () => {
+    const worksheet = XLSX.utils.aoa_to_sheet([['entrega', 'hora'], [43904.5, 0.25], [43905, 0.5]])
+    for (const row of [2, 3]) {
+      worksheet[`A${row}`].z = 'dd/mm/yyyy hh:mm'
+      worksheet[`B${row}`].z = 'hh:mm'
+    }
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Agenda')
+    workbook.Workbook = { WBProps: { date1904: true } }
+    const bytes = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })
+
+    const result = processData(parseWorkbook(XLSX.read(bytes, { type: 'array', cellNF: true })))
+    const [entrega, hora] = result.schema.columns
+
+    expect(parts(result.rows[0].entrega as Date)).toEqual([2024, 3, 15, 12, 0, 0])
+    expect(entrega.format).toMatchObject({ type: 'datetime', dateFormat: 'dd/MM/yyyy HH:mm' })
+    expect(hora.format).toMatchObject({ type: 'time', dateFormat: 'HH:mm' })
+    expect(formatValue(result.rows[0].hora, hora.format)).toBe('06:00')
+  })
+
+  it('parses text dates with the company format', () => {
+    const parsed = { headers: ['data'], data: [{ data: '04/03/2024' }, { data: '12/31/2024' }], rawData: [], errors: [] }
+    const result = processData(parsed, undefined, { dateFormat: 'MM/dd/yyyy' })
+
+    expect(result.schema.columns[0].format).toMatchObject({ type: 'date', dateFormat: 'MM/dd/yyyy' })
+    expect(parts(result.rows[0].data as Date)).toEqual([2024, 4, 3, 0, 0, 0])
+    expect(parts(result.rows[1].data as Date)).toEqual([2024, 12, 31, 0, 0, 0])
+  })
+
+  it('infers datetime and time-only columns and warns on invalid dates', () => {
+    const schema = generateSchemaFromData(['inicio', 'hora'], [
+      { inicio: '15/03/2024 08:00', hora: '08:00' },
+      { inicio: '16/03/2024', hora: '17:45' },
+    ])
+    expect(schema.columns[0].format).toMatchObject({ type: 'datetime', dateFormat: 'dd/MM/yyyy HH:mm' })
+    expect(schema.columns[1].format).toMatchObject({ type: 'time', dateFormat: 'HH:mm' })
+
+    const result = processData({
+      headers: ['data'],
+      data: [{ data: '15/03/2024' }, { data: '16/03/2024' }, { data: '17/03/2024' }, { data: '99/99/2024' }],
+      rawData: [],
+      errors: [],
+    })
+    expect(result.rows[3].data).toBeNull()
+    expect(result.metadata.warnings).toContain('Linha 4, coluna "Data": "99/99/2024" não é uma data válida')
+  })
+
+  it('keeps date-only JSON values on the same day', () => {
+    const { data } = parseJSONText('[{"dia":"2024-03-15"}]')
+    expect(parts(data[0].dia as Date)).toEqual([2024, 3, 15, 0, 0, 0])
+  })
+})
+
+describe('display time zone', () => {
+  const instant = new Date('2024-03-15T12:00:00Z')
+
+  it('shows datetimes in the chosen zone', () => {
+    expect(parts(toTimeZone(instant, 'America/Sao_Paulo'))).toEqual([2024, 3, 15, 9, 0, 0])
+    expect(formatValue(instant, { type: 'datetime', dateFormat: 'dd/MM/yyyy HH:mm', timeZone: 'Asia/Tokyo' }))
+      .toBe('15/03/2024 21:00')
+  })
+
+  it('leaves dates and time-only values untouched', () => {
+    const day = new Date(2024, 2, 15)
+    expect(formatValue(day, { type: 'date', dateFormat: 'dd/MM/yyyy', timeZone: 'Asia/Tokyo' })).toBe('15/03/2024')
+
+    const time = new Date(1899, 11, 30, 8, 30)
+    expect(formatValue(time, { type: 'datetime', dateFormat: 'HH:mm', timeZone: 'Asia/Tokyo' })).toBe('08:30')
+  })
+})
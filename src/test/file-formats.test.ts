@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import {
+  detectFileFormat,
+  getFormats,
+  getSupportedExtensions,
+  parseFile,
+  registerFormat,
+} from '@/lib/excel-parser'
+import { getMaxFileSize, uploadLimits } from '@/lib/config'
+import { detectFixedWidthBoundaries, parseFixedWidth, splitFixedWidthLine } from '@/lib/fixed-width'
+
+/**
+ * File mínimo com arrayBuffer/slice/stream (ausentes no File do jsdom)
+ */
+function createFile(name: string, content: Uint8Array | string): File {
+  const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content
+  const file = {
+    name,
+    size: bytes.byteLength,
+    type: '',
+    arrayBuffer: async () => bytes.slice().buffer,
+    slice: (start?: number, end?: number) => createFile(name, bytes.slice(start, end)),
+    stream: () => new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes)
+        controller.close()
+      },
+    }),
+  }
+  return file as unknown as File
+}
+
+function createWorkbookBytes(bookType: XLSX.BookType): Uint8Array {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['produto', 'quantidade'],
+    ['Caneta', 10],
+    ['Lápis', 5],
+  ]), 'Estoque')
+  return new Uint8Array(XLSX.write(workbook, { bookType, type: 'array' }))
+}
+
+const fixedWidthReport = [
+  'CODIGO NOME           VALOR',
+  '001    Caneta azul     12,50',
+  '002    Lápis            1,99',
+  '003    Caderno        100,00',
+].join('\n')
+
+describe('detectFileFormat', () => {
+  it('identifies workbooks by their signature', () => {
+    expect(detectFileFormat('dados.xlsx', createWorkbookBytes('xlsx'))?.id).toBe('xlsx')
+    expect(detectFileFormat('dados.ods', createWorkbookBytes('ods'))?.id).toBe('ods')
+    expect(detectFileFormat('dados.xlsb', createWorkbookBytes('xlsb'))?.id).toBe('xlsb')
+    expect(detectFileFormat('dados.xls', createWorkbookBytes('biff8'))?.id).toBe('xls')
+  })
+
+  it('trusts the content over the extension', () => {
+    // ODS renomeado para .xlsx e CSV salvo como .xls
+    expect(detectFileFormat('dados.xlsx', createWorkbookBytes('ods'))?.id).toBe('ods')
+    expect(detectFileFormat('dados.xls', new TextEncoder().encode('a;b\n1;2'))?.id).toBe('csv')
+    expect(detectFileFormat('dados.csv', createWorkbookBytes('xlsx'))?.id).toBe('xlsx')
+  })
+
+  it('picks text readers by extension', () => {
+    const text = new TextEncoder().encode('a\tb\n1\t2')
+    expect(detectFileFormat('dados.tsv', text)?.id).toBe('tsv')
+    expect(detectFileFormat('dados.txt', text)?.id).toBe('txt')
+    expect(detectFileFormat('dados.csv', text)?.id).toBe('csv')
+  })
+
+  it('chooses the size limit from the detected format', () => {
+    const text = new TextEncoder().encode('a\tb\n1\t2')
+    const limitOf = (name: string, head: Uint8Array) => getMaxFileSize(detectFileFormat(name, head)!.id)
+
+    expect(limitOf('dados.csv', createWorkbookBytes('xlsx'))).toBe(uploadLimits.maxSpreadsheetSize)
+    expect(limitOf('dados.tsv', text)).toBe(uploadLimits.maxCsvSize)
+    expect(limitOf('relatorio.txt', text)).toBe(uploadLimits.maxCsvSize)
+  })
+
+  it('rejects unknown extensions and binary content', () => {
+    expect(detectFileFormat('script.js', new TextEncoder().encode('alert(1)'))).toBeUndefined()
+    expect(detectFileFormat('dados.csv', new Uint8Array([0x00, 0x01, 0x02, 0x00, 0x7f]))).toBeUndefined()
+  })
+})
+
+describe('format registry', () => {
+  it('lists every native extension', () => {
+    expect(getSupportedExtensions()).toEqual(
+      expect.arrayContaining(['.xlsx', '.xls', '.xlsb', '.ods', '.csv', '.tsv', '.txt'])
+    )
+  })
+
+  it('accepts new readers', async () => {
+    registerFormat({
+      id: 'pipe-test',
+      label: 'Teste',
+      extensions: ['.pipetest'],
+      mimeTypes: [],
+      kind: 'text',
+      matches: (_head, extension) => extension === '.pipetest',
+      parse: async () => ({ headers: ['x'], data: [{ x: 1 }], rawData: [], errors: [] }),
+    })
+
+    const result = await parseFile(createFile('dados.pipetest', 'qualquer'))
+
+    expect(result.headers).toEqual(['x'])
+    expect(getFormats().some(format => format.id === 'pipe-test')).toBe(true)
+  })
+})
+
+describe('parseFile with new formats', () => {
+  it('reads OpenDocument and binary Excel workbooks', async () => {
+    for (const [name, bookType] of [['estoque.ods', 'ods'], ['estoque.xlsb', 'xlsb']] as const) {
+      const result = await parseFile(createFile(name, createWorkbookBytes(bookType)))
+
+      expect(result.headers).toEqual(['produto', 'quantidade'])
+      expect(result.data).toHaveLength(2)
+    }
+  })
+
+  it('reads TSV files as tab-delimited', async () => {
+    const result = await parseFile(createFile('dados.tsv', 'nome\tvalor\nAna\t1,5\nBruno\t2,5\n'))
+
+    expect(result.headers).toEqual(['nome', 'valor'])
+    expect(result.data[0]).toEqual({ nome: 'Ana', valor: 1.5 })
+  })
+
+  it('reads fixed-width text, with manual boundaries when given', async () => {
+    const detected = await parseFile(createFile('relatorio.txt', fixedWidthReport))
+    expect(detected.sourceHeaders).toEqual(['CODIGO', 'NOME', 'VALOR'])
+    expect(detected.data[2]).toEqual({ codigo: 3, nome: 'Caderno', valor: 100 })
+
+    const manual = await parseFile(createFile('relatorio.txt', fixedWidthReport), { fixedWidth: { boundaries: [7] } })
+    expect(manual.sourceHeaders).toEqual(['CODIGO', 'NOME           VALOR'])
+  })
+})
+
+describe('fixed-width helpers', () => {
+  it('detects column starts from aligned blanks', () => {
+    expect(detectFixedWidthBoundaries(fixedWidthReport.split('\n'))).toEqual([7, 22])
+  })
+
+  it('splits and trims each column', () => {
+    expect(splitFixedWidthLine('001    Caneta azul     12,50', [7, 22])).toEqual(['001', 'Caneta azul', '12,50'])
+  })
+
+  it('detects comma decimals in the values', () => {
+    const result = parseFixedWidth(fixedWidthReport)
+
+    expect(result.decimalSeparator).toBe(',')
+    expect(result.rows[1]).toEqual([1, 'Caneta azul', 12.5])
+  })
+})
@@ -0,0 +1,208 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import * as XLSX from 'xlsx'
+import { createExportWorkbook, parseWorkbook, processData } from '@/lib/excel-parser'
+import {
+  evaluateFormula,
+  parseFormula,
+  rewriteFormulaRefs,
+  type FormulaContext,
+  type FormulaValue,
+} from '@/lib/formula-engine'
+import { recalculateFormulas } from '@/lib/formula-sheet'
+import { useAppStore } from '@/lib/store'
+import type { ProcessedData } from '@/types'
+
+/** Contexto sobre uma grade fixa (linha 0 = A1) */
+function gridContext(grid: FormulaValue[][]): FormulaContext {
+  const context: FormulaContext = {
+    getCell: ({ row, col }) => grid[row ?? 0]?.[col] ?? null,
+    getRange: (start, end) => {
+      const rows: FormulaValue[][] = []
+      for (let r = start.row ?? 0; r <= (end.row ?? grid.length - 1); r++) {
+        const values: FormulaValue[] = []
+        for (let c = start.col; c <= end.col; c++) values.push(context.getCell({ row: r, col: c }))
+        rows.push(values)
+      }
+      return rows
+    },
+  }
+  return context
+}
+
+describe('parseFormula', () => {
+  it('respects operator precedence and references', () => {
+    expect(parseFormula('=1+2*3^2')).toMatchObject({
+      type: 'binary',
+      operator: '+',
+      right: { type: 'binary', operator: '*' },
+    })
+    expect(parseFormula('=SUM($B$2:B10)')).toMatchObject({
+      type: 'call',
+      name: 'SUM',
+      args: [{ type: 'range', start: { row: 1, col: 1, rowAbsolute: true, colAbsolute: true }, end: { row: 9, col: 1 } }],
+    })
+  })
+
+  it('rewrites references without touching strings', () => {
+    const shifted = rewriteFormulaRefs('=A2&"A2"+SUM(B:B)', ref =>
+      ref.row == null ? 'C' : `A${ref.row + 2}`
+    )
+    expect(shifted).toBe('=A3&"A2"+SUM(C:C)')
+  })
+})
+
+describe('evaluateFormula', () => {
+  const grid: FormulaValue[][] = [
+    ['Produto', 'Preço', 'Qtd'],
+    ['Caneta', 2.5, 4],
+    ['Lápis', 1, 10],
+    ['Borracha', 0.75, 0],
+  ]
+  const context = gridContext(grid)
+
+  it('computes arithmetic, aggregates and logic', () => {
+    expect(evaluateFormula('=B2*C2', context)).toBe(10)
+    expect(evaluateFormula('=SUM(B2:B4)', context)).toBe(4.25)
+    expect(evaluateFormula('=AVERAGE(C2:C4)', context)).toBeCloseTo(4.667, 3)
+    expect(evaluateFormula('=IF(C4>0;"sim";"não")', context)).toBe('não')
+    expect(evaluateFormula('=ROUND(B2/3, 2)', context)).toBe(0.83)
+  })
+
+  it('looks up values and formats text', () => {
+    expect(evaluateFormula('=VLOOKUP("Lápis",A2:C4,3,FALSE)', context)).toBe(10)
+    expect(evaluateFormula('=VLOOKUP("Régua",A2:C4,2,FALSE)', context)).toEqual({ error: '#N/A' })
+    expect(evaluateFormula('=TEXT(B2,"0.00")', context)).toBe('2,50')
+    expect(evaluateFormula('=UPPER(LEFT(A2,3))&LEN(A3)', context)).toBe('CAN5')
+  })
+
+  it('handles dates as serial numbers', () => {
+    expect(evaluateFormula('=DATE(2024,3,15)', context)).toBe(45366)
+    expect(evaluateFormula('=MONTH(EOMONTH(DATE(2024,1,31),1))', context)).toBe(2)
+    expect(evaluateFormula('=DAY(EOMONTH(DATE(2024,1,31),1))', context)).toBe(29)
+  })
+
+  it('returns Excel errors', () => {
+    expect(evaluateFormula('=B2/C4', context)).toEqual({ error: '#DIV/0!' })
+    expect(evaluateFormula('=IFERROR(B2/C4,0)', context)).toBe(0)
+    expect(evaluateFormula('=NAOEXISTE(1)', context)).toEqual({ error: '#NAME?' })
+  })
+})
+
+describe('recalculation', () => {
+  const data: ProcessedData = {
+    schema: {
+      id: 'pedidos',
+      name: 'Pedidos',
+      columns: [
+        { key: 'preco', label: 'Preço', format: { type: 'number' }, sortable: true, searchable: false },
+        { key: 'qtd', label: 'Qtd', format: { type: 'number' }, sortable: true, searchable: false },
+        { key: 'total', label: 'Total', format: { type: 'number' }, sortable: true, searchable: false },
+      ],
+    },
+    rows: [
+      { _id: 'r1', _rowIndex: 0, preco: 2, qtd: 3, total: 6 },
+      { _id: 'r2', _rowIndex: 1, preco: 5, qtd: 1, total: 5 },
+      { _id: 'r3', _rowIndex: 2, preco: null, qtd: null, total: 11 },
+    ],
+    formulas: {
+      origin: { row: 1, col: 0 },
+      columns: ['preco', 'qtd', 'total'],
+      cells: [
+        { rowIndex: 0, columnKey: 'total', formula: '=A2*B2' },
+        { rowIndex: 1, columnKey: 'total', formula: '=A3*B3' },
+        { rowIndex: 2, columnKey: 'total', formula: '=SUM(C2:C3)' },
+      ],
+    },
+    metadata: { totalRows: 3, processedAt: new Date() },
+  }
+
+  beforeEach(() => {
+    useAppStore.getState().clearData()
+    useAppStore.getState().setData(data)
+  })
+
+  it('updates dependents after an inline edit', () => {
+    useAppStore.getState().updateCell('r1', 'qtd', 10)
+
+    const rows = useAppStore.getState().data!.rows
+    expect(rows[0].total).toBe(20)
+    expect(rows[2].total).toBe(25)
+    expect(rows[1]).toBe(data.rows[1])
+  })
+
+  it('accepts new formulas typed in a cell', () => {
+    useAppStore.getState().updateCell('r2', 'qtd', '=B2*2')
+
+    const state = useAppStore.getState().data!
+    expect(state.rows[1].qtd).toBe(6)
+    expect(state.rows[1].total).toBe(30)
+    expect(state.rows[2].total).toBe(36)
+    expect(state.formulas?.cells).toContainEqual({ rowIndex: 1, columnKey: 'qtd', formula: '=B2*2' })
+  })
+
+  it('drops the formula when a plain value is typed', () => {
+    useAppStore.getState().updateCell('r3', 'total', 0)
+
+    const state = useAppStore.getState().data!
+    expect(state.rows[2].total).toBe(0)
+    expect(state.formulas?.cells.some(c => c.rowIndex === 2 && c.columnKey === 'total')).toBe(false)
+  })
+
+  it('keeps cached values on circular references', () => {
+    const circular: ProcessedData = {
+      ...data,
+      formulas: {
+        ...data.formulas!,
+        cells: [
+          { rowIndex: 0, columnKey: 'total', formula: '=C4+1' },
+          { rowIndex: 2, columnKey: 'total', formula: '=C2+1' },
+        ],
+      },
+    }
+
+    const result = recalculateFormulas(circular)
+    expect(result.rows[0].total).toBe(6)
+    expect(result.rows[2].total).toBe(11)
+  })
+})
+
+describe('workbook formulas', () => {
+  function createWorkbook(): XLSX.WorkBook {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      ['Taxa', 0.1],
+      [],
+      ['Item', 'Valor', 'Com taxa'],
+      ['A', 100, 110],
+      ['B', 50, 55],
+    ])
+    worksheet.C4 = { t: 'n', v: 110, f: 'B4*(1+$B$1)' }
+    worksheet.C5 = { t: 'n', v: 55, f: 'B5*(1+$B$1)' }
+
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Itens')
+    const bytes = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })
+    return XLSX.read(bytes, { type: 'array' })
+  }
+
+  it('keeps the formulas and the values above the table', () => {
+    const result = processData(parseWorkbook(createWorkbook(), { headerRow: 2 }))
+
+    expect(result.formulas?.origin).toEqual({ row: 3, col: 0 })
+    expect(result.formulas?.constants).toMatchObject({ A1: 'Taxa', B1: 0.1 })
+    expect(result.formulas?.cells.map(c => c.formula)).toEqual(['=B4*(1+$B$1)', '=B5*(1+$B$1)'])
+
+    useAppStore.getState().setData(result)
+    useAppStore.getState().updateCell(result.rows[1]._id, 'valor', 200)
+    expect(useAppStore.getState().data!.rows[1].com_taxa).toBeCloseTo(220)
+  })
+
+  it('exports formulas with references moved to the new layout', () => {
+    const result = processData(parseWorkbook(createWorkbook(), { headerRow: 2 }))
+    const workbook = createExportWorkbook(result)
+    const sheet = workbook.Sheets[workbook.SheetNames[0]]
+
+    expect(sheet.C2.f).toBe('B2*(1+0.1)')
+    expect(sheet.C3.f).toBe('B3*(1+0.1)')
+    expect(sheet.C2.v).toBe(110)
+  })
+})
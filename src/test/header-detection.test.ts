@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { detectHeaderRow, mergeHeaderRows, rowsToParseResult } from '@/lib/excel-parser'
+
+const financeExport: unknown[][] = [
+  ['Relatório Financeiro Consolidado', null, null, null],
+  ['Empresa XYZ Ltda', null, null, null],
+  ['Gerado em 01/02/2025', null, null, null],
+  [null, null, null, null],
+  ['Conta', 'Centro de Custo', 'Valor', 'Data'],
+  ['Receita', 'Vendas', 1500, '01/01/2025'],
+  ['Despesa', 'Marketing', -300, '02/01/2025'],
+  ['Despesa', 'RH', -800, '03/01/2025'],
+]
+
+describe('detectHeaderRow', () => {
+  it('keeps row 0 for simple tables', () => {
+    const rows = [
+      ['nome', 'idade'],
+      ['Ana', 30],
+      ['Bruno', 25],
+    ]
+
+    expect(detectHeaderRow(rows)).toBe(0)
+  })
+
+  it('skips a title block above the real header', () => {
+    expect(detectHeaderRow(financeExport)).toBe(4)
+  })
+
+  it('returns the first row of a multi-row header block', () => {
+    const rows = [
+      ['Relatório Anual', null, null, null, null],
+      ['Região', '2025', null, '2026', null],
+      [null, 'Q1', 'Q2', 'Q1', 'Q2'],
+      ['Sul', 10, 20, 30, 40],
+      ['Norte', 5, 15, 25, 35],
+    ]
+
+    expect(detectHeaderRow(rows, 2)).toBe(1)
+  })
+})
+
+describe('mergeHeaderRows', () => {
+  it('builds composite labels and propagates group labels', () => {
+    const labels = mergeHeaderRows([
+      ['Região', '2025', null, '2026', null],
+      [null, 'Q1', 'Q2', 'Q1', 'Q2'],
+    ])
+
+    expect(labels).toEqual(['Região', '2025 / Q1', '2025 / Q2', '2026 / Q1', '2026 / Q2'])
+  })
+
+  it('does not repeat identical labels from stacked rows', () => {
+    expect(mergeHeaderRows([['Total'], ['Total']])).toEqual(['Total'])
+  })
+})
+
+describe('rowsToParseResult', () => {
+  it('uses the detected header row and drops the title block', () => {
+    const result = rowsToParseResult(financeExport)
+
+    expect(result.headerRow).toBe(4)
+    expect(result.sourceHeaders).toEqual(['Conta', 'Centro de Custo', 'Valor', 'Data'])
+    expect(result.headers).toEqual(['conta', 'centro_de_custo', 'valor', 'data'])
+    expect(result.data).toHaveLength(3)
+    expect(result.data[0]).toEqual({ conta: 'Receita', centro_de_custo: 'Vendas', valor: 1500, data: '01/01/2025' })
+  })
+
+  it('honours a manual header row override', () => {
+    const result = rowsToParseResult(financeExport, { headerRow: 0 })
+
+    expect(result.headerRow).toBe(0)
+    expect(result.sourceHeaders?.[0]).toBe('Relatório Financeiro Consolidado')
+    expect(result.headers[0]).toBe('relatorio_financeiro_consolidado')
+    expect(result.headers[1]).toBe('column_1')
+  })
+
+  it('merges N header rows into composite labels', () => {
+    const result = rowsToParseResult([
+      ['Região', '2025', null],
+      [null, 'Q1', 'Q2'],
+      ['Sul', 10, 20],
+    ], { headerRow: 'auto', headerRowCount: 2 })
+
+    expect(result.headerRowCount).toBe(2)
+    expect(result.sourceHeaders).toEqual(['Região', '2025 / Q1', '2025 / Q2'])
+    expect(result.data).toEqual([{ regiao: 'Sul', '2025_q1': 10, '2025_q2': 20 }])
+  })
+})
@@ -0,0 +1,9 @@
+import { processData, type ParseResult } from '@/lib/excel-parser'
+
+/**
+ * Processa linhas em texto como se viessem de um CSV com esse nome
+ */
+export function load(headers: string[], data: Record<string, string>[], sourceFileName?: string) {
+  const source: ParseResult = { headers, data, rawData: [], errors: [] }
+  return processData(source, undefined, { sourceFileName })
+}
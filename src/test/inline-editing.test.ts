@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useAppStore } from '@/lib/store'
+import { parseEditValue } from '@/lib/excel-parser'
 import type { ProcessedData } from '@/types'
 
 // Mock data for testing
@@ -235,4 +236,22 @@ describe('Inline Editing Feature', () => {
       expect(state.editingCell).toBe(null)
     })
   })
+
+  describe('Parsing Typed Values', () => {
+    it('parses numbers with the column locale', () => {
+      expect(parseEditValue('1.234,56', { type: 'number' }, 'pt-BR')).toBe(1234.56)
+      expect(parseEditValue('R$ 1.234,56', { type: 'currency', currency: 'BRL' }, 'pt-BR')).toBe(1234.56)
+      expect(parseEditValue('12,5%', { type: 'percentage' }, 'pt-BR')).toBe(12.5)
+      expect(parseEditValue('1,234.56', { type: 'number', locale: 'en-US' }, 'pt-BR')).toBe(1234.56)
+    })
+
+    it('rounds integers and rejects text that is not a number', () => {
+      expect(parseEditValue('1.234,6', { type: 'integer' }, 'pt-BR')).toBe(1235)
+      expect(parseEditValue('abc', { type: 'number' }, 'pt-BR')).toBeNull()
+    })
+
+    it('keeps formulas as text', () => {
+      expect(parseEditValue('=A1*2', { type: 'number' }, 'pt-BR')).toBe('=A1*2')
+    })
+  })
 })
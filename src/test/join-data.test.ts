@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest'
+import { joinData, toJoinKey } from '@/lib/join-data'
+import { load } from './helpers'
+
+const vendas = load(['pedido', 'sku', 'qtd'], [
+  { pedido: '1', sku: 'A-1', qtd: '2' },
+  { pedido: '2', sku: 'b-2 ', qtd: '1' },
+  { pedido: '3', sku: 'Z-9', qtd: '5' },
+], 'vendas.csv')
+
+const catalogo = load(['codigo', 'produto', 'preco', 'qtd'], [
+  { codigo: 'A-1', produto: 'Caneta', preco: '2,50', qtd: '100' },
+  { codigo: 'B-2', produto: 'Caderno', preco: '15,90', qtd: '40' },
+  { codigo: 'A-1', produto: 'Caneta azul', preco: '3,00', qtd: '10' },
+], 'catalogo.csv')
+
+describe('joinData', () => {
+  it('brings lookup columns over with a left join', () => {
+    const { data, matched, unmatched, duplicateKeys } = joinData(vendas, catalogo, {
+      type: 'left', leftKey: 'sku', rightKey: 'codigo', fields: ['produto', 'preco', 'qtd'],
+    })
+
+    expect([matched, unmatched, duplicateKeys]).toEqual([2, 1, 1])
+    expect(data.schema.columns.map(column => column.key)).toEqual(['pedido', 'sku', 'qtd', 'produto', 'preco', 'qtd_2'])
+    expect(data.rows.map(row => [row.produto, row.preco, row.qtd_2])).toEqual([
+      ['Caneta', 2.5, 100],
+      ['Caderno', 15.9, 40],
+      [null, null, null],
+    ])
+    expect(data.rows.map(row => row._id)).toEqual(vendas.rows.map(row => row._id))
+    expect(data.metadata.warnings).toEqual([
+      '1 linha sem "Sku" em "catalogo.csv"',
+      '1 chave repetida em "catalogo.csv"; usando a primeira ocorrência',
+    ])
+  })
+
+  it('types the joined columns like the lookup table', () => {
+    const { data } = joinData(vendas, catalogo, {
+      type: 'left', leftKey: 'sku', rightKey: 'codigo', fields: ['preco'],
+    })
+    const preco = catalogo.schema.columns.find(column => column.key === 'preco')!
+
+    expect(data.schema.columns.at(-1)).toMatchObject({ key: 'preco', format: preco.format })
+  })
+
+  it('drops unmatched rows with an inner join', () => {
+    const { data, unmatched } = joinData(vendas, catalogo, {
+      type: 'inner', leftKey: 'sku', rightKey: 'codigo', fields: ['produto'],
+    })
+
+    expect(unmatched).toBe(1)
+    expect(data.rows.map(row => row.pedido)).toEqual(['1', '2'])
+    expect(data.metadata.totalRows).toBe(2)
+  })
+
+  it('matches keys like VLOOKUP', () => {
+    expect(toJoinKey(' ABC ')).toBe(toJoinKey('abc'))
+    expect(toJoinKey(10)).toBe(toJoinKey('10'))
+    expect(toJoinKey('')).toBeNull()
+  })
+})
@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest'
+import { exportData, parseFile, processData, type ParseResult } from '@/lib/excel-parser'
+import { flattenRecord, parseJSONText, parseNDJSONText } from '@/lib/json-import'
+
+/**
+ * File mínimo com arrayBuffer/slice/stream (ausentes no File do jsdom)
+ */
+function createFile(name: string, content: string): File {
+  const bytes = new TextEncoder().encode(content)
+  const file = {
+    name,
+    size: bytes.byteLength,
+    type: '',
+    arrayBuffer: async () => bytes.slice().buffer,
+    slice: (start?: number, end?: number) => createFile(name, new TextDecoder().decode(bytes.slice(start, end))),
+  }
+  return file as unknown as File
+}
+
+function readBlobText(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsText(blob)
+  })
+}
+
+const order = {
+  id: 1,
+  cliente: { nome: 'Ana', endereco: { cidade: 'Recife' } },
+  tags: ['novo', 'vip'],
+  itens: [{ sku: 'A1' }],
+}
+
+describe('flattenRecord', () => {
+  it('uses dotted keys for nested objects', () => {
+    expect(flattenRecord(order)).toEqual({
+      id: 1,
+      'cliente.nome': 'Ana',
+      'cliente.endereco.cidade': 'Recife',
+      tags: 'novo, vip',
+      itens: '[{"sku":"A1"}]',
+    })
+  })
+
+  it('represents arrays according to the chosen mode', () => {
+    expect(flattenRecord(order, { arrays: 'json' }).tags).toBe('["novo","vip"]')
+
+    const indexed = flattenRecord(order, { arrays: 'index' })
+    expect(indexed['tags.0']).toBe('novo')
+    expect(indexed['tags.1']).toBe('vip')
+    expect(indexed['itens.0.sku']).toBe('A1')
+  })
+
+  it('revives ISO dates', () => {
+    const row = flattenRecord({ criado: '2024-03-15T10:30:00.000Z', codigo: '2024' })
+
+    expect(row.criado).toEqual(new Date('2024-03-15T10:30:00.000Z'))
+    expect(row.codigo).toBe('2024')
+  })
+})
+
+describe('parseJSONText', () => {
+  it('reads arrays and "data" envelopes', () => {
+    const fromArray = parseJSONText('[{"a":1},{"b":2}]')
+    expect(fromArray.headers).toEqual(['a', 'b'])
+    expect(fromArray.data).toEqual([{ a: 1 }, { b: 2 }])
+
+    const fromEnvelope = parseJSONText('{"total":1,"data":[{"nome":"Ana"}]}')
+    expect(fromEnvelope.data).toEqual([{ nome: 'Ana' }])
+  })
+
+  it('reports invalid JSON', () => {
+    const result = parseJSONText('{"a":')
+
+    expect(result.data).toHaveLength(0)
+    expect(result.errors[0]).toContain('JSON inválido')
+  })
+})
+
+describe('parseNDJSONText', () => {
+  it('reads one record per line and warns about broken lines', () => {
+    const result = parseNDJSONText('{"a":1}\n\n{quebrado\n{"a":3}\n')
+
+    expect(result.data).toEqual([{ a: 1 }, { a: 3 }])
+    expect(result.errors).toEqual(['Linha 3: JSON inválido'])
+  })
+})
+
+describe('parseFile with JSON', () => {
+  it('imports .json and .ndjson files', async () => {
+    const json = await parseFile(createFile('pedidos.json', JSON.stringify([order])))
+    expect(json.sourceHeaders).toContain('cliente.endereco.cidade')
+    expect(json.headers).toContain('cliente_endereco_cidade')
+
+    const ndjson = await parseFile(
+      createFile('eventos.ndjson', '{"tipo":"login"}\n{"tipo":"logout"}'),
+      { json: { arrays: 'json' } }
+    )
+    expect(ndjson.data.map(row => row.tipo)).toEqual(['login', 'logout'])
+  })
+
+  it('round-trips the JSON export', async () => {
+    const parseResult: ParseResult = {
+      headers: ['nome', 'valor', 'data_cadastro'],
+      data: [
+        { nome: 'Ana', valor: 10.5, data_cadastro: new Date('2024-01-10T00:00:00.000Z') },
+        { nome: 'Bruno', valor: 3, data_cadastro: new Date('2024-02-20T00:00:00.000Z') },
+      ],
+      rawData: [],
+      errors: [],
+    }
+    const original = processData(parseResult)
+
+    const text = await readBlobText(exportData(original, 'json'))
+    const reimported = processData(await parseFile(createFile('export.json', text)))
+
+    const values = (data: typeof original) =>
+      data.rows.map(row => data.schema.columns.map(col => row[col.key]))
+    expect(reimported.schema.columns.map(c => c.label)).toEqual(original.schema.columns.map(c => c.label))
+    expect(reimported.schema.columns.map(c => c.format.type)).toEqual(original.schema.columns.map(c => c.format.type))
+    expect(values(reimported)).toEqual(values(original))
+  })
+})
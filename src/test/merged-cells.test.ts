@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { parseWorkbook, processData, createExportWorkbook } from '@/lib/excel-parser'
+
+function createMergedWorkbook(): XLSX.WorkBook {
+  const worksheet = XLSX.utils.aoa_to_sheet([
+    ['Região', 'Vendedor', 'Total'],
+    ['Sul', 'Ana', 100],
+    [null, 'Bruno', 200],
+    ['Norte', 'Carla', 300],
+  ])
+  // "Sul" covers two rows; "Carla"/"Total" covers two columns
+  worksheet['!merges'] = [
+    { s: { r: 1, c: 0 }, e: { r: 2, c: 0 } },
+    { s: { r: 3, c: 1 }, e: { r: 3, c: 2 } },
+  ]
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, worksheet, 'Vendas')
+  return workbook
+}
+
+describe('Merged cells', () => {
+  it('keeps the value only in the first cell by default', () => {
+    const result = parseWorkbook(createMergedWorkbook())
+
+    expect(result.data[1].regiao).toBeNull()
+    expect(result.merges).toBeUndefined()
+  })
+
+  it('fills merged values into every covered cell', () => {
+    const result = parseWorkbook(createMergedWorkbook(), { mergedCells: 'fill' })
+
+    expect(result.data.map(row => row.regiao)).toEqual(['Sul', 'Sul', 'Norte'])
+    expect(result.data[2].total).toBe('Carla')
+  })
+
+  it('preserves merges as row and column spans', () => {
+    const result = parseWorkbook(createMergedWorkbook(), { mergedCells: 'span' })
+
+    expect(result.data[1].regiao).toBeNull()
+    expect(result.merges).toEqual([
+      { rowIndex: 0, columnKey: 'regiao', rowSpan: 2, colSpan: 1 },
+      { rowIndex: 2, columnKey: 'vendedor', rowSpan: 1, colSpan: 2 },
+    ])
+  })
+
+  it('ignores merges inside the header block', () => {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      ['Relatório', null],
+      ['Nome', 'Valor'],
+      ['A', 1],
+    ])
+    worksheet['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: 1 } }]
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Dados')
+
+    const result = parseWorkbook(workbook, { headerRow: 1, mergedCells: 'span' })
+
+    expect(result.merges).toEqual([])
+  })
+
+  it('carries spans into processed data and writes them back on export', () => {
+    const processed = processData(parseWorkbook(createMergedWorkbook(), { mergedCells: 'span' }))
+
+    expect(processed.merges).toHaveLength(2)
+
+    const exported = createExportWorkbook(processed)
+    const worksheet = exported.Sheets[exported.SheetNames[0]]
+
+    expect(worksheet['!merges']).toEqual([
+      { s: { r: 1, c: 0 }, e: { r: 2, c: 0 } },
+      { s: { r: 3, c: 1 }, e: { r: 3, c: 2 } },
+    ])
+  })
+
+  it('skips merges whose rows are no longer contiguous on export', () => {
+    const processed = processData(parseWorkbook(createMergedWorkbook(), { mergedCells: 'span' }))
+    processed.rows = [processed.rows[1], processed.rows[0], processed.rows[2]]
+
+    const exported = createExportWorkbook(processed)
+    const worksheet = exported.Sheets[exported.SheetNames[0]]
+
+    expect(worksheet['!merges']).toEqual([
+      { s: { r: 3, c: 1 }, e: { r: 3, c: 2 } },
+    ])
+  })
+})
@@ -0,0 +1,132 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import * as XLSX from 'xlsx'
+import { parseWorkbook, processWorkbook } from '@/lib/excel-parser'
+import { useAppStore } from '@/lib/store'
+import { diffData } from '@/lib/data-diff'
+
+function createWorkbook(): XLSX.WorkBook {
+  const workbook = XLSX.utils.book_new()
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['produto', 'valor'],
+    ['Caneta', 2.5],
+    ['Lápis', 1.2],
+  ]), 'Janeiro')
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['produto', 'valor', 'estoque'],
+    ['Caderno', 15, 10],
+  ]), 'Fevereiro')
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet([
+    ['chave'],
+    ['segredo'],
+  ]), 'Config')
+  workbook.Workbook = { Sheets: [{ Hidden: 0 }, { Hidden: 0 }, { Hidden: 2 }] }
+  return workbook
+}
+
+describe('parseWorkbook', () => {
+  it('returns every sheet with its dimensions', () => {
+    const result = parseWorkbook(createWorkbook())
+
+    expect(result.sheets).toHaveLength(3)
+    expect(result.sheets?.map(s => s.sheet.name)).toEqual(['Janeiro', 'Fevereiro', 'Config'])
+    expect(result.sheets?.[1].sheet.rowCount).toBe(2)
+    expect(result.sheets?.[1].sheet.columnCount).toBe(3)
+    expect(result.sheets?.[1].headers).toEqual(['produto', 'valor', 'estoque'])
+  })
+
+  it('flags hidden and very hidden sheets', () => {
+    const workbook = createWorkbook()
+    workbook.Workbook = { Sheets: [{ Hidden: 1 }, { Hidden: 0 }, { Hidden: 2 }] }
+
+    const result = parseWorkbook(workbook)
+
+    expect(result.sheets?.map(s => s.sheet.visibility)).toEqual(['hidden', 'visible', 'veryHidden'])
+    // Top-level fields follow the first visible sheet
+    expect(result.headers).toEqual(['produto', 'valor', 'estoque'])
+  })
+})
+
+describe('processWorkbook', () => {
+  it('creates one processed dataset per sheet', () => {
+    const sheets = processWorkbook(parseWorkbook(createWorkbook()), { sourceFileName: 'mensal.xlsx' })
+
+    expect(sheets).toHaveLength(3)
+    expect(sheets[0].data.schema.name).toBe('Janeiro')
+    expect(sheets[0].data.metadata.sheetName).toBe('Janeiro')
+    expect(sheets[1].data.schema.columns).toHaveLength(3)
+    expect(sheets[1].data.metadata.sourceFileName).toBe('mensal.xlsx')
+  })
+})
+
+describe('Sheet switching in the store', () => {
+  beforeEach(() => {
+    const store = useAppStore.getState()
+    store.clearData()
+    store.setWorkbook(processWorkbook(parseWorkbook(createWorkbook())))
+  })
+
+  it('activates the first visible sheet', () => {
+    const state = useAppStore.getState()
+    expect(state.sheets).toHaveLength(3)
+    expect(state.activeSheetIndex).toBe(0)
+    expect(state.data?.metadata.sheetName).toBe('Janeiro')
+  })
+
+  it('switches data and table state to the selected sheet', () => {
+    useAppStore.getState().setActiveSheet(1)
+
+    const state = useAppStore.getState()
+    expect(state.activeSheetIndex).toBe(1)
+    expect(state.data?.metadata.sheetName).toBe('Fevereiro')
+    expect(state.tableState.visibleColumns).toEqual(['produto', 'valor', 'estoque'])
+  })
+
+  it('keeps edits and table state when switching back', () => {
+    const store = useAppStore.getState()
+    const rowId = store.data!.rows[0]._id
+    store.updateCell(rowId, 'produto', 'Borracha')
+    store.setSearch('Borr')
+
+    store.setActiveSheet(1)
+    useAppStore.getState().setActiveSheet(0)
+
+    const state = useAppStore.getState()
+    expect(state.data?.rows[0].produto).toBe('Borracha')
+    expect(state.tableState.search).toBe('Borr')
+  })
+
+  it('ends an open comparison before switching sheets', () => {
+    const store = useAppStore.getState()
+    const janeiro = store.data!
+    store.showDiff(diffData(janeiro, janeiro, 'produto'))
+
+    useAppStore.getState().setActiveSheet(1)
+    let state = useAppStore.getState()
+    expect(state.diff).toBeNull()
+    expect(state.diffSource).toBeNull()
+    expect(state.sheets[0].data).toBe(janeiro)
+
+    state.setActiveSheet(0)
+    state = useAppStore.getState()
+    expect(state.data).toBe(janeiro)
+    expect(state.tableState.visibleColumns).toEqual(['produto', 'valor'])
+  })
+
+  it('ends an open comparison when a workbook is loaded', () => {
+    const store = useAppStore.getState()
+    store.showDiff(diffData(store.data!, store.data!, 'produto'))
+    store.setWorkbook(processWorkbook(parseWorkbook(createWorkbook())))
+
+    const state = useAppStore.getState()
+    expect(state.diff).toBeNull()
+    expect(state.diffSource).toBeNull()
+    expect(state.data?.schema.columns.map(column => column.key)).toEqual(['produto', 'valor'])
+  })
+
+  it('drops the workbook when single data is loaded', () => {
+    const store = useAppStore.getState()
+    store.setData(store.sheets[1].data)
+
+    expect(useAppStore.getState().sheets).toHaveLength(0)
+  })
+})
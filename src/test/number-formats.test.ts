@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest'
+import * as XLSX from 'xlsx'
+import { parseWorkbook, processData } from '@/lib/excel-parser'
+import { excelFormatToColumnFormat, isPercentFormat } from '@/lib/number-format'
+import { formatValue } from '@/lib/utils'
+
+describe('excelFormatToColumnFormat', () => {
+  it('ignores general and text formats', () => {
+    expect(excelFormatToColumnFormat('General')).toBeNull()
+    expect(excelFormatToColumnFormat('@')).toBeNull()
+    expect(excelFormatToColumnFormat(undefined)).toBeNull()
+  })
+
+  it('reads numbers and percentages with their decimals', () => {
+    expect(excelFormatToColumnFormat('#,##0.000')).toEqual({ type: 'number', decimals: 3 })
+    expect(excelFormatToColumnFormat('0')).toEqual({ type: 'number', decimals: 0 })
+    expect(excelFormatToColumnFormat('0.00%')).toEqual({ type: 'percentage', decimals: 2 })
+  })
+
+  it('reads currencies from quoted symbols, locale tags and accounting formats', () => {
+    expect(excelFormatToColumnFormat('"R$" #,##0.00')).toEqual({ type: 'currency', decimals: 2, currency: 'BRL' })
+    expect(excelFormatToColumnFormat('[$€-407] #,##0.00;[Red]-[$€-407] #,##0.00')).toEqual({
+      type: 'currency', decimals: 2, currency: 'EUR', locale: 'de-DE',
+    })
+    expect(excelFormatToColumnFormat('_-[$R$-416]\\ * #,##0.00_-;\\-[$R$-416]\\ * #,##0.00_-')).toMatchObject({
+      type: 'currency', currency: 'BRL', locale: 'pt-BR',
+    })
+    expect(excelFormatToColumnFormat('$#,##0')).toEqual({ type: 'currency', decimals: 0 })
+  })
+
+  it('keeps literal text as prefix and suffix', () => {
+    expect(excelFormatToColumnFormat('0.0" kg"')).toEqual({ type: 'number', decimals: 1, suffix: ' kg' })
+    expect(excelFormatToColumnFormat('"Nº "0')).toEqual({ type: 'number', decimals: 0, prefix: 'Nº ' })
+  })
+
+  it('translates date and time codes to date-fns patterns', () => {
+    expect(excelFormatToColumnFormat('dd/mm/yyyy')).toEqual({ type: 'date', dateFormat: 'dd/MM/yyyy' })
+    expect(excelFormatToColumnFormat('dd/mm/yyyy hh:mm')).toEqual({ type: 'datetime', dateFormat: 'dd/MM/yyyy HH:mm' })
+    expect(excelFormatToColumnFormat('mmm/yy')).toEqual({ type: 'date', dateFormat: 'MMM/yy' })
+    expect(excelFormatToColumnFormat('h:mm AM/PM')).toEqual({ type: 'time', dateFormat: 'h:mm a' })
+    expect(excelFormatToColumnFormat('d "de" mmmm')).toEqual({ type: 'date', dateFormat: "d 'de' MMMM" })
+    // Data curta do sistema segue o padrão regional
+    expect(excelFormatToColumnFormat('m/d/yy')).toEqual({ type: 'date', dateFormat: 'dd/MM/yyyy' })
+  })
+
+  it('maps elapsed time to durations', () => {
+    expect(excelFormatToColumnFormat('[h]:mm:ss')).toEqual({ type: 'duration', dateFormat: 'h:mm:ss' })
+    expect(excelFormatToColumnFormat('[h]:mm')).toEqual({ type: 'duration', dateFormat: 'h:mm' })
+  })
+
+  it('detects percentage formats outside quotes', () => {
+    expect(isPercentFormat('0%')).toBe(true)
+    expect(isPercentFormat('0" %"')).toBe(false)
+  })
+})
+
+describe('workbook number formats', () => {
+  function createFormattedWorkbook(): XLSX.WorkBook {
+    const worksheet = XLSX.utils.aoa_to_sheet([
+      ['produto', 'preco', 'desconto', 'peso', 'entrega'],
+      ['Caneta', 1234.5, 0.125, 2.5, new Date(2024, 2, 15, 14, 30)],
+      ['Lápis', 2, 0.07, 10, new Date(2024, 3, 1, 9, 0)],
+    ], { cellDates: true })
+
+    const formats = ['"R$" #,##0.00', '0.0%', '0.0" kg"', 'dd/mm/yyyy hh:mm']
+    for (let r = 1; r <= 2; r++) {
+      formats.forEach((format, i) => {
+        worksheet[XLSX.utils.encode_cell({ r, c: i + 1 })].z = format
+      })
+    }
+
+    const workbook = XLSX.utils.book_new()
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Pedidos')
+    const bytes = XLSX.write(workbook, { bookType: 'xlsx', type: 'array' })
+    return XLSX.read(bytes, { type: 'array', cellDates: true, cellNF: true })
+  }
+
+  it('keeps typed values and turns the formats into the schema', () => {
+    const parsed = parseWorkbook(createFormattedWorkbook())
+    const result = processData(parsed)
+    const formats = Object.fromEntries(result.schema.columns.map(c => [c.key, c.format]))
+
+    expect(result.rows[0].preco).toBe(1234.5)
+    expect(result.rows[1].desconto).toBe(7)
+    expect(result.rows[0].entrega).toBeInstanceOf(Date)
+
+    expect(formats.preco).toMatchObject({ type: 'currency', currency: 'BRL', decimals: 2 })
+    expect(formats.desconto).toMatchObject({ type: 'percentage', decimals: 1 })
+    expect(formats.peso).toMatchObject({ type: 'number', decimals: 1, suffix: ' kg' })
+    expect(formats.entrega).toMatchObject({ type: 'datetime', dateFormat: 'dd/MM/yyyy HH:mm' })
+  })
+
+  it('displays values as Excel does', () => {
+    const result = processData(parseWorkbook(createFormattedWorkbook()))
+    const [, preco, desconto, peso, entrega] = result.schema.columns
+    const row = result.rows[0]
+
+    expect(formatValue(row.preco, preco.format)).toMatch(/R\$\s1\.234,50/)
+    expect(formatValue(row.desconto, desconto.format)).toMatch(/12,5\s?%/)
+    expect(formatValue(row.peso, peso.format)).toBe('2,5 kg')
+    expect(formatValue(row.entrega, entrega.format)).toBe('15/03/2024 14:30')
+  })
+})
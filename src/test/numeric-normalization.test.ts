@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { generateSchemaFromData, processData, type ParseResult } from '@/lib/excel-parser'
+import { parseFormattedNumber } from '@/lib/locale-number'
+
+function createParseResult(headers: string[], data: Record<string, unknown>[]): ParseResult {
+  return {
+    headers,
+    data: data as ParseResult['data'],
+    rawData: [],
+    errors: [],
+  }
+}
+
+describe('parseFormattedNumber', () => {
+  it('strips currency symbols and codes', () => {
+    expect(parseFormattedNumber('R$ 1.234,56', ',')).toEqual({ value: 1234.56, isCurrency: true, currency: 'BRL', isPercent: false })
+    expect(parseFormattedNumber('USD 10.50', '.')?.currency).toBe('USD')
+    expect(parseFormattedNumber('1.000,00 €', ',')?.value).toBe(1000)
+    expect(parseFormattedNumber('$ 5', '.')).toEqual({ value: 5, isCurrency: true, currency: undefined, isPercent: false })
+  })
+
+  it('handles parentheses, trailing and leading minus signs', () => {
+    expect(parseFormattedNumber('(1.234,56)', ',')?.value).toBe(-1234.56)
+    expect(parseFormattedNumber('1.234,56-', ',')?.value).toBe(-1234.56)
+    expect(parseFormattedNumber('-R$ 10,00', ',')?.value).toBe(-10)
+    expect(parseFormattedNumber('R$ -10,00', ',')?.value).toBe(-10)
+    expect(parseFormattedNumber('(R$ 10,00)', ',')?.value).toBe(-10)
+  })
+
+  it('reads percentages without scaling them', () => {
+    expect(parseFormattedNumber('12,5%', ',')).toEqual({ value: 12.5, isCurrency: false, currency: undefined, isPercent: true })
+  })
+
+  it('falls back to the other separator when the locale one does not fit', () => {
+    expect(parseFormattedNumber('1234.56', ',')?.value).toBe(1234.56)
+    // Ambiguous values follow the locale
+    expect(parseFormattedNumber('1.234', ',')?.value).toBe(1234)
+    expect(parseFormattedNumber('1.234', '.')?.value).toBe(1.234)
+  })
+
+  it('returns null for non-numeric text', () => {
+    expect(parseFormattedNumber('R$', ',')).toBeNull()
+    expect(parseFormattedNumber('n/a', ',')).toBeNull()
+  })
+})
+
+describe('generateSchemaFromData with localized strings', () => {
+  it('infers number, currency and percentage from text values', () => {
+    const schema = generateSchemaFromData(['valor', 'preco', 'taxa'], [
+      { valor: '1.234,56', preco: 'R$ 10,00', taxa: '12,5%' },
+      { valor: '(200,00)', preco: 'R$ 1.500,00', taxa: '3%' },
+      { valor: '987,10', preco: 'R$ 0,99', taxa: '50%' },
+    ])
+
+    expect(schema.columns.map(c => c.format.type)).toEqual(['number', 'currency', 'percentage'])
+  })
+
+  it('takes the currency code from the values or the company default', () => {
+    const fromValues = generateSchemaFromData(['preco'], [{ preco: 'US$ 10.00' }, { preco: 'US$ 20.00' }], { locale: 'en-US' })
+    expect(fromValues.columns[0].format).toMatchObject({ type: 'currency', currency: 'USD', locale: 'en-US' })
+
+    const fromCompany = generateSchemaFromData(['preco'], [{ preco: '€ 10,00' }, { preco: '$ 20,00' }], { currencyCode: 'EUR' })
+    expect(fromCompany.columns[0].format.currency).toBe('EUR')
+  })
+})
+
+describe('processData numeric normalization', () => {
+  it('normalizes Brazilian formatted values', () => {
+    const result = processData(createParseResult(['preco'], [
+      { preco: 'R$ 1.234,56' },
+      { preco: '(R$ 10,00)' },
+      { preco: 'R$ 5,00-' },
+    ]))
+
+    expect(result.rows.map(row => row.preco)).toEqual([1234.56, -10, -5])
+    expect(result.metadata.warnings).toBeUndefined()
+  })
+
+  it('uses the column locale before the default locale', () => {
+    const parseResult = createParseResult(['valor'], [{ valor: '1,234.50' }, { valor: 'abc' }])
+    const schema = generateSchemaFromData(['valor'], [{ valor: 1 }])
+    schema.columns[0].format = { type: 'number', locale: 'en-US' }
+
+    const result = processData(parseResult, schema, { locale: 'pt-BR' })
+
+    expect(result.rows[0].valor).toBe(1234.5)
+    expect(result.rows[1].valor).toBeNull()
+  })
+
+  it('warns about every value that cannot be coerced', () => {
+    const schema = generateSchemaFromData(['valor'], [{ valor: 1 }])
+    schema.columns[0].format = { type: 'number' }
+
+    const result = processData(createParseResult(['valor'], [
+      { valor: '10,5' },
+      { valor: 'n/a' },
+      { valor: '' },
+      { valor: '1,2,3' },
+    ]), schema)
+
+    expect(result.rows.map(row => row.valor)).toEqual([10.5, null, null, null])
+    expect(result.metadata.warnings).toHaveLength(2)
+    expect(result.metadata.warnings?.[0]).toContain('Linha 2')
+    expect(result.metadata.warnings?.[0]).toContain('"n/a"')
+  })
+})
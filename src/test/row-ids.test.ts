@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest'
+import { generateSchemaFromData, processData, type ParseResult } from '@/lib/excel-parser'
+import { DataSchemaSchema } from '@/types'
+
+const source: ParseResult = {
+  headers: ['filial', 'pedido', 'valor'],
+  data: [
+    { filial: 'SP', pedido: '10', valor: '5' },
+    { filial: 'RJ', pedido: '10', valor: '7' },
+    { filial: 'SP', pedido: '11', valor: '5' },
+    { filial: 'SP', pedido: '10', valor: '9' },
+  ],
+  rawData: [],
+  errors: [],
+}
+
+const schema = generateSchemaFromData(source.headers, source.data)
+
+describe('row ids', () => {
+  it('derives ids from a composite primary key and warns on duplicates', () => {
+    const result = processData(source, { ...schema, primaryKey: ['filial', 'pedido'] })
+
+    expect(result.rows.map(row => row._id)).toEqual(['pk:SP/10', 'pk:RJ/10', 'pk:SP/11', 'pk:SP/10~2'])
+    expect(result.metadata.warnings).toEqual(['Linha 4: chave primária "SP / 10" repetida (linha 1)'])
+  })
+
+  it('is stable across loads without a primary key', () => {
+    const first = processData(source).rows.map(row => row._id)
+    const second = processData(source).rows.map(row => row._id)
+
+    expect(first).toEqual(second)
+    expect(first.every(id => id.startsWith('row:'))).toBe(true)
+    expect(new Set(first).size).toBe(4)
+  })
+
+  it('keeps content ids when rows move and suffixes identical rows', () => {
+    const reordered = processData({ ...source, data: [...source.data].reverse() }).rows.map(row => row._id)
+    expect(reordered.reverse()).toEqual(processData(source).rows.map(row => row._id))
+
+    const twins = processData({ ...source, data: [source.data[0], source.data[0]] }).rows.map(row => row._id)
+    expect(twins[1]).toBe(`${twins[0]}~2`)
+  })
+
+  it('keeps preceding row ids and avoids them in the new rows', () => {
+    const pkSchema = { ...schema, primaryKey: ['filial', 'pedido'] }
+    const loaded = processData({ ...source, data: source.data.slice(0, 2) }, pkSchema)
+    const edited = [{ ...loaded.rows[0], valor: 50 }, loaded.rows[1]]
+    const result = processData({ ...source, data: [source.data[0]] }, pkSchema, { precedingRows: edited })
+
+    expect(result.rows.map(row => row._id)).toEqual(['pk:SP/10', 'pk:RJ/10', 'pk:SP/10~2'])
+    expect(result.rows[0].valor).toBe(50)
+    expect(result.metadata.warnings).toEqual(['Linha 3: chave primária "SP / 10" repetida (linha 1)'])
+  })
+
+  it('falls back to content ids for empty or unknown keys', () => {
+    const empty = processData({ ...source, data: [{ filial: '', pedido: '', valor: '1' }] }, { ...schema, primaryKey: ['filial', 'pedido'] })
+    expect(empty.rows[0]._id).toMatch(/^row:/)
+    expect(empty.metadata.warnings).toEqual(['Linha 1: chave primária vazia'])
+
+    const unknown = processData(source, { ...schema, primaryKey: 'codigo' })
+    expect(unknown.rows[0]._id).toMatch(/^row:/)
+    expect(unknown.metadata.warnings).toEqual(['Chave primária com colunas inexistentes (codigo); usando o conteúdo das linhas'])
+  })
+
+  it('accepts single and composite keys in schema definitions', () => {
+    expect(DataSchemaSchema.safeParse({ ...schema, primaryKey: 'pedido' }).success).toBe(true)
+    expect(DataSchemaSchema.safeParse({ ...schema, primaryKey: ['filial', 'pedido'] }).success).toBe(true)
+    expect(DataSchemaSchema.safeParse({ ...schema, primaryKey: [] }).success).toBe(false)
+  })
+})
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+import { processData, type ParseResult } from '@/lib/excel-parser'
+import { applySchemaMatch, findSchemaMatches, matchSchema, rememberMapping, remapSchemaMatch } from '@/lib/schema-matching'
+
+const saved = processData({
+  headers: ['cliente', 'valor', 'data'],
+  sourceHeaders: ['Cliente', 'Valor', 'Data'],
+  data: [{ cliente: 'Ana', valor: '10,50', data: '15/03/2024' }],
+  rawData: [],
+  errors: [],
+}, undefined, { schemaId: 'vendas', schemaName: 'Vendas' }).schema
+
+const renamedClient = {
+  ...saved,
+  columns: saved.columns.map(column =>
+    column.key === 'cliente' ? { ...column, key: 'nome_cliente', label: 'Nome do cliente', header: 'Cliente' } : column
+  ),
+}
+
+const upload: ParseResult = {
+  headers: ['cliente', 'valor', 'obs'],
+  sourceHeaders: ['Cliente', 'Valor', 'Obs.'],
+  data: [{ cliente: 'Bia', valor: '7', obs: 'urgente' }],
+  rawData: [],
+  errors: [],
+}
+
+describe('matchSchema', () => {
+  it('scores shared columns and lists missing and extra ones', () => {
+    const match = matchSchema(upload, saved)
+
+    expect(match.score).toBe(0.5)
+    expect(match.mapping).toEqual({ cliente: 'cliente', valor: 'valor' })
+    expect(match.missing.map(column => column.key)).toEqual(['data'])
+    expect(match.extra).toEqual([{ key: 'obs', header: 'Obs.' }])
+  })
+
+  it('recognizes columns by their original header', () => {
+    expect(matchSchema(upload, renamedClient).mapping).toEqual({ nome_cliente: 'cliente', valor: 'valor' })
+  })
+
+  it('proposes only similar schemas, best first', () => {
+    const other = { ...saved, id: 'outro', columns: saved.columns.slice(0, 1) }
+    const unrelated = { ...saved, id: 'estoque', columns: [{ ...saved.columns[0], key: 'sku', label: 'SKU', header: 'SKU' }] }
+
+    const matches = findSchemaMatches(upload, [other, unrelated, saved])
+    expect(matches.map(match => match.schema.id)).toEqual(['vendas'])
+    expect(findSchemaMatches(upload, [other, saved], 0.3).map(match => match.schema.id)).toEqual(['vendas', 'outro'])
+  })
+})
+
+describe('applySchemaMatch', () => {
+  it('uses the saved columns and appends the new ones', () => {
+    const result = applySchemaMatch(upload, matchSchema(upload, renamedClient))
+
+    expect(result.schema.id).toBe('vendas')
+    expect(result.schema.columns.map(column => column.key)).toEqual(['nome_cliente', 'valor', 'data', 'obs'])
+    expect(result.schema.columns[3]).toMatchObject({ label: 'Obs.', format: { type: 'string' } })
+    expect(result.rows[0]).toMatchObject({ nome_cliente: 'Bia', valor: 7, data: null, obs: 'urgente' })
+  })
+})
+
+describe('column mapping', () => {
+  const export2: ParseResult = {
+    headers: ['nome_do_cliente', 'valor', 'vencimento'],
+    sourceHeaders: ['Nome do Cliente', 'Valor', 'Vencimento'],
+    data: [{ nome_do_cliente: 'Caio', valor: '5', vencimento: '01/04/2024' }],
+    rawData: [],
+    errors: [],
+  }
+
+  it('reports unmapped columns on both sides', () => {
+    const match = remapSchemaMatch(export2, saved, { cliente: 'nome_do_cliente', valor: 'valor' })
+
+    expect(match.missing.map(column => column.key)).toEqual(['data'])
+    expect(match.extra).toEqual([{ key: 'vencimento', header: 'Vencimento' }])
+    expect(match.score).toBe(0.5)
+  })
+
+  it('remembers manual mappings as aliases', () => {
+    const match = remapSchemaMatch(export2, saved, { cliente: 'nome_do_cliente', valor: 'valor', data: 'vencimento' })
+    const schema = rememberMapping(export2, match)
+
+    expect(schema.columns.map(column => column.aliases)).toEqual([['Nome do Cliente'], undefined, ['Vencimento']])
+    // Com os aliases, o próximo arquivo é reconhecido sozinho
+    expect(matchSchema(export2, schema).score).toBe(1)
+  })
+
+  it('reads aliased columns when processing with the schema', () => {
+    const schema = rememberMapping(export2, remapSchemaMatch(export2, saved, {
+      cliente: 'nome_do_cliente', valor: 'valor', data: 'vencimento',
+    }))
+    const result = processData(export2, schema)
+
+    expect(result.rows[0]).toMatchObject({ cliente: 'Caio', valor: 5 })
+    expect(result.rows[0].data).toBeInstanceOf(Date)
+  })
+
+  it('keeps a cleared column empty instead of reusing its key', () => {
+    const match = remapSchemaMatch(upload, saved, { valor: 'valor' })
+    const result = applySchemaMatch(upload, match)
+
+    expect(result.schema.columns.map(column => column.key)).toEqual(['cliente', 'valor', 'data', 'cliente_2', 'obs'])
+    expect(result.rows[0]).toMatchObject({ cliente: null, cliente_2: 'Bia', valor: 7 })
+  })
+})
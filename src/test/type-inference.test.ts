@@ -0,0 +1,95 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  analyzeColumnType,
+  analyzeSchemaTypes,
+  generateSchemaFromData,
+  processData,
+  retypeColumn,
+  INFERENCE_SAMPLE_SIZE,
+} from '@/lib/excel-parser'
+import { useAppStore } from '@/lib/store'
+import type { ParseResult } from '@/lib/excel-parser'
+
+describe('analyzeColumnType', () => {
+  it('reports counts, confidence and counter-examples', () => {
+    const values = ['10', '20,5', '30', 'n/d', '40', '50', '60', '70', '80', '-']
+    const inference = analyzeColumnType(values)
+
+    expect(inference.type).toBe('progress')
+    expect(inference.rule).toBe('threshold')
+    expect(inference.counts).toEqual({ integer: 7, number: 1, progress: 8, string: 2 })
+    expect(inference.confidence).toBe(0.8)
+    expect(inference.counterExamples).toEqual(['n/d', '-'])
+    expect(inference).toMatchObject({ sampled: 10, total: 10 })
+  })
+
+  it('explains badge and text fallbacks', () => {
+    const mixed = analyzeColumnType(['A', 'B', 'A', 'x@y.com', '12', '13'])
+    expect(mixed).toMatchObject({ type: 'badge', rule: 'badge', distinct: 5 })
+    expect(mixed.confidence).toBe(0.5)
+
+    expect(analyzeColumnType([null, ''])).toMatchObject({ type: 'string', rule: 'empty', confidence: 0 })
+  })
+
+  it('samples evenly across very large columns', () => {
+    const size = INFERENCE_SAMPLE_SIZE * 4
+    // Texto só no fim do arquivo: a amostra precisa alcançá-lo
+    const values = Array.from({ length: size }, (_, i) => i < size / 2 ? String(i) : `item ${i}`)
+    const inference = analyzeColumnType(values)
+
+    expect(inference.sampled).toBe(INFERENCE_SAMPLE_SIZE)
+    expect(inference.total).toBe(size)
+    expect(inference.counts.string).toBe(INFERENCE_SAMPLE_SIZE / 2)
+    expect(inference.type).toBe('string')
+  })
+})
+
+describe('type overrides', () => {
+  const source: ParseResult = {
+    headers: ['codigo', 'valor'],
+    data: [{ codigo: '001', valor: '10,50' }, { codigo: '002', valor: '7' }, { codigo: '010', valor: '3' }],
+    rawData: [],
+    errors: [],
+  }
+
+  beforeEach(() => {
+    useAppStore.getState().clearData()
+  })
+
+  it('rebuilds the column format for the new type', () => {
+    const schema = generateSchemaFromData(source.headers, source.data)
+    const [codigo, valor] = schema.columns
+    expect(codigo.format.type).toBe('integer')
+
+    const asText = retypeColumn(codigo, 'string', source.data.map(row => row.codigo))
+    expect(asText).toMatchObject({ key: 'codigo', label: codigo.label, searchable: true, format: { type: 'string' } })
+    expect(asText.align).toBeUndefined()
+
+    const asCurrency = retypeColumn(valor, 'currency', source.data.map(row => row.valor), { currencyCode: 'USD' })
+    expect(asCurrency.format).toMatchObject({ type: 'currency', currency: 'USD', locale: 'pt-BR' })
+  })
+
+  it('reprocesses the raw values and replaces the active data', () => {
+    const processed = processData(source)
+    const inferences = analyzeSchemaTypes(source, processed.schema)
+    expect(inferences.codigo.type).toBe('integer')
+    expect(processed.rows.map(row => row.codigo)).toEqual([1, 2, 10])
+
+    useAppStore.getState().setData(processed)
+    useAppStore.getState().setTypeReview({ source, options: {} })
+
+    const schema = {
+      ...processed.schema,
+      columns: processed.schema.columns.map(column =>
+        column.key === 'codigo' ? retypeColumn(column, 'string', source.data.map(row => row.codigo)) : column
+      ),
+    }
+    useAppStore.getState().replaceData(processData(source, schema))
+    useAppStore.getState().setTypeReview(null)
+
+    const state = useAppStore.getState()
+    expect(state.data!.rows.map(row => row.codigo)).toEqual(['001', '002', '010'])
+    expect(state.data!.rows.map(row => row.valor)).toEqual([10.5, 7, 3])
+    expect(state.typeReview).toBeNull()
+  })
+})
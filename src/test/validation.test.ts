@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { generateSchemaFromData, processData, type ParseResult } from '@/lib/excel-parser'
+import { validateRows } from '@/lib/validation'
+import { getViewRows, useAppStore } from '@/lib/store'
+import { DataSchemaSchema, type ColumnRules, type DataSchema } from '@/types'
+
+const source: ParseResult = {
+  headers: ['pedido', 'status', 'valor', 'inicio', 'fim', 'email'],
+  data: [
+    { pedido: 'P-1', status: 'Aberto', valor: '120', inicio: '01/03/2024', fim: '05/03/2024', email: 'a@x.com' },
+    { pedido: 'P-2', status: 'Perdido', valor: '-5', inicio: '10/03/2024', fim: '02/03/2024', email: 'b@x.com' },
+    { pedido: 'P-1', status: 'Fechado', valor: '2500', inicio: '01/04/2024', fim: '', email: '' },
+  ],
+  rawData: [],
+  errors: [],
+}
+
+function withRules(rules: Record<string, ColumnRules>): DataSchema {
+  const schema = generateSchemaFromData(source.headers, source.data)
+  return {
+    ...schema,
+    columns: schema.columns.map(column => rules[column.key] ? { ...column, rules: rules[column.key] } : column),
+  }
+}
+
+describe('validateRows', () => {
+  it('checks each rule and reports violations by row', () => {
+    const schema = withRules({
+      pedido: { unique: true, pattern: 'P-\\d+' },
+      status: { allowedValues: ['Aberto', 'Fechado'] },
+      valor: { min: 0, max: 1000 },
+      fim: { expression: 'fim >= inicio', message: 'Fim antes do início' },
+      email: { required: true },
+    })
+    const result = processData(source, schema)
+
+    expect(result.violations!.map(v => [v.rowIndex, v.columnKey, v.rule])).toEqual([
+      [1, 'status', 'allowedValues'],
+      [1, 'valor', 'min'],
+      [1, 'fim', 'expression'],
+      [2, 'pedido', 'unique'],
+      [2, 'valor', 'max'],
+      [2, 'email', 'required'],
+    ])
+    expect(result.violations!.map(v => v.message)).toEqual([
+      '"Perdido" não está entre os valores permitidos',
+      'Menor que o mínimo (0)',
+      'Fim antes do início',
+      'Valor repetido (já aparece na linha 1)',
+      'Maior que o máximo (1000)',
+      'Valor obrigatório',
+    ])
+  })
+
+  it('compares dates with ISO bounds and reports broken expressions', () => {
+    const schema = withRules({
+      inicio: { min: '2024-03-05' },
+      valor: { expression: 'valor > coluna_inexistente' },
+    })
+    const violations = validateRows(schema, processData(source, schema).rows)
+
+    expect(violations.filter(v => v.rule === 'min').map(v => v.rowIndex)).toEqual([0])
+    expect(violations.find(v => v.rule === 'expression')?.message).toBe('Expressão inválida: valor > coluna_inexistente')
+  })
+
+  it('leaves data without rules untouched', () => {
+    expect(processData(source).violations).toBeUndefined()
+  })
+
+  it('validates rules in schema definitions', () => {
+    const schema = withRules({ pedido: { pattern: '[' } })
+    expect(DataSchemaSchema.safeParse(schema).success).toBe(false)
+    expect(DataSchemaSchema.safeParse(withRules({ pedido: { pattern: 'P-\\d+', unique: true } })).success).toBe(true)
+  })
+})
+
+describe('store', () => {
+  beforeEach(() => {
+    useAppStore.getState().clearData()
+  })
+
+  it('revalidates after editing a cell', () => {
+    useAppStore.getState().setData(processData(source, withRules({ valor: { max: 1000 } })))
+    const row = useAppStore.getState().data!.rows[2]
+    expect(useAppStore.getState().data!.violations).toHaveLength(1)
+
+    useAppStore.getState().updateCell(row._id, 'valor', 900)
+    expect(useAppStore.getState().data!.violations).toEqual([])
+  })
+
+  it('jumps to the page of a hidden row', () => {
+    const many: ParseResult = {
+      headers: ['n'],
+      data: Array.from({ length: 60 }, (_, i) => ({ n: String(i) })),
+      rawData: [],
+      errors: [],
+    }
+    useAppStore.getState().setData(processData(many))
+    useAppStore.getState().setSearch('1')
+    const target = useAppStore.getState().data!.rows[52]
+
+    useAppStore.getState().focusCell(target._id, 'n')
+    const { tableState, focusedCell } = useAppStore.getState()
+
+    expect(tableState.search).toBe('')
+    expect(tableState.pagination.page).toBe(3)
+    expect(focusedCell).toEqual({ rowId: target._id, columnKey: 'n' })
+    expect(getViewRows(useAppStore.getState().data!, tableState).indexOf(target)).toBe(52)
+  })
+})
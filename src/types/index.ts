@@ -10,10 +10,13 @@ import { z } from 'zod'
 export type ColumnType = 
   | 'string' 
   | 'number' 
+  | 'integer'
   | 'currency' 
   | 'percentage' 
   | 'date' 
   | 'datetime'
+  | 'time'
+  | 'duration'
   | 'boolean'
   | 'email'
   | 'url'
@@ -21,6 +24,10 @@ export type ColumnType =
   | 'image'
   | 'badge'
   | 'progress'
+  | 'cpf'
+  | 'cnpj'
+  | 'cep'
+  | 'plate'
 
 /**
  * Configuração de formatação para uma coluna
@@ -30,19 +37,70 @@ export interface ColumnFormat {
   locale?: string
   currency?: string
   decimals?: number
+  /** Máscara do date-fns; em durações, "h:mm" ou "h:mm:ss" */
   dateFormat?: string
+  /** Fuso horário IANA de exibição (somente datetime), ex.: "America/Sao_Paulo" */
+  timeZone?: string
   prefix?: string
   suffix?: string
   badgeColors?: Record<string, { bg: string; text: string }>
 }
 
+/**
+ * Regras de validação de uma coluna. Valores vazios só são checados por
+ * `required`.
+ */
+export interface ColumnRules {
+  required?: boolean
+  /** Sem valores repetidos na coluna */
+  unique?: boolean
+  /** Mínimo e máximo: números, ou datas ISO ("2024-01-31") em colunas de data */
+  min?: number | string
+  max?: number | string
+  /** Expressão regular que o texto do valor deve atender por inteiro */
+  pattern?: string
+  /** Valores aceitos (comparados como texto) */
+  allowedValues?: string[]
+  /**
+   * Expressão que deve resultar em VERDADEIRO, com as colunas da linha pelo
+   * nome da chave (ex.: "data_fim >= data_inicio")
+   */
+  expression?: string
+  /** Mensagem exibida quando a expressão falha */
+  message?: string
+}
+
+/**
+ * Regra violada por um valor
+ */
+export type ValidationRule = 'required' | 'unique' | 'min' | 'max' | 'pattern' | 'allowedValues' | 'expression'
+
+export interface ValidationViolation {
+  rowId: string
+  /** Linha original (0-based), como em DataRow._rowIndex */
+  rowIndex: number
+  columnKey: string
+  rule: ValidationRule
+  message: string
+}
+
 /**
  * Definição de uma coluna no schema
  */
 export interface ColumnDefinition {
   key: string
   label: string
+  /** Texto original do cabeçalho no arquivo (a chave é um slug gerado dele) */
+  header?: string
+  /** Outros cabeçalhos que correspondem a esta coluna ao aplicar o schema */
+  aliases?: string[]
   format: ColumnFormat
+  rules?: ColumnRules
+  /**
+   * Coluna calculada: expressão com as outras colunas pelo nome da chave
+   * (ex.: "(preco - custo) / preco"). O valor do arquivo é ignorado.
+   */
+  expression?: string
   sortable?: boolean
   filterable?: boolean
   searchable?: boolean
@@ -60,7 +118,8 @@ export interface DataSchema {
   name: string
   description?: string
   columns: ColumnDefinition[]
-  primaryKey?: string
+  /** Coluna (ou colunas, em chave composta) que identifica cada linha */
+  primaryKey?: string | string[]
   defaultSort?: {
     column: string
     direction: 'asc' | 'desc'
@@ -123,22 +182,80 @@ export interface CompanyConfig {
 export type CellValue = string | number | boolean | Date | null | undefined
 
 export interface DataRow {
-  _id: string // ID único gerado internamente
+  _id: string // ID estável: da chave primária ou do conteúdo da linha
   _rowIndex: number
   [key: string]: CellValue | number | string
 }
 
+/**
+ * Célula mesclada preservada como rowSpan/colSpan
+ */
+export interface CellSpan {
+  rowIndex: number // _rowIndex da linha inicial
+  columnKey: string
+  rowSpan: number
+  colSpan: number
+}
+
+/**
+ * Fórmula de uma célula de dados (texto com "=", como no Excel)
+ */
+export interface CellFormula {
+  rowIndex: number // _rowIndex da linha
+  columnKey: string
+  formula: string
+}
+
+/**
+ * Fórmulas da planilha e a correspondência entre endereços A1 e os dados
+ */
+export interface SheetFormulas {
+  /** Linha e coluna (0-based) da planilha onde começam os dados */
+  origin: { row: number; col: number }
+  /** Chave de cada coluna da planilha, a partir de origin.col */
+  columns: string[]
+  cells: CellFormula[]
+  /** Valores fora da área de dados (ex.: parâmetros acima da tabela), por endereço A1 */
+  constants?: Record<string, CellValue>
+}
+
 export interface ProcessedData {
   schema: DataSchema
   rows: DataRow[]
+  merges?: CellSpan[]
+  formulas?: SheetFormulas
+  /** Violações das regras de validação do schema */
+  violations?: ValidationViolation[]
   metadata: {
     totalRows: number
     processedAt: Date
     sourceFileName?: string
+    sheetName?: string
     warnings?: string[]
   }
 }
 
+// ============================================
+// PLANILHAS (PASTA DE TRABALHO)
+// ============================================
+
+/**
+ * Visibilidade de uma planilha no Excel
+ */
+export type SheetVisibility = 'visible' | 'hidden' | 'veryHidden'
+
+/**
+ * Informações de uma planilha da pasta de trabalho
+ */
+export interface SheetInfo {
+  name: string
+  index: number
+  visibility: SheetVisibility
+  rowCount: number
+  columnCount: number
+  range?: string
+}
+
 // ============================================
 // ESTADO DA TABELA
 // ============================================
@@ -170,25 +287,57 @@ export interface TableState {
   groupBy?: string
 }
 
+/**
+ * Planilha carregada, com dados e estado de tabela próprios
+ */
+export interface WorkbookSheet {
+  info: SheetInfo
+  data: ProcessedData
+  tableState: TableState
+}
+
 // ============================================
 // VALIDAÇÃO COM ZOD
 // ============================================
 
 export const ColumnFormatSchema = z.object({
-  type: z.enum(['string', 'number', 'currency', 'percentage', 'date', 'datetime', 'boolean', 'email', 'url', 'phone', 'image', 'badge', 'progress']),
+  type: z.enum(['string', 'number', 'integer', 'currency', 'percentage', 'date', 'datetime', 'time', 'duration', 'boolean', 'email', 'url', 'phone', 'image', 'badge', 'progress', 'cpf', 'cnpj', 'cep', 'plate']),
   locale: z.string().optional(),
   currency: z.string().optional(),
   decimals: z.number().optional(),
   dateFormat: z.string().optional(),
+  timeZone: z.string().optional(),
   prefix: z.string().optional(),
   suffix: z.string().optional(),
   badgeColors: z.record(z.object({ bg: z.string(), text: z.string() })).optional(),
 })
 
+export const ColumnRulesSchema = z.object({
+  required: z.boolean().optional(),
+  unique: z.boolean().optional(),
+  min: z.union([z.number(), z.string()]).optional(),
+  max: z.union([z.number(), z.string()]).optional(),
+  pattern: z.string().refine((pattern) => {
+    try {
+      new RegExp(pattern)
+      return true
+    } catch {
+      return false
+    }
+  }, 'Expressão regular inválida').optional(),
+  allowedValues: z.array(z.string()).optional(),
+  expression: z.string().optional(),
+  message: z.string().optional(),
+})
+
 export const ColumnDefinitionSchema = z.object({
   key: z.string(),
   label: z.string(),
+  header: z.string().optional(),
+  aliases: z.array(z.string()).optional(),
   format: ColumnFormatSchema,
+  rules: ColumnRulesSchema.optional(),
+  expression: z.string().optional(),
   sortable: z.boolean().optional(),
   filterable: z.boolean().optional(),
   searchable: z.boolean().optional(),
@@ -203,7 +352,7 @@ export const DataSchemaSchema = z.object({
   name: z.string(),
   description: z.string().optional(),
   columns: z.array(ColumnDefinitionSchema),
-  primaryKey: z.string().optional(),
+  primaryKey: z.union([z.string(), z.array(z.string()).min(1)]).optional(),
   defaultSort: z.object({
     column: z.string(),
     direction: z.enum(['asc', 'desc']),